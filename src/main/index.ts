@@ -1,5 +1,5 @@
 import { app, shell, BrowserWindow, ipcMain, dialog, Tray, Menu, nativeImage } from 'electron'
-import { join } from 'path'
+import { join, dirname } from 'path'
 import { existsSync, readFileSync } from 'fs'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import Store from 'electron-store'
@@ -12,7 +12,17 @@ import * as googleSheets from './services/googleSheets'
 import * as gmail from './services/gmail'
 import * as fileWatcher from './services/fileWatcher'
 import * as emailWatcher from './services/emailWatcher'
-import { initRuleProcessor } from './services/ruleProcessor'
+import { initRuleProcessor, compileRules } from './services/ruleProcessor'
+import { undoService } from './services/undoService'
+import * as trashRetention from './services/trashRetention'
+import * as ruleTestBench from './services/ruleTestBench'
+import * as pathSandbox from './services/pathSandbox'
+import * as permissionPolicy from './services/permissionPolicy'
+import * as storageAnalyzer from './services/storageAnalyzer'
+import * as storageHistory from './services/storageHistory'
+import * as categoryTaxonomy from './services/categoryTaxonomy'
+import * as conversationStore from './services/conversationStore'
+import { findSimilarImages, getImageThumbnail } from './services/gemini/vision'
 import { config } from 'dotenv'
 
 config()
@@ -327,6 +337,8 @@ ipcMain.handle('select-folder', async () => {
     properties: ['openDirectory']
   })
   if (result.canceled) return null
+  // Picking a folder in the system dialog is what grants access to it
+  await pathSandbox.grantRoot(result.filePaths[0])
   return result.filePaths[0]
 })
 
@@ -334,68 +346,121 @@ ipcMain.handle('get-app-version', () => app.getVersion())
 
 // File system - Read operations
 ipcMain.handle('fs:list-dir', async (_, dirPath: string) => {
+  await pathSandbox.assertGranted([dirPath], 'List folder')
   return await fileSystem.readDirectory(dirPath, 0, 1)
 })
 
 ipcMain.handle('fs:expand-dir', async (_, dirPath: string) => {
+  await pathSandbox.assertGranted([dirPath], 'List folder')
   return await fileSystem.readDirectory(dirPath, 0, 0)
 })
 
 ipcMain.handle('fs:read-file', async (_, filePath: string) => {
+  await pathSandbox.assertGranted([filePath], 'Read file')
   return await fileSystem.readFile(filePath)
 })
 
 ipcMain.handle('fs:read-file-buffer', async (_, filePath: string) => {
+  await pathSandbox.assertGranted([filePath], 'Read file')
   const buffer = await fileSystem.readFileBuffer(filePath)
   return buffer.toString('base64')
 })
 
 ipcMain.handle('fs:get-file-info', async (_, filePath: string) => {
+  await pathSandbox.assertGranted([filePath], 'Get file info')
   return await fileSystem.getFileInfo(filePath)
 })
 
 ipcMain.handle('fs:path-exists', async (_, filePath: string) => {
+  await pathSandbox.assertGranted([filePath], 'Check path')
   return await fileSystem.pathExists(filePath)
 })
 
 ipcMain.handle('fs:get-dir-size', async (_, dirPath: string) => {
+  await pathSandbox.assertGranted([dirPath], 'Get folder size')
   return await fileSystem.getDirectorySize(dirPath)
 })
 
 // File system - Write operations
-ipcMain.handle('fs:get-default-path', () => {
-  return join(process.cwd(), 'Momentum Results')
+ipcMain.handle('fs:get-default-path', async () => {
+  // The app's own results folder is always usable
+  const defaultPath = join(process.cwd(), 'Momentum Results')
+  await pathSandbox.grantRoot(defaultPath)
+  return defaultPath
 })
 
 ipcMain.handle('fs:write-file', async (_, filePath: string, content: string) => {
+  const violation = await pathSandbox.checkPaths([filePath], 'Write file')
+  if (violation) return pathSandbox.toSandboxResult(violation)
   return await fileSystem.writeFile(filePath, content)
 })
 
 ipcMain.handle('fs:create-folder', async (_, folderPath: string) => {
+  const violation = await pathSandbox.checkPaths([folderPath], 'Create folder')
+  if (violation) return pathSandbox.toSandboxResult(violation)
   return await fileSystem.createFolder(folderPath)
 })
 
 ipcMain.handle('fs:delete-file', async (_, filePath: string) => {
+  const violation = await pathSandbox.checkPaths([filePath], 'Delete')
+  if (violation) return pathSandbox.toSandboxResult(violation)
   return await fileSystem.deleteFile(filePath)
 })
 
 ipcMain.handle('fs:permanent-delete', async (_, filePath: string) => {
+  const violation = await pathSandbox.checkPaths([filePath], 'Permanently delete')
+  if (violation) return pathSandbox.toSandboxResult(violation)
   return await fileSystem.permanentDelete(filePath)
 })
 
-ipcMain.handle('fs:move-file', async (_, sourcePath: string, destPath: string) => {
-  return await fileSystem.moveFile(sourcePath, destPath)
-})
+// With the 'review' policy the replacement waits in the Review panel instead
+async function queueReviewedOverwrite(
+  transfer: 'move' | 'copy' | 'rename',
+  sourcePath: string,
+  result: fileSystem.OperationResult
+): Promise<fileSystem.OperationResult> {
+  const conflict = (result.data as fileSystem.TransferData | undefined)?.conflict
+  if (conflict?.outcome === 'needs-review') {
+    const action = await pendingActions.queueOverwrite(transfer, sourcePath, conflict.existingPath)
+    mainWindow?.webContents.send('pending:new-action', action)
+  }
+  return result
+}
 
-ipcMain.handle('fs:rename-file', async (_, filePath: string, newName: string) => {
-  return await fileSystem.renameFile(filePath, newName)
-})
+ipcMain.handle(
+  'fs:move-file',
+  async (_, sourcePath: string, destPath: string, policy?: fileSystem.ConflictPolicy) => {
+    const violation = await pathSandbox.checkPaths([sourcePath, destPath], 'Move')
+    if (violation) return pathSandbox.toSandboxResult(violation)
+    const result = await fileSystem.moveFile(sourcePath, destPath, policy)
+    return await queueReviewedOverwrite('move', sourcePath, result)
+  }
+)
 
-ipcMain.handle('fs:copy-file', async (_, sourcePath: string, destPath: string) => {
-  return await fileSystem.copyFile(sourcePath, destPath)
-})
+ipcMain.handle(
+  'fs:rename-file',
+  async (_, filePath: string, newName: string, policy?: fileSystem.ConflictPolicy) => {
+    const violation = await pathSandbox.checkPaths(
+      [filePath, join(dirname(filePath), newName)],
+      'Rename'
+    )
+    if (violation) return pathSandbox.toSandboxResult(violation)
+    const result = await fileSystem.renameFile(filePath, newName, policy)
+    return await queueReviewedOverwrite('rename', filePath, result)
+  }
+)
+
+ipcMain.handle(
+  'fs:copy-file',
+  async (_, sourcePath: string, destPath: string, policy?: fileSystem.ConflictPolicy) => {
+    const violation = await pathSandbox.checkPaths([sourcePath, destPath], 'Copy')
+    if (violation) return pathSandbox.toSandboxResult(violation)
+    const result = await fileSystem.copyFile(sourcePath, destPath, policy)
+    return await queueReviewedOverwrite('copy', sourcePath, result)
+  }
+)
 
-// Trash operations
+// Trash operations work on the app's own trash folder, which sits outside the sandbox
 ipcMain.handle('fs:get-trash', async () => {
   return await fileSystem.getTrashContents()
 })
@@ -405,7 +470,145 @@ ipcMain.handle('fs:restore-from-trash', async (_, trashPath: string) => {
 })
 
 ipcMain.handle('fs:empty-trash', async () => {
-  return await fileSystem.emptyTrash()
+  return await trashRetention.emptyTrash()
+})
+
+// ============ Path Sandbox Handlers ============
+
+ipcMain.handle('sandbox:get-roots', () => {
+  return pathSandbox.getGrantedRoots()
+})
+
+// Revoking only ever narrows access, so the renderer may do it freely
+ipcMain.handle('sandbox:revoke-root', async (_, folder: string) => {
+  await pathSandbox.revokeRoot(folder)
+})
+
+// ============ Permission Policy Handlers ============
+
+ipcMain.handle('permissions:get', () => {
+  return { tools: permissionPolicy.GOVERNED_TOOLS, policies: permissionPolicy.getPolicies() }
+})
+
+ipcMain.handle(
+  'permissions:set',
+  (_, tool: string, mode: permissionPolicy.PermissionMode, folder?: string) => {
+    return permissionPolicy.setPolicy(tool, mode, folder)
+  }
+)
+
+ipcMain.handle('permissions:remove', (_, tool: string, folder?: string) => {
+  permissionPolicy.removePolicy(tool, folder)
+})
+
+// ============ Storage Handlers ============
+
+ipcMain.handle(
+  'storage:analyze',
+  async (_, folderPath: string, maxDepth?: number, force?: boolean) => {
+    await pathSandbox.assertGranted([folderPath], 'Analyze storage')
+    return await storageAnalyzer.analyzeStorage(folderPath, maxDepth, { force })
+  }
+)
+
+ipcMain.handle('storage:get-history', async (_, folderPath: string, maxDepth?: number) => {
+  await pathSandbox.assertGranted([folderPath], 'Storage history')
+  return await storageHistory.getHistory(folderPath, maxDepth)
+})
+
+ipcMain.handle('storage:find-duplicates', async (_, folderPath: string, maxDepth?: number) => {
+  await pathSandbox.assertGranted([folderPath], 'Find duplicates')
+  return await storageAnalyzer.findDuplicates(folderPath, maxDepth)
+})
+
+ipcMain.handle(
+  'storage:find-similar-images',
+  async (_, folderPath: string, threshold?: number, maxDepth?: number) => {
+    await pathSandbox.assertGranted([folderPath], 'Find similar images')
+    return await findSimilarImages(folderPath, threshold, maxDepth)
+  }
+)
+
+ipcMain.handle('storage:image-thumbnail', async (_, imagePath: string) => {
+  await pathSandbox.assertGranted([imagePath], 'Image preview')
+  return await getImageThumbnail(imagePath)
+})
+
+// ============ Category Taxonomy Handlers ============
+
+ipcMain.handle('categories:get', () => {
+  return {
+    categories: categoryTaxonomy.getCategories(),
+    fallback: categoryTaxonomy.FALLBACK_CATEGORY
+  }
+})
+
+ipcMain.handle('categories:update', (_, categories: categoryTaxonomy.FileCategory[]) => {
+  return categoryTaxonomy.updateCategories(categories)
+})
+
+ipcMain.handle('categories:reset', () => {
+  return categoryTaxonomy.resetCategories()
+})
+
+// ============ Conversation Handlers ============
+
+ipcMain.handle('conversations:list', (_, folderPath: string) => {
+  return conversationStore.listConversations(folderPath)
+})
+
+ipcMain.handle('conversations:get', (_, id: string) => {
+  return conversationStore.getConversation(id)
+})
+
+ipcMain.handle(
+  'conversations:save',
+  (_, id: string, folderPath: string, messages: conversationStore.StoredMessage[]) => {
+    return conversationStore.saveConversation(id, folderPath, messages)
+  }
+)
+
+ipcMain.handle('conversations:rename', (_, id: string, title: string) => {
+  return conversationStore.renameConversation(id, title)
+})
+
+ipcMain.handle('conversations:delete', (_, id: string) => {
+  return conversationStore.deleteConversation(id)
+})
+
+ipcMain.handle('conversations:search', (_, query: string, folderPath: string) => {
+  return conversationStore.searchConversations(query, folderPath)
+})
+
+// ============ Trash Retention Handlers ============
+
+ipcMain.handle('trash:get-groups', () => {
+  return trashRetention.getTrashGroups()
+})
+
+ipcMain.handle('trash:purge-item', async (_, trashPath: string) => {
+  return await trashRetention.purgeTrashItem(trashPath)
+})
+
+ipcMain.handle('trash:get-settings', () => {
+  return trashRetention.getRetentionSettings()
+})
+
+ipcMain.handle(
+  'trash:update-settings',
+  (_, updates: Partial<trashRetention.TrashRetentionSettings>) => {
+    const settings = trashRetention.updateRetentionSettings(updates)
+    trashRetention.startTrashSweeper()
+    return settings
+  }
+)
+
+ipcMain.handle('trash:sweep-now', () => {
+  return trashRetention.sweepTrash()
+})
+
+ipcMain.handle('trash:get-purge-log', (_, limit?: number) => {
+  return trashRetention.getPurgeLog(limit)
 })
 
 // ============ Gemini / Agent Handlers ============
@@ -426,12 +629,31 @@ ipcMain.handle(
     messages: gemini.ChatMessage[],
     grantedFolders: string[],
     selectedFiles?: string[],
-    isDirectory?: boolean
+    isDirectory?: boolean,
+    planFirst?: boolean
   ) => {
-    return await gemini.chatStream(messages, grantedFolders, mainWindow, selectedFiles, isDirectory)
+    // The renderer's folder list is only a request; the main process decides what is granted
+    const allowedFolders = await pathSandbox.filterGranted(grantedFolders)
+    return await gemini.chatStream(
+      messages,
+      allowedFolders,
+      mainWindow,
+      selectedFiles,
+      isDirectory,
+      planFirst
+    )
   }
 )
 
+// Steps come back edited from the renderer; executeTool still checks every path
+ipcMain.handle('agent:run-plan', async (_, summary: string, steps: gemini.PlannedStep[]) => {
+  return await gemini.runPlan(summary, steps, mainWindow)
+})
+
+ipcMain.handle('agent:cancel', () => {
+  return gemini.cancelChat()
+})
+
 ipcMain.handle('agent:test', async () => {
   return await gemini.testConnection()
 })
@@ -441,13 +663,15 @@ ipcMain.handle('agent:get-metrics', () => {
 })
 
 // Undo operations
-ipcMain.handle('undo:get-recent', () => {
-  // Use dynamic import for TypeScript files
-  return import('./services/undoService').then(m => m.undoService.getRecentOperations(10))
+ipcMain.handle('undo:get-recent', (_, count?: number) => {
+  return undoService.getRecentOperations(count ?? 10)
+})
+
+ipcMain.handle('undo:get-history', () => {
+  return undoService.getHistory()
 })
 
 ipcMain.handle('undo:execute', async (_, operationId: string) => {
-  const undoService = (await import('./services/undoService')).undoService
   const result = await undoService.undoOperation(operationId)
   if (result.success) {
     mainWindow?.webContents.send('fs:changed')
@@ -455,6 +679,25 @@ ipcMain.handle('undo:execute', async (_, operationId: string) => {
   return result
 })
 
+ipcMain.handle('undo:preview-transaction', (_, transactionId: string) => {
+  return undoService.previewTransaction(transactionId)
+})
+
+ipcMain.handle(
+  'undo:undo-transaction',
+  async (_, transactionId: string, options?: { skipConflicts?: boolean }) => {
+    const result = await undoService.undoTransaction(transactionId, options)
+    if (result.undone > 0) {
+      mainWindow?.webContents.send('fs:changed')
+    }
+    return result
+  }
+)
+
+ipcMain.handle('undo:clear', () => {
+  return undoService.clearHistory()
+})
+
 ipcMain.handle('agent:reset-metrics', () => {
   gemini.resetMetrics()
 })
@@ -474,10 +717,12 @@ ipcMain.handle('pending:get-size', () => {
 })
 
 ipcMain.handle('pending:queue-deletion', async (_, filePath: string, reason?: string) => {
+  await pathSandbox.assertGranted([filePath], 'Queue deletion')
   return await pendingActions.queueDeletion(filePath, reason)
 })
 
 ipcMain.handle('pending:queue-multiple', async (_, filePaths: string[], reason?: string) => {
+  await pathSandbox.assertGranted(filePaths, 'Queue deletion')
   return await pendingActions.queueMultipleDeletions(filePaths, reason)
 })
 
@@ -493,6 +738,20 @@ ipcMain.handle('pending:execute-selected', async (_, actionIds: string[]) => {
   return await pendingActions.executeSelectedActions(actionIds)
 })
 
+// Approve a waiting tool call, optionally remembering the decision
+ipcMain.handle(
+  'pending:approve-tool',
+  async (_, actionId: string, scope: 'once' | 'folder' | 'always') => {
+    const action = pendingActions.getPendingActions().find((a) => a.id === actionId)
+    if (action?.toolName && scope === 'always') {
+      permissionPolicy.setPolicy(action.toolName, 'allow')
+    } else if (action?.toolName && scope === 'folder' && action.folder) {
+      permissionPolicy.setPolicy(action.toolName, 'allow', action.folder)
+    }
+    return await pendingActions.executeAction(actionId)
+  }
+)
+
 ipcMain.handle('pending:remove-one', (_, actionId: string) => {
   return pendingActions.removeAction(actionId)
 })
@@ -559,7 +818,10 @@ ipcMain.handle('watcher:start', async (_, config: fileWatcher.AgentConfig) => {
   if (!mainWindow) {
     return { success: false, error: 'Main window not available' }
   }
-  const result = fileWatcher.startWatcher(config, mainWindow)
+  // Watch folders come from the renderer; only folders already granted can be watched
+  const violation = await pathSandbox.checkPaths(config.watchFolders ?? [], 'Watch folder')
+  if (violation) return pathSandbox.toSandboxResult(violation)
+  const result = await fileWatcher.startWatcher(config, mainWindow)
   updateTrayMenu()
   return result
 })
@@ -604,6 +866,43 @@ ipcMain.handle('watcher:update-rules', (_, watcherId: string, rules: fileWatcher
   return fileWatcher.updateRules(watcherId, rules)
 })
 
+ipcMain.handle('watcher:compile-rules', async (_, rules: fileWatcher.AgentRule[]) => {
+  try {
+    return { success: true, compiled: await compileRules(rules) }
+  } catch (error) {
+    console.error('[RULE PROCESSOR] Compile failed:', error)
+    return { success: false, error: String(error) }
+  }
+})
+
+// Files a rule test reads, as given by the renderer
+const ruleTestPaths = (target: ruleTestBench.RuleTestTarget): string[] => [
+  ...(target?.folderPath ? [target.folderPath] : []),
+  ...(target?.filePaths ?? [])
+]
+
+ipcMain.handle(
+  'watcher:test-rules',
+  async (_, target: ruleTestBench.RuleTestTarget, rules: fileWatcher.AgentRule[]) => {
+    await pathSandbox.assertGranted(ruleTestPaths(target), 'Test rules')
+    return await ruleTestBench.runRuleTest(target, rules)
+  }
+)
+
+ipcMain.handle(
+  'watcher:save-test-fixture',
+  async (_, run: ruleTestBench.RuleTestRun, name: string) => {
+    // A fixture records the files to test again, so it may only name granted ones
+    const violation = await pathSandbox.checkPaths(ruleTestPaths(run?.target), 'Save test fixture')
+    if (violation) return pathSandbox.toSandboxResult(violation)
+    return await ruleTestBench.saveFixture(run, name)
+  }
+)
+
+ipcMain.handle('watcher:set-dry-run', (_, watcherId: string, dryRun: boolean) => {
+  return fileWatcher.setDryRun(watcherId, dryRun)
+})
+
 // ============ Email Watcher Handlers ============
 
 ipcMain.handle('email:start-watcher', (_, config: emailWatcher.EmailWatcherConfig) => {
@@ -707,9 +1006,19 @@ app.whenReady().then(() => {
 
   // Initialize Email Watcher Service (loads persistent watchers)
   emailWatcher.initEmailService(mainWindow!)
-  
+
+  // Load the undo journal before watchers start moving files
+  undoService
+    .init(mainWindow)
+    .catch((err) => console.error('[MAIN] Undo journal init failed:', err))
+
   // Initialize File Watcher Service (loads persistent watchers/orbits)
-  fileWatcher.initFileWatcherService(mainWindow!)
+  fileWatcher
+    .initFileWatcherService(mainWindow!)
+    .catch((err) => console.error('[MAIN] File watcher init failed:', err))
+
+  // Enforce trash retention and size limits in the background
+  trashRetention.startTrashSweeper()
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -730,4 +1039,5 @@ app.on('window-all-closed', () => {
 app.on('before-quit', () => {
   isQuitting = true
   fileWatcher.stopAllWatchers()
+  trashRetention.stopTrashSweeper()
 })
@@ -9,7 +9,17 @@ export interface ActivityEntry {
   timestamp: string
   originalName: string
   originalPath: string
-  action: 'moved' | 'renamed' | 'skipped' | 'error'
+  action:
+    | 'moved'
+    | 'renamed'
+    | 'copied'
+    | 'would-move'
+    | 'would-rename'
+    | 'would-copy'
+    | 'would-delete'
+    | 'queued'
+    | 'skipped'
+    | 'error'
   destination?: string
   newName?: string
   matchedRule?: number | null
@@ -0,0 +1,251 @@
+import Store from 'electron-store'
+
+// ============ Types ============
+
+export interface FileCategory {
+  name: string
+  extensions: string[] // Lowercase, without the dot
+  color: string // Used by the Storage panel charts
+  folderName: string // Folder the organizer moves these files into
+}
+
+// ============ Defaults ============
+
+// Anything no category claims; not editable, so every file always has a category
+export const FALLBACK_CATEGORY = 'Other'
+const FALLBACK_COLOR = '#6b7280'
+
+export const DEFAULT_CATEGORIES: FileCategory[] = [
+  {
+    name: 'Images',
+    extensions: [
+      'jpg',
+      'jpeg',
+      'png',
+      'gif',
+      'webp',
+      'svg',
+      'bmp',
+      'ico',
+      'heic',
+      'heif',
+      'tiff',
+      'raw'
+    ],
+    color: '#8b5cf6',
+    folderName: 'Images'
+  },
+  {
+    name: 'Documents',
+    extensions: ['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt', 'pages'],
+    color: '#3b82f6',
+    folderName: 'Documents'
+  },
+  {
+    name: 'Spreadsheets',
+    extensions: ['xlsx', 'xls', 'csv', 'numbers', 'ods'],
+    color: '#10b981',
+    folderName: 'Spreadsheets'
+  },
+  {
+    name: 'Presentations',
+    extensions: ['ppt', 'pptx', 'key', 'odp'],
+    color: '#f97316',
+    folderName: 'Presentations'
+  },
+  {
+    name: 'Code',
+    extensions: [
+      'js',
+      'ts',
+      'jsx',
+      'tsx',
+      'py',
+      'java',
+      'cpp',
+      'c',
+      'h',
+      'cs',
+      'go',
+      'rs',
+      'rb',
+      'php',
+      'swift',
+      'kt'
+    ],
+    color: '#06b6d4',
+    folderName: 'Code'
+  },
+  {
+    name: 'Web',
+    extensions: ['html', 'css', 'scss', 'sass', 'less', 'vue', 'svelte'],
+    color: '#14b8a6',
+    folderName: 'Web'
+  },
+  {
+    name: 'Data',
+    extensions: ['json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'env', 'sql'],
+    color: '#64748b',
+    folderName: 'Data'
+  },
+  {
+    name: 'Archives',
+    extensions: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'],
+    color: '#f59e0b',
+    folderName: 'Archives'
+  },
+  {
+    name: 'Videos',
+    extensions: ['mp4', 'mov', 'avi', 'mkv', 'wmv', 'flv', 'webm', 'm4v'],
+    color: '#ef4444',
+    folderName: 'Videos'
+  },
+  {
+    name: 'Audio',
+    extensions: ['mp3', 'wav', 'flac', 'aac', 'm4a', 'ogg', 'wma'],
+    color: '#ec4899',
+    folderName: 'Audio'
+  },
+  {
+    name: 'Fonts',
+    extensions: ['ttf', 'otf', 'woff', 'woff2', 'eot'],
+    color: '#a3a3a3',
+    folderName: 'Fonts'
+  },
+  {
+    name: 'Design',
+    extensions: ['psd', 'ai', 'sketch', 'fig', 'xd', 'indd'],
+    color: '#d946ef',
+    folderName: 'Design'
+  },
+  {
+    name: 'Ebooks',
+    extensions: ['epub', 'mobi', 'azw', 'azw3'],
+    color: '#eab308',
+    folderName: 'Ebooks'
+  },
+  {
+    name: 'Markdown',
+    extensions: ['md', 'mdx', 'markdown'],
+    color: '#0ea5e9',
+    folderName: 'Markdown'
+  },
+  {
+    name: 'Executables',
+    extensions: ['exe', 'msi', 'dmg', 'pkg', 'app', 'deb', 'rpm'],
+    color: '#84cc16',
+    folderName: 'Executables'
+  }
+]
+
+// ============ Persistence ============
+
+const store = new Store({
+  name: 'momentum-categories',
+  encryptionKey: 'momentum-secure-key-2026'
+})
+
+// Looked up for every file in a scan, so kept in memory and dropped after each edit
+let cachedCategories: FileCategory[] | null = null
+let extensionLookup: Map<string, FileCategory> | null = null
+
+export function getCategories(): FileCategory[] {
+  if (!cachedCategories) {
+    cachedCategories = (store.get('categories') as FileCategory[] | undefined) ?? DEFAULT_CATEGORIES
+  }
+  return cachedCategories
+}
+
+function clearCache(): void {
+  cachedCategories = null
+  extensionLookup = null
+}
+
+function normalizeExtension(ext: string): string {
+  return ext.trim().toLowerCase().replace(/^\./, '')
+}
+
+/**
+ * Tidy an edited taxonomy: names must be unique, an extension belongs to the first
+ * category that lists it, and folder names can't point outside the organized folder
+ */
+function sanitizeCategories(categories: FileCategory[]): FileCategory[] {
+  const names = new Set<string>([FALLBACK_CATEGORY.toLowerCase()])
+  const claimed = new Set<string>()
+  const result: FileCategory[] = []
+
+  for (const category of categories) {
+    const name = category.name.trim()
+    if (!name || names.has(name.toLowerCase())) continue
+    names.add(name.toLowerCase())
+
+    const extensions = category.extensions
+      .map(normalizeExtension)
+      .filter((ext) => ext && !claimed.has(ext))
+    extensions.forEach((ext) => claimed.add(ext))
+
+    const folderName = category.folderName.replace(/[/\\]/g, '').trim()
+    result.push({
+      name,
+      extensions: [...new Set(extensions)],
+      color: /^#[0-9a-f]{6}$/i.test(category.color) ? category.color : FALLBACK_COLOR,
+      folderName: folderName && folderName !== '.' && folderName !== '..' ? folderName : name
+    })
+  }
+
+  return result
+}
+
+export function updateCategories(categories: FileCategory[]): FileCategory[] {
+  const sanitized = sanitizeCategories(categories)
+  store.set('categories', sanitized)
+  clearCache()
+  console.log(`[CATEGORIES] Saved ${sanitized.length} categories`)
+  return sanitized
+}
+
+export function resetCategories(): FileCategory[] {
+  store.delete('categories')
+  clearCache()
+  console.log('[CATEGORIES] Reset to defaults')
+  return DEFAULT_CATEGORIES
+}
+
+// ============ Lookup ============
+
+function findByExtension(ext: string): FileCategory | undefined {
+  if (!extensionLookup) {
+    extensionLookup = new Map()
+    for (const category of getCategories()) {
+      for (const extension of category.extensions) extensionLookup.set(extension, category)
+    }
+  }
+  return extensionLookup.get(normalizeExtension(ext))
+}
+
+function findByName(name: string): FileCategory | undefined {
+  return getCategories().find((c) => c.name === name)
+}
+
+export function getCategoryForExtension(ext: string): string {
+  return findByExtension(ext)?.name ?? FALLBACK_CATEGORY
+}
+
+export function getCategoryColor(category: string): string {
+  return findByName(category)?.color ?? FALLBACK_COLOR
+}
+
+export function getCategoryFolder(category: string): string {
+  return findByName(category)?.folderName ?? category
+}
+
+/**
+ * The taxonomy as prompt lines ("- Documents: pdf, docx"), so models map file types
+ * the same way the organizer does
+ */
+export function describeCategories(): string {
+  return getCategories()
+    .filter((c) => c.extensions.length > 0)
+    .map((c) => `- ${c.name}: ${c.extensions.join(', ')}`)
+    .join('\n')
+}
@@ -0,0 +1,244 @@
+import Store from 'electron-store'
+
+// ============ Types ============
+
+export interface StoredToolCall {
+  name: string
+  args: Record<string, string>
+}
+
+export interface StoredMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+  toolCalls?: StoredToolCall[] // Results are left out; the chat only shows which tools ran
+  isError?: boolean
+}
+
+export interface Conversation {
+  id: string
+  folderPath: string // Working folder the conversation belongs to ('' before any was granted)
+  title: string
+  createdAt: string
+  updatedAt: string
+  messages: StoredMessage[]
+}
+
+export interface ConversationSummary {
+  id: string
+  folderPath: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+  preview: string // Start of the last message
+}
+
+export interface ConversationSearchHit {
+  conversationId: string
+  title: string
+  messageId: string
+  role: 'user' | 'assistant'
+  snippet: string
+  timestamp: string
+}
+
+// ============ Constants ============
+
+const MAX_CONVERSATIONS = 500
+const TITLE_LENGTH = 60
+const PREVIEW_LENGTH = 80
+const SNIPPET_RADIUS = 40
+const MAX_SEARCH_HITS = 50
+
+// ============ Persistence ============
+
+const store = new Store({
+  name: 'momentum-conversations',
+  encryptionKey: 'momentum-secure-key-2026'
+})
+
+// Saved after every message, so kept in memory instead of decrypting the file each time
+let cachedConversations: Conversation[] | null = null
+
+function loadConversations(): Conversation[] {
+  if (!cachedConversations) {
+    cachedConversations = (store.get('conversations') as Conversation[] | undefined) ?? []
+  }
+  return cachedConversations
+}
+
+function saveConversations(conversations: Conversation[]): void {
+  cachedConversations = conversations
+  store.set('conversations', conversations)
+}
+
+// ============ Helpers ============
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  const last = conversation.messages[conversation.messages.length - 1]
+  return {
+    id: conversation.id,
+    folderPath: conversation.folderPath,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+    preview: last ? truncate(last.content, PREVIEW_LENGTH) : ''
+  }
+}
+
+// The renderer's messages carry full tool results, which can be whole storage analyses
+function toStoredMessage(message: StoredMessage): StoredMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+    toolCalls: message.toolCalls?.map((call) => ({ name: call.name, args: call.args })),
+    isError: message.isError
+  }
+}
+
+function snippetAround(text: string, index: number, queryLength: number): string {
+  const start = Math.max(index - SNIPPET_RADIUS, 0)
+  const end = Math.min(index + queryLength + SNIPPET_RADIUS, text.length)
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
+}
+
+// ============ Public API ============
+
+/**
+ * Conversations for one working folder, most recently active first
+ */
+export function listConversations(folderPath: string): ConversationSummary[] {
+  return loadConversations()
+    .filter((c) => c.folderPath === folderPath)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary)
+}
+
+export function getConversation(id: string): Conversation | null {
+  return loadConversations().find((c) => c.id === id) ?? null
+}
+
+/**
+ * Create or update a conversation with the renderer's current messages. The title comes
+ * from the first message and is kept until the user renames it.
+ */
+export function saveConversation(
+  id: string,
+  folderPath: string,
+  messages: StoredMessage[]
+): ConversationSummary {
+  const conversations = loadConversations()
+  const now = new Date().toISOString()
+  const existing = conversations.find((c) => c.id === id)
+
+  const conversation: Conversation = existing
+    ? {
+        ...existing,
+        // A chat started before any folder was granted moves to the one granted for it
+        folderPath: existing.folderPath || folderPath,
+        messages: messages.map(toStoredMessage),
+        updatedAt: now
+      }
+    : {
+        id,
+        folderPath,
+        title: truncate(
+          messages.find((m) => m.role === 'user')?.content ?? 'New conversation',
+          TITLE_LENGTH
+        ),
+        createdAt: now,
+        updatedAt: now,
+        messages: messages.map(toStoredMessage)
+      }
+
+  const others = conversations.filter((c) => c.id !== id)
+  // Oldest conversations go first once the cap is reached
+  const kept = others
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_CONVERSATIONS - 1)
+  saveConversations([conversation, ...kept])
+
+  if (!existing) {
+    console.log(`[CONVERSATIONS] Started "${conversation.title}"`)
+  }
+  return toSummary(conversation)
+}
+
+export function renameConversation(id: string, title: string): boolean {
+  const conversations = loadConversations()
+  const conversation = conversations.find((c) => c.id === id)
+  const trimmed = title.trim()
+  if (!conversation || !trimmed) return false
+
+  saveConversations(
+    conversations.map((c) => (c.id === id ? { ...c, title: truncate(trimmed, TITLE_LENGTH) } : c))
+  )
+  return true
+}
+
+export function deleteConversation(id: string): boolean {
+  const conversations = loadConversations()
+  if (!conversations.some((c) => c.id === id)) return false
+
+  saveConversations(conversations.filter((c) => c.id !== id))
+  console.log(`[CONVERSATIONS] Deleted ${id}`)
+  return true
+}
+
+/**
+ * Messages in a folder's conversations containing the query (case-insensitive),
+ * newest conversations first
+ */
+export function searchConversations(query: string, folderPath: string): ConversationSearchHit[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return []
+
+  const hits: ConversationSearchHit[] = []
+  const conversations = loadConversations()
+    .filter((c) => c.folderPath === folderPath)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+  for (const conversation of conversations) {
+    const titleMatch = conversation.title.toLowerCase().includes(needle)
+
+    for (const message of conversation.messages) {
+      const index = message.content.toLowerCase().indexOf(needle)
+      if (index === -1) continue
+      hits.push({
+        conversationId: conversation.id,
+        title: conversation.title,
+        messageId: message.id,
+        role: message.role,
+        snippet: snippetAround(message.content, index, needle.length),
+        timestamp: message.timestamp
+      })
+      if (hits.length >= MAX_SEARCH_HITS) return hits
+    }
+
+    // A title match with no matching message still finds the conversation
+    if (titleMatch && !hits.some((hit) => hit.conversationId === conversation.id)) {
+      const first = conversation.messages[0]
+      hits.push({
+        conversationId: conversation.id,
+        title: conversation.title,
+        messageId: first?.id ?? '',
+        role: first?.role ?? 'user',
+        snippet: first ? truncate(first.content, SNIPPET_RADIUS * 2) : '',
+        timestamp: conversation.updatedAt
+      })
+    }
+  }
+
+  return hits.slice(0, MAX_SEARCH_HITS)
+}
@@ -0,0 +1,225 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { inflateRawSync } from 'zlib'
+
+const execFileAsync = promisify(execFile)
+
+// ============ Constants ============
+
+// Enough for the EXIF block of a JPEG and the start of a PDF
+const HEAD_BYTES = 256 * 1024
+
+// PDFs usually keep the info dictionary near the end, zips their central directory
+const TAIL_BYTES = 256 * 1024
+
+const EXIF_EXTENSIONS = ['jpg', 'jpeg', 'tif', 'tiff', 'dng', 'nef', 'cr2', 'arw']
+const OFFICE_EXTENSIONS = ['docx', 'xlsx', 'pptx']
+
+const SOURCE_LOOKUP_TIMEOUT_MS = 5000
+
+// ============ Reading ============
+
+async function readSlice(filePath: string, position: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, position)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+function parseDate(year: string, month = '01', day = '01'): Date | null {
+  const date = new Date(Number(year), Number(month) - 1, Number(day))
+  // Cameras with no clock set write 0000:00:00
+  return date.getFullYear() >= 1900 && !isNaN(date.getTime()) ? date : null
+}
+
+// ============ Photo Dates (EXIF) ============
+
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+/**
+ * Tags of one TIFF directory as offsets into the TIFF block, keyed by tag number
+ */
+function readIfd(tiff: Buffer, offset: number, littleEndian: boolean): Map<number, number> {
+  const u16 = (at: number): number => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at))
+  const u32 = (at: number): number => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at))
+  const tags = new Map<number, number>()
+
+  if (offset + 2 > tiff.length) return tags
+  const count = u16(offset)
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+    // Dates are 20 ASCII bytes, so their value sits at an offset; pointers are values
+    tags.set(u16(entry), u32(entry + 8))
+  }
+  return tags
+}
+
+function readExifDate(tiff: Buffer): Date | null {
+  if (tiff.length < 8) return null
+  const littleEndian = tiff.toString('ascii', 0, 2) === 'II'
+  const u32 = (at: number): number => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at))
+
+  const ifd0 = readIfd(tiff, u32(4), littleEndian)
+  const exifOffset = ifd0.get(TAG_EXIF_IFD)
+  const exif = exifOffset ? readIfd(tiff, exifOffset, littleEndian) : new Map<number, number>()
+
+  // When the photo was taken beats when it was last edited
+  for (const valueOffset of [exif.get(TAG_DATE_TIME_ORIGINAL), ifd0.get(TAG_DATE_TIME)]) {
+    if (valueOffset === undefined || valueOffset + 19 > tiff.length) continue
+    const match = tiff
+      .toString('ascii', valueOffset, valueOffset + 19)
+      .match(/^(\d{4}):(\d{2}):(\d{2})/)
+    const date = match && parseDate(match[1], match[2], match[3])
+    if (date) return date
+  }
+  return null
+}
+
+function findTiffBlock(buffer: Buffer): Buffer | null {
+  const header = buffer.toString('ascii', 0, 4)
+  if (header === 'II*\0' || header === 'MM\0*') return buffer // TIFF and TIFF-based raw files
+
+  // JPEG: walk the segments to the APP1 one holding "Exif\0\0"
+  if (buffer[0] !== 0xff || buffer[1] !== 0xd8) return null
+  let offset = 2
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1]
+    const length = buffer.readUInt16BE(offset + 2)
+    if (marker === 0xda) break // Image data starts; no metadata after this
+    if (marker === 0xe1 && buffer.toString('ascii', offset + 4, offset + 8) === 'Exif') {
+      return buffer.subarray(offset + 10, offset + 2 + length)
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+// ============ Document Dates ============
+
+function readPdfDate(text: string): Date | null {
+  const match = text.match(/\/CreationDate\s*\(D:(\d{4})(\d{2})?(\d{2})?/)
+  return match ? parseDate(match[1], match[2], match[3]) : null
+}
+
+/**
+ * docProps/core.xml from an Office file, located through the zip's central directory
+ * since the writer may have put it after megabytes of media
+ */
+async function readOfficeCoreXml(filePath: string): Promise<string | null> {
+  const { size } = await fs.stat(filePath)
+  const tail = await readSlice(filePath, Math.max(size - TAIL_BYTES, 0), TAIL_BYTES)
+
+  // The central directory follows the local headers, which repeat the name
+  const nameAt = tail.lastIndexOf('docProps/core.xml')
+  const entryAt = nameAt - 46
+  if (entryAt < 0 || tail.readUInt32LE(entryAt) !== 0x02014b50) return null
+
+  const method = tail.readUInt16LE(entryAt + 10)
+  const compressedSize = tail.readUInt32LE(entryAt + 20)
+  const localHeaderAt = tail.readUInt32LE(entryAt + 42)
+
+  const header = await readSlice(filePath, localHeaderAt, 30)
+  if (header.length < 30 || header.readUInt32LE(0) !== 0x04034b50) return null
+  const dataAt = localHeaderAt + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+
+  const data = await readSlice(filePath, dataAt, compressedSize)
+  try {
+    return (method === 8 ? inflateRawSync(data) : data).toString('utf-8')
+  } catch {
+    return null
+  }
+}
+
+async function readOfficeDate(filePath: string): Promise<Date | null> {
+  const xml = await readOfficeCoreXml(filePath)
+  const match = xml?.match(/<dcterms:created[^>]*>(\d{4})-(\d{2})-(\d{2})/)
+  return match ? parseDate(match[1], match[2], match[3]) : null
+}
+
+// ============ Download Source ============
+
+function hostOf(url: string): string | null {
+  const match = url.match(/^(?:blob:)?https?:\/\/([^/:?#]+)/i)
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : null
+}
+
+/**
+ * Where the OS recorded a download came from: the Zone.Identifier stream on Windows,
+ * kMDItemWhereFroms on macOS, and the xdg origin attribute browsers set on Linux
+ */
+async function readOriginUrl(filePath: string): Promise<string | null> {
+  if (process.platform === 'win32') {
+    const zone = await fs.readFile(`${filePath}:Zone.Identifier`, 'utf-8')
+    return zone.match(/^(?:HostUrl|ReferrerUrl)=(.+)$/m)?.[1].trim() ?? null
+  }
+
+  if (process.platform === 'darwin') {
+    const { stdout } = await execFileAsync(
+      'mdls',
+      ['-raw', '-name', 'kMDItemWhereFroms', filePath],
+      {
+        timeout: SOURCE_LOOKUP_TIMEOUT_MS
+      }
+    )
+    return stdout.match(/"(https?:\/\/[^"]+)"/)?.[1] ?? null
+  }
+
+  const { stdout } = await execFileAsync(
+    'getfattr',
+    ['--only-values', '-n', 'user.xdg.origin.url', filePath],
+    { timeout: SOURCE_LOOKUP_TIMEOUT_MS }
+  )
+  return stdout.trim() || null
+}
+
+// ============ Public API ============
+
+/**
+ * The date a file's content records for itself: when a photo was taken or a document
+ * created. Null when the format has none or the file doesn't say.
+ */
+export async function getContentDate(filePath: string): Promise<Date | null> {
+  const ext = path.extname(filePath).slice(1).toLowerCase()
+  try {
+    if (EXIF_EXTENSIONS.includes(ext)) {
+      const tiff = findTiffBlock(await readSlice(filePath, 0, HEAD_BYTES))
+      return tiff ? readExifDate(tiff) : null
+    }
+
+    if (ext === 'pdf') {
+      const { size } = await fs.stat(filePath)
+      const head = await readSlice(filePath, 0, HEAD_BYTES)
+      const tail = await readSlice(filePath, Math.max(size - TAIL_BYTES, 0), TAIL_BYTES)
+      return readPdfDate(head.toString('latin1')) ?? readPdfDate(tail.toString('latin1'))
+    }
+
+    if (OFFICE_EXTENSIONS.includes(ext)) {
+      return await readOfficeDate(filePath)
+    }
+  } catch (error) {
+    console.warn(`[METADATA] Cannot read date from ${filePath}:`, error)
+  }
+  return null
+}
+
+/**
+ * Host a file was downloaded from (e.g. "github.com"), or null when nothing was recorded
+ */
+export async function getDownloadSource(filePath: string): Promise<string | null> {
+  try {
+    const url = await readOriginUrl(filePath)
+    return url ? hostOf(url) : null
+  } catch {
+    // No attribute, no stream, or the lookup tool isn't installed
+    return null
+  }
+}
@@ -1,42 +1,10 @@
-import * as fs from 'fs/promises'
 import * as path from 'path'
+import * as fileSystem from './fileSystem'
 import * as pendingActions from './pendingActions'
-
-// File category definitions
-export const FILE_CATEGORIES: Record<string, string[]> = {
-  Images: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'ico', 'heic', 'heif', 'tiff', 'raw'],
-  Documents: ['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt', 'pages'],
-  Spreadsheets: ['xlsx', 'xls', 'csv', 'numbers', 'ods'],
-  Presentations: ['ppt', 'pptx', 'key', 'odp'],
-  Code: [
-    'js',
-    'ts',
-    'jsx',
-    'tsx',
-    'py',
-    'java',
-    'cpp',
-    'c',
-    'h',
-    'cs',
-    'go',
-    'rs',
-    'rb',
-    'php',
-    'swift',
-    'kt'
-  ],
-  Web: ['html', 'css', 'scss', 'sass', 'less', 'vue', 'svelte'],
-  Data: ['json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'env', 'sql'],
-  Archives: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'],
-  Videos: ['mp4', 'mov', 'avi', 'mkv', 'wmv', 'flv', 'webm', 'm4v'],
-  Audio: ['mp3', 'wav', 'flac', 'aac', 'm4a', 'ogg', 'wma'],
-  Fonts: ['ttf', 'otf', 'woff', 'woff2', 'eot'],
-  Design: ['psd', 'ai', 'sketch', 'fig', 'xd', 'indd'],
-  Ebooks: ['epub', 'mobi', 'azw', 'azw3'],
-  Markdown: ['md', 'mdx', 'markdown'],
-  Executables: ['exe', 'msi', 'dmg', 'app', 'deb', 'rpm']
-}
+import { undoService } from './undoService'
+import * as storageIndex from './storageIndex'
+import * as categoryTaxonomy from './categoryTaxonomy'
+import * as fileMetadata from './fileMetadata'
 
 // System/junk files that should be flagged for deletion
 export const JUNK_PATTERNS = [
@@ -53,6 +21,32 @@ export const JUNK_PATTERNS = [
   '.TemporaryItems'
 ]
 
+// Prefixes cameras, phones and apps give everything; they say nothing about a project
+const GENERIC_PREFIXES = new Set([
+  'img',
+  'image',
+  'dsc',
+  'dscn',
+  'pxl',
+  'photo',
+  'vid',
+  'video',
+  'screenshot',
+  'screen',
+  'scan',
+  'document',
+  'doc',
+  'file',
+  'untitled',
+  'copy',
+  'new',
+  'final',
+  'draft',
+  'export'
+])
+
+const MIN_PROJECT_FILES = 2
+
 export interface FileInfo {
   name: string
   path: string
@@ -63,11 +57,40 @@ export interface FileInfo {
   isJunk: boolean
 }
 
+// How files are grouped into folders:
+// - category: by the taxonomy's folder for the file type
+// - date: year/month of the file's date
+// - category-date: type folder, then year
+// - project: by a name prefix several files share ("acme-logo.png", "acme brief.pdf")
+// - source: by the site a download came from
+export type OrganizationStrategy = 'category' | 'date' | 'category-date' | 'project' | 'source'
+
+// For date strategies: last modified, or the date a photo was taken / a document created
+export type DateSource = 'modified' | 'content'
+
+export const ORGANIZATION_STRATEGIES: OrganizationStrategy[] = [
+  'category',
+  'date',
+  'category-date',
+  'project',
+  'source'
+]
+
+export interface PlanOptions {
+  includeSubfolders?: boolean
+  strategy?: OrganizationStrategy
+  dateSource?: DateSource
+}
+
 export interface OrganizationPlan {
+  rootPath: string
+  strategy: OrganizationStrategy
+  dateSource: DateSource
+  includeSubfolders: boolean
   totalFiles: number
-  categories: Record<string, FileInfo[]>
+  groups: Record<string, FileInfo[]> // Keyed by destination folder, relative to rootPath
   junkFiles: FileInfo[]
-  uncategorized: FileInfo[]
+  uncategorized: FileInfo[] // Left where they are: the strategy found no folder for them
   actions: OrganizationAction[]
 }
 
@@ -76,7 +99,7 @@ export interface OrganizationAction {
   sourcePath: string
   destinationPath?: string
   fileName: string
-  category?: string
+  group?: string // Destination folder, relative to the organized folder
 }
 
 export interface OrganizationResult {
@@ -86,21 +109,30 @@ export interface OrganizationResult {
   foldersCreated: string[]
   errors: string[]
   summary: Record<string, number>
+  conflicts: Partial<Record<fileSystem.ConflictResolution['outcome'], number>> // Files whose target already existed
+  transactionId?: string // Undo transaction covering this run
+  cancelled?: boolean // Stopped partway; only the counted moves happened
+}
+
+export interface OrganizationOptions {
+  deleteJunk?: boolean
+  dryRun?: boolean
+  conflictPolicy?: fileSystem.ConflictPolicy // When a file of the same name is already in the destination folder
+  onActionQueued?: (action: pendingActions.PendingAction) => void
+  signal?: AbortSignal // Checked between files
+}
+
+export function parseStrategy(value: unknown): OrganizationStrategy {
+  return ORGANIZATION_STRATEGIES.includes(value as OrganizationStrategy)
+    ? (value as OrganizationStrategy)
+    : 'category'
 }
 
 /**
- * Detect the category for a file based on its extension
+ * Detect the category for a file based on its extension, using the user's taxonomy
  */
 export function detectCategory(filename: string): string {
-  const ext = path.extname(filename).toLowerCase().slice(1)
-
-  for (const [category, extensions] of Object.entries(FILE_CATEGORIES)) {
-    if (extensions.includes(ext)) {
-      return category
-    }
-  }
-
-  return 'Other'
+  return categoryTaxonomy.getCategoryForExtension(path.extname(filename))
 }
 
 /**
@@ -128,93 +160,175 @@ export function isJunkFile(filename: string): boolean {
   return false
 }
 
+/**
+ * First word of a file name that could be a project name: leading dates and numbers
+ * are skipped, as are generic camera and app prefixes
+ */
+function projectPrefix(fileName: string): string | null {
+  const baseName = path.basename(fileName, path.extname(fileName))
+  for (const token of baseName.split(/[\s_\-.]+/)) {
+    if (/^\d+$/.test(token)) continue
+    if (token.length < 2 || GENERIC_PREFIXES.has(token.toLowerCase())) return null
+    return token
+  }
+  return null
+}
+
+/**
+ * Project folders for the files whose prefix at least MIN_PROJECT_FILES files share,
+ * named as the prefix is written in the first of them
+ */
+function inferProjects(files: FileInfo[]): Map<string, string> {
+  const byPrefix = new Map<string, FileInfo[]>()
+  for (const file of files) {
+    const prefix = projectPrefix(file.name)
+    if (!prefix) continue
+    const key = prefix.toLowerCase()
+    byPrefix.set(key, [...(byPrefix.get(key) ?? []), file])
+  }
+
+  const folders = new Map<string, string>() // File path → project folder
+  for (const members of byPrefix.values()) {
+    if (members.length < MIN_PROJECT_FILES) continue
+    const folder = projectPrefix(members[0].name)!
+    members.forEach((file) => folders.set(file.path, folder))
+  }
+  return folders
+}
+
+async function fileDate(file: FileInfo, dateSource: DateSource): Promise<Date> {
+  const contentDate = dateSource === 'content' ? await fileMetadata.getContentDate(file.path) : null
+  return contentDate ?? new Date(file.modified)
+}
+
+function yearMonthFolder(date: Date): string {
+  return path.join(String(date.getFullYear()), String(date.getMonth() + 1).padStart(2, '0'))
+}
+
+/**
+ * Destination folder for each file under the strategy, relative to the organized folder.
+ * Files the strategy can't place are left out.
+ */
+async function groupFiles(
+  files: FileInfo[],
+  strategy: OrganizationStrategy,
+  dateSource: DateSource
+): Promise<Map<string, string>> {
+  const groups = new Map<string, string>()
+  const categoryFolder = (file: FileInfo): string | null =>
+    file.category === categoryTaxonomy.FALLBACK_CATEGORY
+      ? null
+      : categoryTaxonomy.getCategoryFolder(file.category)
+
+  if (strategy === 'project') return inferProjects(files)
+
+  for (const file of files) {
+    let folder: string | null = null
+    switch (strategy) {
+      case 'category':
+        folder = categoryFolder(file)
+        break
+      case 'date':
+        folder = yearMonthFolder(await fileDate(file, dateSource))
+        break
+      case 'category-date': {
+        const typeFolder = categoryFolder(file)
+        folder = typeFolder
+          ? path.join(typeFolder, String((await fileDate(file, dateSource)).getFullYear()))
+          : null
+        break
+      }
+      case 'source':
+        folder = await fileMetadata.getDownloadSource(file.path)
+        break
+    }
+    if (folder) groups.set(file.path, folder)
+  }
+  return groups
+}
+
 /**
  * Scan a directory and create an organization plan
  */
 export async function createOrganizationPlan(
   dirPath: string,
-  options: { includeSubfolders?: boolean } = {}
+  options: PlanOptions = {}
 ): Promise<OrganizationPlan> {
-  const { includeSubfolders = false } = options
+  const { includeSubfolders = false, strategy = 'category', dateSource = 'modified' } = options
 
-  const categories: Record<string, FileInfo[]> = {}
+  const groups: Record<string, FileInfo[]> = {}
   const junkFiles: FileInfo[] = []
   const uncategorized: FileInfo[] = []
   const actions: OrganizationAction[] = []
-  let totalFiles = 0
-
-  async function scanDirectory(currentPath: string): Promise<void> {
-    try {
-      const entries = await fs.readdir(currentPath, { withFileTypes: true })
+  const candidates: FileInfo[] = []
+
+  // Only the top level unless asked; the storage index keeps repeat plans cheap
+  const { files } = await storageIndex.listFiles(
+    dirPath,
+    includeSubfolders ? storageIndex.MAX_INDEX_DEPTH : 0
+  )
+
+  for (const file of files) {
+    const fileInfo: FileInfo = {
+      name: file.name,
+      path: file.path,
+      extension: file.extension.toLowerCase().slice(1),
+      size: file.size,
+      modified: new Date(file.mtimeMs).toISOString(),
+      category: detectCategory(file.name),
+      isJunk: isJunkFile(file.name)
+    }
 
-      for (const entry of entries) {
-        const fullPath = path.join(currentPath, entry.name)
+    if (fileInfo.isJunk) {
+      junkFiles.push(fileInfo)
+      actions.push({
+        type: 'delete',
+        sourcePath: file.path,
+        fileName: file.name
+      })
+    } else {
+      candidates.push(fileInfo)
+    }
+  }
 
-        if (entry.isDirectory()) {
-          if (includeSubfolders) {
-            await scanDirectory(fullPath)
-          }
-          continue
-        }
+  const destinations = await groupFiles(candidates, strategy, dateSource)
 
-        totalFiles++
-
-        const stats = await fs.stat(fullPath)
-        const ext = path.extname(entry.name).toLowerCase().slice(1)
-        const category = detectCategory(entry.name)
-        const isJunk = isJunkFile(entry.name)
-
-        const fileInfo: FileInfo = {
-          name: entry.name,
-          path: fullPath,
-          extension: ext,
-          size: stats.size,
-          modified: stats.mtime.toISOString(),
-          category,
-          isJunk
-        }
+  for (const fileInfo of candidates) {
+    const group = destinations.get(fileInfo.path)
+    if (!group) {
+      uncategorized.push(fileInfo)
+      continue
+    }
 
-        if (isJunk) {
-          junkFiles.push(fileInfo)
-          actions.push({
-            type: 'delete',
-            sourcePath: fullPath,
-            fileName: entry.name
-          })
-        } else if (category === 'Other') {
-          uncategorized.push(fileInfo)
-        } else {
-          if (!categories[category]) {
-            categories[category] = []
-          }
-          categories[category].push(fileInfo)
-
-          // Add move action
-          const destFolder = path.join(dirPath, category)
-          const destPath = path.join(destFolder, entry.name)
-
-          // Only add action if file isn't already in the right folder
-          if (path.dirname(fullPath) !== destFolder) {
-            actions.push({
-              type: 'move',
-              sourcePath: fullPath,
-              destinationPath: destPath,
-              fileName: entry.name,
-              category
-            })
-          }
-        }
-      }
-    } catch (error) {
-      console.error(`[ORGANIZER] Error scanning ${currentPath}:`, error)
+    if (!groups[group]) {
+      groups[group] = []
+    }
+    groups[group].push(fileInfo)
+
+    // Only add action if file isn't already in the right folder
+    const destFolder = path.join(dirPath, group)
+    if (path.dirname(fileInfo.path) !== destFolder) {
+      actions.push({
+        type: 'move',
+        sourcePath: fileInfo.path,
+        destinationPath: path.join(destFolder, fileInfo.name),
+        fileName: fileInfo.name,
+        group
+      })
     }
   }
 
-  await scanDirectory(dirPath)
+  console.log(
+    `[ORGANIZER] Planned ${dirPath} by ${strategy}: ${Object.keys(groups).length} folders, ${uncategorized.length} files left in place`
+  )
 
   return {
-    totalFiles,
-    categories,
+    rootPath: dirPath,
+    strategy,
+    dateSource,
+    includeSubfolders,
+    totalFiles: files.length,
+    groups,
     junkFiles,
     uncategorized,
     actions
@@ -222,14 +336,31 @@ export async function createOrganizationPlan(
 }
 
 /**
- * Execute the organization plan (move files, queue junk for review)
+ * Execute the organization plan (move files, queue junk for review).
+ * The whole run is recorded as one undo transaction.
  */
 export async function executeOrganization(
   dirPath: string,
   plan: OrganizationPlan,
-  options: { deleteJunk?: boolean; dryRun?: boolean } = {}
+  options: OrganizationOptions = {}
 ): Promise<OrganizationResult> {
-  const { deleteJunk = false, dryRun = false } = options
+  return undoService.runInTransaction(
+    `Organize ${path.basename(dirPath)}`,
+    async (transactionId) => {
+      const result = await runOrganization(plan, options)
+      if (await undoService.hasTransactionOperations(transactionId)) {
+        result.transactionId = transactionId
+      }
+      return result
+    }
+  )
+}
+
+async function runOrganization(
+  plan: OrganizationPlan,
+  options: OrganizationOptions
+): Promise<OrganizationResult> {
+  const { deleteJunk = false, dryRun = false, conflictPolicy = 'suffix' } = options
 
   const result: OrganizationResult = {
     success: true,
@@ -237,25 +368,25 @@ export async function executeOrganization(
     filesDeleted: 0,
     foldersCreated: [],
     errors: [],
-    summary: {}
+    summary: {},
+    conflicts: {}
   }
 
-  // Create category folders first
-  const categoriesToCreate = new Set<string>()
+  // Create destination folders first
+  const foldersToCreate = new Set<string>()
   for (const action of plan.actions) {
-    if (action.type === 'move' && action.category) {
-      categoriesToCreate.add(action.category)
+    if (action.type === 'move' && action.destinationPath) {
+      foldersToCreate.add(path.dirname(action.destinationPath))
     }
   }
 
-  for (const category of categoriesToCreate) {
-    const folderPath = path.join(dirPath, category)
+  for (const folderPath of foldersToCreate) {
     try {
       if (!dryRun) {
-        await fs.mkdir(folderPath, { recursive: true })
+        await undoService.createFolder(folderPath)
       }
       result.foldersCreated.push(folderPath)
-      console.log(`[ORGANIZER] Created folder: ${category}`)
+      console.log(`[ORGANIZER] Created folder: ${path.basename(folderPath)}`)
     } catch (error) {
       // Folder might already exist, which is fine
     }
@@ -263,27 +394,45 @@ export async function executeOrganization(
 
   // Execute move actions
   for (const action of plan.actions) {
+    if (options.signal?.aborted) {
+      result.cancelled = true
+      console.log(`[ORGANIZER] Stopped after ${result.filesMoved} moves`)
+      break
+    }
     if (action.type === 'move' && action.destinationPath) {
       try {
         if (!dryRun) {
-          // Check if destination already exists
-          try {
-            await fs.access(action.destinationPath)
-            // File exists, add suffix
-            const ext = path.extname(action.destinationPath)
-            const base = path.basename(action.destinationPath, ext)
-            const dir = path.dirname(action.destinationPath)
-            const newDest = path.join(dir, `${base}_${Date.now()}${ext}`)
-            await fs.rename(action.sourcePath, newDest)
-          } catch {
-            // Destination doesn't exist, safe to move
-            await fs.rename(action.sourcePath, action.destinationPath)
+          const moveResult = await fileSystem.moveFile(
+            action.sourcePath,
+            action.destinationPath,
+            conflictPolicy
+          )
+          if (!moveResult.success) {
+            throw new Error(moveResult.error)
+          }
+          const { newPath, conflict } = moveResult.data as fileSystem.TransferData
+          await undoService.addTransferOperation(
+            { type: 'move', originalPath: action.sourcePath, newPath },
+            conflict
+          )
+
+          if (conflict) {
+            result.conflicts[conflict.outcome] = (result.conflicts[conflict.outcome] || 0) + 1
           }
+          if (conflict?.outcome === 'needs-review') {
+            const queued = await pendingActions.queueOverwrite(
+              'move',
+              action.sourcePath,
+              conflict.existingPath
+            )
+            options.onActionQueued?.(queued)
+          }
+          if (!newPath) continue
         }
         result.filesMoved++
-        result.summary[action.category || 'Other'] =
-          (result.summary[action.category || 'Other'] || 0) + 1
-        console.log(`[ORGANIZER] Moved: ${action.fileName} → ${action.category}`)
+        const group = action.group || 'Other'
+        result.summary[group] = (result.summary[group] || 0) + 1
+        console.log(`[ORGANIZER] Moved: ${action.fileName} → ${group}`)
       } catch (error) {
         result.errors.push(`Failed to move ${action.fileName}: ${error}`)
         console.error(`[ORGANIZER] Error moving ${action.fileName}:`, error)
@@ -292,7 +441,7 @@ export async function executeOrganization(
   }
 
   // Queue delete actions (junk files) for review instead of immediate deletion
-  if (deleteJunk) {
+  if (deleteJunk && !result.cancelled) {
     const junkPaths = plan.actions.filter((a) => a.type === 'delete').map((a) => a.sourcePath)
 
     if (junkPaths.length > 0 && !dryRun) {
@@ -309,6 +458,14 @@ export async function executeOrganization(
   return result
 }
 
+const STRATEGY_LABELS: Record<OrganizationStrategy, string> = {
+  category: 'by type',
+  date: 'by year and month',
+  'category-date': 'by type, then year',
+  project: 'by project name',
+  source: 'by download source'
+}
+
 /**
  * Get a text summary of the organization plan
  */
@@ -320,16 +477,20 @@ export function getPlanSummary(plan: OrganizationPlan): string {
   lines.push(`Total files scanned: ${plan.totalFiles}`)
   lines.push(``)
 
-  if (Object.keys(plan.categories).length > 0) {
-    lines.push(`**Files by Category:**`)
-    for (const [category, files] of Object.entries(plan.categories)) {
-      lines.push(`• ${category}: ${files.length} files`)
+  const groups = Object.entries(plan.groups)
+  if (groups.length > 0) {
+    lines.push(`**Files by Folder** (${STRATEGY_LABELS[plan.strategy]}):`)
+    for (const [group, files] of groups.slice(0, 20)) {
+      lines.push(`• ${group}: ${files.length} files`)
+    }
+    if (groups.length > 20) {
+      lines.push(`• ... and ${groups.length - 20} more folders`)
     }
     lines.push(``)
   }
 
   if (plan.uncategorized.length > 0) {
-    lines.push(`**Uncategorized:** ${plan.uncategorized.length} files`)
+    lines.push(`**Left in place:** ${plan.uncategorized.length} files`)
     lines.push(``)
   }
 
@@ -353,10 +514,19 @@ export function getPlanSummary(plan: OrganizationPlan): string {
 /**
  * Get a text summary of the organization result
  */
+const CONFLICT_LABELS: Record<fileSystem.ConflictResolution['outcome'], string> = {
+  suffixed: 'renamed with a number',
+  replaced: 'replaced the existing file',
+  skipped: 'skipped',
+  'kept-existing': 'left in place (existing file kept)',
+  'duplicate-discarded': 'exact duplicates sent to trash',
+  'needs-review': 'replacements queued for review'
+}
+
 export function getResultSummary(result: OrganizationResult): string {
   const lines: string[] = []
 
-  lines.push(`**Organization Complete**`)
+  lines.push(result.cancelled ? `**Organization Stopped**` : `**Organization Complete**`)
   lines.push(``)
   lines.push(`• Files moved: ${result.filesMoved}`)
 
@@ -364,6 +534,12 @@ export function getResultSummary(result: OrganizationResult): string {
     lines.push(`• Junk files queued for review: ${result.filesDeleted}`)
   }
 
+  for (const [outcome, count] of Object.entries(result.conflicts)) {
+    lines.push(
+      `• Name clashes ${CONFLICT_LABELS[outcome as fileSystem.ConflictResolution['outcome']]}: ${count}`
+    )
+  }
+
   if (result.foldersCreated.length > 0) {
     lines.push(`• Folders created: ${result.foldersCreated.length}`)
   }
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  copyFile,
+  deleteFile,
+  getTrashContents,
+  moveFile,
+  purgeFromTrash,
+  renameFile,
+  TransferData
+} from './fileSystem'
+
+// The app trash lives under userData; point it at a temp folder
+vi.mock('electron', async () => {
+  const os = await import('os')
+  const path = await import('path')
+  const userData = path.join(os.tmpdir(), `momentum-fs-test-${process.pid}`)
+  return { app: { getPath: () => userData } }
+})
+
+const userData = path.join(os.tmpdir(), `momentum-fs-test-${process.pid}`)
+
+let dir: string
+
+async function write(name: string, content: string, modified?: Date): Promise<string> {
+  const filePath = path.join(dir, name)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, content)
+  if (modified) await fs.utimes(filePath, modified, modified)
+  return filePath
+}
+
+const read = (filePath: string): Promise<string> => fs.readFile(filePath, 'utf-8')
+
+const exists = (filePath: string): Promise<boolean> =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  )
+
+const OLD = new Date('2024-01-01T00:00:00Z')
+const NEW = new Date('2025-01-01T00:00:00Z')
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-conflicts-'))
+  return () => fs.rm(dir, { recursive: true, force: true })
+})
+
+afterAll(() => fs.rm(userData, { recursive: true, force: true }))
+
+// ============ CONFLICT POLICIES ============
+
+describe('conflict policies', () => {
+  it('fail: refuses and leaves both files alone', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = await write('out/report.txt', 'existing')
+
+    const result = await moveFile(source, target, 'fail')
+
+    expect(result.success).toBe(false)
+    expect(await read(source)).toBe('incoming')
+    expect(await read(target)).toBe('existing')
+  })
+
+  it('skip: reports the conflict and transfers nothing', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = await write('out/report.txt', 'existing')
+
+    const result = await moveFile(source, target, 'skip')
+    const data = result.data as TransferData
+
+    expect(result.success).toBe(true)
+    expect(data.newPath).toBeUndefined()
+    expect(data.conflict?.outcome).toBe('skipped')
+    expect(await read(source)).toBe('incoming')
+    expect(await read(target)).toBe('existing')
+  })
+
+  it('suffix: keeps both under a free name', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = await write('out/report.txt', 'existing')
+    await write('out/report (1).txt', 'taken')
+
+    const result = await copyFile(source, target, 'suffix')
+    const data = result.data as TransferData
+
+    expect(data.newPath).toBe(path.join(dir, 'out', 'report (2).txt'))
+    expect(data.conflict?.outcome).toBe('suffixed')
+    expect(await read(data.newPath!)).toBe('incoming')
+    expect(await read(target)).toBe('existing')
+    expect(await read(source)).toBe('incoming')
+  })
+
+  it('replace: overwrites the target and keeps the old one in the trash', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = await write('out/report.txt', 'existing')
+
+    const result = await moveFile(source, target, 'replace')
+    const data = result.data as TransferData
+
+    expect(data.conflict?.outcome).toBe('replaced')
+    expect(await read(target)).toBe('incoming')
+    expect(await exists(source)).toBe(false)
+    expect(await read(data.conflict!.trashPath!)).toBe('existing')
+  })
+
+  it('review: changes nothing and asks for a decision', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = await write('out/report.txt', 'existing')
+
+    const result = await moveFile(source, target, 'review')
+    const data = result.data as TransferData
+
+    expect(data.conflict?.outcome).toBe('needs-review')
+    expect(data.newPath).toBeUndefined()
+    expect(await read(source)).toBe('incoming')
+    expect(await read(target)).toBe('existing')
+  })
+
+  it('keep-newer: replaces an older target', async () => {
+    const source = await write('in/report.txt', 'incoming', NEW)
+    const target = await write('out/report.txt', 'existing', OLD)
+
+    const data = (await moveFile(source, target, 'keep-newer')).data as TransferData
+
+    expect(data.conflict?.outcome).toBe('replaced')
+    expect(await read(target)).toBe('incoming')
+    expect(await read(data.conflict!.trashPath!)).toBe('existing')
+  })
+
+  it('keep-newer: keeps a newer target and leaves the source', async () => {
+    const source = await write('in/report.txt', 'incoming', OLD)
+    const target = await write('out/report.txt', 'existing', NEW)
+
+    const data = (await moveFile(source, target, 'keep-newer')).data as TransferData
+
+    expect(data.conflict?.outcome).toBe('kept-existing')
+    expect(await read(target)).toBe('existing')
+    expect(await read(source)).toBe('incoming')
+  })
+
+  it('keep-larger: replaces a smaller target and keeps a larger one', async () => {
+    const big = await write('in/big.txt', 'a much longer incoming file')
+    const bigTarget = await write('out/big.txt', 'short')
+    const small = await write('in/small.txt', 'tiny')
+    const smallTarget = await write('out/small.txt', 'the existing file is longer')
+
+    const replaced = (await copyFile(big, bigTarget, 'keep-larger')).data as TransferData
+    const kept = (await copyFile(small, smallTarget, 'keep-larger')).data as TransferData
+
+    expect(replaced.conflict?.outcome).toBe('replaced')
+    expect(await read(bigTarget)).toBe('a much longer incoming file')
+    expect(kept.conflict?.outcome).toBe('kept-existing')
+    expect(await read(smallTarget)).toBe('the existing file is longer')
+  })
+
+  it('keep-newer and keep-larger: fall back to a suffix unless both are files', async () => {
+    await write('in/photos/a.jpg', 'a')
+    const target = await write('out/photos', 'a file, not a folder')
+
+    const result = await moveFile(path.join(dir, 'in', 'photos'), target, 'keep-larger')
+    const data = result.data as TransferData
+
+    expect(data.conflict?.outcome).toBe('suffixed')
+    expect(await read(target)).toBe('a file, not a folder')
+    expect(await read(path.join(dir, 'out', 'photos (1)', 'a.jpg'))).toBe('a')
+  })
+
+  it('dedupe: trashes a moved exact duplicate and keeps the target', async () => {
+    const source = await write('in/report.txt', 'same content')
+    const target = await write('out/report.txt', 'same content')
+
+    const data = (await moveFile(source, target, 'dedupe')).data as TransferData
+
+    expect(data.conflict?.outcome).toBe('duplicate-discarded')
+    expect(data.conflict?.trashedPath).toBe(source)
+    expect(await exists(source)).toBe(false)
+    expect(await read(data.conflict!.trashPath!)).toBe('same content')
+    expect(await read(target)).toBe('same content')
+  })
+
+  it('dedupe: copying an exact duplicate leaves the source in place', async () => {
+    const source = await write('in/report.txt', 'same content')
+    const target = await write('out/report.txt', 'same content')
+
+    const data = (await copyFile(source, target, 'dedupe')).data as TransferData
+
+    expect(data.conflict?.outcome).toBe('duplicate-discarded')
+    expect(data.conflict?.trashPath).toBeUndefined()
+    expect(await read(source)).toBe('same content')
+  })
+
+  it('dedupe: keeps both when the content differs at the same size', async () => {
+    const source = await write('in/report.txt', 'content A')
+    const target = await write('out/report.txt', 'content B')
+
+    const data = (await moveFile(source, target, 'dedupe')).data as TransferData
+
+    expect(data.conflict?.outcome).toBe('suffixed')
+    expect(await read(data.newPath!)).toBe('content A')
+    expect(await read(target)).toBe('content B')
+  })
+
+  it('renames with a policy like a move', async () => {
+    const source = await write('draft.txt', 'incoming')
+    const target = await write('final.txt', 'existing')
+
+    const data = (await renameFile(source, 'final.txt', 'suffix')).data as TransferData
+
+    expect(data.newPath).toBe(path.join(dir, 'final (1).txt'))
+    expect(await read(target)).toBe('existing')
+  })
+})
+
+// ============ TRASH MANIFEST ============
+
+describe('trash manifest', () => {
+  it('keeps an entry deleted while another item is being purged', async () => {
+    const old = await write('old.txt', 'old')
+    const { trashPath } = (await deleteFile(old)).data as { trashPath: string }
+    const recent = await write('recent.txt', 'recent')
+
+    const [purged, deleted] = await Promise.all([purgeFromTrash(trashPath), deleteFile(recent)])
+
+    expect(purged.success).toBe(true)
+    expect(deleted.success).toBe(true)
+    const entries = await getTrashContents()
+    expect(entries.map((entry) => entry.originalPath)).toContain(recent)
+    expect(entries.map((entry) => entry.originalPath)).not.toContain(old)
+    expect(await exists(trashPath)).toBe(false)
+  })
+})
@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises'
 import * as fsSync from 'fs'
 import * as path from 'path'
+import { createHash } from 'crypto'
 import { app } from 'electron'
 import * as fileParsers from './fileParsers'
 
@@ -37,11 +38,12 @@ const getTrashDir = (): string => {
   return trashPath
 }
 
-interface TrashEntry {
+export interface TrashEntry {
   originalPath: string
   trashPath: string
   deletedAt: string
   name: string
+  size?: number // Bytes, recorded at delete time
 }
 
 const getTrashManifestPath = (): string => {
@@ -61,6 +63,18 @@ const saveTrashManifest = async (manifest: TrashEntry[]): Promise<void> => {
   await fs.writeFile(getTrashManifestPath(), JSON.stringify(manifest, null, 2))
 }
 
+let manifestQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Run a manifest read or update after every earlier one has finished, so a slow
+ * purge never saves a copy that misses an entry added meanwhile
+ */
+const withTrashManifest = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = manifestQueue.then(task)
+  manifestQueue = run.catch(() => undefined)
+  return run
+}
+
 // Get file extension
 export const getExtension = (filename: string): string => {
   const ext = path.extname(filename).toLowerCase()
@@ -197,19 +211,25 @@ export const deleteFile = async (filePath: string): Promise<OperationResult> =>
     const trashName = `${timestamp}-${fileName}`
     const trashPath = path.join(trashDir, trashName)
 
+    const stats = await fs.stat(filePath)
+    const size = stats.isDirectory() ? await getDirectorySize(filePath) : stats.size
+
     await fs.rename(filePath, trashPath)
 
-    const manifest = await loadTrashManifest()
-    manifest.unshift({
-      originalPath: filePath,
-      trashPath,
-      deletedAt: new Date().toISOString(),
-      name: fileName
+    // No cap here: retention and quota are enforced by the trash sweeper
+    await withTrashManifest(async () => {
+      const manifest = await loadTrashManifest()
+      manifest.unshift({
+        originalPath: filePath,
+        trashPath,
+        deletedAt: new Date().toISOString(),
+        name: fileName,
+        size
+      })
+      await saveTrashManifest(manifest)
     })
 
-    await saveTrashManifest(manifest.slice(0, 100))
-
-    return { success: true }
+    return { success: true, data: { trashPath } }
   } catch (err) {
     return { success: false, error: String(err) }
   }
@@ -230,6 +250,222 @@ export const permanentDelete = async (filePath: string): Promise<OperationResult
   }
 }
 
+// ============ CONFLICT RESOLUTION ============
+
+/**
+ * What a move, copy or rename does when its target already exists.
+ * 'fail' is the historical behaviour; 'replace' is what an approved 'review' runs with.
+ */
+export type ConflictPolicy =
+  | 'fail'
+  | 'skip'
+  | 'suffix'
+  | 'keep-newer'
+  | 'keep-larger'
+  | 'dedupe'
+  | 'review'
+  | 'replace'
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = [
+  'fail',
+  'skip',
+  'suffix',
+  'keep-newer',
+  'keep-larger',
+  'dedupe',
+  'review',
+  'replace'
+]
+
+export interface ConflictResolution {
+  policy: ConflictPolicy
+  outcome:
+    | 'suffixed'
+    | 'replaced'
+    | 'skipped'
+    | 'kept-existing'
+    | 'duplicate-discarded'
+    | 'needs-review'
+  existingPath: string // What was already at the target
+  finalPath?: string // Where the incoming file ended up, if it was transferred
+  trashedPath?: string // The file that lost the conflict and went to the trash
+  trashPath?: string
+}
+
+/** `data` of a move, copy or rename result */
+export interface TransferData {
+  newPath?: string // Missing when the conflict policy left the file where it was
+  conflict?: ConflictResolution
+}
+
+interface ConflictPlan {
+  proceed: boolean
+  dest: string
+  conflict?: ConflictResolution
+  replaceExisting?: boolean
+  discardSource?: boolean
+}
+
+export function parseConflictPolicy(value: unknown, fallback: ConflictPolicy): ConflictPolicy {
+  return CONFLICT_POLICIES.includes(value as ConflictPolicy) ? (value as ConflictPolicy) : fallback
+}
+
+/**
+ * First free "name (n).ext" variant of a path (the path itself when it is free)
+ */
+export async function getUniquePath(targetPath: string): Promise<string> {
+  const ext = path.extname(targetPath)
+  const baseName = path.basename(targetPath, ext)
+  const dir = path.dirname(targetPath)
+
+  let candidate = targetPath
+  for (let counter = 1; await pathExists(candidate); counter++) {
+    candidate = path.join(dir, `${baseName} (${counter})${ext}`)
+  }
+  return candidate
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    fsSync
+      .createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+async function planConflict(
+  sourcePath: string,
+  targetPath: string,
+  policy: ConflictPolicy,
+  removesSource: boolean
+): Promise<ConflictPlan | { error: string }> {
+  let existing: fsSync.Stats
+  try {
+    existing = await fs.stat(targetPath)
+  } catch {
+    return { proceed: true, dest: targetPath }
+  }
+
+  const incoming = await fs.stat(sourcePath)
+  const conflict = (
+    outcome: ConflictResolution['outcome'],
+    details: Partial<ConflictResolution> = {}
+  ): ConflictResolution => ({ policy, outcome, existingPath: targetPath, ...details })
+
+  const suffixed = async (): Promise<ConflictPlan> => {
+    const dest = await getUniquePath(targetPath)
+    return { proceed: true, dest, conflict: conflict('suffixed', { finalPath: dest }) }
+  }
+  const replaced: ConflictPlan = {
+    proceed: true,
+    dest: targetPath,
+    replaceExisting: true,
+    conflict: conflict('replaced', { finalPath: targetPath, trashedPath: targetPath })
+  }
+  const keptExisting: ConflictPlan = {
+    proceed: false,
+    dest: targetPath,
+    conflict: conflict('kept-existing')
+  }
+
+  // Comparing dates, sizes or content only makes sense between two files
+  const bothFiles = incoming.isFile() && existing.isFile()
+
+  switch (policy) {
+    case 'fail':
+      return { error: `Destination already exists: ${targetPath}` }
+    case 'skip':
+      return { proceed: false, dest: targetPath, conflict: conflict('skipped') }
+    case 'suffix':
+      return suffixed()
+    case 'replace':
+      return replaced
+    case 'review':
+      return { proceed: false, dest: targetPath, conflict: conflict('needs-review') }
+    case 'keep-newer':
+      if (!bothFiles) return suffixed()
+      return incoming.mtimeMs > existing.mtimeMs ? replaced : keptExisting
+    case 'keep-larger':
+      if (!bothFiles) return suffixed()
+      return incoming.size > existing.size ? replaced : keptExisting
+    case 'dedupe':
+      if (
+        bothFiles &&
+        incoming.size === existing.size &&
+        (await hashFile(sourcePath)) === (await hashFile(targetPath))
+      ) {
+        // A copy of an exact duplicate is simply not made; a moved one goes to the trash
+        return {
+          proceed: false,
+          dest: targetPath,
+          discardSource: removesSource,
+          conflict: conflict('duplicate-discarded', {
+            trashedPath: removesSource ? sourcePath : undefined
+          })
+        }
+      }
+      return suffixed()
+  }
+}
+
+/**
+ * Settle a clash at `targetPath` according to the policy, then run the transfer.
+ * Whatever lost the conflict goes to the app trash, and is put back if the transfer fails.
+ */
+async function transferWithPolicy(
+  sourcePath: string,
+  targetPath: string,
+  policy: ConflictPolicy,
+  removesSource: boolean,
+  transfer: (dest: string) => Promise<OperationResult>
+): Promise<OperationResult> {
+  const plan = await planConflict(sourcePath, targetPath, policy, removesSource)
+  if ('error' in plan) {
+    return { success: false, error: plan.error }
+  }
+
+  const { conflict } = plan
+  if (conflict) {
+    console.log(`[FS] Conflict at ${targetPath}: ${conflict.outcome} (${policy})`)
+  }
+
+  const loser = plan.replaceExisting ? targetPath : plan.discardSource ? sourcePath : null
+  if (loser && conflict) {
+    const trashResult = await deleteFile(loser)
+    if (!trashResult.success) {
+      return { success: false, error: `Could not clear the conflict: ${trashResult.error}` }
+    }
+    conflict.trashPath = (trashResult.data as { trashPath: string }).trashPath
+  }
+
+  if (!plan.proceed) {
+    return { success: true, data: { conflict } as TransferData }
+  }
+
+  const putBack = async (): Promise<void> => {
+    if (plan.replaceExisting && conflict?.trashPath) {
+      await restoreFromTrash(conflict.trashPath)
+    }
+  }
+
+  let result: OperationResult
+  try {
+    result = await transfer(plan.dest)
+  } catch (err) {
+    await putBack()
+    throw err
+  }
+  if (!result.success) {
+    await putBack()
+    return result
+  }
+
+  return conflict ? { ...result, data: { ...(result.data as TransferData), conflict } } : result
+}
+
 // ============ IMPROVED MOVE/COPY/RENAME ============
 
 /**
@@ -255,7 +491,11 @@ async function copyDirectoryRecursive(source: string, dest: string): Promise<voi
  * Move a file or folder to a new location.
  * Handles cross-drive moves, special characters, and various edge cases.
  */
-export async function moveFile(sourcePath: string, destPath: string): Promise<OperationResult> {
+export async function moveFile(
+  sourcePath: string,
+  destPath: string,
+  policy: ConflictPolicy = 'fail'
+): Promise<OperationResult> {
   console.log(`[FS] Moving: ${sourcePath} → ${destPath}`)
 
   try {
@@ -284,73 +524,82 @@ export async function moveFile(sourcePath: string, destPath: string): Promise<Op
       await fs.mkdir(destDir, { recursive: true })
     }
 
-    // Check if destination already exists
-    try {
-      await fs.access(finalDest)
-      return { success: false, error: `Destination already exists: ${finalDest}` }
-    } catch {
-      // Good - destination doesn't exist
-    }
+    return await transferWithPolicy(normalizedSource, finalDest, policy, true, (dest) =>
+      relocate(normalizedSource, dest, sourceStats)
+    )
+  } catch (err) {
+    console.error(`[FS] Move error:`, err)
+    return { success: false, error: `Unexpected error: ${err}` }
+  }
+}
 
-    // Try simple rename first (works for same drive)
-    try {
-      await fs.rename(normalizedSource, finalDest)
-      console.log(`[FS] Move successful (rename): ${finalDest}`)
-      return { success: true, data: { newPath: finalDest } }
-    } catch (renameError: unknown) {
-      const error = renameError as NodeJS.ErrnoException
+/**
+ * Move to a free destination: rename when possible, copy + delete across drives
+ */
+async function relocate(
+  normalizedSource: string,
+  finalDest: string,
+  sourceStats: fsSync.Stats
+): Promise<OperationResult> {
+  // Try simple rename first (works for same drive)
+  try {
+    await fs.rename(normalizedSource, finalDest)
+    console.log(`[FS] Move successful (rename): ${finalDest}`)
+    return { success: true, data: { newPath: finalDest } }
+  } catch (renameError: unknown) {
+    const error = renameError as NodeJS.ErrnoException
 
-      // EXDEV = cross-device link, need to copy + delete
-      if (error.code === 'EXDEV') {
-        console.log(`[FS] Cross-drive move detected, using copy+delete`)
+    // EXDEV = cross-device link, need to copy + delete
+    if (error.code === 'EXDEV') {
+      console.log(`[FS] Cross-drive move detected, using copy+delete`)
 
-        try {
-          if (sourceStats.isDirectory()) {
-            await copyDirectoryRecursive(normalizedSource, finalDest)
-          } else {
-            await fs.copyFile(normalizedSource, finalDest)
-          }
-
-          // Delete source after successful copy
-          if (sourceStats.isDirectory()) {
-            await fs.rm(normalizedSource, { recursive: true, force: true })
-          } else {
-            await fs.unlink(normalizedSource)
-          }
-
-          console.log(`[FS] Move successful (copy+delete): ${finalDest}`)
-          return { success: true, data: { newPath: finalDest } }
-        } catch (copyError) {
-          // Clean up partial copy
-          try {
-            await fs.rm(finalDest, { recursive: true, force: true })
-          } catch {}
-          return { success: false, error: `Copy failed during cross-drive move: ${copyError}` }
+      try {
+        if (sourceStats.isDirectory()) {
+          await copyDirectoryRecursive(normalizedSource, finalDest)
+        } else {
+          await fs.copyFile(normalizedSource, finalDest)
         }
-      }
 
-      // EPERM or EBUSY = file in use or permission issue
-      if (error.code === 'EPERM' || error.code === 'EBUSY') {
-        return { success: false, error: `File is in use or permission denied: ${normalizedSource}` }
-      }
+        // Delete source after successful copy
+        if (sourceStats.isDirectory()) {
+          await fs.rm(normalizedSource, { recursive: true, force: true })
+        } else {
+          await fs.unlink(normalizedSource)
+        }
 
-      // ENOENT = path component doesn't exist
-      if (error.code === 'ENOENT') {
-        return { success: false, error: `Path not found: ${error.path || normalizedSource}` }
+        console.log(`[FS] Move successful (copy+delete): ${finalDest}`)
+        return { success: true, data: { newPath: finalDest } }
+      } catch (copyError) {
+        // Clean up partial copy
+        try {
+          await fs.rm(finalDest, { recursive: true, force: true })
+        } catch {}
+        return { success: false, error: `Copy failed during cross-drive move: ${copyError}` }
       }
+    }
 
-      return { success: false, error: `Move failed: ${error.message}` }
+    // EPERM or EBUSY = file in use or permission issue
+    if (error.code === 'EPERM' || error.code === 'EBUSY') {
+      return { success: false, error: `File is in use or permission denied: ${normalizedSource}` }
     }
-  } catch (err) {
-    console.error(`[FS] Move error:`, err)
-    return { success: false, error: `Unexpected error: ${err}` }
+
+    // ENOENT = path component doesn't exist
+    if (error.code === 'ENOENT') {
+      return { success: false, error: `Path not found: ${error.path || normalizedSource}` }
+    }
+
+    return { success: false, error: `Move failed: ${error.message}` }
   }
 }
 
 /**
  * Copy a file or folder to a new location.
  */
-export async function copyFile(sourcePath: string, destPath: string): Promise<OperationResult> {
+export async function copyFile(
+  sourcePath: string,
+  destPath: string,
+  policy: ConflictPolicy = 'fail'
+): Promise<OperationResult> {
   console.log(`[FS] Copying: ${sourcePath} → ${destPath}`)
 
   try {
@@ -378,23 +627,16 @@ export async function copyFile(sourcePath: string, destPath: string): Promise<Op
       await fs.mkdir(path.dirname(normalizedDest), { recursive: true })
     }
 
-    // Check if destination already exists
-    try {
-      await fs.access(finalDest)
-      return { success: false, error: `Destination already exists: ${finalDest}` }
-    } catch {
-      // Good
-    }
-
-    // Perform copy
-    if (sourceStats.isDirectory()) {
-      await copyDirectoryRecursive(normalizedSource, finalDest)
-    } else {
-      await fs.copyFile(normalizedSource, finalDest)
-    }
+    return await transferWithPolicy(normalizedSource, finalDest, policy, false, async (dest) => {
+      if (sourceStats.isDirectory()) {
+        await copyDirectoryRecursive(normalizedSource, dest)
+      } else {
+        await fs.copyFile(normalizedSource, dest)
+      }
 
-    console.log(`[FS] Copy successful: ${finalDest}`)
-    return { success: true, data: { newPath: finalDest } }
+      console.log(`[FS] Copy successful: ${dest}`)
+      return { success: true, data: { newPath: dest } }
+    })
   } catch (err) {
     console.error(`[FS] Copy error:`, err)
     return { success: false, error: `Copy failed: ${err}` }
@@ -404,7 +646,11 @@ export async function copyFile(sourcePath: string, destPath: string): Promise<Op
 /**
  * Rename a file or folder.
  */
-export async function renameFile(filePath: string, newName: string): Promise<OperationResult> {
+export async function renameFile(
+  filePath: string,
+  newName: string,
+  policy: ConflictPolicy = 'fail'
+): Promise<OperationResult> {
   console.log(`[FS] Renaming: ${filePath} → ${newName}`)
 
   try {
@@ -421,19 +667,15 @@ export async function renameFile(filePath: string, newName: string): Promise<Ope
     const dir = path.dirname(normalizedPath)
     const newPath = path.join(dir, newName)
 
-    // Check if new name already exists
-    try {
-      await fs.access(newPath)
+    if (policy === 'fail' && (await pathExists(newPath))) {
       return { success: false, error: `A file with name "${newName}" already exists` }
-    } catch {
-      // Good
     }
 
-    // Perform rename
-    await fs.rename(normalizedPath, newPath)
-
-    console.log(`[FS] Rename successful: ${newPath}`)
-    return { success: true, data: { newPath } }
+    return await transferWithPolicy(normalizedPath, newPath, policy, true, async (dest) => {
+      await fs.rename(normalizedPath, dest)
+      console.log(`[FS] Rename successful: ${dest}`)
+      return { success: true, data: { newPath: dest } }
+    })
   } catch (err: unknown) {
     const error = err as NodeJS.ErrnoException
     console.error(`[FS] Rename error:`, error)
@@ -449,10 +691,13 @@ export async function renameFile(filePath: string, newName: string): Promise<Ope
 // ============ TRASH OPERATIONS ============
 
 export const getTrashContents = async (): Promise<TrashEntry[]> => {
-  return await loadTrashManifest()
+  return await withTrashManifest(loadTrashManifest)
 }
 
-export const restoreFromTrash = async (trashPath: string): Promise<OperationResult> => {
+export const restoreFromTrash = (trashPath: string): Promise<OperationResult> =>
+  withTrashManifest(() => restoreEntry(trashPath))
+
+const restoreEntry = async (trashPath: string): Promise<OperationResult> => {
   try {
     const manifest = await loadTrashManifest()
     const entry = manifest.find((e) => e.trashPath === trashPath)
@@ -461,6 +706,15 @@ export const restoreFromTrash = async (trashPath: string): Promise<OperationResu
       return { success: false, error: 'Item not found in trash' }
     }
 
+    // Never overwrite something that took the file's place since it was deleted
+    try {
+      await fs.access(entry.originalPath)
+      return { success: false, error: `Something already exists at ${entry.originalPath}` }
+    } catch {
+      // Original location is free
+    }
+
+    // The original parent folder may have been removed since the delete
     const originalDir = path.dirname(entry.originalPath)
     await fs.mkdir(originalDir, { recursive: true })
 
@@ -475,16 +729,41 @@ export const restoreFromTrash = async (trashPath: string): Promise<OperationResu
   }
 }
 
+// Permanently delete a single trash item and drop it from the manifest
+export const purgeFromTrash = async (trashPath: string): Promise<OperationResult> => {
+  try {
+    const found = await withTrashManifest(async () => {
+      const manifest = await loadTrashManifest()
+      if (!manifest.some((e) => e.trashPath === trashPath)) return false
+      await saveTrashManifest(manifest.filter((e) => e.trashPath !== trashPath))
+      return true
+    })
+    if (!found) {
+      return { success: false, error: 'Item not found in trash' }
+    }
+
+    // Removed only once the manifest is saved, so the slow part holds up no other update
+    await fs.rm(trashPath, { recursive: true, force: true })
+    return { success: true }
+  } catch (err) {
+    return { success: false, error: String(err) }
+  }
+}
+
 export const emptyTrash = async (): Promise<OperationResult> => {
   try {
     const trashDir = getTrashDir()
-    const items = await fs.readdir(trashDir)
+    // Anything deleted while the trash is being emptied keeps its file and entry
+    const items = await withTrashManifest(async () => {
+      const listed = await fs.readdir(trashDir)
+      await saveTrashManifest([])
+      return listed
+    })
 
     for (const item of items) {
       await fs.rm(path.join(trashDir, item), { recursive: true })
     }
 
-    await saveTrashManifest([])
     return { success: true }
   } catch (err) {
     return { success: false, error: String(err) }
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { BrowserWindow } from 'electron'
+import * as pathSandbox from './pathSandbox'
+import { initFileWatcherService, stopAllWatchers } from './fileWatcher'
+
+// Every store shares one in-memory map, seeded by the tests with saved watchers
+const stored = vi.hoisted(() => new Map<string, unknown>())
+
+vi.mock('electron-store', () => ({
+  default: class {
+    get(key: string, fallback?: unknown): unknown {
+      return stored.get(key) ?? fallback
+    }
+    set(key: string, value: unknown): void {
+      stored.set(key, value)
+    }
+    delete(key: string): void {
+      stored.delete(key)
+    }
+  }
+}))
+
+vi.mock('electron', async () => {
+  const os = await import('os')
+  const path = await import('path')
+  const userData = path.join(os.tmpdir(), `momentum-watcher-test-${process.pid}`)
+  return { app: { getPath: () => userData }, BrowserWindow: class {} }
+})
+
+const mainWindow = { webContents: { send: vi.fn() } } as unknown as BrowserWindow
+
+let dir: string
+
+function saveWatcher(id: string, watchFolders: string[], grantedFolders?: string[]): void {
+  stored.set('watchers', {
+    [id]: {
+      config: {
+        id,
+        watchFolders,
+        rules: [],
+        enableActivityLog: false,
+        logPath: ''
+      },
+      stats: { filesProcessed: 0, startTime: Date.now(), aiCalls: 0, errors: 0 },
+      isPaused: true,
+      grantedFolders
+    }
+  })
+}
+
+beforeEach(async () => {
+  stored.clear()
+  dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-watcher-')))
+})
+
+afterEach(async () => {
+  stopAllWatchers()
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+// ============ RESTORE ============
+
+describe('restoring saved watchers', () => {
+  it('grants a restored watcher its folders again after a restart', async () => {
+    const inbox = path.join(dir, 'Inbox')
+    await fs.mkdir(inbox)
+    saveWatcher('restored', [inbox], [inbox])
+    expect(pathSandbox.getGrantedRoots()).toEqual([])
+
+    await initFileWatcherService(mainWindow)
+
+    expect(pathSandbox.getGrantedRoots()).toEqual([inbox])
+    expect(await pathSandbox.checkPaths([path.join(inbox, 'Sorted', 'a.pdf')], 'Move')).toBeNull()
+  })
+
+  it('only grants the folders that were granted when the watcher was saved', async () => {
+    const inbox = path.join(dir, 'Inbox')
+    const other = path.join(dir, 'Other')
+    saveWatcher('partial', [inbox, other], [inbox])
+
+    await initFileWatcherService(mainWindow)
+
+    expect(pathSandbox.getGrantedRoots()).toEqual([inbox])
+  })
+
+  it('drops the grants of a stopped watcher', async () => {
+    saveWatcher('stopped', [dir], [dir])
+    await initFileWatcherService(mainWindow)
+
+    stopAllWatchers()
+
+    expect(pathSandbox.getGrantedRoots()).toEqual([])
+  })
+})
@@ -3,8 +3,14 @@ import * as path from 'path'
 import * as fs from 'fs/promises'
 import { BrowserWindow } from 'electron'
 import Store from 'electron-store'
-import { processFileWithRules, RuleMatch } from './ruleProcessor'
+import { processFileWithRules, globToRegExp, RuleMatch, StructuredRule } from './ruleProcessor'
 import { logActivity } from './activityLogger'
+import { undoService } from './undoService'
+import * as fileSystem from './fileSystem'
+import * as pendingActions from './pendingActions'
+import * as pathSandbox from './pathSandbox'
+import * as storageIndex from './storageIndex'
+import { markPlacedByWatcher, wasPlacedByWatcher } from './placedFiles'
 
 // ============ Types ============
 
@@ -13,6 +19,13 @@ export interface AgentRule {
   text: string
   enabled: boolean
   order: number
+  structured?: StructuredRule
+}
+
+export interface WatchFolderOptions {
+  depth: number // 0 = only files directly in the folder
+  include?: string[] // Globs; when set, only matching files are handled
+  exclude?: string[] // Globs; matching files and folders are skipped
 }
 
 export interface AgentConfig {
@@ -21,6 +34,10 @@ export interface AgentConfig {
   rules: AgentRule[]
   enableActivityLog: boolean
   logPath: string
+  dryRun?: boolean // Record decisions without touching any files
+  minConfidence?: number // 0-1; decisions below this go to the Review panel
+  folderOptions?: Record<string, WatchFolderOptions> // Keyed by watch folder path
+  conflictPolicy?: fileSystem.ConflictPolicy // When the destination already has that name; default 'suffix'
 }
 
 export interface ActivityEntry {
@@ -29,13 +46,24 @@ export interface ActivityEntry {
   timestamp: string
   originalName: string
   originalPath: string
-  action: 'moved' | 'renamed' | 'skipped' | 'error'
+  action:
+    | 'moved'
+    | 'renamed'
+    | 'copied'
+    | 'would-move'
+    | 'would-rename'
+    | 'would-copy'
+    | 'would-delete'
+    | 'queued'
+    | 'skipped'
+    | 'error'
   destination?: string
   newName?: string
   matchedRule?: number | null
   usedAI: boolean
   confidence?: number
   error?: string
+  conflict?: fileSystem.ConflictResolution['outcome'] // Set when the destination already existed
 }
 
 export interface WatcherStats {
@@ -50,12 +78,14 @@ interface WatcherInstance {
   config: AgentConfig
   isPaused: boolean
   stats: WatcherStats
+  grantedFolders: string[] // Watch folders the user had granted when the watcher was started
 }
 
 interface WatcherPersistence {
   config: AgentConfig
   stats: WatcherStats
   isPaused: boolean
+  grantedFolders?: string[]
 }
 
 // ============ Persistence ============
@@ -71,15 +101,25 @@ const watchers = new Map<string, WatcherInstance>()
 let mainWindowRef: BrowserWindow | null = null
 
 const MAX_WATCHERS = 5
+const MAX_WATCH_DEPTH = 10
+
+const ALWAYS_IGNORED = [
+  /(^|[\/\\])\../,
+  /momentum_activity_log\.xlsx$/,
+  /~\$.*/,
+  /\.tmp$/i,
+  /\.crdownload$/i,
+  /\.part$/i
+]
 
 // ============ Public Functions ============
 
-export function initFileWatcherService(mainWindow?: BrowserWindow): void {
+export async function initFileWatcherService(mainWindow?: BrowserWindow): Promise<void> {
   if (mainWindow) mainWindowRef = mainWindow
-  loadWatchersFromStore()
+  await loadWatchersFromStore()
 }
 
-function loadWatchersFromStore(): void {
+async function loadWatchersFromStore(): Promise<void> {
   const data = store.get('watchers', {}) as Record<string, WatcherPersistence>
 
   for (const [id, saved] of Object.entries(data)) {
@@ -98,23 +138,12 @@ function loadWatchersFromStore(): void {
     }
 
     try {
-      const watcher = chokidar.watch(config.watchFolders, {
-        ignored: [
-          /(^|[\/\\])\../,
-          /momentum_activity_log\.xlsx$/,
-          /~\$.*/,
-          /\.tmp$/i,
-          /\.crdownload$/i,
-          /\.part$/i
-        ],
-        persistent: true,
-        ignoreInitial: true,
-        awaitWriteFinish: {
-          stabilityThreshold: 2000,
-          pollInterval: 100
-        },
-        depth: 0
-      })
+      // The sandbox starts empty on launch: hand back the grants the watcher was started
+      // with. Watchers saved before grants were recorded keep the folders the user picked.
+      const grantedFolders = saved.grantedFolders ?? config.watchFolders
+      await pathSandbox.setOwnerRoots(`watcher:${id}`, grantedFolders)
+
+      const watcher = createChokidarWatcher(id, config)
 
       const stats: WatcherStats = {
         filesProcessed: saved.stats.filesProcessed,
@@ -127,7 +156,8 @@ function loadWatchersFromStore(): void {
         watcher,
         config,
         isPaused: wasPaused,
-        stats
+        stats,
+        grantedFolders
       })
 
       setupWatcherEvents(id, watcher)
@@ -138,6 +168,21 @@ function loadWatchersFromStore(): void {
   console.log(`[FILE WATCHER SERVICE] Loaded ${watchers.size} watchers from store`)
 }
 
+/**
+ * Keep a watcher's folders reachable while it runs. Only folders that are already
+ * granted are kept: a watcher reuses the user's grants and never creates new ones.
+ */
+async function keepWatcherRoots(watcherId: string, folders: string[]): Promise<string[]> {
+  const granted = await pathSandbox.filterGranted(folders)
+  if (granted.length < folders.length) {
+    console.warn(
+      `[WATCHER ${watcherId}] ${folders.length - granted.length} watch folder(s) not granted; grant them again to let the watcher act there`
+    )
+  }
+  await pathSandbox.setOwnerRoots(`watcher:${watcherId}`, granted)
+  return granted
+}
+
 function saveWatcherToStore(watcherId: string): void {
   const instance = watchers.get(watcherId)
   if (!instance) return
@@ -147,7 +192,8 @@ function saveWatcherToStore(watcherId: string): void {
   allData[watcherId] = {
     config: instance.config,
     stats: instance.stats,
-    isPaused: instance.isPaused
+    isPaused: instance.isPaused,
+    grantedFolders: instance.grantedFolders
   }
 
   store.set('watchers', allData)
@@ -159,10 +205,10 @@ function deleteWatcherFromStore(watcherId: string): void {
   store.set('watchers', allData)
 }
 
-export function startWatcher(
+export async function startWatcher(
   agentConfig: AgentConfig,
   mainWindow: BrowserWindow
-): { success: boolean; error?: string; watcherId?: string } {
+): Promise<{ success: boolean; error?: string; watcherId?: string }> {
   if (watchers.size >= MAX_WATCHERS) {
     return { success: false, error: `Maximum ${MAX_WATCHERS} watchers allowed` }
   }
@@ -186,28 +232,14 @@ export function startWatcher(
   const existingInstance = watchers.get(watcherId)
   if (existingInstance) {
     // Update config but preserve stats and watcher
+    const previousConfig = existingInstance.config
+    existingInstance.grantedFolders = await keepWatcherRoots(watcherId, agentConfig.watchFolders)
     existingInstance.config = agentConfig
     existingInstance.isPaused = false
-    // Update the watcher paths if they changed
-    if (JSON.stringify(existingInstance.config.watchFolders.sort()) !== JSON.stringify(agentConfig.watchFolders.sort())) {
+    // Recreate the chokidar watcher if its paths or per-folder depth/filters changed
+    if (watchTargetKey(previousConfig) !== watchTargetKey(agentConfig)) {
       existingInstance.watcher.close()
-      const newWatcher = chokidar.watch(agentConfig.watchFolders, {
-        ignored: [
-          /(^|[\/\\])\../,
-          /momentum_activity_log\.xlsx$/,
-          /~\$.*/,
-          /\.tmp$/i,
-          /\.crdownload$/i,
-          /\.part$/i
-        ],
-        persistent: true,
-        ignoreInitial: true,
-        awaitWriteFinish: {
-          stabilityThreshold: 2000,
-          pollInterval: 100
-        },
-        depth: 0
-      })
+      const newWatcher = createChokidarWatcher(watcherId, agentConfig)
       existingInstance.watcher = newWatcher
       setupWatcherEvents(watcherId, newWatcher)
     }
@@ -223,23 +255,8 @@ export function startWatcher(
   )
 
   try {
-    const watcher = chokidar.watch(agentConfig.watchFolders, {
-      ignored: [
-        /(^|[\/\\])\../,
-        /momentum_activity_log\.xlsx$/,
-        /~\$.*/,
-        /\.tmp$/i,
-        /\.crdownload$/i,
-        /\.part$/i
-      ],
-      persistent: true,
-      ignoreInitial: true,
-      awaitWriteFinish: {
-        stabilityThreshold: 2000,
-        pollInterval: 100
-      },
-      depth: 0
-    })
+    const grantedFolders = await keepWatcherRoots(watcherId, agentConfig.watchFolders)
+    const watcher = createChokidarWatcher(watcherId, agentConfig)
 
     const stats: WatcherStats = {
       filesProcessed: 0,
@@ -252,7 +269,8 @@ export function startWatcher(
       watcher,
       config: agentConfig,
       isPaused: false,
-      stats
+      stats,
+      grantedFolders
     })
 
     setupWatcherEvents(watcherId, watcher)
@@ -273,6 +291,7 @@ export function stopWatcher(watcherId: string): { success: boolean } {
     instance.watcher.close()
     watchers.delete(watcherId)
     deleteWatcherFromStore(watcherId)
+    pathSandbox.setOwnerRoots(`watcher:${watcherId}`, [])
     console.log(`[WATCHER ${watcherId}] Stopped`)
     return { success: true }
   }
@@ -283,6 +302,7 @@ export function stopAllWatchers(): { success: boolean; count: number } {
   const count = watchers.size
   for (const [watcherId, instance] of watchers.entries()) {
     instance.watcher.close()
+    pathSandbox.setOwnerRoots(`watcher:${watcherId}`, [])
     console.log(`[WATCHER ${watcherId}] Stopped`)
   }
   watchers.clear()
@@ -347,6 +367,20 @@ export function getWatcherStats(watcherId: string): WatcherStats | null {
   return instance ? instance.stats : null
 }
 
+/**
+ * Switch a watcher between dry-run (simulation) and live mode
+ */
+export function setDryRun(watcherId: string, dryRun: boolean): { success: boolean } {
+  const instance = watchers.get(watcherId)
+  if (instance) {
+    instance.config.dryRun = dryRun
+    saveWatcherToStore(watcherId)
+    console.log(`[WATCHER ${watcherId}] ${dryRun ? 'Switched to dry run' : 'Promoted to live'}`)
+    return { success: true }
+  }
+  return { success: false }
+}
+
 export function updateRules(watcherId: string, newRules: AgentRule[]): { success: boolean } {
   const instance = watchers.get(watcherId)
   if (instance) {
@@ -363,13 +397,102 @@ export function updateRules(watcherId: string, newRules: AgentRule[]): { success
 
 // ============ Internal Functions ============
 
+function getFolderOptions(config: AgentConfig, folder: string): WatchFolderOptions {
+  const options = config.folderOptions?.[folder]
+  return {
+    ...options,
+    depth: Math.min(Math.max(0, Math.floor(options?.depth ?? 0)), MAX_WATCH_DEPTH)
+  }
+}
+
+function watchTargetKey(config: AgentConfig): string {
+  const folders = [...config.watchFolders].sort()
+  return JSON.stringify(folders.map((folder) => [folder, getFolderOptions(config, folder)]))
+}
+
+/**
+ * The watch folder a path belongs to, preferring the deepest one when folders are nested
+ */
+function findWatchFolder(config: AgentConfig, targetPath: string): string | undefined {
+  return [...config.watchFolders]
+    .sort((a, b) => b.length - a.length)
+    .find((folder) => targetPath === folder || targetPath.startsWith(folder + path.sep))
+}
+
+/**
+ * Globs without a slash match the name at any level; globs with one match the relative path
+ */
+function matchesAnyGlob(relativePath: string, globs: string[] = []): boolean {
+  const name = path.posix.basename(relativePath)
+  return globs.some((glob) => {
+    const trimmed = glob.trim().replace(/^\.?\//, '')
+    if (!trimmed) return false
+    return globToRegExp(trimmed).test(trimmed.includes('/') ? relativePath : name)
+  })
+}
+
+/**
+ * Chokidar-level filter: built-in ignores, per-folder depth and exclude globs.
+ * Excluded folders are pruned here so chokidar never descends into them.
+ */
+function isIgnoredPath(config: AgentConfig, targetPath: string): boolean {
+  if (ALWAYS_IGNORED.some((pattern) => pattern.test(targetPath))) return true
+
+  const folder = findWatchFolder(config, targetPath)
+  if (!folder || folder === targetPath) return false
+
+  const options = getFolderOptions(config, folder)
+  const relativePath = path.relative(folder, targetPath).split(path.sep).join('/')
+  if (relativePath.split('/').length - 1 > options.depth) return true
+  return matchesAnyGlob(relativePath, options.exclude)
+}
+
+function passesIncludeFilter(config: AgentConfig, filePath: string): boolean {
+  const folder = findWatchFolder(config, filePath)
+  if (!folder) return true
+  const { include } = getFolderOptions(config, folder)
+  if (!include || include.every((glob) => !glob.trim())) return true
+  return matchesAnyGlob(path.relative(folder, filePath).split(path.sep).join('/'), include)
+}
+
+function createChokidarWatcher(
+  watcherId: string,
+  config: AgentConfig
+): ReturnType<typeof chokidar.watch> {
+  const maxDepth = Math.max(0, ...config.watchFolders.map((f) => getFolderOptions(config, f).depth))
+  return chokidar.watch(config.watchFolders, {
+    // Read the live config so rule/filter edits apply without a restart
+    ignored: (targetPath: string) =>
+      isIgnoredPath(watchers.get(watcherId)?.config ?? config, targetPath),
+    persistent: true,
+    ignoreInitial: true,
+    awaitWriteFinish: {
+      stabilityThreshold: 2000,
+      pollInterval: 100
+    },
+    depth: maxDepth
+  })
+}
+
 function setupWatcherEvents(watcherId: string, watcher: ReturnType<typeof chokidar.watch>): void {
+  // The storage index follows every event, paused or not
+  watcher.on('all', (event, filePath) => {
+    if (event === 'add' || event === 'change' || event === 'unlink') {
+      storageIndex.recordChange(filePath)
+    }
+  })
+
   watcher.on('add', async (filePath) => {
     const instance = watchers.get(watcherId)
     if (!instance || instance.isPaused) {
       console.log(`[WATCHER ${watcherId}] Paused, ignoring: ${filePath}`)
       return
     }
+    if (!passesIncludeFilter(instance.config, filePath)) return
+    if (wasPlacedByWatcher(filePath)) {
+      console.log(`[WATCHER ${watcherId}] Placed by a watcher, ignoring: ${filePath}`)
+      return
+    }
     await handleNewFile(watcherId, filePath)
   })
 
@@ -407,17 +530,41 @@ async function handleNewFile(watcherId: string, filePath: string): Promise<void>
     const result = await processFileWithRules(filePath, instance.config.rules)
     console.log(`[WATCHER ${watcherId}] Rule processing result:`, result)
 
-    if (result.usedVision) {
+    if (result.usedAI) {
       instance.stats.aiCalls++
       saveWatcherToStore(watcherId)
     }
 
-    if (result.action === 'move' && result.destination) {
-      const entry = await executeMove(watcherId, filePath, result)
+    const isActionable =
+      result.action === 'delete' ||
+      ((result.action === 'move' || result.action === 'copy') &&
+        (result.destination || result.rename))
+
+    if (isActionable) {
+      // A rule destination like "../../.ssh" must not take the file outside the granted folders
+      if (result.action !== 'delete') {
+        const { destPath } = resolveDestination(instance.config, filePath, result)
+        const violation = await pathSandbox.checkPaths([destPath], 'Watcher destination')
+        if (violation) throw new Error(violation.message)
+      }
+
+      let entry: ActivityEntry
+      if (instance.config.dryRun) {
+        entry = await simulateAction(watcherId, filePath, result)
+      } else if (result.action === 'delete') {
+        entry = await queueDeletion(watcherId, filePath, result)
+      } else if (result.confidence < (instance.config.minConfidence ?? 0)) {
+        entry = await queueForReview(watcherId, filePath, result)
+      } else if (result.action === 'copy') {
+        entry = await executeCopy(watcherId, filePath, result)
+      } else {
+        entry = await executeMove(watcherId, filePath, result)
+      }
       instance.stats.filesProcessed++
       saveWatcherToStore(watcherId)
 
-      if (instance.config.enableActivityLog) {
+      // The Excel log lives in the watch folder, so a dry run leaves it alone too
+      if (instance.config.enableActivityLog && !instance.config.dryRun) {
         await logActivity(instance.config.logPath, entry)
       }
 
@@ -434,11 +581,11 @@ async function handleNewFile(watcherId: string, filePath: string): Promise<void>
         originalPath: filePath,
         action: 'skipped',
         matchedRule: result.matchedRule,
-        usedAI: result.usedVision || false,
+        usedAI: result.usedAI,
         confidence: result.confidence
       }
 
-      if (instance.config.enableActivityLog) {
+      if (instance.config.enableActivityLog && !instance.config.dryRun) {
         await logActivity(instance.config.logPath, entry)
       }
 
@@ -461,7 +608,7 @@ async function handleNewFile(watcherId: string, filePath: string): Promise<void>
       error: String(error)
     }
 
-    if (instance.config.enableActivityLog) {
+    if (instance.config.enableActivityLog && !instance.config.dryRun) {
       await logActivity(instance.config.logPath, entry)
     }
 
@@ -469,20 +616,19 @@ async function handleNewFile(watcherId: string, filePath: string): Promise<void>
   }
 }
 
-async function executeMove(
-  watcherId: string,
+/**
+ * Resolve a rule's relative destination against the watch folder the file came from
+ */
+function resolveDestination(
+  config: AgentConfig,
   filePath: string,
   result: RuleMatch
-): Promise<ActivityEntry> {
-  const instance = watchers.get(watcherId)!
-  const fileName = path.basename(filePath)
-
-  // Find which watch folder this file belongs to to resolve relative destinations
+): { watchFolder: string; destFolder: string; destPath: string } {
   const sourceDir = path.dirname(filePath)
-  let bestMatchFolder = instance.config.watchFolders[0]
+  let bestMatchFolder = config.watchFolders[0]
 
   // Sort by length desc to match longest path (nested folders support)
-  const sortedFolders = [...instance.config.watchFolders].sort((a, b) => b.length - a.length)
+  const sortedFolders = [...config.watchFolders].sort((a, b) => b.length - a.length)
 
   for (const folder of sortedFolders) {
     if (sourceDir.startsWith(folder)) {
@@ -491,18 +637,55 @@ async function executeMove(
     }
   }
 
-  const destFolder = path.join(bestMatchFolder, result.destination!)
-  const newFileName = result.rename || fileName
-  const destPath = path.join(destFolder, newFileName)
+  // No destination means rename in place
+  const destFolder = result.destination
+    ? path.join(bestMatchFolder, result.destination)
+    : path.dirname(filePath)
+  const destPath = path.join(destFolder, result.rename || path.basename(filePath))
+
+  return { watchFolder: bestMatchFolder, destFolder, destPath }
+}
+
+async function executeMove(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch
+): Promise<ActivityEntry> {
+  const instance = watchers.get(watcherId)!
+  const fileName = path.basename(filePath)
+  const { watchFolder, destPath } = resolveDestination(instance.config, filePath, result)
 
   console.log(`[WATCHER ${watcherId}] Moving: ${filePath} → ${destPath}`)
 
-  await fs.mkdir(destFolder, { recursive: true })
+  const moveResult = await fileSystem.moveFile(
+    filePath,
+    destPath,
+    instance.config.conflictPolicy ?? 'suffix'
+  )
+  if (!moveResult.success) {
+    throw new Error(moveResult.error)
+  }
+  const { newPath, conflict } = moveResult.data as fileSystem.TransferData
+
+  await undoService.addTransferOperation(
+    {
+      type: result.rename ? 'rename' : 'move',
+      originalPath: filePath,
+      newPath,
+      originalName: fileName,
+      newName: newPath ? path.basename(newPath) : undefined
+    },
+    conflict,
+    { kind: 'watcher', id: watcherId, label: `Watcher on ${path.basename(watchFolder)}` }
+  )
 
-  const finalDestPath = await getUniqueDestPath(destPath)
-  const finalFileName = path.basename(finalDestPath)
+  if (!newPath) {
+    return reportUntransferred(watcherId, filePath, result, 'move', conflict!)
+  }
+  markPlacedByWatcher(newPath)
 
-  await fs.rename(filePath, finalDestPath)
+  const finalDestPath = newPath
+  const finalFileName = path.basename(finalDestPath)
 
   console.log(`[WATCHER ${watcherId}] Moved successfully to: ${finalDestPath}`)
 
@@ -518,27 +701,232 @@ async function executeMove(
     destination: finalDestPath,
     newName: finalFileName !== fileName ? finalFileName : undefined,
     matchedRule: result.matchedRule,
-    usedAI: result.usedVision || false,
+    usedAI: result.usedAI,
+    confidence: result.confidence,
+    conflict: conflict?.outcome
+  }
+}
+
+async function executeCopy(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch
+): Promise<ActivityEntry> {
+  const instance = watchers.get(watcherId)!
+  const fileName = path.basename(filePath)
+  const { watchFolder, destPath } = resolveDestination(instance.config, filePath, result)
+
+  const copyResult = await fileSystem.copyFile(
+    filePath,
+    destPath,
+    instance.config.conflictPolicy ?? 'suffix'
+  )
+  if (!copyResult.success) {
+    throw new Error(copyResult.error)
+  }
+  const { newPath, conflict } = copyResult.data as fileSystem.TransferData
+
+  await undoService.addTransferOperation(
+    {
+      type: 'copy',
+      originalPath: filePath,
+      newPath,
+      originalName: fileName,
+      newName: newPath ? path.basename(newPath) : undefined
+    },
+    conflict,
+    { kind: 'watcher', id: watcherId, label: `Watcher on ${path.basename(watchFolder)}` }
+  )
+
+  if (!newPath) {
+    return reportUntransferred(watcherId, filePath, result, 'copy', conflict!)
+  }
+  markPlacedByWatcher(newPath)
+
+  const finalDestPath = newPath
+  const finalFileName = path.basename(finalDestPath)
+
+  console.log(`[WATCHER ${watcherId}] Copied to: ${finalDestPath}`)
+
+  mainWindowRef?.webContents.send('fs:changed')
+
+  return {
+    id: Date.now().toString(),
+    watcherId,
+    timestamp: new Date().toISOString(),
+    originalName: fileName,
+    originalPath: filePath,
+    action: 'copied',
+    destination: finalDestPath,
+    newName: finalFileName !== fileName ? finalFileName : undefined,
+    matchedRule: result.matchedRule,
+    usedAI: result.usedAI,
+    confidence: result.confidence,
+    conflict: conflict?.outcome
+  }
+}
+
+/**
+ * The conflict policy left the file where it was. Report why, and hand the
+ * replacement to the Review panel when the policy asks for that.
+ */
+async function reportUntransferred(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch,
+  transfer: 'move' | 'copy',
+  conflict: fileSystem.ConflictResolution
+): Promise<ActivityEntry> {
+  let action: ActivityEntry['action'] = 'skipped'
+
+  if (conflict.outcome === 'needs-review') {
+    const pending = await pendingActions.queueOverwrite(transfer, filePath, conflict.existingPath, {
+      reason: `Watcher rule ${result.matchedRule ?? '?'}: replaces existing ${path.basename(conflict.existingPath)}`,
+      watcherId
+    })
+    mainWindowRef?.webContents.send('pending:new-action', pending)
+    action = 'queued'
+  } else if (conflict.trashPath) {
+    // An exact duplicate went to the trash
+    mainWindowRef?.webContents.send('fs:changed')
+  }
+
+  console.log(`[WATCHER ${watcherId}] Not transferred (${conflict.outcome}): ${filePath}`)
+
+  return {
+    id: Date.now().toString(),
+    watcherId,
+    timestamp: new Date().toISOString(),
+    originalName: path.basename(filePath),
+    originalPath: filePath,
+    action,
+    destination: conflict.existingPath,
+    matchedRule: result.matchedRule,
+    usedAI: result.usedAI,
+    confidence: result.confidence,
+    conflict: conflict.outcome
+  }
+}
+
+/**
+ * Deletions are never applied directly; they always go through the Review panel
+ */
+async function queueDeletion(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch
+): Promise<ActivityEntry> {
+  const action = await pendingActions.queueDeletion(
+    filePath,
+    `Watcher rule ${result.matchedRule ?? '?'}: ${result.reasoning}`
+  )
+  mainWindowRef?.webContents.send('pending:new-action', action)
+
+  console.log(`[WATCHER ${watcherId}] Queued deletion: ${filePath}`)
+
+  return {
+    id: Date.now().toString(),
+    watcherId,
+    timestamp: new Date().toISOString(),
+    originalName: path.basename(filePath),
+    originalPath: filePath,
+    action: 'queued',
+    matchedRule: result.matchedRule,
+    usedAI: result.usedAI,
     confidence: result.confidence
   }
 }
 
-async function getUniqueDestPath(destPath: string): Promise<string> {
-  let finalPath = destPath
-  let counter = 1
-  const ext = path.extname(destPath)
-  const baseName = path.basename(destPath, ext)
-  const dir = path.dirname(destPath)
+/**
+ * Dry-run counterpart of the execute functions: work out what would happen without touching anything
+ */
+async function simulateAction(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch
+): Promise<ActivityEntry> {
+  const instance = watchers.get(watcherId)!
+  const fileName = path.basename(filePath)
 
-  while (true) {
-    try {
-      await fs.access(finalPath)
-      finalPath = path.join(dir, `${baseName} (${counter})${ext}`)
-      counter++
-    } catch {
-      break
+  if (result.action === 'delete') {
+    console.log(`[WATCHER ${watcherId}] Dry run: would queue ${filePath} for deletion`)
+    return {
+      id: Date.now().toString(),
+      watcherId,
+      timestamp: new Date().toISOString(),
+      originalName: fileName,
+      originalPath: filePath,
+      action: 'would-delete',
+      matchedRule: result.matchedRule,
+      usedAI: result.usedAI,
+      confidence: result.confidence
     }
   }
 
-  return finalPath
+  const { destPath } = resolveDestination(instance.config, filePath, result)
+
+  const finalDestPath = await fileSystem.getUniquePath(destPath)
+  const finalFileName = path.basename(finalDestPath)
+
+  console.log(
+    `[WATCHER ${watcherId}] Dry run: would ${result.action} ${filePath} → ${finalDestPath}`
+  )
+
+  return {
+    id: Date.now().toString(),
+    watcherId,
+    timestamp: new Date().toISOString(),
+    originalName: fileName,
+    originalPath: filePath,
+    action: result.action === 'copy' ? 'would-copy' : result.rename ? 'would-rename' : 'would-move',
+    destination: finalDestPath,
+    newName: finalFileName !== fileName ? finalFileName : undefined,
+    matchedRule: result.matchedRule,
+    usedAI: result.usedAI,
+    confidence: result.confidence
+  }
+}
+
+/**
+ * Hand a low-confidence decision to the Review panel instead of applying it
+ */
+async function queueForReview(
+  watcherId: string,
+  filePath: string,
+  result: RuleMatch
+): Promise<ActivityEntry> {
+  const instance = watchers.get(watcherId)!
+  const fileName = path.basename(filePath)
+  const { destPath } = resolveDestination(instance.config, filePath, result)
+  const finalFileName = path.basename(destPath)
+
+  // A name taken by approval time is settled then, by the watcher's own policy
+  const action = await pendingActions.queueMove(
+    result.action === 'copy' ? 'copy' : result.rename ? 'rename' : 'move',
+    filePath,
+    destPath,
+    {
+      reason: `Low confidence (${Math.round(result.confidence * 100)}%): ${result.reasoning}`,
+      watcherId,
+      confidence: result.confidence,
+      conflictPolicy: instance.config.conflictPolicy ?? 'suffix'
+    }
+  )
+  mainWindowRef?.webContents.send('pending:new-action', action)
+
+  console.log(`[WATCHER ${watcherId}] Queued for review: ${filePath} → ${destPath}`)
+
+  return {
+    id: Date.now().toString(),
+    watcherId,
+    timestamp: new Date().toISOString(),
+    originalName: fileName,
+    originalPath: filePath,
+    action: 'queued',
+    destination: destPath,
+    newName: finalFileName !== fileName ? finalFileName : undefined,
+    matchedRule: result.matchedRule,
+    usedAI: result.usedAI,
+    confidence: result.confidence
+  }
 }
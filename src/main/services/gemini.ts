@@ -16,9 +16,11 @@ export type { SessionMetrics } from './gemini/metrics'
 export type { TaskClassification } from './gemini/router'
 
 // Orchestrator (main chat functions)
-export { chatStream, chat } from './gemini/orchestrator'
+export { chatStream, chat, cancelChat, runPlan } from './gemini/orchestrator'
 
 export type { ChatMessage, ToolCallResult, AgentResponse } from './gemini/orchestrator'
 
+export type { PlannedStep, ActionPlan } from './gemini/planner'
+
 // Note: Tools, executor, and vision are internal modules
 // They don't need to be exported as they're only used within the gemini package
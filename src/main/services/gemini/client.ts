@@ -12,20 +12,28 @@ export type ExecutorProfile = 'flash-minimal' | 'flash-high' | 'pro-high'
 export interface ExecutorConfig {
   model: string
   description: string
+  historyBudget: number // Tokens of chat history sent before older turns are summarised
+  toolResultBudget: number // Tokens of a single tool result sent before it becomes a reference
 }
 
 export const EXECUTOR_CONFIGS: Record<ExecutorProfile, ExecutorConfig> = {
   'flash-minimal': {
     model: MODELS.FLASH,
-    description: 'Fast, simple operations'
+    description: 'Fast, simple operations',
+    historyBudget: 8_000,
+    toolResultBudget: 2_000
   },
   'flash-high': {
     model: MODELS.FLASH,
-    description: 'Complex file operations, vision, batch processing'
+    description: 'Complex file operations, vision, batch processing',
+    historyBudget: 32_000,
+    toolResultBudget: 6_000
   },
   'pro-high': {
     model: MODELS.PRO,
-    description: 'Complex reasoning, ambiguous requests, multi-step planning'
+    description: 'Complex reasoning, ambiguous requests, multi-step planning',
+    historyBudget: 64_000,
+    toolResultBudget: 12_000
   }
 }
 
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { EXECUTOR_CONFIGS } from './client'
+import { compactToolResult, readStoredResult, StoredResultChunk } from './contextBudget'
+
+// A directory listing far over the flash-minimal budget
+const bigResult = {
+  success: true,
+  entries: Array.from({ length: 2000 }, (_, i) => ({ name: `file-${i}.txt`, size: i * 10 }))
+}
+
+describe('tool result references', () => {
+  it('lets the model page through a stored result without it being stored again', () => {
+    const compact = compactToolResult('list_directory', bigResult, 'flash-minimal') as {
+      truncated: boolean
+      resultId: string
+      preview: string
+    }
+    expect(compact.truncated).toBe(true)
+
+    const json = JSON.stringify(bigResult)
+    let text = compact.preview
+    let offset: number | undefined = compact.preview.length
+
+    while (offset !== undefined) {
+      const page = readStoredResult(compact.resultId, offset) as StoredResultChunk
+      expect(page.content.length).toBeLessThanOrEqual(
+        EXECUTOR_CONFIGS['flash-minimal'].toolResultBudget * 4
+      )
+      // What get_tool_result hands back reaches the model as is, not as another reference
+      expect(compactToolResult('get_tool_result', page, 'flash-minimal')).toBe(page)
+
+      text += page.content
+      offset = page.nextOffset
+    }
+
+    expect(text).toBe(json)
+  })
+
+  it('returns results within the budget unchanged', () => {
+    const small = { success: true, entries: [{ name: 'a.txt', size: 1 }] }
+    expect(compactToolResult('list_directory', small, 'flash-minimal')).toBe(small)
+  })
+
+  it('reports an unknown reference instead of throwing', () => {
+    expect(readStoredResult('read_file-999')).toHaveProperty('error')
+  })
+})
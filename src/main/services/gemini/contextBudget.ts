@@ -0,0 +1,202 @@
+import { createHash } from 'crypto'
+import { getClient, MODELS, ExecutorProfile, EXECUTOR_CONFIGS } from './client'
+import { updateMetrics, recordTokensSaved } from './metrics'
+
+// ============ CONTEXT BUDGETING ============
+
+// Rough count used across the orchestrator: ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// ============ HISTORY SUMMARISATION ============
+
+interface HistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Recent turns kept word for word take at most this share of the budget
+const RECENT_SHARE = 0.5
+
+// Each older message is cut to this before being summarised
+const SUMMARY_INPUT_CHARS = 2000
+
+const MAX_CACHED_SUMMARIES = 50
+
+// Every request resends the same older turns, so each summary is made once
+const summaryCache = new Map<string, string>()
+
+async function summarise(older: HistoryMessage[], signal?: AbortSignal): Promise<string> {
+  const transcript = older
+    .map(
+      (m) =>
+        `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, SUMMARY_INPUT_CHARS)}`
+    )
+    .join('\n\n')
+  const key = createHash('sha1').update(transcript).digest('hex')
+
+  const cached = summaryCache.get(key)
+  if (cached) return cached
+
+  const model = getClient().getGenerativeModel({
+    model: MODELS.FLASH,
+    generationConfig: { temperature: 0.1, maxOutputTokens: 600 }
+  })
+  const prompt = `Summarise this conversation between a user and a file management assistant so the assistant can continue it.
+Keep every file and folder path mentioned, what was already done (moved, renamed, created, deleted), decisions the user made and anything still open.
+Use short bullet points, at most 200 words.
+
+${transcript}`
+
+  const result = await model.generateContent(prompt, { signal })
+  const summary = result.response.text().trim()
+  updateMetrics('flash-minimal', estimateTokens(prompt), estimateTokens(summary))
+
+  if (summaryCache.size >= MAX_CACHED_SUMMARIES) summaryCache.clear()
+  summaryCache.set(key, summary)
+  return summary
+}
+
+/**
+ * Fit the chat history into the executor's budget: recent turns stay as they are, older
+ * ones are replaced by a summary (or dropped if summarising fails)
+ */
+export async function fitHistory<T extends HistoryMessage>(
+  messages: T[],
+  profile: ExecutorProfile,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const budget = EXECUTOR_CONFIGS[profile].historyBudget
+  const total = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0)
+  if (total <= budget || messages.length < 3) return messages
+
+  // Walk back from the newest message until the recent share is used up
+  let keepFrom = messages.length - 1
+  let recentTokens = estimateTokens(messages[keepFrom].content)
+  while (keepFrom > 0) {
+    const next = estimateTokens(messages[keepFrom - 1].content)
+    if (recentTokens + next > budget * RECENT_SHARE) break
+    recentTokens += next
+    keepFrom--
+  }
+  // The kept part must open with a user turn so roles still alternate after the summary
+  while (keepFrom < messages.length - 1 && messages[keepFrom].role !== 'user') keepFrom++
+  if (keepFrom === 0) return messages
+
+  const older = messages.slice(0, keepFrom)
+  const recent = messages.slice(keepFrom)
+
+  let context: T[]
+  try {
+    const summary = await summarise(older, signal)
+    context = [
+      { ...older[0], role: 'user', content: `Summary of our earlier conversation:\n${summary}` },
+      { ...older[0], role: 'assistant', content: 'Understood, I will continue from there.' }
+    ]
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.warn('[CONTEXT] Summary failed, dropping older turns instead:', error)
+    context = []
+  }
+
+  const fitted = [...context, ...recent]
+  const saved = total - fitted.reduce((sum, m) => sum + estimateTokens(m.content), 0)
+  recordTokensSaved('history', saved)
+  console.log(
+    `[CONTEXT] ${profile}: ${context.length > 0 ? 'summarised' : 'dropped'} ${older.length} older messages, saved ~${saved} tokens`
+  )
+  return fitted
+}
+
+// ============ TOOL RESULT REFERENCES ============
+
+const MAX_STORED_RESULTS = 20
+
+// Room left in the budget for the reference fields around a preview or page
+const REFERENCE_OVERHEAD_CHARS = 400
+
+export interface StoredResultChunk {
+  resultId: string
+  content: string
+  offset: number
+  nextOffset?: number // Absent once the end is reached
+  totalChars: number
+}
+
+interface StoredResult {
+  json: string
+  chunkChars: number // Sized when stored, so every page fits the budget of the model that asked
+}
+
+// Full results the model only saw a preview of, oldest first
+const storedResults = new Map<string, StoredResult>()
+let nextResultId = 1
+
+// Characters of a result per preview or page. Escaping inside the response can make a
+// page longer again, which is why get_tool_result output itself is never compacted.
+function chunkCharsFor(profile: ExecutorProfile): number {
+  return Math.max(EXECUTOR_CONFIGS[profile].toolResultBudget * 4 - REFERENCE_OVERHEAD_CHARS, 1000)
+}
+
+/**
+ * What the model gets back from a tool: the result itself when it fits the executor's
+ * budget, otherwise a preview plus a reference get_tool_result can page through.
+ * The renderer always receives the full result.
+ */
+export function compactToolResult(
+  toolName: string,
+  result: unknown,
+  profile: ExecutorProfile
+): unknown {
+  // Pages are already sized to fit; compacting them would only store them again
+  if (toolName === 'get_tool_result') return result
+
+  const json = JSON.stringify(result) ?? ''
+  const budget = EXECUTOR_CONFIGS[profile].toolResultBudget
+  const originalTokens = estimateTokens(json)
+  if (originalTokens <= budget) return result
+
+  const resultId = `${toolName}-${nextResultId++}`
+  const previewChars = chunkCharsFor(profile)
+  storedResults.set(resultId, { json, chunkChars: previewChars })
+  if (storedResults.size > MAX_STORED_RESULTS) {
+    storedResults.delete(storedResults.keys().next().value as string)
+  }
+
+  const compact = {
+    truncated: true,
+    resultId,
+    originalTokens,
+    preview: json.slice(0, previewChars),
+    note: `Result too large to include in full. Call get_tool_result with result_id "${resultId}" and offset ${previewChars} to read on.`
+  }
+
+  recordTokensSaved('toolResults', originalTokens - estimateTokens(JSON.stringify(compact)))
+  console.log(`[CONTEXT] ${toolName} result cut from ~${originalTokens} tokens to a preview`)
+  return compact
+}
+
+/**
+ * One chunk of a stored tool result, for the get_tool_result tool
+ */
+export function readStoredResult(
+  resultId: string,
+  offset = 0
+): StoredResultChunk | { error: string } {
+  const stored = storedResults.get(resultId)
+  if (!stored) {
+    return { error: `No stored result "${resultId}". It has expired; run the original tool again.` }
+  }
+
+  const { json, chunkChars } = stored
+  const start = Math.max(0, Math.min(Math.floor(offset) || 0, json.length))
+  const end = Math.min(start + chunkChars, json.length)
+  return {
+    resultId,
+    content: json.slice(start, end),
+    offset: start,
+    nextOffset: end < json.length ? end : undefined,
+    totalChars: json.length
+  }
+}
@@ -7,14 +7,21 @@ import * as spreadsheet from '../spreadsheet'
 import * as fileOrganizer from '../fileOrganizer'
 import * as pendingActions from '../pendingActions'
 import * as storageAnalyzer from '../storageAnalyzer'
+import * as storageHistory from '../storageHistory'
 import * as googleSheets from '../googleSheets'
 import * as gmail from '../gmail'
+import { undoService } from '../undoService'
+import * as pathSandbox from '../pathSandbox'
+import * as permissionPolicy from '../permissionPolicy'
 import { isSignedIn as isGoogleSignedIn } from '../googleAuth'
+import { readStoredResult } from './contextBudget'
 import {
   analyzeImage,
   processReceiptsBatch,
   smartRenameFile,
   categorizeImages,
+  findSimilarImages,
+  DEFAULT_SIMILARITY_THRESHOLD,
   extractReceiptData,
   extractReceiptDataFromText
 } from './vision'
@@ -33,16 +40,207 @@ const FILE_MODIFYING_TOOLS = [
   'smart_rename',
   'process_receipts',
   'create_spreadsheet',
-  'create_expense_report'
+  'create_expense_report',
+  'delete_file'
 ]
 
+// Tool arguments that name a file or folder on disk
+const PATH_ARGS = [
+  'path',
+  'source_path',
+  'destination_path',
+  'folder_path',
+  'output_folder',
+  'output_path'
+]
+
+function getToolPaths(name: string, args: Record<string, string>): string[] {
+  const paths = PATH_ARGS.filter((key) => args[key] !== undefined).map((key) => args[key])
+  // A new name like "../../x" would otherwise step outside the folder being renamed in
+  if (name === 'rename_file' && args.path && args.new_name) {
+    paths.push(path.join(path.dirname(args.path), args.new_name))
+  }
+  return paths
+}
+
+function describeToolCall(name: string, args: Record<string, string>): string {
+  switch (name) {
+    case 'write_file':
+      return `Write ${path.basename(args.path)}`
+    case 'move_file':
+      return `Move ${path.basename(args.source_path)} to ${args.destination_path}`
+    case 'rename_file':
+      return `Rename ${path.basename(args.path)} to ${args.new_name}`
+    case 'execute_organization':
+      return `Organize ${args.path}${String(args.delete_junk) === 'true' ? ' and delete junk' : ''}`
+    case 'smart_rename':
+      return `Smart rename ${path.basename(args.path)}`
+    default:
+      return name
+  }
+}
+
+function planOptions(args: Record<string, string>): fileOrganizer.PlanOptions {
+  return {
+    includeSubfolders: String(args.include_subfolders).toLowerCase() === 'true',
+    strategy: fileOrganizer.parseStrategy(args.strategy),
+    dateSource: args.date_source === 'content' ? 'content' : 'modified'
+  }
+}
+
+function deniedResult(name: string, reason: string): object {
+  return {
+    success: false,
+    denied: true,
+    error: `Permission denied for ${name}: ${reason}. Tell the user it was not done and do not retry it.`
+  }
+}
+
+/**
+ * With the 'review' conflict policy nothing is transferred yet: queue replacing the
+ * existing file in the Review panel and tell the model it is waiting there
+ */
+async function queueOverwriteIfNeeded(
+  transfer: 'move' | 'copy' | 'rename',
+  sourcePath: string,
+  transferResult: fileSystem.OperationResult,
+  mainWindow?: BrowserWindow | null
+): Promise<object> {
+  const conflict = (transferResult.data as fileSystem.TransferData | undefined)?.conflict
+  if (conflict?.outcome !== 'needs-review') return transferResult
+
+  const action = await pendingActions.queueOverwrite(transfer, sourcePath, conflict.existingPath)
+  mainWindow?.webContents.send('pending:new-action', action)
+  return {
+    ...transferResult,
+    queued: true,
+    message: `"${path.basename(conflict.existingPath)}" already exists. Replacing it has been queued in the Review panel for the user to approve.`,
+    actionId: action.id
+  }
+}
+
+/**
+ * Before a tool writes a whole file: journal the folders it needs and back up any
+ * file it is about to replace
+ */
+async function prepareFileWrite(filePath: string): Promise<string | undefined> {
+  await undoService.createFolder(path.dirname(filePath))
+  return undoService.backupFile(filePath)
+}
+
+/** Journal a written file as created, or as overwritten when there was a backup */
+async function recordFileWrite(filePath: string, backupPath?: string): Promise<void> {
+  await undoService.addOperation(
+    backupPath
+      ? { type: 'write', originalPath: filePath, backupPath }
+      : { type: 'create', originalPath: filePath }
+  )
+}
+
+function formatChange(bytes: number): string {
+  return `${bytes >= 0 ? '+' : '-'}${storageAnalyzer.formatBytes(Math.abs(bytes))}`
+}
+
+/**
+ * Summary lines for a growth report: the total and the folders and categories that grew most
+ */
+function describeGrowth(report: storageHistory.StorageGrowthReport): string[] {
+  const lines = [
+    `📈 ${formatChange(report.totalChange)} since ${new Date(report.from).toLocaleDateString()}`
+  ]
+  const grew = (entries: storageHistory.GrowthEntry[]): storageHistory.GrowthEntry[] =>
+    entries.filter((e) => e.change > 0).slice(0, 5)
+
+  if (grew(report.folders).length > 0) {
+    lines.push(`**Folders that grew most:**`)
+    grew(report.folders).forEach((e) => lines.push(`• ${e.name}: ${formatChange(e.change)}`))
+  }
+  if (grew(report.categories).length > 0) {
+    lines.push(`**Categories that grew most:**`)
+    grew(report.categories).forEach((e) => lines.push(`• ${e.name}: ${formatChange(e.change)}`))
+  }
+  if (report.untrackedFolders.length > 0) {
+    lines.push(`Not tracked in both scans: ${report.untrackedFolders.slice(0, 5).join(', ')}`)
+  }
+  return lines
+}
+
+/**
+ * The user's decision on an approval card, or null if the turn is stopped first
+ */
+function decisionUnlessStopped(
+  decision: Promise<boolean>,
+  signal?: AbortSignal
+): Promise<boolean | null> {
+  if (!signal) return decision
+  if (signal.aborted) return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const onAbort = (): void => resolve(null)
+    signal.addEventListener('abort', onAbort, { once: true })
+    decision.then((approved) => {
+      signal.removeEventListener('abort', onAbort)
+      resolve(approved)
+    })
+  })
+}
+
+/**
+ * Apply the user's permission policy. Returns a result to hand back to the model when the
+ * call must not run; for 'ask' this waits until the user decides in the Review panel.
+ */
+async function enforcePermission(
+  name: string,
+  args: Record<string, string>,
+  paths: string[],
+  mainWindow?: BrowserWindow | null,
+  signal?: AbortSignal
+): Promise<object | null> {
+  const mode = await permissionPolicy.resolveMode(name, paths)
+  if (mode === 'allow') return null
+  if (mode === 'deny') return deniedResult(name, 'blocked by your permission settings')
+  // delete_file already queues for review on its own and doesn't wait for the outcome
+  if (name === 'delete_file') return null
+
+  const folder = paths[0] ? await pathSandbox.findGrantedRoot(paths[0]) : undefined
+  const { action, decision } = pendingActions.requestToolApproval(
+    name,
+    describeToolCall(name, args),
+    paths,
+    folder
+  )
+  mainWindow?.webContents.send('pending:new-action', action)
+
+  const approved = await decisionUnlessStopped(decision, signal)
+  if (approved === null) {
+    // A stopped turn withdraws its card, so approving it later can't run the call
+    pendingActions.removeAction(action.id)
+    return { success: false, cancelled: true, error: `Stopped before ${name} was approved` }
+  }
+  return approved ? null : deniedResult(name, 'the user rejected this change')
+}
+
 export async function executeTool(
   name: string,
   args: Record<string, string>,
-  mainWindow?: BrowserWindow | null
+  mainWindow?: BrowserWindow | null,
+  signal?: AbortSignal // Long-running tools stop between files once this fires
 ): Promise<unknown> {
   console.log(`[TOOL EXECUTE] ${name}:`, JSON.stringify(args))
 
+  const toolPaths = getToolPaths(name, args)
+  const violation = await pathSandbox.checkPaths(toolPaths, name)
+  if (violation) {
+    mainWindow?.webContents.send('sandbox:violation', violation)
+    return pathSandbox.toSandboxResult(violation)
+  }
+
+  const denied = await enforcePermission(name, args, toolPaths, mainWindow, signal)
+  if (denied) {
+    console.log(`[TOOL DENIED] ${name}`)
+    return denied
+  }
+
   try {
     let result: unknown
 
@@ -55,15 +253,44 @@ export async function executeTool(
         result = await fileSystem.readFile(args.path)
         break
 
-      case 'write_file':
-        result = await fileSystem.writeFile(args.path, args.content)
+      case 'get_tool_result':
+        result = readStoredResult(args.result_id, Number(args.offset) || 0)
+        break
+
+      case 'write_file': {
+        const backupPath = await undoService.backupFile(args.path)
+        const writeResult = await fileSystem.writeFile(args.path, args.content)
+        if (writeResult.success) {
+          await undoService.addOperation({ type: 'write', originalPath: args.path, backupPath })
+        }
+        result = writeResult
         break
+      }
 
       case 'create_folder':
-        result = await fileSystem.createFolder(args.path)
+        try {
+          // Journals missing parents too, so undo leaves no empty folders behind
+          await undoService.createFolder(args.path)
+          result = { success: true }
+        } catch (error) {
+          result = { success: false, error: String(error) }
+        }
         break
 
       case 'delete_file':
+        if ((await permissionPolicy.resolveMode(name, toolPaths)) === 'allow') {
+          const deleteResult = await fileSystem.deleteFile(args.path)
+          if (deleteResult.success) {
+            const { trashPath } = deleteResult.data as { trashPath: string }
+            await undoService.addOperation({
+              type: 'trash',
+              originalPath: args.path,
+              newPath: trashPath
+            })
+          }
+          result = deleteResult
+          break
+        }
         // Queue for review instead of direct deletion
         try {
           const action = await pendingActions.queueDeletion(args.path, 'Requested by AI assistant')
@@ -83,61 +310,63 @@ export async function executeTool(
         break
 
       case 'move_file': {
-        const moveResult = await fileSystem.moveFile(args.source_path, args.destination_path)
-        const moveData = moveResult.data as { newPath?: string } | undefined
-        if (moveResult.success && moveData?.newPath) {
-          // Track for undo
-          const undoService = await import('../undoService')
-          undoService.undoService.addOperation({
-            type: 'move',
-            originalPath: args.source_path,
-            newPath: moveData.newPath
-          })
-          // Notify UI about undo availability
-          if (mainWindow) {
-            mainWindow.webContents.send('undo:operation-added', {
-              type: 'move',
-              originalPath: args.source_path,
-              newPath: moveData.newPath
-            })
-          }
+        const moveResult = await fileSystem.moveFile(
+          args.source_path,
+          args.destination_path,
+          fileSystem.parseConflictPolicy(args.on_conflict, 'fail')
+        )
+        const moveData = moveResult.data as fileSystem.TransferData | undefined
+        if (moveResult.success) {
+          // Track for undo, including anything the conflict policy sent to the trash
+          await undoService.addTransferOperation(
+            { type: 'move', originalPath: args.source_path, newPath: moveData?.newPath },
+            moveData?.conflict
+          )
         }
-        result = moveResult
+        result = await queueOverwriteIfNeeded('move', args.source_path, moveResult, mainWindow)
         break
       }
 
       case 'rename_file': {
-        const renameResult = await fileSystem.renameFile(args.path, args.new_name)
-        const renameData = renameResult.data as { newPath?: string } | undefined
-        if (renameResult.success && renameData?.newPath) {
+        const renameResult = await fileSystem.renameFile(
+          args.path,
+          args.new_name,
+          fileSystem.parseConflictPolicy(args.on_conflict, 'fail')
+        )
+        const renameData = renameResult.data as fileSystem.TransferData | undefined
+        if (renameResult.success) {
           // Track for undo
-          const undoService = await import('../undoService')
-          const originalName = path.basename(args.path)
-          undoService.undoService.addOperation({
-            type: 'rename',
-            originalPath: args.path,
-            newPath: renameData.newPath,
-            originalName,
-            newName: args.new_name
-          })
-          // Notify UI about undo availability
-          if (mainWindow) {
-            mainWindow.webContents.send('undo:operation-added', {
+          await undoService.addTransferOperation(
+            {
               type: 'rename',
               originalPath: args.path,
-              newPath: renameData.newPath,
-              originalName,
-              newName: args.new_name
-            })
-          }
+              newPath: renameData?.newPath,
+              originalName: path.basename(args.path),
+              newName: renameData?.newPath ? path.basename(renameData.newPath) : args.new_name
+            },
+            renameData?.conflict
+          )
         }
-        result = renameResult
+        result = await queueOverwriteIfNeeded('rename', args.path, renameResult, mainWindow)
         break
       }
 
-      case 'copy_file':
-        result = await fileSystem.copyFile(args.source_path, args.destination_path)
+      case 'copy_file': {
+        const copyResult = await fileSystem.copyFile(
+          args.source_path,
+          args.destination_path,
+          fileSystem.parseConflictPolicy(args.on_conflict, 'fail')
+        )
+        const copyData = copyResult.data as fileSystem.TransferData | undefined
+        if (copyResult.success) {
+          await undoService.addTransferOperation(
+            { type: 'copy', originalPath: args.source_path, newPath: copyData?.newPath },
+            copyData?.conflict
+          )
+        }
+        result = await queueOverwriteIfNeeded('copy', args.source_path, copyResult, mainWindow)
         break
+      }
 
       case 'analyze_storage': {
         const folderPath = String(args.path)
@@ -160,11 +389,27 @@ export async function executeTool(
           )
         })
 
+        const largestFolders = (analysis.sizeTree.children ?? [])
+          .filter((node) => node.kind === 'folder')
+          .slice(0, 5)
+        if (largestFolders.length > 0) {
+          summary.push(``, `**Largest Folders:**`)
+          largestFolders.forEach((node) => {
+            summary.push(
+              `• ${node.name}: ${storageAnalyzer.formatBytes(node.size)} (${node.fileCount} files)`
+            )
+          })
+        }
+
         if (analysis.suggestions.length > 0) {
           summary.push(``, `**💡 Suggestions:**`)
           analysis.suggestions.forEach((s) => summary.push(`• ${s}`))
         }
 
+        if (analysis.growth) {
+          summary.push(``, ...describeGrowth(analysis.growth))
+        }
+
         result = {
           success: true,
           data: analysis,
@@ -173,6 +418,63 @@ export async function executeTool(
         break
       }
 
+      case 'storage_growth': {
+        const folderPath = String(args.path)
+        const days = args.days ? Math.max(Number(args.days), 1) : undefined
+
+        // Take a fresh snapshot first so "this month" runs up to now; the index keeps it cheap.
+        // Asking again soon after reuses the latest, or the answer would only cover those minutes
+        const previous = (await storageHistory.getHistory(folderPath)).pop()
+        const previousAge = previous
+          ? Date.now() - new Date(previous.scannedAt).getTime()
+          : Infinity
+        if (previousAge >= storageHistory.MIN_SNAPSHOT_INTERVAL_MS) {
+          await storageAnalyzer.analyzeStorage(folderPath, previous?.maxDepth ?? 3)
+        }
+
+        const growth = await storageHistory.getGrowth(folderPath, days)
+        if (!growth) {
+          result = {
+            success: true,
+            summary: `No earlier scans of this folder yet. Growth shows up from the next analysis on.`
+          }
+          break
+        }
+
+        result = {
+          success: true,
+          data: growth,
+          summary: [`**Storage Growth**`, ``, ...describeGrowth(growth)].join('\n')
+        }
+        break
+      }
+
+      case 'find_duplicates': {
+        const depth = args.depth ? Math.min(Math.max(Number(args.depth), 1), 10) : 5
+        const scan = await storageAnalyzer.findDuplicates(String(args.path), depth)
+
+        const summary = [
+          `**Duplicate Scan Complete**`,
+          ``,
+          scan.groups.length > 0
+            ? `🗂️ ${scan.groups.length} groups of identical files, ${storageAnalyzer.formatBytes(scan.totalRecoverable)} recoverable`
+            : `No duplicates among ${scan.filesScanned} files`
+        ]
+
+        scan.groups.slice(0, 5).forEach((group) => {
+          summary.push(
+            `• ${group.files[0].name}: ${group.files.length} copies, ${storageAnalyzer.formatBytes(group.recoverableBytes)}`
+          )
+        })
+
+        result = {
+          success: true,
+          data: scan,
+          summary: summary.join('\n')
+        }
+        break
+      }
+
       case 'analyze_image':
         result = await analyzeImage(args.path, args.prompt)
         break
@@ -181,11 +483,14 @@ export async function executeTool(
         try {
           const columns = JSON.parse(args.columns)
           const rows = JSON.parse(args.rows)
-          result = await spreadsheet.createSpreadsheet(args.path, {
+          const backupPath = await prepareFileWrite(args.path)
+          const sheetResult = await spreadsheet.createSpreadsheet(args.path, {
             columns,
             rows,
             sheetName: args.sheet_name || 'Sheet1'
           })
+          if (sheetResult.success) await recordFileWrite(args.path, backupPath)
+          result = sheetResult
         } catch (parseError) {
           result = { error: `Failed to parse spreadsheet data: ${parseError}` }
         }
@@ -194,7 +499,10 @@ export async function executeTool(
       case 'create_expense_report':
         try {
           const expenses = JSON.parse(args.expenses)
-          result = await spreadsheet.createExpenseReport(args.path, expenses)
+          const backupPath = await prepareFileWrite(args.path)
+          const reportResult = await spreadsheet.createExpenseReport(args.path, expenses)
+          if (reportResult.success) await recordFileWrite(args.path, backupPath)
+          result = reportResult
         } catch (parseError) {
           result = { error: `Failed to parse expense data: ${parseError}` }
         }
@@ -202,10 +510,7 @@ export async function executeTool(
 
       case 'organize_files':
         try {
-          const includeSubfolders = String(args.include_subfolders).toLowerCase() === 'true'
-          const plan = await fileOrganizer.createOrganizationPlan(args.path, {
-            includeSubfolders
-          })
+          const plan = await fileOrganizer.createOrganizationPlan(args.path, planOptions(args))
           const summary = fileOrganizer.getPlanSummary(plan)
           result = { success: true, plan, summary }
         } catch (error) {
@@ -216,9 +521,12 @@ export async function executeTool(
       case 'execute_organization':
         try {
           const deleteJunk = String(args.delete_junk).toLowerCase() === 'true'
-          const plan = await fileOrganizer.createOrganizationPlan(args.path)
+          const plan = await fileOrganizer.createOrganizationPlan(args.path, planOptions(args))
           const orgResult = await fileOrganizer.executeOrganization(args.path, plan, {
-            deleteJunk
+            deleteJunk,
+            conflictPolicy: fileSystem.parseConflictPolicy(args.on_conflict, 'suffix'),
+            onActionQueued: (action) => mainWindow?.webContents.send('pending:new-action', action),
+            signal
           })
           const summary = fileOrganizer.getResultSummary(orgResult)
           result = { ...orgResult, summary }
@@ -232,7 +540,8 @@ export async function executeTool(
           result = await processReceiptsBatch(
             args.folder_path,
             args.output_path,
-            args.category_hint
+            args.category_hint,
+            signal
           )
         } catch (error) {
           result = { error: `Failed to process receipts: ${error}` }
@@ -241,7 +550,7 @@ export async function executeTool(
 
       case 'smart_rename':
         try {
-          result = await smartRenameFile(args.path, args.naming_style)
+          result = await smartRenameFile(args.path, args.naming_style, signal)
         } catch (error) {
           result = { error: `Failed to rename file: ${error}` }
         }
@@ -254,12 +563,46 @@ export async function executeTool(
           console.log(
             `[CATEGORIZE] shouldExecute resolved to: ${shouldExecute} (raw: ${args.execute}, type: ${typeof args.execute})`
           )
-          result = await categorizeImages(args.folder_path, shouldExecute)
+          result = await categorizeImages(args.folder_path, shouldExecute, signal)
         } catch (error) {
           result = { error: `Failed to categorize images: ${error}` }
         }
         break
 
+      case 'find_similar_images': {
+        const threshold =
+          args.threshold !== undefined
+            ? Math.min(Math.max(Number(args.threshold), 0), 16)
+            : DEFAULT_SIMILARITY_THRESHOLD
+        const depth = args.depth ? Math.min(Math.max(Number(args.depth), 1), 10) : 5
+        const scan = await findSimilarImages(String(args.path), threshold, depth)
+
+        const summary = [
+          `**Similar Image Scan Complete**`,
+          ``,
+          scan.clusters.length > 0
+            ? `🖼️ ${scan.clusters.length} clusters of similar images, ${storageAnalyzer.formatBytes(scan.totalRecoverable)} recoverable`
+            : `No similar images among ${scan.imagesScanned} images`
+        ]
+        if (scan.imagesSkipped > 0) {
+          summary.push(`${scan.imagesSkipped} images could not be read and were skipped`)
+        }
+
+        scan.clusters.slice(0, 5).forEach((cluster) => {
+          const best = cluster.images[0]
+          summary.push(
+            `• ${best.name} (${best.width}×${best.height}): ${cluster.images.length - 1} similar, ${storageAnalyzer.formatBytes(cluster.recoverableBytes)}`
+          )
+        })
+
+        result = {
+          success: true,
+          data: scan,
+          summary: summary.join('\n')
+        }
+        break
+      }
+
       case 'export_to_google_sheets': {
         const signedIn = await isGoogleSignedIn()
         if (!signedIn) {
@@ -326,7 +669,19 @@ export async function executeTool(
           break
         }
         const maxEmails = parseInt(args.max_emails) || 20
-        result = await gmail.searchAndDownloadReceipts(args.query, args.output_folder, maxEmails)
+        await undoService.createFolder(args.output_folder)
+        const existingNames = new Set(await fs.readdir(args.output_folder).catch(() => []))
+        const downloadResult = await gmail.searchAndDownloadReceipts(
+          args.query,
+          args.output_folder,
+          maxEmails
+        )
+        for (const attachment of downloadResult.attachmentsDownloaded) {
+          // A file that was already there under this name must survive an undo
+          if (existingNames.has(attachment.filename)) continue
+          await undoService.addOperation({ type: 'create', originalPath: attachment.localPath })
+        }
+        result = downloadResult
         break
       }
 
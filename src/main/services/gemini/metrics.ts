@@ -10,6 +10,7 @@ export interface SessionMetrics {
   escalations: number
   totalCost: number
   startTime: number
+  tokensSaved: { history: number; toolResults: number } // Kept out of requests by the context budget
 }
 
 let sessionMetrics: SessionMetrics = {
@@ -19,7 +20,8 @@ let sessionMetrics: SessionMetrics = {
   modelUsage: { 'flash-minimal': 0, 'flash-high': 0, 'pro-high': 0 },
   escalations: 0,
   totalCost: 0,
-  startTime: Date.now()
+  startTime: Date.now(),
+  tokensSaved: { history: 0, toolResults: 0 }
 }
 
 export function getMetrics(): SessionMetrics & {
@@ -47,7 +49,8 @@ export function resetMetrics(): void {
     modelUsage: { 'flash-minimal': 0, 'flash-high': 0, 'pro-high': 0 },
     escalations: 0,
     totalCost: 0,
-    startTime: Date.now()
+    startTime: Date.now(),
+    tokensSaved: { history: 0, toolResults: 0 }
   }
 }
 
@@ -65,6 +68,10 @@ export function updateMetrics(
     (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output
 }
 
+export function recordTokensSaved(source: 'history' | 'toolResults', tokens: number): void {
+  if (tokens > 0) sessionMetrics.tokensSaved[source] += tokens
+}
+
 export function incrementTasksCompleted(): void {
   sessionMetrics.tasksCompleted++
 }
@@ -1,10 +1,14 @@
 import { BrowserWindow } from 'electron'
-import { FunctionCall } from '@google/generative-ai'
+import { Content, FunctionCall, FunctionResponsePart } from '@google/generative-ai'
 import { getClient, ExecutorProfile, EXECUTOR_CONFIGS } from './client'
 import { classifyTask, TaskClassification } from './router'
 import { allTools } from './tools'
 import { executeTool } from './executor'
+import { proposePlan, ActionPlan, PlannedStep, PLANNABLE_TASKS } from './planner'
+import { fitHistory, compactToolResult, estimateTokens } from './contextBudget'
+import { runToolLoop } from './streamingChat'
 import { updateMetrics, incrementTasksCompleted, incrementEscalations } from './metrics'
+import { undoService, UndoOperation } from '../undoService'
 
 // ============ TYPES ============
 
@@ -25,6 +29,68 @@ export interface AgentResponse {
   error?: string
   classification?: TaskClassification
   executorUsed?: ExecutorProfile
+  transactionId?: string // Undo transaction for file changes made during this turn
+  cancelled?: boolean // Stopped by the user before the model finished
+  completedChanges?: string[] // File changes made before the stop, oldest first
+  plan?: ActionPlan // Plan mode: proposed steps awaiting approval, nothing has run yet
+}
+
+// ============ CANCELLATION ============
+
+// The turn in flight; the renderer sends one message at a time
+let activeTurn: AbortController | null = null
+
+// Changes listed in the stop message; the full list is in completedChanges
+const MAX_CHANGES_SHOWN = 20
+
+/**
+ * Stop the turn in flight: abort the pending model call and let running tools stop
+ * between files. False when nothing was running.
+ */
+export function cancelChat(): boolean {
+  if (!activeTurn || activeTurn.signal.aborted) return false
+  console.log('[ORCHESTRATOR] Cancelling the current turn')
+  activeTurn.abort()
+  return true
+}
+
+function describeOperation(op: UndoOperation): string {
+  switch (op.type) {
+    case 'move':
+      return `Moved ${op.originalPath} → ${op.newPath}`
+    case 'rename':
+      return `Renamed ${op.originalPath} → ${op.newPath}`
+    case 'copy':
+      return `Copied ${op.originalPath} → ${op.newPath}`
+    case 'write':
+      return `Wrote ${op.originalPath}`
+    case 'create':
+      return `Created ${op.originalPath}`
+    case 'trash':
+      return `Moved ${op.originalPath} to the trash`
+  }
+}
+
+function buildCancelMessage(toolCalls: ToolCallResult[], changes: string[]): string {
+  const lines = ['**Stopped.**', '']
+
+  if (changes.length > 0) {
+    lines.push(`Changes made before stopping (undo them from History):`)
+    for (const change of changes.slice(0, MAX_CHANGES_SHOWN)) {
+      lines.push(`• ${change}`)
+    }
+    if (changes.length > MAX_CHANGES_SHOWN) {
+      lines.push(`• ... and ${changes.length - MAX_CHANGES_SHOWN} more`)
+    }
+  } else {
+    lines.push('No files were changed.')
+  }
+
+  if (toolCalls.length > 0) {
+    lines.push('', `Tools that ran: ${toolCalls.map((call) => call.name).join(', ')}`)
+  }
+
+  return lines.join('\n')
 }
 
 // ============ SYSTEM INSTRUCTION BUILDER ============
@@ -127,6 +193,7 @@ CAPABILITIES:
 TOOLS AVAILABLE:
 - list_directory: See files in a folder
 - read_file: Read file contents (PDF, DOCX, XLSX, CSV, JSON, code, text)
+- get_tool_result: Page through a large tool result that came back truncated
 - write_file: Create or overwrite a text file
 - create_folder: Create a new folder
 - delete_file: Queue for deletion (user must approve in Review panel)
@@ -134,17 +201,22 @@ TOOLS AVAILABLE:
 - rename_file: Rename files/folders
 - copy_file: Copy files/folders
 - analyze_storage: Analyze disk usage and get cleanup suggestions
+- storage_growth: Show which folders and file types grew since an earlier scan
+- find_duplicates: Find files with identical content and the space removing extra copies frees
 - analyze_image: Extract text/data from images (receipts, screenshots, etc.)
 - create_spreadsheet: Create Excel files with custom columns and data
 - create_expense_report: Create formatted expense reports from receipt data
-- organize_files: Scan folder and create organization plan by file type
-- execute_organization: Execute the organization plan (move files to category folders)
+- organize_files: Scan folder and create organization plan by file type, date, type then year, project or download source
+- execute_organization: Execute the organization plan (move files into the planned folders)
 - process_receipts: Batch process receipt images into expense report
 - smart_rename: Intelligently rename files based on content
 - categorize_images: Categorize images using AI Vision and organize into folders
+- find_similar_images: Find visually similar photos and screenshots (burst shots, resized copies)
 
 VISUALIZATION INSTRUCTIONS:
 When you use the analyze_storage tool, the UI will automatically display beautiful charts in the Storage panel.
+The same goes for find_duplicates and find_similar_images: the groups appear in the Storage panel, where the user picks which copy to keep.
+organize_files opens a before/after preview of the plan; only call execute_organization once the user asks to apply it, with the same strategy.
 You do NOT need to create artifacts or show code - the visualization happens automatically.
 
 Simply provide a brief summary like:
@@ -172,10 +244,22 @@ RESPONSE FORMATTING:
 }
 
 // ============ CORE EXECUTOR FUNCTION ============
-// Uses sendMessage (non-streaming) to properly manage chat history with function calls.
-// sendMessageStream has a known bug where it does NOT add the model's function-call
-// response to the session's internal history, causing:
-//   "Please ensure that function response turn comes immediately after a function call turn."
+// Streams text to the UI as it arrives. The function-call history is kept by
+// runToolLoop rather than a ChatSession, see streamingChat.ts.
+
+interface ExecutorAttempt {
+  fullText: string
+  toolCalls: ToolCallResult[]
+  cancelled: boolean
+  contents: Content[] // Completed turns, to resume from after a failure
+  streamed: boolean // Some text reached the UI
+  error?: unknown // The model request failed part way
+}
+
+/** An attempt the user has seen text from, or that ran tools, can't simply start over */
+function madeProgress(attempt: ExecutorAttempt): boolean {
+  return attempt.streamed || attempt.toolCalls.length > 0
+}
 
 async function executeWithModel(
   messages: ChatMessage[],
@@ -183,8 +267,10 @@ async function executeWithModel(
   executorProfile: ExecutorProfile,
   mainWindow: BrowserWindow | null,
   selectedFiles?: string[],
-  isSelectedDirectory?: boolean
-): Promise<{ fullText: string; toolCalls: ToolCallResult[] }> {
+  isSelectedDirectory?: boolean,
+  signal?: AbortSignal,
+  resumeFrom?: ExecutorAttempt
+): Promise<ExecutorAttempt> {
   const client = getClient()
   const executorConfig = EXECUTOR_CONFIGS[executorProfile]
   const lastMessage = messages[messages.length - 1].content
@@ -207,103 +293,186 @@ async function executeWithModel(
   })
 
   // Build history from previous messages (all except the last one which we send as the new message)
-  const history = messages.slice(0, -1).map((m) => ({
-    role: m.role === 'assistant' ? ('model' as const) : ('user' as const),
+  const history: Content[] = messages.slice(0, -1).map((m) => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
     parts: [{ text: m.content }]
   }))
 
-  // IMPORTANT: Always create a fresh chat session.
-  // Reusing sessions after an error leaves corrupted history that causes cascading failures.
-  const chatSession = model.startChat({ history })
-
-  console.log(`[EXECUTOR:${executorProfile}] Sending message (non-streaming)...`)
+  console.log(`[EXECUTOR:${executorProfile}] Streaming message...`)
 
-  const toolCalls: ToolCallResult[] = []
-  let fullText = ''
-
-  // Use sendMessage (non-streaming) — this correctly manages function call history.
-  // sendMessageStream has a known bug where it does NOT add the model's function-call
-  // response to the session's internal history, breaking the next sendMessage call.
-  const result = await chatSession.sendMessage(lastMessage)
-  const response = result.response
-
-  let functionCalls: FunctionCall[] | undefined = response.functionCalls()
-
-  // If no function calls, extract text and send to UI
-  if (!functionCalls || functionCalls.length === 0) {
-    const text = response.text()
-    if (text) {
-      fullText += text
-      mainWindow?.webContents.send('agent:stream-chunk', text)
-    }
-  }
-
-  console.log(`[EXECUTOR:${executorProfile}] Function calls: ${functionCalls?.length || 0}`)
-
-  // Function call loop — execute tools and send results back
-  let loopCount = 0
-  while (functionCalls && functionCalls.length > 0 && loopCount < 10) {
-    loopCount++
+  const resume = resumeFrom && madeProgress(resumeFrom) ? resumeFrom : undefined
+  const toolCalls: ToolCallResult[] = [...(resume?.toolCalls ?? [])]
+  let streamed = false
 
+  // One round of function calls; the responses go back to the model in the same order
+  const runTools = async (calls: FunctionCall[]): Promise<FunctionResponsePart[] | null> => {
+    console.log(`[EXECUTOR:${executorProfile}] Function calls: ${calls.length}`)
     mainWindow?.webContents.send('agent:tool-start')
 
-    const functionResponses: Array<{
-      functionResponse: { name: string; response: object }
-    }> = []
+    const functionResponses: FunctionResponsePart[] = []
+
+    for (const call of calls) {
+      // Calls the model asked for after a stop are dropped, not run
+      if (signal?.aborted) return null
 
-    for (const call of functionCalls) {
       const toolName = call.name
       const toolArgs = (call.args || {}) as Record<string, string>
 
       console.log(`[EXECUTOR:${executorProfile}] Tool: ${toolName}`)
       mainWindow?.webContents.send('agent:tool-call', { name: toolName, args: toolArgs })
 
-      const toolResult = await executeTool(toolName, toolArgs, mainWindow)
+      const toolResult = await executeTool(toolName, toolArgs, mainWindow, signal)
       toolCalls.push({ name: toolName, args: toolArgs, result: toolResult })
 
       console.log(`[TOOL RESULT] ${toolName}: ${JSON.stringify(toolResult).substring(0, 200)}`)
       mainWindow?.webContents.send('agent:tool-result', { name: toolName, result: toolResult })
 
+      // The model gets a preview of results too large for the budget; the UI got them whole
       functionResponses.push({
-        functionResponse: { name: toolName, response: { result: toolResult } }
+        functionResponse: {
+          name: toolName,
+          response: { result: compactToolResult(toolName, toolResult, executorProfile) }
+        }
       })
     }
 
-    // Send all function responses back to the model
-    // Using sendMessage (non-streaming) ensures the history stays correct:
-    //   model: [functionCall, functionCall, ...]
-    //   user:  [functionResponse, functionResponse, ...]
-    const followUpResult = await chatSession.sendMessage(functionResponses)
-    const followUpResponse = followUpResult.response
-
-    // Check if model wants to call more tools or return text
-    functionCalls = followUpResponse.functionCalls()
-
-    if (!functionCalls || functionCalls.length === 0) {
-      // Model is done with tools — extract final text
-      try {
-        const responseText = followUpResponse.text()
-        if (responseText) {
-          fullText += responseText
-          mainWindow?.webContents.send('agent:stream-chunk', responseText)
-        }
-      } catch {
-        // Some responses don't have text (e.g., only function calls)
-      }
-    }
+    return functionResponses
   }
 
-  return { fullText, toolCalls }
+  const onText = (text: string): void => {
+    streamed = true
+    mainWindow?.webContents.send('agent:stream-chunk', text)
+  }
+
+  if (resume) {
+    // Drop the failed attempt's text and show what its completed turns said, then carry on
+    mainWindow?.webContents.send('agent:stream-reset')
+    if (resume.fullText) onText(resume.fullText)
+  }
+
+  const { fullText, contents, cancelled, error } = await runToolLoop({
+    model,
+    history,
+    message: lastMessage,
+    runTools,
+    onText,
+    signal,
+    resume
+  })
+
+  return { fullText, toolCalls, cancelled, contents, streamed, error }
 }
 
 // ============ ORCHESTRATED CHAT (2-LAYER) ============
 
+function shortName(text: string): string {
+  return text.length > 60 ? `${text.substring(0, 60)}...` : text
+}
+
+/**
+ * Run one cancellable turn as a single undo transaction, reporting what already
+ * changed if it was stopped
+ */
+async function runTurn(
+  name: string,
+  turn: (signal: AbortSignal) => Promise<AgentResponse>
+): Promise<AgentResponse> {
+  const controller = new AbortController()
+  activeTurn = controller
+
+  try {
+    // Every file change made during this turn is undoable as one transaction
+    return await undoService.runInTransaction(name, async (transactionId) => {
+      const response = await turn(controller.signal)
+      const operations = await undoService.getTransactionOperations(transactionId)
+      if (operations.length > 0) {
+        response.transactionId = transactionId
+      }
+      if (response.cancelled) {
+        response.completedChanges = operations.map(describeOperation)
+        response.message = buildCancelMessage(response.toolCalls ?? [], response.completedChanges)
+      }
+      return response
+    })
+  } finally {
+    if (activeTurn === controller) activeTurn = null
+  }
+}
+
 export async function chatStream(
   messages: ChatMessage[],
   grantedFolders: string[],
   mainWindow: BrowserWindow | null,
   selectedFiles?: string[],
-  isSelectedDirectory?: boolean
+  isSelectedDirectory?: boolean,
+  planFirst = false
+): Promise<AgentResponse> {
+  return runTurn(`Chat: ${shortName(messages[messages.length - 1].content)}`, (signal) =>
+    runChatTurn(
+      messages,
+      grantedFolders,
+      mainWindow,
+      selectedFiles,
+      isSelectedDirectory,
+      planFirst,
+      signal
+    )
+  )
+}
+
+/**
+ * Run the steps the user approved from a proposed plan, in order. Progress goes out on
+ * the same tool-call and tool-result channels as a normal turn.
+ */
+export async function runPlan(
+  summary: string,
+  steps: PlannedStep[],
+  mainWindow: BrowserWindow | null
+): Promise<AgentResponse> {
+  return runTurn(`Plan: ${shortName(summary)}`, async (signal) => {
+    const toolCalls: ToolCallResult[] = []
+    const lines: string[] = []
+
+    console.log(`[ORCHESTRATOR] Running ${steps.length} approved plan steps`)
+    mainWindow?.webContents.send('agent:tool-start')
+
+    for (const step of steps) {
+      if (signal.aborted) {
+        return { message: '', toolCalls, cancelled: true }
+      }
+
+      mainWindow?.webContents.send('agent:tool-call', { name: step.tool, args: step.args })
+      const result = await executeTool(step.tool, step.args, mainWindow, signal)
+      toolCalls.push({ name: step.tool, args: step.args, result })
+      mainWindow?.webContents.send('agent:tool-result', { name: step.tool, result })
+
+      const error = (result as { error?: string } | null)?.error
+      lines.push(error ? `• ✗ ${step.description}: ${error}` : `• ✓ ${step.description}`)
+    }
+
+    const failed = lines.filter((line) => line.startsWith('• ✗')).length
+    incrementTasksCompleted()
+
+    return {
+      message: [
+        `**Plan ${failed > 0 ? 'finished with errors' : 'complete'}**`,
+        '',
+        `${steps.length - failed} of ${steps.length} steps succeeded:`,
+        ...lines
+      ].join('\n'),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    }
+  })
+}
+
+async function runChatTurn(
+  messages: ChatMessage[],
+  grantedFolders: string[],
+  mainWindow: BrowserWindow | null,
+  selectedFiles?: string[],
+  isSelectedDirectory?: boolean,
+  planFirst = false,
+  signal?: AbortSignal
 ): Promise<AgentResponse> {
   const workingFolder = grantedFolders[0] || ''
   const lastMessage = messages[messages.length - 1].content
@@ -336,6 +505,11 @@ export async function chatStream(
 
   mainWindow?.webContents.send('agent:routing-complete', classification)
 
+  if (signal?.aborted) {
+    mainWindow?.webContents.send('agent:stream-end')
+    return { message: '', cancelled: true, classification }
+  }
+
   const executorProfile = classification.recommendedExecutor
   const executorConfig = EXECUTOR_CONFIGS[executorProfile]
 
@@ -343,81 +517,166 @@ export async function chatStream(
     `[ORCHESTRATOR] Selected executor: ${executorProfile} (${executorConfig.description})`
   )
 
-  // ===== LAYER 2: EXECUTOR =====
+  // Older turns past the executor's budget are summarised before anything is sent
+  let context: ChatMessage[]
   try {
-    const { fullText, toolCalls } = await executeWithModel(
-      messages,
+    context = await fitHistory(messages, executorProfile, signal)
+  } catch {
+    // Only thrown once the turn was stopped
+    mainWindow?.webContents.send('agent:stream-end')
+    return { message: '', cancelled: true, classification }
+  }
+
+  // ===== PLAN MODE: propose steps for approval instead of running them =====
+  if (planFirst && PLANNABLE_TASKS.includes(classification.taskType)) {
+    return draftPlan(
+      context,
       workingFolder,
-      executorProfile,
+      classification,
       mainWindow,
       selectedFiles,
-      isSelectedDirectory
+      isSelectedDirectory,
+      signal
     )
+  }
+
+  // ===== LAYER 2: EXECUTOR =====
+  const execute = async (
+    profile: ExecutorProfile,
+    resumeFrom?: ExecutorAttempt
+  ): Promise<ExecutorAttempt> => {
+    try {
+      return await executeWithModel(
+        context,
+        workingFolder,
+        profile,
+        mainWindow,
+        selectedFiles,
+        isSelectedDirectory,
+        signal,
+        resumeFrom
+      )
+    } catch (error) {
+      // Failed before any request was sent (client, system instruction)
+      return {
+        fullText: resumeFrom?.fullText ?? '',
+        toolCalls: resumeFrom?.toolCalls ?? [],
+        cancelled: false,
+        contents: resumeFrom?.contents ?? [],
+        streamed: false,
+        error
+      }
+    }
+  }
+
+  let executorUsed = executorProfile
+  let attempt = await execute(executorProfile)
+
+  // Escalate to pro-high if a lesser model failed, unless the failure came from a stop.
+  // Once text was streamed or tools ran it resumes from the completed turns, so nothing
+  // is shown or run twice.
+  if (
+    attempt.error !== undefined &&
+    !signal?.aborted &&
+    executorProfile !== 'pro-high' &&
+    (!madeProgress(attempt) || attempt.contents.length > 0)
+  ) {
+    console.error(`[EXECUTOR:${executorProfile}] Error:`, attempt.error)
+    console.log('[ORCHESTRATOR] Escalating to pro-high due to error...')
+    incrementEscalations()
+    executorUsed = 'pro-high'
+    attempt = await execute('pro-high', attempt)
+  }
+
+  mainWindow?.webContents.send('agent:stream-end')
+
+  const { fullText, toolCalls, error } = attempt
+  const completedToolCalls = toolCalls.length > 0 ? toolCalls : undefined
+
+  if (attempt.cancelled || (error !== undefined && signal?.aborted)) {
+    console.log(`[ORCHESTRATOR] Cancelled. Executor: ${executorUsed}, Tools: ${toolCalls.length}`)
+    return {
+      message: '',
+      toolCalls: completedToolCalls,
+      cancelled: true,
+      classification,
+      executorUsed
+    }
+  }
+
+  if (error !== undefined) {
+    console.error(`[EXECUTOR:${executorUsed}] Error:`, error)
+    return {
+      message: '',
+      toolCalls: completedToolCalls,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      classification,
+      executorUsed
+    }
+  }
+
+  const inputTokens = context.reduce((sum, m) => sum + estimateTokens(m.content), 0) + 500
+  const outputTokens = fullText.length / 4 + toolCalls.length * 50
+  updateMetrics(executorUsed, inputTokens, outputTokens)
+  incrementTasksCompleted()
+
+  console.log(`[ORCHESTRATOR] Complete. Executor: ${executorUsed}, Tools: ${toolCalls.length}`)
+
+  return {
+    message: fullText || 'Done.',
+    toolCalls: completedToolCalls,
+    classification,
+    executorUsed
+  }
+}
+
+async function draftPlan(
+  messages: ChatMessage[],
+  workingFolder: string,
+  classification: TaskClassification,
+  mainWindow: BrowserWindow | null,
+  selectedFiles?: string[],
+  isSelectedDirectory?: boolean,
+  signal?: AbortSignal
+): Promise<AgentResponse> {
+  const executorProfile = classification.recommendedExecutor
 
+  try {
+    const systemInstruction = await buildSystemInstruction(
+      workingFolder,
+      selectedFiles,
+      isSelectedDirectory,
+      messages
+    )
+    const plan = await proposePlan(messages, systemInstruction, executorProfile, signal)
     mainWindow?.webContents.send('agent:stream-end')
 
     const inputTokens = messages.reduce((sum, m) => sum + m.content.length / 4, 0) + 500
-    const outputTokens = fullText.length / 4 + toolCalls.length * 50
-    updateMetrics(executorProfile, inputTokens, outputTokens)
-    incrementTasksCompleted()
+    updateMetrics(executorProfile, inputTokens, plan.steps.length * 50)
 
-    console.log(`[ORCHESTRATOR] Complete. Executor: ${executorProfile}, Tools: ${toolCalls.length}`)
+    if (plan.steps.length === 0) {
+      return {
+        message: `${plan.summary}\n\nThere is nothing to run for this request.`,
+        classification,
+        executorUsed: executorProfile
+      }
+    }
 
     return {
-      message: fullText || 'Done.',
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      message: `**Plan ready:** ${plan.summary}\n\nReview the ${plan.steps.length} steps in the Progress panel. Nothing runs until you approve them.`,
+      plan,
       classification,
       executorUsed: executorProfile
     }
   } catch (error) {
-    console.error(`[EXECUTOR:${executorProfile}] Error:`, error)
     mainWindow?.webContents.send('agent:stream-end')
-
-    // Escalate to pro-high if a lesser model failed
-    if (executorProfile !== 'pro-high') {
-      console.log('[ORCHESTRATOR] Escalating to pro-high due to error...')
-      incrementEscalations()
-
-      try {
-        const { fullText, toolCalls } = await executeWithModel(
-          messages,
-          workingFolder,
-          'pro-high',
-          mainWindow,
-          selectedFiles,
-          isSelectedDirectory
-        )
-
-        mainWindow?.webContents.send('agent:stream-end')
-
-        const inputTokens = messages.reduce((sum, m) => sum + m.content.length / 4, 0) + 500
-        const outputTokens = fullText.length / 4 + toolCalls.length * 50
-        updateMetrics('pro-high', inputTokens, outputTokens)
-        incrementTasksCompleted()
-
-        console.log(`[ORCHESTRATOR] Escalation complete. Tools: ${toolCalls.length}`)
-
-        return {
-          message: fullText || 'Done.',
-          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-          classification,
-          executorUsed: 'pro-high'
-        }
-      } catch (escalationError) {
-        console.error('[EXECUTOR:pro-high] Escalation also failed:', escalationError)
-        mainWindow?.webContents.send('agent:stream-end')
-        return {
-          message: '',
-          error: `Error: ${escalationError instanceof Error ? escalationError.message : String(escalationError)}`,
-          classification,
-          executorUsed: 'pro-high'
-        }
-      }
+    if (signal?.aborted) {
+      return { message: '', cancelled: true, classification, executorUsed: executorProfile }
     }
-
+    console.error('[PLANNER] Failed to draft a plan:', error)
     return {
       message: '',
-      error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      error: `Could not draft a plan: ${error instanceof Error ? error.message : String(error)}`,
       classification,
       executorUsed: executorProfile
     }
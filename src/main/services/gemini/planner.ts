@@ -0,0 +1,136 @@
+import { getClient, ExecutorProfile, EXECUTOR_CONFIGS } from './client'
+import { TaskClassification } from './router'
+import { allTools } from './tools'
+
+// ============ PLAN-THEN-EXECUTE ============
+
+export interface PlannedStep {
+  id: string
+  tool: string
+  args: Record<string, string>
+  description: string
+}
+
+export interface ActionPlan {
+  summary: string
+  steps: PlannedStep[]
+}
+
+// Task types worth reviewing before anything runs; the rest execute directly
+export const PLANNABLE_TASKS: TaskClassification['taskType'][] = [
+  'multi_file_op',
+  'file_organization',
+  'batch_processing'
+]
+
+const MAX_PLAN_STEPS = 30
+
+interface ToolDeclaration {
+  name: string
+  description: string
+  parameters?: { properties?: Record<string, unknown>; required?: string[] }
+}
+
+/**
+ * One line per tool ("- move_file(source_path, destination_path, on_conflict?): ...")
+ */
+function describeTools(): string {
+  return (allTools as ToolDeclaration[])
+    .map((tool) => {
+      const required = tool.parameters?.required ?? []
+      const params = Object.keys(tool.parameters?.properties ?? {}).map((param) =>
+        required.includes(param) ? param : `${param}?`
+      )
+      return `- ${tool.name}(${params.join(', ')}): ${tool.description.split('\n')[0]}`
+    })
+    .join('\n')
+}
+
+function buildPlanInstruction(): string {
+  return `## PLAN MODE
+Do not do the task yet. Write out every tool call you intend to make for it, in order.
+The user reviews the list, may untick or edit steps, and only the approved steps are run, one after another, without you seeing their results. So:
+- Use full absolute paths from the context above
+- Prefer one batch tool (execute_organization, categorize_images, process_receipts) over many single-file calls
+- Leave out list_directory and read_file steps that would only help you look around
+
+OUTPUT FORMAT (JSON only, no markdown):
+{
+  "summary": "one sentence saying what the plan does",
+  "steps": [
+    { "tool": "tool_name", "args": { "param": "value" }, "description": "what this step does, in plain words" }
+  ]
+}
+
+AVAILABLE TOOLS:
+${describeTools()}`
+}
+
+// Tools take string arguments over IPC; booleans and numbers survive a String() round trip
+function toArgs(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object') return {}
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+      key,
+      typeof v === 'object' ? JSON.stringify(v) : String(v)
+    ])
+  )
+}
+
+function parsePlan(responseText: string): ActionPlan {
+  const jsonString = responseText.match(/\{[\s\S]*\}/)?.[0]
+  if (!jsonString) {
+    throw new Error('No plan found in the model response')
+  }
+
+  const data = JSON.parse(jsonString) as { summary?: string; steps?: unknown[] }
+  const toolNames = new Set((allTools as ToolDeclaration[]).map((tool) => tool.name))
+
+  const steps = (data.steps ?? [])
+    .map((raw) => raw as { tool?: string; args?: unknown; description?: string })
+    .filter((step) => step.tool && toolNames.has(step.tool))
+    .slice(0, MAX_PLAN_STEPS)
+    .map((step, index) => ({
+      id: `step-${index + 1}`,
+      tool: step.tool as string,
+      args: toArgs(step.args),
+      description: step.description || step.tool || ''
+    }))
+
+  return { summary: data.summary || `${steps.length} planned steps`, steps }
+}
+
+/**
+ * Ask the model for the complete list of tool calls it would make, without running any
+ */
+export async function proposePlan(
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  systemInstruction: string,
+  executorProfile: ExecutorProfile,
+  signal?: AbortSignal
+): Promise<ActionPlan> {
+  const model = getClient().getGenerativeModel({
+    model: EXECUTOR_CONFIGS[executorProfile].model,
+    systemInstruction: `${systemInstruction}\n\n${buildPlanInstruction()}`,
+    generationConfig: {
+      temperature: 0.2,
+      responseMimeType: 'application/json'
+    }
+  })
+
+  console.log(`[PLANNER] Drafting plan with ${executorProfile}...`)
+
+  const result = await model.generateContent(
+    {
+      contents: messages.map((m) => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      }))
+    },
+    { signal }
+  )
+
+  const plan = parsePlan(result.response.text())
+  console.log(`[PLANNER] ${plan.steps.length} steps: ${plan.summary}`)
+  return plan
+}
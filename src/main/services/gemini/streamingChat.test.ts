@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest'
+import {
+  Content,
+  EnhancedGenerateContentResponse,
+  FunctionCall,
+  FunctionResponsePart,
+  GenerateContentRequest,
+  GenerateContentStreamResult,
+  Part
+} from '@google/generative-ai'
+import { runToolLoop, StreamingModel } from './streamingChat'
+
+// ============ FAKE MODEL CLIENT ============
+
+/**
+ * Rejects contents the real API would reject: a function-call turn must be followed
+ * straight away by a user turn answering every call, by name and in order
+ */
+function assertConsistentHistory(contents: Content[]): void {
+  contents.forEach((turn, index) => {
+    if (index > 0) expect(turn.role).not.toBe(contents[index - 1].role)
+
+    const calls = turn.parts.filter((part) => part.functionCall)
+    if (turn.role !== 'model' || calls.length === 0) return
+
+    const next = contents[index + 1]
+    if (!next) return // The request being answered may end on the model's calls
+    expect(next.role).toBe('user')
+    expect(next.parts.map((part) => part.functionResponse?.name)).toEqual(
+      calls.map((part) => part.functionCall?.name)
+    )
+  })
+  expect(contents[contents.length - 1].role).toBe('user')
+}
+
+/**
+ * Streams scripted model turns, one per request, each as a list of chunks
+ */
+function fakeModel(turns: Part[][][]): StreamingModel & { requests: Content[][] } {
+  const requests: Content[][] = []
+  return {
+    requests,
+    async generateContentStream(request: GenerateContentRequest) {
+      // Copied, so later pushes to the caller's array can't rewrite what was sent
+      const contents = structuredClone(request.contents)
+      requests.push(contents)
+      assertConsistentHistory(contents)
+
+      const chunks = turns[requests.length - 1]
+      if (!chunks) throw new Error(`Unexpected request #${requests.length}`)
+
+      const toResponse = (parts: Part[]): EnhancedGenerateContentResponse =>
+        ({ candidates: [{ content: { role: 'model', parts } }] }) as never
+      async function* stream(): AsyncGenerator<EnhancedGenerateContentResponse> {
+        for (const parts of chunks) yield toResponse(parts)
+      }
+      return {
+        stream: stream(),
+        response: Promise.resolve(toResponse(chunks.flat()))
+      } as GenerateContentStreamResult
+    }
+  }
+}
+
+function answer(calls: FunctionCall[]): FunctionResponsePart[] {
+  return calls.map((call) => ({
+    functionResponse: { name: call.name, response: { result: `${call.name} done` } }
+  }))
+}
+
+const call = (name: string, path: string): Part => ({ functionCall: { name, args: { path } } })
+
+// ============ TESTS ============
+
+describe('runToolLoop', () => {
+  it('keeps the function-call history consistent across multi-tool turns', async () => {
+    const model = fakeModel([
+      [[{ text: 'Let me ' }], [{ text: 'look.' }, call('list_directory', '/docs')]],
+      [[call('read_file', '/docs/a.txt'), call('read_file', '/docs/b.txt')]],
+      [[call('move_file', '/docs/a.txt')]],
+      [[{ text: 'Moved ' }], [{ text: 'a.txt' }], [{ text: ' into Archive.' }]]
+    ])
+    const streamed: string[] = []
+    const rounds: string[][] = []
+
+    const result = await runToolLoop({
+      model,
+      history: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ text: 'Hello!' }] }
+      ],
+      message: 'Tidy up /docs',
+      runTools: async (calls) => {
+        rounds.push(calls.map((c) => c.name))
+        return answer(calls)
+      },
+      onText: (text) => streamed.push(text)
+    })
+
+    expect(result.cancelled).toBe(false)
+    expect(streamed).toEqual(['Let me ', 'look.', 'Moved ', 'a.txt', ' into Archive.'])
+    expect(result.fullText).toBe('Let me look.Moved a.txt into Archive.')
+    expect(rounds).toEqual([['list_directory'], ['read_file', 'read_file'], ['move_file']])
+
+    // Every request resent the whole conversation so far, ending with the newest user turn
+    expect(model.requests.map((contents) => contents.length)).toEqual([3, 5, 7, 9])
+    expect(model.requests[1][3]).toEqual({
+      role: 'model',
+      parts: [{ text: 'Let me look.' }, call('list_directory', '/docs')]
+    })
+    expect(model.requests[2][6].parts).toEqual(
+      answer([
+        { name: 'read_file', args: { path: '/docs/a.txt' } },
+        { name: 'read_file', args: { path: '/docs/b.txt' } }
+      ])
+    )
+
+    assertConsistentHistory(result.contents.slice(0, -1))
+    expect(result.contents[result.contents.length - 1]).toEqual({
+      role: 'model',
+      parts: [{ text: 'Moved a.txt into Archive.' }]
+    })
+  })
+
+  it('stops without another request when the tools are cancelled', async () => {
+    const model = fakeModel([[[call('delete_file', '/docs/old.txt')]]])
+
+    const result = await runToolLoop({
+      model,
+      history: [],
+      message: 'Delete old.txt',
+      runTools: async () => null
+    })
+
+    expect(result.cancelled).toBe(true)
+    expect(model.requests).toHaveLength(1)
+  })
+
+  it('stops after the maximum number of tool rounds', async () => {
+    const model = fakeModel([
+      [[call('list_directory', '/a')]],
+      [[call('list_directory', '/b')]],
+      [[call('list_directory', '/c')]]
+    ])
+    let rounds = 0
+
+    const result = await runToolLoop({
+      model,
+      history: [],
+      message: 'Look everywhere',
+      runTools: async (calls) => {
+        rounds++
+        return answer(calls)
+      },
+      maxToolRounds: 2
+    })
+
+    expect(result.cancelled).toBe(false)
+    expect(rounds).toBe(2)
+    expect(model.requests).toHaveLength(3)
+  })
+  it('returns the completed turns when a request fails part way', async () => {
+    // No scripted reply for the second request: the fake rejects it
+    const model = fakeModel([[[{ text: 'Looking. ' }, call('list_directory', '/docs')]]])
+
+    const result = await runToolLoop({
+      model,
+      history: [],
+      message: 'Tidy up /docs',
+      runTools: async (calls) => answer(calls)
+    })
+
+    expect(result.error).toBeInstanceOf(Error)
+    expect(result.cancelled).toBe(false)
+    expect(result.fullText).toBe('Looking. ')
+    expect(result.contents.map((turn) => turn.role)).toEqual(['user', 'model', 'user'])
+  })
+
+  it('resumes a failed loop from its completed turns without resending the message', async () => {
+    const failed = await runToolLoop({
+      model: fakeModel([[[{ text: 'Looking. ' }, call('list_directory', '/docs')]]]),
+      history: [],
+      message: 'Tidy up /docs',
+      runTools: async (calls) => answer(calls)
+    })
+    const model = fakeModel([[[{ text: 'All tidy.' }]]])
+    let toolRuns = 0
+
+    const result = await runToolLoop({
+      model,
+      history: [],
+      message: 'Tidy up /docs',
+      runTools: async (calls) => {
+        toolRuns++
+        return answer(calls)
+      },
+      resume: failed
+    })
+
+    expect(result.error).toBeUndefined()
+    expect(toolRuns).toBe(0)
+    expect(model.requests[0]).toEqual(failed.contents)
+    expect(result.fullText).toBe('Looking. All tidy.')
+  })
+})
@@ -0,0 +1,141 @@
+import {
+  Content,
+  FunctionCall,
+  FunctionResponsePart,
+  GenerateContentRequest,
+  GenerateContentStreamResult,
+  Part,
+  SingleRequestOptions
+} from '@google/generative-ai'
+
+// ============ STREAMING TOOL LOOP ============
+// ChatSession.sendMessageStream does not record the model's function-call turn in its
+// history, so the next request fails with "function response turn comes immediately
+// after a function call turn". Here the conversation is kept by hand instead: every
+// request carries the full contents, and each streamed model turn is appended whole.
+
+// The part of GenerativeModel used here, so tests can pass a fake
+export interface StreamingModel {
+  generateContentStream(
+    request: GenerateContentRequest,
+    requestOptions?: SingleRequestOptions
+  ): Promise<GenerateContentStreamResult>
+}
+
+export interface ToolLoopOptions {
+  model: StreamingModel
+  history: Content[] // Earlier turns, oldest first
+  message: string
+  // Run one round of calls; null when the turn was stopped part way
+  runTools: (calls: FunctionCall[]) => Promise<FunctionResponsePart[] | null>
+  onText?: (text: string) => void
+  maxToolRounds?: number
+  signal?: AbortSignal
+  // Carry on from a loop that failed part way; its contents already hold the message
+  resume?: Pick<ToolLoopResult, 'contents' | 'fullText'>
+}
+
+export interface ToolLoopResult {
+  fullText: string
+  contents: Content[] // Everything sent and received, including calls and responses
+  cancelled: boolean
+  error?: unknown // A request failed; contents and fullText cover the turns completed before it
+}
+
+const MAX_TOOL_ROUNDS = 10
+
+// Parts with anything besides text (e.g. a thought signature) are kept as they came
+function isPlainText(part: Part | undefined): boolean {
+  return part !== undefined && typeof part.text === 'string' && Object.keys(part).length === 1
+}
+
+// Streaming splits text into many small parts; history only needs them joined
+function mergeTextParts(parts: Part[]): Part[] {
+  const merged: Part[] = []
+  for (const part of parts) {
+    const last = merged[merged.length - 1]
+    if (isPlainText(part) && isPlainText(last)) {
+      merged[merged.length - 1] = { text: `${last.text}${part.text}` }
+    } else {
+      merged.push(part)
+    }
+  }
+  return merged
+}
+
+/**
+ * Stream one model turn, passing text on as it arrives. Null once the turn was stopped.
+ */
+async function streamTurn(
+  model: StreamingModel,
+  contents: Content[],
+  onText?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; parts: Part[] } | null> {
+  if (signal?.aborted) return null
+
+  const parts: Part[] = []
+  let text = ''
+  try {
+    // A snapshot, since contents grows after this request is sent
+    const result = await model.generateContentStream({ contents: [...contents] }, { signal })
+    // The aggregated response is unused, but rejects along with the stream on a stop
+    result.response.catch(() => undefined)
+
+    for await (const chunk of result.stream) {
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        parts.push(part)
+        if (part.text) {
+          text += part.text
+          onText?.(part.text)
+        }
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return null
+    throw error
+  }
+
+  return { text, parts: mergeTextParts(parts) }
+}
+
+/**
+ * Send a message and keep going while the model calls tools, streaming its text.
+ * Each round appends the model's turn (text and function calls, as received) followed
+ * by a user turn with one function response per call.
+ */
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const { model, runTools, onText, signal, resume, maxToolRounds = MAX_TOOL_ROUNDS } = options
+  const contents: Content[] = resume
+    ? [...resume.contents]
+    : [...options.history, { role: 'user', parts: [{ text: options.message }] }]
+  let fullText = resume?.fullText ?? ''
+
+  for (let round = 0; ; round++) {
+    let turn: Awaited<ReturnType<typeof streamTurn>>
+    try {
+      turn = await streamTurn(model, contents, onText, signal)
+    } catch (error) {
+      // Text of the failed turn may have been streamed, but only whole turns are kept
+      return { fullText, contents, cancelled: false, error }
+    }
+    if (!turn) return { fullText, contents, cancelled: true }
+
+    fullText += turn.text
+    // An empty model turn would be rejected on the next request
+    if (turn.parts.length > 0) {
+      contents.push({ role: 'model', parts: turn.parts })
+    }
+
+    const calls = turn.parts
+      .filter((part) => part.functionCall)
+      .map((part) => part.functionCall as FunctionCall)
+    if (calls.length === 0 || round >= maxToolRounds) break
+
+    const responses = await runTools(calls)
+    if (!responses) return { fullText, contents, cancelled: true }
+    contents.push({ role: 'user', parts: responses })
+  }
+
+  return { fullText, contents, cancelled: false }
+}
@@ -1,5 +1,12 @@
 // ============ TOOL DECLARATIONS ============
 
+// Shared by every tool that can land on a file that already exists
+const onConflictParam = {
+  type: 'STRING',
+  description:
+    'What to do if the target already exists: "skip", "suffix" (add " (1)" to the name), "keep-newer", "keep-larger", "review" (queue replacing it for the user to approve) or "dedupe" (drop the incoming file if its content is identical, otherwise suffix). Omit to get an error instead.'
+}
+
 export const fileTools = [
   {
     name: 'list_directory',
@@ -29,6 +36,22 @@ Use this to analyze document contents, read data files, or view code.`,
       required: ['path']
     }
   },
+  {
+    name: 'get_tool_result',
+    description:
+      'Read more of a tool result that was too large to return in full. Such results come back with "truncated": true, a preview and a resultId.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        result_id: { type: 'STRING', description: 'The resultId from the truncated result' },
+        offset: {
+          type: 'NUMBER',
+          description: 'Character offset to read from, as given in the note or nextOffset'
+        }
+      },
+      required: ['result_id']
+    }
+  },
   {
     name: 'write_file',
     description: 'Write text content to a file. Creates new file or overwrites existing.',
@@ -74,7 +97,8 @@ Use this to analyze document contents, read data files, or view code.`,
         destination_path: {
           type: 'STRING',
           description: 'The full absolute path of the destination'
-        }
+        },
+        on_conflict: onConflictParam
       },
       required: ['source_path', 'destination_path']
     }
@@ -86,7 +110,8 @@ Use this to analyze document contents, read data files, or view code.`,
       type: 'OBJECT',
       properties: {
         path: { type: 'STRING', description: 'The full absolute path to the file/folder' },
-        new_name: { type: 'STRING', description: 'The new name (filename only, not full path)' }
+        new_name: { type: 'STRING', description: 'The new name (filename only, not full path)' },
+        on_conflict: onConflictParam
       },
       required: ['path', 'new_name']
     }
@@ -101,7 +126,8 @@ Use this to analyze document contents, read data files, or view code.`,
         destination_path: {
           type: 'STRING',
           description: 'The full absolute path for the copy'
-        }
+        },
+        on_conflict: onConflictParam
       },
       required: ['source_path', 'destination_path']
     }
@@ -138,6 +164,50 @@ Use this when user asks about:
       required: ['path']
     }
   },
+  {
+    name: 'storage_growth',
+    description: `Report how a folder's storage grew over time, by subfolder and by file type.
+Every storage analysis saves a snapshot; this compares the latest scan with an earlier one.
+Use this when the user asks "what grew the most this month?", "why is my disk filling up?" or
+how a folder changed since last time.`,
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: {
+          type: 'STRING',
+          description: 'The full absolute path to the folder'
+        },
+        days: {
+          type: 'NUMBER',
+          description:
+            'Compare with the scan from this many days ago (30 for "this month"). Omit to compare with the previous scan.'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'find_duplicates',
+    description: `Find files with identical content in a folder, however they are named.
+Files are grouped by size and then compared by content hash.
+Returns each group of copies (oldest first) and how much space keeping one copy would free.
+Use this when the user asks about duplicate or repeated files. The Storage panel shows the
+groups and lets the user pick which copy to keep.`,
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: {
+          type: 'STRING',
+          description: 'The full absolute path to the folder to scan'
+        },
+        depth: {
+          type: 'NUMBER',
+          description: 'How many subfolders deep to scan (1-10, default 5)'
+        }
+      },
+      required: ['path']
+    }
+  },
   {
     name: 'analyze_image',
     description: `Analyze an image file using AI vision. Use this for:
@@ -224,11 +294,12 @@ Use this after extracting data from receipts with analyze_image.`,
   },
   {
     name: 'organize_files',
-    description: `Organize files in a folder by automatically categorizing them into subfolders.
-Categories: Images, Documents, Spreadsheets, Presentations, Code, Web, Data, Archives, Videos, Audio, Fonts, Design, Ebooks, Markdown, Executables, Other.
+    description: `Organize files in a folder by automatically sorting them into subfolders.
+By default files go into type folders; the strategy parameter groups them by date, type then year, project or download source instead.
+Categories come from the user's editable category list (by default Images, Documents, Spreadsheets, Presentations, Code, Web, Data, Archives, Videos, Audio, Fonts, Design, Ebooks, Markdown, Executables); files matching none stay in place as Other.
 Also detects junk/system files (.DS_Store, Thumbs.db, etc.) that can be safely deleted.
 
-Returns a plan showing what will be done. Use execute_organization to apply the plan.`,
+Returns a plan showing what will be done; the user sees it as a before/after preview. Use execute_organization with the same strategy to apply the plan.`,
     parameters: {
       type: 'OBJECT',
       properties: {
@@ -236,6 +307,16 @@ Returns a plan showing what will be done. Use execute_organization to apply the
           type: 'STRING',
           description: 'The full absolute path to the folder to organize'
         },
+        strategy: {
+          type: 'STRING',
+          description:
+            'How to group files: "category" (type folders, default), "date" (year/month folders), "category-date" (type folder, then year), "project" (shared file-name prefixes such as acme-logo.png and acme-brief.pdf) or "source" (site a download came from)'
+        },
+        date_source: {
+          type: 'STRING',
+          description:
+            'For date strategies: "modified" (last modified, default) or "content" (date a photo was taken or a document created, falling back to last modified)'
+        },
         include_subfolders: {
           type: 'BOOLEAN',
           description: 'Whether to scan subfolders too (default: false)'
@@ -247,7 +328,8 @@ Returns a plan showing what will be done. Use execute_organization to apply the
   {
     name: 'execute_organization',
     description: `Execute a file organization plan created by organize_files.
-Moves files into category folders and optionally deletes junk files.
+Moves files into the plan's folders and optionally deletes junk files.
+Pass the same strategy, date_source and include_subfolders as the organize_files call that was previewed.
 Files are moved to trash (recoverable) not permanently deleted.`,
     parameters: {
       type: 'OBJECT',
@@ -256,9 +338,28 @@ Files are moved to trash (recoverable) not permanently deleted.`,
           type: 'STRING',
           description: 'The full absolute path to the folder to organize'
         },
+        strategy: {
+          type: 'STRING',
+          description:
+            'How to group files: "category" (type folders, default), "date" (year/month folders), "category-date" (type folder, then year), "project" (shared file-name prefixes such as acme-logo.png and acme-brief.pdf) or "source" (site a download came from)'
+        },
+        date_source: {
+          type: 'STRING',
+          description:
+            'For date strategies: "modified" (last modified, default) or "content" (date a photo was taken or a document created, falling back to last modified)'
+        },
+        include_subfolders: {
+          type: 'BOOLEAN',
+          description: 'Whether to include files in subfolders (default: false)'
+        },
         delete_junk: {
           type: 'BOOLEAN',
           description: 'Whether to delete detected junk files (default: false)'
+        },
+        on_conflict: {
+          type: 'STRING',
+          description:
+            'What to do when a destination folder already has a file of the same name: "suffix" (default), "skip", "keep-newer", "keep-larger", "review" or "dedupe"'
         }
       },
       required: ['path']
@@ -347,6 +448,32 @@ Use this to organize messy image folders, sort downloads, or separate different
       },
       required: ['folder_path']
     }
+  },
+  {
+    name: 'find_similar_images',
+    description: `Find images that look the same without being byte-identical: burst shots,
+resized exports, re-saved screenshots. Runs locally with a perceptual hash, no AI calls.
+Returns clusters of similar images with the suggested best copy (highest resolution, then largest file)
+first. The Storage panel shows the clusters with thumbnails and lets the user queue the rest for deletion.`,
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        path: {
+          type: 'STRING',
+          description: 'The full absolute path to the folder to scan'
+        },
+        threshold: {
+          type: 'NUMBER',
+          description:
+            'How different two images may be, in bits out of 64 (0 = near identical, default 6, max 16)'
+        },
+        depth: {
+          type: 'NUMBER',
+          description: 'How many subfolders deep to scan (1-10, default 5)'
+        }
+      },
+      required: ['path']
+    }
   }
 ]
 
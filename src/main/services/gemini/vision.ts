@@ -1,8 +1,11 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { nativeImage } from 'electron'
 import { getClient, MODELS } from './client'
 import * as fileSystem from '../fileSystem'
 import * as spreadsheet from '../spreadsheet'
+import { undoService } from '../undoService'
+import { listFiles, FileItem } from '../storageAnalyzer'
 
 // ============ IMAGE UTILITIES ============
 
@@ -231,13 +234,15 @@ Return ONLY the JSON object, no other text.`
 export async function processReceiptsBatch(
   folderPath: string,
   outputPath: string,
-  categoryHint?: string
+  categoryHint?: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean
   receiptsProcessed: number
   outputPath?: string
   summary?: string
   error?: string
+  cancelled?: boolean
 }> {
   console.log(`[RECEIPTS] Processing folder: ${folderPath}`)
 
@@ -257,6 +262,16 @@ export async function processReceiptsBatch(
     // Process each image
     const receipts: ReceiptData[] = []
     for (const imagePath of imageFiles) {
+      if (signal?.aborted) {
+        // Nothing is written until the report, so stopping here leaves no changes behind
+        console.log(`[RECEIPTS] Stopped after ${receipts.length} of ${imageFiles.length} images`)
+        return {
+          success: false,
+          receiptsProcessed: receipts.length,
+          cancelled: true,
+          error: `Stopped after reading ${receipts.length} of ${imageFiles.length} receipts; no report was written`
+        }
+      }
       console.log(`[RECEIPTS] Processing: ${path.basename(imagePath)}`)
       const data = await extractReceiptData(imagePath, categoryHint)
       if (data) {
@@ -418,13 +433,15 @@ Return ONLY the filename, nothing else.`
 
 export async function smartRenameFile(
   filePath: string,
-  namingStyle?: string
+  namingStyle?: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean
   oldName: string
   newName: string
   newPath?: string
   error?: string
+  cancelled?: boolean
 }> {
   const oldName = path.basename(filePath)
   const ext = path.extname(filePath).toLowerCase()
@@ -443,6 +460,11 @@ export async function smartRenameFile(
       newBaseName = await generateDocumentName(filePath)
     }
 
+    // Naming takes a model call; a stop requested meanwhile means the file keeps its name
+    if (signal?.aborted) {
+      return { success: false, oldName, newName: oldName, cancelled: true, error: 'Stopped' }
+    }
+
     // Clean the name
     newBaseName = newBaseName
       .replace(/[<>:"/\\|?*]/g, '_') // Remove invalid chars
@@ -460,18 +482,24 @@ export async function smartRenameFile(
     }
 
     // Check if destination exists
+    let finalName = newName
     try {
       await fs.access(newPath)
       // File exists, add timestamp
-      const timestampedName = `${newBaseName}_${Date.now()}${ext}`
-      const timestampedPath = path.join(dir, timestampedName)
-      await fs.rename(filePath, timestampedPath)
-      return { success: true, oldName, newName: timestampedName, newPath: timestampedPath }
+      finalName = `${newBaseName}_${Date.now()}${ext}`
     } catch {
       // Destination doesn't exist, safe to rename
-      await fs.rename(filePath, newPath)
-      return { success: true, oldName, newName, newPath }
     }
+    const finalPath = path.join(dir, finalName)
+    await fs.rename(filePath, finalPath)
+    await undoService.addOperation({
+      type: 'rename',
+      originalPath: filePath,
+      newPath: finalPath,
+      originalName: oldName,
+      newName: finalName
+    })
+    return { success: true, oldName, newName: finalName, newPath: finalPath }
   } catch (error) {
     console.error('[RENAME] Error:', error)
     return { success: false, oldName, newName: oldName, error: String(error) }
@@ -504,8 +532,10 @@ export interface CategorizationResult {
   plan: Record<ImageCategory, ImageCategorization[]>
   executed: boolean
   moved?: number
+  transactionId?: string // Undo transaction covering the moves
   summary: string
   error?: string
+  cancelled?: boolean // Stopped partway; only the counted moves happened
 }
 
 async function categorizeImage(imagePath: string): Promise<ImageCategorization | null> {
@@ -568,9 +598,84 @@ Return ONLY the JSON, nothing else.`
   }
 }
 
+/**
+ * Move categorized images into their category folders as one undo transaction
+ */
+async function moveCategorizedImages(
+  folderPath: string,
+  plan: Record<ImageCategory, ImageCategorization[]>,
+  signal?: AbortSignal
+): Promise<{ moved: number; transactionId?: string; cancelled: boolean }> {
+  return undoService.runInTransaction(
+    `Categorize images in ${path.basename(folderPath)}`,
+    async (transactionId) => {
+      let moved = 0
+      let cancelled = false
+
+      for (const [category, images] of Object.entries(plan)) {
+        if (images.length === 0) continue
+        if (signal?.aborted) {
+          cancelled = true
+          break
+        }
+
+        const categoryFolder = path.join(folderPath, category)
+
+        // Create category folder
+        try {
+          await fs.access(categoryFolder)
+        } catch {
+          try {
+            await undoService.createFolder(categoryFolder)
+          } catch {
+            // Folder might exist
+          }
+        }
+
+        // Move files
+        for (const img of images) {
+          if (signal?.aborted) {
+            cancelled = true
+            break
+          }
+          try {
+            const destPath = path.join(categoryFolder, img.fileName)
+
+            // Check if destination exists
+            let finalDest = destPath
+            try {
+              await fs.access(destPath)
+              // Add timestamp if exists
+              const ext = path.extname(img.fileName)
+              const base = path.basename(img.fileName, ext)
+              finalDest = path.join(categoryFolder, `${base}_${Date.now()}${ext}`)
+            } catch {
+              // Destination is free
+            }
+            await fs.rename(img.filePath, finalDest)
+            await undoService.addOperation({
+              type: 'move',
+              originalPath: img.filePath,
+              newPath: finalDest
+            })
+
+            moved++
+          } catch (error) {
+            console.error(`[CATEGORIZE] Failed to move ${img.fileName}:`, error)
+          }
+        }
+      }
+
+      const recorded = await undoService.hasTransactionOperations(transactionId)
+      return { moved, transactionId: recorded ? transactionId : undefined, cancelled }
+    }
+  )
+}
+
 export async function categorizeImages(
   folderPath: string,
-  execute: boolean = false
+  execute: boolean = false,
+  signal?: AbortSignal
 ): Promise<CategorizationResult> {
   console.log(`[CATEGORIZE] Starting image categorization in: ${folderPath}`)
   console.log(`[CATEGORIZE] Execute mode: ${execute}`)
@@ -610,6 +715,20 @@ export async function categorizeImages(
     let categorized = 0
 
     for (const imagePath of imageFiles) {
+      if (signal?.aborted) {
+        // Moves only start once every image is categorized, so nothing has changed yet
+        console.log(`[CATEGORIZE] Stopped after ${categorized} of ${imageFiles.length} images`)
+        return {
+          success: false,
+          totalImages: imageFiles.length,
+          categorized,
+          plan,
+          executed: false,
+          cancelled: true,
+          summary: `Stopped after categorizing ${categorized} of ${imageFiles.length} images. No files were moved.`,
+          error: 'Stopped'
+        }
+      }
       console.log(`[CATEGORIZE] Processing: ${path.basename(imagePath)}`)
 
       const result = await categorizeImage(imagePath)
@@ -652,46 +771,20 @@ export async function categorizeImages(
 
     // Execute if requested
     let moved = 0
+    let transactionId: string | undefined
+    let cancelled = false
     if (execute) {
       summaryLines.push(``, `**Moving files...**`)
 
-      for (const [category, images] of Object.entries(plan)) {
-        if (images.length === 0) continue
-
-        const categoryFolder = path.join(folderPath, category)
-
-        // Create category folder
-        try {
-          await fs.mkdir(categoryFolder, { recursive: true })
-        } catch {
-          // Folder might exist
-        }
-
-        // Move files
-        for (const img of images) {
-          try {
-            const destPath = path.join(categoryFolder, img.fileName)
-
-            // Check if destination exists
-            try {
-              await fs.access(destPath)
-              // Add timestamp if exists
-              const ext = path.extname(img.fileName)
-              const base = path.basename(img.fileName, ext)
-              const newDest = path.join(categoryFolder, `${base}_${Date.now()}${ext}`)
-              await fs.rename(img.filePath, newDest)
-            } catch {
-              await fs.rename(img.filePath, destPath)
-            }
-
-            moved++
-          } catch (error) {
-            console.error(`[CATEGORIZE] Failed to move ${img.fileName}:`, error)
-          }
-        }
-      }
+      const moveResult = await moveCategorizedImages(folderPath, plan, signal)
+      moved = moveResult.moved
+      transactionId = moveResult.transactionId
+      cancelled = moveResult.cancelled
 
       summaryLines.push(`â€¢ Files moved: ${moved}`)
+      if (cancelled) {
+        summaryLines.push(`â€¢ Stopped before moving the rest`)
+      }
     } else {
       summaryLines.push(``, `âš ï¸ This is a preview. Run with execute=true to move files.`)
     }
@@ -703,6 +796,8 @@ export async function categorizeImages(
       plan,
       executed: execute,
       moved: execute ? moved : undefined,
+      transactionId,
+      cancelled: cancelled || undefined,
       summary: summaryLines.join('\n')
     }
   } catch (error) {
@@ -718,3 +813,195 @@ export async function categorizeImages(
     }
   }
 }
+
+// ============ NEAR-DUPLICATE IMAGES ============
+
+export interface SimilarImage {
+  name: string
+  path: string
+  size: number
+  modified: string
+  width: number
+  height: number
+}
+
+export interface SimilarImageCluster {
+  id: string // Perceptual hash of the best copy
+  images: SimilarImage[] // Best copy first
+  recoverableBytes: number // Freed by keeping only the best copy
+}
+
+export interface SimilarImageScan {
+  folderPath: string
+  clusters: SimilarImageCluster[] // Most recoverable space first
+  totalRecoverable: number
+  imagesScanned: number
+  imagesSkipped: number // Could not be decoded on this platform (e.g. HEIC outside macOS)
+  threshold: number
+  truncated: boolean // More images than MAX_SIMILAR_IMAGES were found
+  scannedAt: string
+}
+
+// Every image is compared with every other, so keep a scan bounded
+const MAX_SIMILAR_IMAGES = 2000
+
+// Bits out of 64 that may differ for two images to count as the same picture
+export const DEFAULT_SIMILARITY_THRESHOLD = 6
+
+const THUMBNAIL_WIDTH = 96
+
+interface HashedImage extends SimilarImage {
+  hash: string
+}
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record whether each pixel is brighter
+ * than its right-hand neighbour. Survives resizing, recompression and small edits.
+ */
+function differenceHash(image: Electron.NativeImage): string {
+  const bitmap = image.resize({ width: 9, height: 8, quality: 'good' }).toBitmap()
+  // Four bytes per pixel; averaging the colour channels doesn't depend on their order
+  const brightness = (x: number, y: number): number => {
+    const offset = (y * 9 + x) * 4
+    return bitmap[offset] + bitmap[offset + 1] + bitmap[offset + 2]
+  }
+
+  let hash = ''
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (brightness(x, y) > brightness(x + 1, y) ? 1 : 0)
+      if (x % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+async function hashImage(file: FileItem): Promise<HashedImage | null> {
+  const image = nativeImage.createFromBuffer(await fs.readFile(file.path))
+  if (image.isEmpty()) return null
+
+  const { width, height } = image.getSize()
+  return {
+    name: file.name,
+    path: file.path,
+    size: file.size,
+    modified: file.modified,
+    width,
+    height,
+    hash: differenceHash(image)
+  }
+}
+
+// Highest resolution wins, then the larger (less compressed) file, then the original
+function compareQuality(a: SimilarImage, b: SimilarImage): number {
+  return (
+    b.width * b.height - a.width * a.height ||
+    b.size - a.size ||
+    a.modified.localeCompare(b.modified)
+  )
+}
+
+/**
+ * Small data URL preview, fetched by the review view one image at a time so scan
+ * results stay small enough to hand back to the model
+ */
+export async function getImageThumbnail(imagePath: string): Promise<string | null> {
+  const image = nativeImage.createFromBuffer(await fs.readFile(imagePath))
+  return image.isEmpty() ? null : image.resize({ width: THUMBNAIL_WIDTH }).toDataURL()
+}
+
+/**
+ * Cluster visually similar images with a local perceptual hash (no model calls)
+ * and suggest the best copy of each
+ */
+export async function findSimilarImages(
+  folderPath: string,
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+  maxDepth: number = 5
+): Promise<SimilarImageScan> {
+  console.log(`[SIMILAR] Scanning: ${folderPath} (threshold: ${threshold}, depth: ${maxDepth})`)
+
+  const { files } = await listFiles(folderPath, maxDepth)
+  const imageFiles = files.filter((f) => isImageFile(f.path) && f.size > 0)
+  const candidates = imageFiles.slice(0, MAX_SIMILAR_IMAGES)
+
+  const hashed: HashedImage[] = []
+  let imagesSkipped = 0
+  for (const file of candidates) {
+    try {
+      const image = await hashImage(file)
+      if (image) hashed.push(image)
+      else imagesSkipped++
+    } catch {
+      console.warn(`[SIMILAR] Cannot read: ${file.path}`)
+      imagesSkipped++
+    }
+  }
+
+  // Union-find, so a chain of near matches (burst shots) lands in one cluster
+  const parent = hashed.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].hash, hashed[j].hash) <= threshold) {
+        parent[find(j)] = find(i)
+      }
+    }
+  }
+
+  const byRoot = new Map<number, HashedImage[]>()
+  hashed.forEach((image, i) => {
+    const root = find(i)
+    byRoot.set(root, [...(byRoot.get(root) || []), image])
+  })
+
+  const clusters: SimilarImageCluster[] = []
+  for (const members of byRoot.values()) {
+    if (members.length < 2) continue
+    const images = members.sort(compareQuality)
+    clusters.push({
+      id: images[0].hash,
+      images: images.map((image) => ({
+        name: image.name,
+        path: image.path,
+        size: image.size,
+        modified: image.modified,
+        width: image.width,
+        height: image.height
+      })),
+      recoverableBytes: images.slice(1).reduce((sum, image) => sum + image.size, 0)
+    })
+  }
+
+  clusters.sort((a, b) => b.recoverableBytes - a.recoverableBytes)
+  const totalRecoverable = clusters.reduce((sum, cluster) => sum + cluster.recoverableBytes, 0)
+
+  console.log(`[SIMILAR] ${clusters.length} clusters among ${hashed.length} images`)
+
+  return {
+    folderPath,
+    clusters,
+    totalRecoverable,
+    imagesScanned: hashed.length,
+    imagesSkipped,
+    threshold,
+    truncated: imageFiles.length > candidates.length,
+    scannedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+// ============ Types ============
+
+export interface SandboxViolation {
+  code: 'PATH_NOT_GRANTED'
+  operation: string
+  path: string // As requested
+  resolvedPath: string // After normalising `..` and resolving symlinks
+  message: string
+}
+
+export interface SandboxResult {
+  success: false
+  error: string
+  violation: SandboxViolation
+}
+
+// ============ State ============
+
+// Roots are tracked per owner ('session', 'watcher:<id>') so removing a folder
+// from the chat doesn't revoke it from a watcher that still uses it
+const rootsByOwner = new Map<string, Set<string>>()
+
+const CASE_INSENSITIVE = process.platform === 'win32' || process.platform === 'darwin'
+
+// ============ Path Resolution ============
+
+/**
+ * Absolute, normalised path with symlinks resolved. For paths that don't exist yet
+ * (a file about to be written) the deepest existing ancestor is resolved instead.
+ */
+export async function resolveRealPath(targetPath: string): Promise<string> {
+  const absolute = path.resolve(targetPath)
+  const missing: string[] = []
+  let current = absolute
+
+  for (;;) {
+    try {
+      const real = await fs.realpath(current)
+      return missing.length > 0 ? path.join(real, ...missing.reverse()) : real
+    } catch {
+      const parent = path.dirname(current)
+      if (parent === current) return absolute
+      missing.push(path.basename(current))
+      current = parent
+    }
+  }
+}
+
+function comparable(p: string): string {
+  return CASE_INSENSITIVE ? p.toLowerCase() : p
+}
+
+function isWithin(target: string, root: string): boolean {
+  const t = comparable(target)
+  const r = comparable(root)
+  return t === r || t.startsWith(r.endsWith(path.sep) ? r : r + path.sep)
+}
+
+// ============ Granted Roots ============
+
+export async function grantRoot(folder: string, owner = 'session'): Promise<void> {
+  const resolved = await resolveRealPath(folder)
+  const roots = rootsByOwner.get(owner) ?? new Set<string>()
+  roots.add(resolved)
+  rootsByOwner.set(owner, roots)
+  console.log(`[SANDBOX] Granted (${owner}): ${resolved}`)
+}
+
+export async function revokeRoot(folder: string, owner = 'session'): Promise<void> {
+  const resolved = await resolveRealPath(folder)
+  if (rootsByOwner.get(owner)?.delete(resolved)) {
+    console.log(`[SANDBOX] Revoked (${owner}): ${resolved}`)
+  }
+}
+
+/**
+ * Replace every root held by one owner, e.g. when a watcher's folders change or it stops
+ */
+export async function setOwnerRoots(owner: string, folders: string[]): Promise<void> {
+  if (folders.length === 0) {
+    rootsByOwner.delete(owner)
+    return
+  }
+  rootsByOwner.set(owner, new Set(await Promise.all(folders.map(resolveRealPath))))
+}
+
+export function getGrantedRoots(): string[] {
+  const all = new Set<string>()
+  for (const roots of rootsByOwner.values()) {
+    roots.forEach((root) => all.add(root))
+  }
+  return [...all]
+}
+
+/**
+ * The deepest granted root containing a path, if any
+ */
+export async function findGrantedRoot(targetPath: string): Promise<string | undefined> {
+  const resolvedPath = await resolveRealPath(targetPath)
+  return getGrantedRoots()
+    .filter((root) => isWithin(resolvedPath, root))
+    .sort((a, b) => b.length - a.length)[0]
+}
+
+// ============ Checks ============
+
+/**
+ * First path that falls outside every granted root, or null when all are allowed
+ */
+export async function checkPaths(
+  paths: string[],
+  operation: string
+): Promise<SandboxViolation | null> {
+  const roots = getGrantedRoots()
+
+  for (const requested of paths) {
+    if (typeof requested !== 'string' || !requested.trim()) {
+      return {
+        code: 'PATH_NOT_GRANTED',
+        operation,
+        path: String(requested),
+        resolvedPath: '',
+        message: `${operation}: no path given`
+      }
+    }
+
+    const resolvedPath = await resolveRealPath(requested)
+    if (!roots.some((root) => isWithin(resolvedPath, root))) {
+      console.warn(`[SANDBOX] Blocked ${operation}: ${requested} → ${resolvedPath}`)
+      return {
+        code: 'PATH_NOT_GRANTED',
+        operation,
+        path: requested,
+        resolvedPath,
+        message: `${operation} blocked: "${resolvedPath}" is outside the folders you have granted`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * For callers that return plain values rather than results: reject with the violation message
+ */
+export async function assertGranted(paths: string[], operation: string): Promise<void> {
+  const violation = await checkPaths(paths, operation)
+  if (violation) throw new Error(violation.message)
+}
+
+export function toSandboxResult(violation: SandboxViolation): SandboxResult {
+  return { success: false, error: violation.message, violation }
+}
+
+/**
+ * Only the requested folders that are (inside) a granted root
+ */
+export async function filterGranted(folders: string[]): Promise<string[]> {
+  const allowed: string[] = []
+  for (const folder of folders) {
+    if (!(await checkPaths([folder], 'access'))) allowed.push(folder)
+  }
+  return allowed
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { executeAction, getPendingActions, queueMove } from './pendingActions'
+
+// The undo journal and app trash live under userData; point it at a temp folder
+vi.mock('electron', async () => {
+  const os = await import('os')
+  const path = await import('path')
+  const userData = path.join(os.tmpdir(), `momentum-pending-test-${process.pid}`)
+  return { app: { getPath: () => userData } }
+})
+
+const userData = path.join(os.tmpdir(), `momentum-pending-test-${process.pid}`)
+
+let dir: string
+
+async function write(name: string, content: string): Promise<string> {
+  const filePath = path.join(dir, name)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, content)
+  return filePath
+}
+
+const read = (filePath: string): Promise<string> => fs.readFile(filePath, 'utf-8')
+
+beforeEach(async () => {
+  await fs.mkdir(userData, { recursive: true })
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-pending-'))
+  return () => fs.rm(dir, { recursive: true, force: true })
+})
+
+afterAll(() => fs.rm(userData, { recursive: true, force: true }))
+
+// ============ APPROVED WATCHER ITEMS ============
+
+describe('approving a queued watcher move', () => {
+  it('settles a destination taken since it was queued with the stored policy', async () => {
+    const source = await write('in/report.txt', 'incoming')
+    const target = path.join(dir, 'out', 'report.txt')
+    const action = await queueMove('move', source, target, {
+      watcherId: 'watcher-1',
+      conflictPolicy: 'suffix'
+    })
+    await write('out/report.txt', 'arrived meanwhile')
+
+    const result = await executeAction(action.id)
+
+    expect(result.success).toBe(true)
+    expect(await read(target)).toBe('arrived meanwhile')
+    expect(await read(path.join(dir, 'out', 'report (1).txt'))).toBe('incoming')
+  })
+
+  it('asks about replacing the taken destination under the review policy', async () => {
+    const source = await write('in/photo.jpg', 'incoming')
+    const target = await write('out/photo.jpg', 'existing')
+    const action = await queueMove('copy', source, target, {
+      watcherId: 'watcher-1',
+      conflictPolicy: 'review'
+    })
+
+    const result = await executeAction(action.id)
+
+    expect(result.success).toBe(true)
+    expect(await read(target)).toBe('existing')
+    expect(getPendingActions()).toContainEqual(
+      expect.objectContaining({
+        type: 'overwrite',
+        transfer: 'copy',
+        sourcePath: source,
+        destinationPath: target
+      })
+    )
+  })
+})
@@ -1,16 +1,25 @@
 import * as fileSystem from './fileSystem'
+import { undoService, UndoSource } from './undoService'
+import { markPlacedByWatcher } from './placedFiles'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 
 export interface PendingAction {
   id: string
-  type: 'delete' | 'move' | 'rename' | 'overwrite'
+  type: 'delete' | 'move' | 'copy' | 'rename' | 'overwrite' | 'tool'
   sourcePath: string
   destinationPath?: string
   fileName: string
   fileSize: number
   reason?: string
   createdAt: string
+  watcherId?: string // Set when a file watcher queued the action for review
+  confidence?: number
+  toolName?: string // For 'tool' actions: the assistant call waiting for permission
+  toolSummary?: string
+  folder?: string // Granted folder the call falls in, for "allow in this folder"
+  transfer?: 'move' | 'copy' | 'rename' // For 'overwrite' actions: what replaces destinationPath
+  conflictPolicy?: fileSystem.ConflictPolicy // For moves and copies: settles a taken destination
 }
 
 export interface ActionResult {
@@ -23,10 +32,32 @@ export interface ActionResult {
 let pendingQueue: PendingAction[] = []
 let actionIdCounter = 0
 
+// Tool calls waiting on the user; the orchestrator is paused until these settle
+const approvalResolvers = new Map<string, (approved: boolean) => void>()
+
+function settleApproval(actionId: string, approved: boolean): void {
+  const resolve = approvalResolvers.get(actionId)
+  if (resolve) {
+    approvalResolvers.delete(actionId)
+    resolve(approved)
+  }
+}
+
 function generateId(): string {
   return `action_${Date.now()}_${++actionIdCounter}`
 }
 
+// Watcher decisions stay attributed to the watcher once approved
+function undoSourceFor(action: PendingAction): UndoSource | undefined {
+  return action.watcherId
+    ? {
+        kind: 'watcher',
+        id: action.watcherId,
+        label: `Watcher on ${path.basename(path.dirname(action.sourcePath))}`
+      }
+    : undefined
+}
+
 export async function queueDeletion(filePath: string, reason?: string): Promise<PendingAction> {
   try {
     const stats = await fs.stat(filePath)
@@ -49,6 +80,125 @@ export async function queueDeletion(filePath: string, reason?: string): Promise<
   }
 }
 
+/**
+ * Under the 'review' policy an approved transfer whose destination has since been
+ * taken moves nothing: ask about replacing the existing file instead
+ */
+async function queueReplacementIfNeeded(
+  action: PendingAction,
+  transfer: 'move' | 'copy' | 'rename',
+  conflict?: fileSystem.ConflictResolution
+): Promise<void> {
+  if (conflict?.outcome !== 'needs-review') return
+  await queueOverwrite(transfer, action.sourcePath, conflict.existingPath, {
+    watcherId: action.watcherId
+  })
+}
+
+/**
+ * Queue a move, copy or rename for review instead of applying it
+ */
+export async function queueMove(
+  type: 'move' | 'copy' | 'rename',
+  filePath: string,
+  destinationPath: string,
+  options: {
+    reason?: string
+    watcherId?: string
+    confidence?: number
+    conflictPolicy?: fileSystem.ConflictPolicy
+  } = {}
+): Promise<PendingAction> {
+  try {
+    const stats = await fs.stat(filePath)
+    const action: PendingAction = {
+      id: generateId(),
+      type,
+      sourcePath: filePath,
+      destinationPath,
+      fileName: path.basename(filePath),
+      fileSize: stats.size,
+      reason: options.reason,
+      createdAt: new Date().toISOString(),
+      watcherId: options.watcherId,
+      confidence: options.confidence,
+      conflictPolicy: options.conflictPolicy
+    }
+
+    pendingQueue.push(action)
+    console.log(`[PENDING] Queued ${type}: ${action.fileName} → ${destinationPath}`)
+
+    return action
+  } catch (error) {
+    throw new Error(`Failed to queue ${type}: ${error}`)
+  }
+}
+
+/**
+ * Queue replacing an existing file for review, for the 'review' conflict policy.
+ * `destinationPath` is the file that would be sent to the trash.
+ */
+export async function queueOverwrite(
+  transfer: 'move' | 'copy' | 'rename',
+  filePath: string,
+  destinationPath: string,
+  options: { reason?: string; watcherId?: string } = {}
+): Promise<PendingAction> {
+  try {
+    const stats = await fs.stat(filePath)
+    const action: PendingAction = {
+      id: generateId(),
+      type: 'overwrite',
+      transfer,
+      sourcePath: filePath,
+      destinationPath,
+      fileName: path.basename(filePath),
+      fileSize: stats.size,
+      reason: options.reason ?? `Replaces existing ${path.basename(destinationPath)}`,
+      createdAt: new Date().toISOString(),
+      watcherId: options.watcherId
+    }
+
+    pendingQueue.push(action)
+    console.log(`[PENDING] Queued overwrite: ${action.fileName} → ${destinationPath}`)
+
+    return action
+  } catch (error) {
+    throw new Error(`Failed to queue overwrite: ${error}`)
+  }
+}
+
+/**
+ * Queue a tool call for approval. The returned promise settles when the user
+ * approves (true) or rejects (false) it in the Review panel.
+ */
+export function requestToolApproval(
+  toolName: string,
+  summary: string,
+  paths: string[],
+  folder?: string
+): { action: PendingAction; decision: Promise<boolean> } {
+  const action: PendingAction = {
+    id: generateId(),
+    type: 'tool',
+    sourcePath: paths[0] ?? '',
+    destinationPath: paths[1],
+    fileName: paths[0] ? path.basename(paths[0]) : toolName,
+    fileSize: 0,
+    reason: 'Requested by AI assistant',
+    createdAt: new Date().toISOString(),
+    toolName,
+    toolSummary: summary,
+    folder
+  }
+
+  const decision = new Promise<boolean>((resolve) => approvalResolvers.set(action.id, resolve))
+  pendingQueue.push(action)
+  console.log(`[PENDING] Waiting for approval: ${summary}`)
+
+  return { action, decision }
+}
+
 export async function queueMultipleDeletions(
   filePaths: string[],
   reason?: string
@@ -76,6 +226,7 @@ export function getPendingCount(): number {
 }
 
 export function clearPendingActions(): void {
+  pendingQueue.forEach((a) => settleApproval(a.id, false))
   pendingQueue = []
   console.log('[PENDING] Queue cleared')
 }
@@ -85,6 +236,7 @@ export function removeAction(actionId: string): boolean {
   if (index !== -1) {
     const action = pendingQueue[index]
     pendingQueue.splice(index, 1)
+    settleApproval(action.id, false)
     console.log(`[PENDING] Removed from queue (kept): ${action.fileName}`)
     return true
   }
@@ -102,7 +254,105 @@ export async function executeAction(actionId: string): Promise<ActionResult> {
 
   try {
     if (action.type === 'delete') {
-      await fileSystem.deleteFile(action.sourcePath)
+      const deleteResult = await fileSystem.deleteFile(action.sourcePath)
+      if (!deleteResult.success) {
+        throw new Error(deleteResult.error)
+      }
+      // Record the trash entry so the deletion can be undone
+      const { trashPath } = deleteResult.data as { trashPath: string }
+      await undoService.addOperation({
+        type: 'trash',
+        originalPath: action.sourcePath,
+        newPath: trashPath
+      })
+    } else if (action.type === 'move' || action.type === 'rename') {
+      if (!action.destinationPath) {
+        throw new Error('No destination recorded for this action')
+      }
+      const moveResult = await fileSystem.moveFile(
+        action.sourcePath,
+        action.destinationPath,
+        action.conflictPolicy
+      )
+      if (!moveResult.success) {
+        throw new Error(moveResult.error)
+      }
+      const { newPath, conflict } = moveResult.data as fileSystem.TransferData
+      await undoService.addTransferOperation(
+        {
+          type: action.type,
+          originalPath: action.sourcePath,
+          newPath,
+          originalName: action.fileName,
+          newName: newPath ? path.basename(newPath) : undefined
+        },
+        conflict,
+        undoSourceFor(action)
+      )
+      await queueReplacementIfNeeded(action, action.type, conflict)
+      if (action.watcherId && newPath) markPlacedByWatcher(newPath)
+    } else if (action.type === 'copy') {
+      if (!action.destinationPath) {
+        throw new Error('No destination recorded for this action')
+      }
+      const copyResult = await fileSystem.copyFile(
+        action.sourcePath,
+        action.destinationPath,
+        action.conflictPolicy
+      )
+      if (!copyResult.success) {
+        throw new Error(copyResult.error)
+      }
+      const { newPath, conflict } = copyResult.data as fileSystem.TransferData
+      await undoService.addTransferOperation(
+        {
+          type: 'copy',
+          originalPath: action.sourcePath,
+          newPath,
+          originalName: action.fileName,
+          newName: newPath ? path.basename(newPath) : undefined
+        },
+        conflict,
+        undoSourceFor(action)
+      )
+      await queueReplacementIfNeeded(action, 'copy', conflict)
+      if (action.watcherId && newPath) markPlacedByWatcher(newPath)
+    } else if (action.type === 'overwrite') {
+      if (!action.destinationPath) {
+        throw new Error('No destination recorded for this action')
+      }
+      const transfer = action.transfer ?? 'move'
+      const transferResult =
+        transfer === 'copy'
+          ? await fileSystem.copyFile(action.sourcePath, action.destinationPath, 'replace')
+          : transfer === 'rename'
+            ? await fileSystem.renameFile(
+                action.sourcePath,
+                path.basename(action.destinationPath),
+                'replace'
+              )
+            : await fileSystem.moveFile(action.sourcePath, action.destinationPath, 'replace')
+      if (!transferResult.success) {
+        throw new Error(transferResult.error)
+      }
+      const { newPath, conflict } = transferResult.data as fileSystem.TransferData
+      await undoService.addTransferOperation(
+        {
+          type: transfer,
+          originalPath: action.sourcePath,
+          newPath,
+          originalName: action.fileName,
+          newName: newPath ? path.basename(newPath) : undefined
+        },
+        conflict,
+        undoSourceFor(action)
+      )
+      if (action.watcherId && newPath) markPlacedByWatcher(newPath)
+    } else if (action.type === 'tool') {
+      // The executor runs the tool itself once it hears back
+      settleApproval(action.id, true)
+    } else {
+      throw new Error(`Executing ${action.type} actions is not supported`)
     }
 
     pendingQueue.splice(index, 1)
@@ -140,6 +390,7 @@ export async function executeSelectedActions(actionIds: string[]): Promise<Actio
 
 export function keepAllFiles(): number {
   const count = pendingQueue.length
+  pendingQueue.forEach((a) => settleApproval(a.id, false))
   pendingQueue = []
   console.log(`[PENDING] Kept all ${count} files`)
   return count
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { resolveMode, setPolicy } from './permissionPolicy'
+
+// Policies persist through electron-store; one in-memory map stands in for it
+const stored = vi.hoisted(() => new Map<string, unknown>())
+
+vi.mock('electron-store', () => ({
+  default: class {
+    get(key: string, fallback?: unknown): unknown {
+      return stored.get(key) ?? fallback
+    }
+    set(key: string, value: unknown): void {
+      stored.set(key, value)
+    }
+  }
+}))
+
+let dir: string
+
+beforeEach(async () => {
+  stored.clear()
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-policy-'))
+})
+
+afterEach(() => fs.rm(dir, { recursive: true, force: true }))
+
+// ============ FOLDER POLICIES ============
+
+describe('folder policies', () => {
+  it('apply through a symlink to the folder', async () => {
+    const photos = path.join(dir, 'Photos')
+    const link = path.join(dir, 'PhotosLink')
+    await fs.mkdir(photos)
+    await fs.symlink(photos, link, 'dir')
+    setPolicy('move_file', 'deny', photos)
+
+    expect(await resolveMode('move_file', [path.join(link, 'a.jpg')])).toBe('deny')
+  })
+
+  it('apply to a policy set on the symlink itself', async () => {
+    const photos = path.join(dir, 'Photos')
+    const link = path.join(dir, 'PhotosLink')
+    await fs.mkdir(photos)
+    await fs.symlink(photos, link, 'dir')
+    setPolicy('move_file', 'deny', link)
+
+    expect(await resolveMode('move_file', [path.join(photos, 'a.jpg')])).toBe('deny')
+  })
+
+  it('cover entries whose names start with two dots', async () => {
+    const docs = path.join(dir, 'Docs')
+    setPolicy('write_file', 'deny', docs)
+
+    expect(await resolveMode('write_file', [path.join(docs, '..notes.txt')])).toBe('deny')
+    expect(await resolveMode('write_file', [path.join(dir, 'Docs2', 'a.txt')])).toBe('allow')
+    expect(await resolveMode('write_file', [path.join(docs, '..', 'a.txt')])).toBe('allow')
+  })
+
+  it('lets the strictest path of a call decide', async () => {
+    setPolicy('move_file', 'ask', path.join(dir, 'Inbox'))
+
+    const mode = await resolveMode('move_file', [
+      path.join(dir, 'Elsewhere', 'a.txt'),
+      path.join(dir, 'Inbox', 'a.txt')
+    ])
+
+    expect(mode).toBe('ask')
+  })
+})
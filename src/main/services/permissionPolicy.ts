@@ -0,0 +1,121 @@
+import * as path from 'path'
+import Store from 'electron-store'
+import { resolveRealPath } from './pathSandbox'
+
+// ============ Types ============
+
+export type PermissionMode = 'allow' | 'ask' | 'deny'
+
+export interface PermissionPolicy {
+  tool: string
+  folder?: string // Omitted for the tool-wide policy
+  mode: PermissionMode
+  updatedAt: string
+}
+
+export interface GovernedTool {
+  name: string
+  label: string
+  defaultMode: PermissionMode
+}
+
+// ============ Governed Tools ============
+
+// Defaults match how each tool behaved before policies existed
+export const GOVERNED_TOOLS: GovernedTool[] = [
+  { name: 'write_file', label: 'Write files', defaultMode: 'allow' },
+  { name: 'move_file', label: 'Move files', defaultMode: 'allow' },
+  { name: 'rename_file', label: 'Rename files', defaultMode: 'allow' },
+  { name: 'execute_organization', label: 'Organize folders', defaultMode: 'allow' },
+  { name: 'smart_rename', label: 'Smart rename', defaultMode: 'allow' },
+  { name: 'delete_file', label: 'Delete files', defaultMode: 'ask' }
+]
+
+const MODE_STRICTNESS: Record<PermissionMode, number> = { allow: 0, ask: 1, deny: 2 }
+
+// ============ Persistence ============
+
+const store = new Store({
+  name: 'momentum-permissions',
+  encryptionKey: 'momentum-secure-key-2026'
+})
+
+function loadPolicies(): PermissionPolicy[] {
+  return store.get('policies', []) as PermissionPolicy[]
+}
+
+function savePolicies(policies: PermissionPolicy[]): void {
+  store.set('policies', policies)
+}
+
+// ============ Policy Editing ============
+
+export function getPolicies(): PermissionPolicy[] {
+  return loadPolicies()
+}
+
+export function isGovernedTool(tool: string): boolean {
+  return GOVERNED_TOOLS.some((t) => t.name === tool)
+}
+
+/**
+ * Create or replace the policy for a tool, either everywhere or in one folder
+ */
+export function setPolicy(tool: string, mode: PermissionMode, folder?: string): PermissionPolicy {
+  const policy: PermissionPolicy = { tool, mode, updatedAt: new Date().toISOString() }
+  if (folder) policy.folder = folder
+
+  const policies = loadPolicies().filter((p) => !(p.tool === tool && p.folder === folder))
+  policies.push(policy)
+  savePolicies(policies)
+  console.log(`[PERMISSIONS] ${tool} → ${mode}${folder ? ` in ${folder}` : ''}`)
+  return policy
+}
+
+export function removePolicy(tool: string, folder?: string): void {
+  savePolicies(loadPolicies().filter((p) => !(p.tool === tool && p.folder === folder)))
+}
+
+// ============ Resolution ============
+
+function isWithin(target: string, folder: string): boolean {
+  const relative = path.relative(folder, target)
+  // A sibling named like "..notes" is still inside
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+}
+
+function modeForPath(tool: string, targetPath: string, policies: PermissionPolicy[]): PermissionMode {
+  // The deepest folder policy wins over shallower ones and over the tool-wide policy
+  const folderPolicy = policies
+    .filter((p) => p.tool === tool && p.folder && targetPath && isWithin(targetPath, p.folder))
+    .sort((a, b) => b.folder!.length - a.folder!.length)[0]
+  if (folderPolicy) return folderPolicy.mode
+
+  const toolPolicy = policies.find((p) => p.tool === tool && !p.folder)
+  if (toolPolicy) return toolPolicy.mode
+
+  return GOVERNED_TOOLS.find((t) => t.name === tool)?.defaultMode ?? 'allow'
+}
+
+/**
+ * Effective mode for a tool call; when it touches several paths the strictest one applies.
+ * Paths and policy folders are compared as realpaths, like the sandbox does, so a
+ * symlinked folder gets the policy of the folder it points to.
+ */
+export async function resolveMode(tool: string, paths: string[]): Promise<PermissionMode> {
+  if (!isGovernedTool(tool)) return 'allow'
+
+  const policies = await Promise.all(
+    loadPolicies()
+      .filter((p) => p.tool === tool)
+      .map(async (p) => (p.folder ? { ...p, folder: await resolveRealPath(p.folder) } : p))
+  )
+  if (paths.length === 0) return modeForPath(tool, '', policies)
+
+  const targets = await Promise.all(paths.map(resolveRealPath))
+  return targets
+    .map((p) => modeForPath(tool, p, policies))
+    .reduce((strictest, mode) =>
+      MODE_STRICTNESS[mode] > MODE_STRICTNESS[strictest] ? mode : strictest
+    )
+}
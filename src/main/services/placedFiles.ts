@@ -0,0 +1,34 @@
+import * as path from 'path'
+
+// ============ Files Placed by Watchers ============
+// Kept apart from the undo journal: a burst of operations (a batch organize, or the
+// watcher's own moves) must not push a recent placement out of view
+
+// Files a watcher placed itself within this window are not handled again
+const SELF_PLACED_WINDOW_MS = 60 * 1000
+
+const placedAt = new Map<string, number>()
+
+function prune(now: number): void {
+  for (const [filePath, timestamp] of placedAt) {
+    if (now - timestamp > SELF_PLACED_WINDOW_MS) placedAt.delete(filePath)
+  }
+}
+
+/**
+ * Record that a watcher (or an approved watcher review item) moved or copied a file here
+ */
+export function markPlacedByWatcher(filePath: string): void {
+  const now = Date.now()
+  prune(now)
+  placedAt.set(path.resolve(filePath), now)
+}
+
+/**
+ * True for files a watcher just placed, so a destination inside the watched tree
+ * doesn't trigger the rules again
+ */
+export function wasPlacedByWatcher(filePath: string): boolean {
+  prune(Date.now())
+  return placedAt.has(path.resolve(filePath))
+}
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  globToRegExp,
+  initRuleProcessor,
+  processFileWithRules,
+  AgentRule,
+  StructuredRule
+} from './ruleProcessor'
+
+// Free-text rules go to the model; tests script its answer
+const generateContent = vi.hoisted(() => vi.fn())
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: class {
+    getGenerativeModel(): unknown {
+      return { generateContent }
+    }
+  }
+}))
+
+// The category taxonomy persists through electron-store; an empty in-memory store will do
+vi.mock('electron-store', () => ({
+  default: class {
+    private data = new Map<string, unknown>()
+    get(key: string): unknown {
+      return this.data.get(key)
+    }
+    set(key: string, value: unknown): void {
+      this.data.set(key, value)
+    }
+    delete(key: string): void {
+      this.data.delete(key)
+    }
+  }
+}))
+
+const NOW = new Date('2026-03-15T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let dir: string
+
+async function write(name: string, bytes: number, ageDays = 0): Promise<string> {
+  const filePath = path.join(dir, name)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, 'x'.repeat(bytes))
+  const modified = new Date(NOW.getTime() - ageDays * DAY_MS)
+  await fs.utimes(filePath, modified, modified)
+  return filePath
+}
+
+function rule(structured: StructuredRule, id = 'rule'): AgentRule {
+  return { id, text: '', enabled: true, order: 0, structured }
+}
+
+const moveTo = (conditions: StructuredRule['conditions']): AgentRule =>
+  rule({ conditions, action: 'move', destination: 'Sorted' })
+
+async function matches(
+  filePath: string,
+  conditions: StructuredRule['conditions']
+): Promise<boolean> {
+  const result = await processFileWithRules(filePath, [moveTo(conditions)])
+  return result.matchedRule === 1
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-rules-'))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+// ============ GLOBS ============
+
+describe('globToRegExp', () => {
+  it('matches regex characters in the glob literally', () => {
+    expect(globToRegExp('report (1).pdf').test('report (1).pdf')).toBe(true)
+    expect(globToRegExp('a+b.txt').test('aab.txt')).toBe(false)
+    expect(globToRegExp('*.pdf').test('invoicepdf')).toBe(false)
+    expect(globToRegExp('[draft]*').test('[draft] notes.md')).toBe(true)
+    expect(globToRegExp('$total^.csv').test('$total^.csv')).toBe(true)
+  })
+
+  it('keeps * within one path segment and lets ** cross them', () => {
+    expect(globToRegExp('*.txt').test('notes.txt')).toBe(true)
+    expect(globToRegExp('*.txt').test('docs/notes.txt')).toBe(false)
+    expect(globToRegExp('*.txt').test('docs\\notes.txt')).toBe(false)
+    expect(globToRegExp('**/*.txt').test('docs/2024/notes.txt')).toBe(true)
+    expect(globToRegExp('**/*.txt').test('notes.txt')).toBe(true)
+  })
+
+  it('matches ? as exactly one character, ignoring case', () => {
+    expect(globToRegExp('IMG_????.JPG').test('img_1234.jpg')).toBe(true)
+    expect(globToRegExp('IMG_????.JPG').test('img_123.jpg')).toBe(false)
+  })
+})
+
+// ============ CONDITIONS ============
+
+describe('structured rule conditions', () => {
+  it('compares extensions without the dot and ignoring case', async () => {
+    const file = await write('Scan.PDF', 10)
+    expect(await matches(file, { extensions: ['.pdf'] })).toBe(true)
+    expect(await matches(file, { extensions: ['docx', 'txt'] })).toBe(false)
+  })
+
+  it('matches the glob against the file name only', async () => {
+    const file = await write('inbox/invoice-march.pdf', 10)
+    expect(await matches(file, { glob: 'invoice-*.pdf' })).toBe(true)
+    expect(await matches(file, { glob: 'inbox/*.pdf' })).toBe(false)
+  })
+
+  it('treats size limits as inclusive', async () => {
+    const file = await write('video.mp4', 1000)
+    expect(await matches(file, { minSizeBytes: 1000 })).toBe(true)
+    expect(await matches(file, { minSizeBytes: 1001 })).toBe(false)
+    expect(await matches(file, { maxSizeBytes: 1000 })).toBe(true)
+    expect(await matches(file, { maxSizeBytes: 999 })).toBe(false)
+  })
+
+  it('measures age from the last modified time', async () => {
+    const file = await write('old.log', 10, 45)
+    expect(await matches(file, { minAgeDays: 30 })).toBe(true)
+    expect(await matches(file, { minAgeDays: 60 })).toBe(false)
+    expect(await matches(file, { maxAgeDays: 60 })).toBe(true)
+    expect(await matches(file, { maxAgeDays: 30 })).toBe(false)
+  })
+
+  it('needs every condition to hold', async () => {
+    const file = await write('big.zip', 5000, 10)
+    expect(await matches(file, { extensions: ['zip'], minSizeBytes: 1000, minAgeDays: 7 })).toBe(
+      true
+    )
+    expect(await matches(file, { extensions: ['zip'], minSizeBytes: 1000, minAgeDays: 30 })).toBe(
+      false
+    )
+  })
+
+  it('matches the source folder by name or as an absolute path', async () => {
+    const file = await write('Downloads/setup.exe', 10)
+    expect(await matches(file, { sourceFolder: 'downloads' })).toBe(true)
+    expect(await matches(file, { sourceFolder: dir })).toBe(true)
+    expect(await matches(file, { sourceFolder: path.join(dir, 'Desktop') })).toBe(false)
+  })
+
+  it('skips an invalid name pattern instead of throwing', async () => {
+    const file = await write('notes.txt', 10)
+    expect(await matches(file, { nameRegex: '^notes' })).toBe(true)
+    expect(await matches(file, { nameRegex: '(' })).toBe(false)
+  })
+
+  it('reports the first matching rule by its position among enabled rules', async () => {
+    const file = await write('photo.jpg', 10)
+    const result = await processFileWithRules(file, [
+      { ...moveTo({ extensions: ['jpg'] }), enabled: false },
+      moveTo({ extensions: ['png'] }),
+      moveTo({ extensions: ['jpg'] }),
+      moveTo({ extensions: ['jpg'] })
+    ])
+    expect(result.matchedRule).toBe(2)
+    expect(result.usedAI).toBe(false)
+  })
+})
+
+// ============ TEMPLATES ============
+
+describe('templates', () => {
+  it('fills date tokens in the destination from the modified time', async () => {
+    const file = await write('report.pdf', 10, 60) // Modified 2026-01-14
+    const result = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'move', destination: 'Archive/{year}/{month}' })
+    ])
+    expect(result.action).toBe('move')
+    expect(result.destination).toBe('Archive/2026/01')
+  })
+
+  it('renames with name, ext, modified and today', async () => {
+    const file = await write('scan.PDF', 10, 1)
+    const result = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'rename', renameTemplate: '{date}_{modified}_{name}{ext}' })
+    ])
+    expect(result.rename).toBe('2026-03-15_2026-03-14_scan.PDF')
+  })
+
+  it('keeps the original extension when the template leaves it out', async () => {
+    const file = await write('scan.pdf', 10)
+    const result = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'rename', renameTemplate: 'doc-{name}' })
+    ])
+    expect(result.rename).toBe('doc-scan.pdf')
+  })
+
+  it('drops separators left by tokens without a value and unsafe characters', async () => {
+    const file = await write('receipt.jpg', 10)
+    const result = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'rename', renameTemplate: '{vendor}_{amount}_{name}:copy' })
+    ])
+    expect(result.rename).toBe('_receipt_copy.jpg')
+  })
+
+  it('copies and queues deletions as asked', async () => {
+    const file = await write('a.tmp', 10)
+    const copy = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'copy', destination: 'Backup' })
+    ])
+    const remove = await processFileWithRules(file, [
+      rule({ conditions: {}, action: 'queue-delete' })
+    ])
+    expect(copy).toMatchObject({ action: 'copy', destination: 'Backup' })
+    expect(remove.action).toBe('delete')
+  })
+})
+
+// ============ RULE ORDER ============
+
+describe('rule order', () => {
+  const textRule = (text: string, id: string): AgentRule => ({
+    id,
+    text,
+    enabled: true,
+    order: 0
+  })
+
+  function modelPicks(matchedRule: number): void {
+    const answer = { matchedRule, action: 'move', destination: 'Invoices', confidence: 0.9 }
+    generateContent.mockResolvedValue({ response: { text: () => JSON.stringify(answer) } })
+  }
+
+  beforeEach(() => {
+    generateContent.mockReset()
+    initRuleProcessor('test-key')
+  })
+
+  it('does not let a later structured rule override a free-text rule placed first', async () => {
+    const file = await write('invoice.pdf', 10)
+    modelPicks(1)
+
+    const result = await processFileWithRules(file, [
+      textRule('Move invoices to Invoices', 'text'),
+      moveTo({ extensions: ['pdf'] })
+    ])
+
+    expect(result).toMatchObject({ matchedRule: 1, usedAI: true, destination: 'Invoices' })
+  })
+
+  it('settles structured rules ahead of every free-text rule without the model', async () => {
+    const file = await write('invoice.pdf', 10)
+
+    const result = await processFileWithRules(file, [
+      moveTo({ extensions: ['pdf'] }),
+      textRule('Move invoices to Invoices', 'text')
+    ])
+
+    expect(result).toMatchObject({ matchedRule: 1, usedAI: false, destination: 'Sorted' })
+    expect(generateContent).not.toHaveBeenCalled()
+  })
+
+  it('prefers a structured rule placed above the free-text rule the model picked', async () => {
+    const file = await write('invoice.pdf', 10)
+    modelPicks(2) // The second free-text rule, fourth overall
+
+    const result = await processFileWithRules(file, [
+      textRule('Move photos to Pictures', 'photos'),
+      moveTo({ extensions: ['docx'] }),
+      moveTo({ extensions: ['pdf'] }),
+      textRule('Move invoices to Invoices', 'invoices')
+    ])
+
+    expect(result).toMatchObject({ matchedRule: 3, usedAI: false, destination: 'Sorted' })
+  })
+})
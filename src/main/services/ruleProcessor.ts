@@ -2,32 +2,67 @@ import { GoogleGenerativeAI } from '@google/generative-ai'
 import * as path from 'path'
 import * as fs from 'fs/promises'
 import { MODELS } from './gemini/client'
+import * as categoryTaxonomy from './categoryTaxonomy'
 
 // ============ Types ============
 
+export interface RuleConditions {
+  extensions?: string[] // Without the dot, case-insensitive
+  glob?: string // Matched against the file name
+  minSizeBytes?: number
+  maxSizeBytes?: number
+  minAgeDays?: number // By last modified time
+  maxAgeDays?: number
+  nameRegex?: string
+  sourceFolder?: string // Absolute path, or the name of the file's parent folder
+}
+
+export type StructuredActionType = 'move' | 'rename' | 'copy' | 'queue-delete'
+
+export type ImageType = 'receipt' | 'screenshot' | 'photo' | 'document' | 'other'
+
+export interface StructuredRule {
+  conditions: RuleConditions
+  action: StructuredActionType
+  destination?: string // Relative folder, may use template tokens
+  renameTemplate?: string // e.g. "{modified}_{name}{ext}"
+  requiresVision?: boolean // Conditions alone can't tell; look at the image
+  imageType?: ImageType // What the image must show when requiresVision is set
+  compiledFrom?: string // Rule text this was compiled from, to spot stale compiles
+}
+
+export interface CompiledRule {
+  ruleId: string
+  structured?: StructuredRule
+  error?: string
+}
+
 export interface AgentRule {
   id: string
   text: string
   enabled: boolean
   order: number
+  structured?: StructuredRule // Evaluated locally; free-text rules go to the model
 }
 
 export interface RuleMatch {
   matchedRule: number | null
-  action: 'move' | 'skip'
-  destination?: string
+  action: 'move' | 'copy' | 'delete' | 'skip'
+  destination?: string // Omitted for an in-place rename
   rename?: string
+  usedAI: boolean
   usedVision: boolean
   confidence: number
   reasoning: string
 }
 
 interface ImageAnalysis {
-  imageType: 'receipt' | 'screenshot' | 'photo' | 'document' | 'other'
+  imageType: ImageType
   vendor?: string
   date?: string
   amount?: number
   description?: string
+  confidence?: number
 }
 
 // ============ State ============
@@ -47,28 +82,82 @@ export async function processFileWithRules(
   filePath: string,
   rules: AgentRule[]
 ): Promise<RuleMatch> {
-  if (!client) {
-    throw new Error('Rule processor not initialized. Call initRuleProcessor first.')
-  }
-
   const fileName = path.basename(filePath)
   const extension = path.extname(filePath).slice(1).toLowerCase()
 
   let fileSize = 0
+  let modifiedAt = new Date()
   try {
     const stats = await fs.stat(filePath)
     fileSize = stats.size
+    modifiedAt = stats.mtime
   } catch {
     // File might be gone, continue with 0
   }
 
   console.log(`[RULE PROCESSOR] Processing: ${fileName} (${extension}, ${formatBytes(fileSize)})`)
 
+  const enabledRules = rules.filter((r) => r.enabled)
+  let analysis: ImageAnalysis | null = null
+
+  const matchStructured = async (rule: AgentRule): Promise<RuleMatch | null> => {
+    if (!rule.structured) return null
+    if (!matchesConditions(filePath, fileSize, modifiedAt, rule.structured.conditions)) return null
+
+    const ruleNumber = enabledRules.indexOf(rule) + 1
+
+    if (rule.structured.requiresVision) {
+      if (!client || !isImageFile(filePath)) return null
+      // One look at the image serves every vision rule for this file
+      analysis ??= await analyzeImage(
+        (await fs.readFile(filePath)).toString('base64'),
+        getMimeType(filePath)
+      )
+      if (rule.structured.imageType && analysis.imageType !== rule.structured.imageType) return null
+      console.log(`[RULE PROCESSOR] Structured rule ${ruleNumber} matched (vision)`)
+      return buildStructuredMatch(filePath, modifiedAt, rule.structured, ruleNumber, analysis)
+    }
+
+    console.log(`[RULE PROCESSOR] Structured rule ${ruleNumber} matched`)
+    return buildStructuredMatch(filePath, modifiedAt, rule.structured, ruleNumber)
+  }
+
+  // Rules run in the user's order. Structured rules ahead of the first free-text rule
+  // are settled locally, so simple cases never cost a model call
+  const aiRules = enabledRules.filter((r) => !r.structured && r.text.trim())
+  const firstAiIndex = aiRules.length > 0 ? enabledRules.indexOf(aiRules[0]) : enabledRules.length
+
+  for (const rule of enabledRules.slice(0, firstAiIndex)) {
+    const match = await matchStructured(rule)
+    if (match) return match
+  }
+
+  if (aiRules.length === 0) {
+    return {
+      matchedRule: null,
+      action: 'skip',
+      usedAI: false,
+      usedVision: false,
+      confidence: 1,
+      reasoning: 'No rule matched'
+    }
+  }
+
+  if (!client) {
+    throw new Error('Rule processor not initialized. Call initRuleProcessor first.')
+  }
+
+  // Map the model's rule numbers (1..aiRules) back to positions among all enabled rules
+  const toRuleNumber = (result: RuleMatch): RuleMatch => {
+    const rule = result.matchedRule ? aiRules[result.matchedRule - 1] : undefined
+    return { ...result, matchedRule: rule ? enabledRules.indexOf(rule) + 1 : null }
+  }
+
   // Check if this might need vision (image file)
   const isImage = isImageFile(filePath)
 
   // Improved auto-detection: catch more user intent
-  const rulesNeedVision = rules.some((r) => {
+  const rulesNeedVision = aiRules.some((r) => {
     const text = r.text.toLowerCase()
     return (
       // Direct image types
@@ -96,13 +185,15 @@ export async function processFileWithRules(
 
   console.log(`[RULE PROCESSOR] isImage: ${isImage}, rulesNeedVision: ${rulesNeedVision}`)
 
+  let aiMatch: RuleMatch | null = null
+
   // If image AND rules need content analysis → ALWAYS use Vision
   // Text classifier can't determine image content (receipt vs photo vs screenshot)
   if (isImage && rulesNeedVision) {
     console.log('[RULE PROCESSOR] Image + content rules detected → Using Vision')
     try {
-      const visionResult = await classifyWithVision(filePath, rules)
-      return visionResult
+      const visionResult = await classifyWithVision(filePath, aiRules)
+      aiMatch = toRuleNumber(visionResult)
     } catch (error) {
       console.error('[RULE PROCESSOR] Vision failed, falling back to text classification:', error)
       // Fall through to text classification
@@ -110,8 +201,280 @@ export async function processFileWithRules(
   }
 
   // Text-based classification (for non-images or when Vision fails)
-  const textResult = await classifyWithText(fileName, extension, fileSize, rules)
-  return textResult
+  aiMatch ??= toRuleNumber(await classifyWithText(fileName, extension, fileSize, aiRules))
+
+  // A structured rule placed between the first free-text rule and the model's pick still comes first
+  const aiMatchIndex = aiMatch.matchedRule ? aiMatch.matchedRule - 1 : enabledRules.length
+  for (const rule of enabledRules.slice(firstAiIndex + 1, aiMatchIndex)) {
+    const match = await matchStructured(rule)
+    if (match) return match
+  }
+
+  return aiMatch
+}
+
+// ============ Structured Rule Evaluation ============
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function matchesConditions(
+  filePath: string,
+  fileSize: number,
+  modifiedAt: Date,
+  conditions: RuleConditions
+): boolean {
+  const fileName = path.basename(filePath)
+  const extension = path.extname(filePath).slice(1).toLowerCase()
+  const ageDays = (Date.now() - modifiedAt.getTime()) / DAY_MS
+
+  if (conditions.extensions && conditions.extensions.length > 0) {
+    const wanted = conditions.extensions.map((e) => e.replace(/^\./, '').toLowerCase())
+    if (!wanted.includes(extension)) return false
+  }
+
+  if (conditions.glob && !globToRegExp(conditions.glob).test(fileName)) return false
+
+  if (conditions.minSizeBytes !== undefined && fileSize < conditions.minSizeBytes) return false
+  if (conditions.maxSizeBytes !== undefined && fileSize > conditions.maxSizeBytes) return false
+
+  if (conditions.minAgeDays !== undefined && ageDays < conditions.minAgeDays) return false
+  if (conditions.maxAgeDays !== undefined && ageDays > conditions.maxAgeDays) return false
+
+  if (conditions.nameRegex) {
+    try {
+      if (!new RegExp(conditions.nameRegex, 'i').test(fileName)) return false
+    } catch {
+      console.warn(`[RULE PROCESSOR] Invalid name pattern: ${conditions.nameRegex}`)
+      return false
+    }
+  }
+
+  if (conditions.sourceFolder) {
+    const parentDir = path.dirname(filePath)
+    if (path.isAbsolute(conditions.sourceFolder)) {
+      const relative = path.relative(path.resolve(conditions.sourceFolder), parentDir)
+      if (relative.startsWith('..') || path.isAbsolute(relative)) return false
+    } else if (path.basename(parentDir).toLowerCase() !== conditions.sourceFolder.toLowerCase()) {
+      return false
+    }
+  }
+
+  return true
+}
+
+function buildStructuredMatch(
+  filePath: string,
+  modifiedAt: Date,
+  rule: StructuredRule,
+  ruleNumber: number,
+  analysis?: ImageAnalysis
+): RuleMatch {
+  const base = {
+    matchedRule: ruleNumber,
+    usedAI: !!analysis,
+    usedVision: !!analysis,
+    confidence: analysis ? (analysis.confidence ?? 0.8) : 1,
+    reasoning: analysis
+      ? `Matched structured rule ${ruleNumber} (image looks like a ${analysis.imageType})`
+      : `Matched structured rule ${ruleNumber}`
+  }
+
+  const destination = rule.destination
+    ? expandTemplate(rule.destination, filePath, modifiedAt, analysis)
+    : undefined
+  const rename = rule.renameTemplate
+    ? renderFileName(rule.renameTemplate, filePath, modifiedAt, analysis)
+    : undefined
+
+  switch (rule.action) {
+    case 'queue-delete':
+      return { ...base, action: 'delete' }
+    case 'copy':
+      return { ...base, action: 'copy', destination, rename }
+    case 'rename':
+      return rename ? { ...base, action: 'move', destination, rename } : { ...base, action: 'skip' }
+    default:
+      return destination || rename
+        ? { ...base, action: 'move', destination, rename }
+        : { ...base, action: 'skip' }
+  }
+}
+
+/**
+ * Fill {name}, {ext}, {date}, {modified}, {year} and {month} from the file, plus
+ * {vendor}, {amount} and {docdate} when an image analysis is available
+ */
+function expandTemplate(
+  template: string,
+  filePath: string,
+  modifiedAt: Date,
+  analysis?: ImageAnalysis
+): string {
+  const ext = path.extname(filePath)
+  const modified = modifiedAt.toISOString().split('T')[0]
+  return template
+    .replace(/\{name\}/g, path.basename(filePath, ext))
+    .replace(/\{ext\}/g, ext)
+    .replace(/\{date\}/g, new Date().toISOString().split('T')[0])
+    .replace(/\{modified\}/g, modified)
+    .replace(/\{year\}/g, modified.slice(0, 4))
+    .replace(/\{month\}/g, modified.slice(5, 7))
+    .replace(/\{vendor\}/g, analysis?.vendor?.replace(/[^a-zA-Z0-9&'-]+/g, '_') ?? '')
+    .replace(/\{amount\}/g, analysis?.amount != null ? analysis.amount.toFixed(2) : '')
+    .replace(/\{docdate\}/g, analysis?.date ?? modified)
+}
+
+function renderFileName(
+  template: string,
+  filePath: string,
+  modifiedAt: Date,
+  analysis?: ImageAnalysis
+): string {
+  const name = expandTemplate(template, filePath, modifiedAt, analysis)
+    .replace(/[<>:"/\\|?*]/g, '_')
+    .replace(/_{2,}/g, '_') // Tokens with no value leave doubled separators behind
+  // Keep the original extension unless the template placed it explicitly
+  return template.includes('{ext}') ? name : name + path.extname(filePath)
+}
+
+/**
+ * Translate a simple glob (*, ?, **) into a case-insensitive regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        pattern += '.*'
+        i++
+        if (glob[i + 1] === '/') i++
+      } else {
+        pattern += '[^/\\\\]*'
+      }
+    } else if (char === '?') {
+      pattern += '[^/\\\\]'
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`, 'i')
+}
+
+// ============ Rule Compilation ============
+
+const STRUCTURED_ACTIONS: StructuredActionType[] = ['move', 'rename', 'copy', 'queue-delete']
+const IMAGE_TYPES: ImageType[] = ['receipt', 'screenshot', 'photo', 'document', 'other']
+
+/**
+ * Turn free-text rules into structured ones with a single model call, so the watcher
+ * can apply them locally instead of prompting for every file
+ */
+export async function compileRules(rules: AgentRule[]): Promise<CompiledRule[]> {
+  if (!client) {
+    throw new Error('Rule processor not initialized. Call initRuleProcessor first.')
+  }
+
+  const rulesText = rules.map((r, i) => `${i + 1}. ${r.text}`).join('\n')
+
+  const prompt = `You convert plain-language file organization rules into structured rules.
+
+RULES:
+${rulesText}
+
+For each rule, produce:
+- conditions: any of extensions (array, no dots), glob (on the file name), minSizeBytes, maxSizeBytes, minAgeDays, maxAgeDays (by last modified), nameRegex, sourceFolder. Only include what the rule implies.
+- action: "move", "rename", "copy" or "queue-delete"
+- destination: relative folder for move/copy. May use {year}, {month}, {modified}
+- renameTemplate: only if the rule asks for renaming. Tokens: {name} (original name without extension), {ext}, {date} (today), {modified} (file date), {year}, {month}, {vendor}, {amount}, {docdate} (date printed on a receipt)
+- requiresVision: true only if deciding needs to look at an image's content (e.g. telling receipts from photos)
+- imageType: when requiresVision is true, one of "receipt", "screenshot", "photo", "document", "other"
+
+File type categories (the user's own; use these extensions when a rule names a category):
+${categoryTaxonomy.describeCategories()}
+
+RESPOND WITH JSON ONLY, one entry per rule in the same order:
+{
+  "rules": [
+    { "rule": 1, "conditions": {}, "action": "move", "destination": "...", "renameTemplate": "...", "requiresVision": false, "imageType": null }
+  ]
+}
+Use { "rule": <n>, "error": "<why>" } for a rule that can't be expressed this way.`
+
+  const model = client.getGenerativeModel({
+    model: MODELS.FLASH,
+    generationConfig: {
+      temperature: 0.1,
+      maxOutputTokens: 4000,
+      responseMimeType: 'application/json'
+    }
+  })
+
+  const result = await model.generateContent(prompt)
+  const responseText = result.response.text()
+
+  let parsed: { rules?: Record<string, unknown>[] }
+  try {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : responseText)
+  } catch (error) {
+    console.error('[RULE PROCESSOR] Failed to parse compiled rules:', responseText)
+    throw new Error(`Could not parse compiled rules: ${error}`)
+  }
+
+  return rules.map((rule, i) => {
+    const entry = parsed.rules?.find((r) => r.rule === i + 1) ?? parsed.rules?.[i]
+    if (!entry) return { ruleId: rule.id, error: 'The model returned nothing for this rule' }
+    if (typeof entry.error === 'string') return { ruleId: rule.id, error: entry.error }
+
+    const structured = sanitizeStructuredRule(entry)
+    if (!structured) return { ruleId: rule.id, error: 'The model returned an unusable rule' }
+    return { ruleId: rule.id, structured: { ...structured, compiledFrom: rule.text } }
+  })
+}
+
+function sanitizeStructuredRule(raw: Record<string, unknown>): StructuredRule | null {
+  const action = raw.action as StructuredActionType
+  if (!STRUCTURED_ACTIONS.includes(action)) return null
+
+  const rawConditions = (raw.conditions ?? {}) as Record<string, unknown>
+  const conditions: RuleConditions = {}
+  const str = (v: unknown): string | undefined => (typeof v === 'string' && v ? v : undefined)
+  const num = (v: unknown): number | undefined =>
+    typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : undefined
+
+  if (Array.isArray(rawConditions.extensions)) {
+    const extensions = rawConditions.extensions
+      .filter((e): e is string => typeof e === 'string')
+      .map((e) => e.replace(/^\./, '').toLowerCase())
+    if (extensions.length > 0) conditions.extensions = extensions
+  }
+  conditions.glob = str(rawConditions.glob)
+  conditions.nameRegex = str(rawConditions.nameRegex)
+  conditions.sourceFolder = str(rawConditions.sourceFolder)
+  conditions.minSizeBytes = num(rawConditions.minSizeBytes)
+  conditions.maxSizeBytes = num(rawConditions.maxSizeBytes)
+  conditions.minAgeDays = num(rawConditions.minAgeDays)
+  conditions.maxAgeDays = num(rawConditions.maxAgeDays)
+
+  // Drop the keys the model left empty so the editor shows a clean form
+  for (const key of Object.keys(conditions) as (keyof RuleConditions)[]) {
+    if (conditions[key] === undefined) delete conditions[key]
+  }
+
+  const requiresVision = raw.requiresVision === true
+  const imageType = IMAGE_TYPES.includes(raw.imageType as ImageType)
+    ? (raw.imageType as ImageType)
+    : undefined
+
+  return {
+    conditions,
+    action,
+    destination: str(raw.destination),
+    renameTemplate: str(raw.renameTemplate),
+    requiresVision: requiresVision || undefined,
+    imageType: requiresVision ? imageType : undefined
+  }
 }
 
 // ============ Text-Based Classification ============
@@ -143,14 +506,8 @@ INSTRUCTIONS:
 3. If a rule matches, specify the destination folder
 4. If no rules match, return skip action
 
-Common file type mappings:
-- Documents: pdf, doc, docx, txt, md, rtf
-- Spreadsheets: xlsx, xls, csv
-- Images: jpg, jpeg, png, gif, webp, svg, heic
-- Code: js, ts, py, java, cpp, html, css, json
-- Archives: zip, rar, 7z, tar, gz
-- Videos: mp4, mov, avi, mkv, webm
-- Audio: mp3, wav, flac, m4a
+File type categories (the user's own; use these extensions when a rule names a category):
+${categoryTaxonomy.describeCategories()}
 
 RESPOND WITH JSON ONLY (no markdown, no explanation):
 {
@@ -277,7 +634,8 @@ RESPOND WITH JSON ONLY:
   "vendor": "string or null",
   "date": "YYYY-MM-DD or null",
   "amount": number or null,
-  "description": "brief description"
+  "description": "brief description",
+  "confidence": <0.0 to 1.0, how sure you are of imageType>
 }`
 
   const model = client!.getGenerativeModel({
@@ -385,6 +743,7 @@ function parseRuleResponse(responseText: string, usedVision: boolean): RuleMatch
       action: parsed.action === 'move' ? 'move' : 'skip',
       destination: parsed.destination || undefined,
       rename: parsed.rename || undefined,
+      usedAI: true,
       usedVision,
       confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
       reasoning: parsed.reasoning || 'No reasoning provided'
@@ -396,6 +755,7 @@ function parseRuleResponse(responseText: string, usedVision: boolean): RuleMatch
     return {
       matchedRule: null,
       action: 'skip',
+      usedAI: true,
       usedVision,
       confidence: 0,
       reasoning: 'Failed to parse AI response'
@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { app } from 'electron'
+import { processFileWithRules, AgentRule } from './ruleProcessor'
+
+// ============ Types ============
+
+export interface RuleTestTarget {
+  folderPath?: string // Test every file directly inside this folder
+  filePaths?: string[] // Or an explicit set of files
+}
+
+export interface RuleTestResult {
+  filePath: string
+  fileName: string
+  matchedRule: number | null
+  ruleText?: string
+  action: 'move' | 'copy' | 'delete' | 'skip' | 'error'
+  destination?: string // Full path the file would end up at
+  rename?: string
+  confidence: number
+  usedAI: boolean
+  usedVision: boolean
+  reasoning: string
+}
+
+export interface RuleTestRun {
+  id: string
+  createdAt: string
+  target: RuleTestTarget
+  rules: AgentRule[]
+  results: RuleTestResult[]
+  truncated: boolean // More files than MAX_TEST_FILES were found
+}
+
+// ============ Constants ============
+
+// Free-text rules cost a model call per file, so keep a run bounded
+const MAX_TEST_FILES = 50
+
+const IGNORED_FILES = [/^\./, /^~\$/, /momentum_activity_log\.xlsx$/, /\.(tmp|crdownload|part)$/i]
+
+const getFixturesDir = (): string => path.join(app.getPath('userData'), 'rule-fixtures')
+
+// ============ Test Run ============
+
+async function collectFiles(target: RuleTestTarget): Promise<string[]> {
+  if (target.filePaths && target.filePaths.length > 0) {
+    const files: string[] = []
+    for (const filePath of target.filePaths) {
+      try {
+        if ((await fs.stat(filePath)).isFile()) files.push(filePath)
+      } catch {
+        // Selected file has gone away since it was picked
+      }
+    }
+    return files
+  }
+
+  if (!target.folderPath) return []
+
+  const entries = await fs.readdir(target.folderPath, { withFileTypes: true })
+  return entries
+    .filter((e) => e.isFile() && !IGNORED_FILES.some((pattern) => pattern.test(e.name)))
+    .map((e) => path.join(target.folderPath!, e.name))
+    .sort()
+}
+
+/**
+ * Run rules against existing files without touching them, reporting what a watcher would do
+ */
+export async function runRuleTest(
+  target: RuleTestTarget,
+  rules: AgentRule[]
+): Promise<RuleTestRun> {
+  const allFiles = await collectFiles(target)
+  const files = allFiles.slice(0, MAX_TEST_FILES)
+  const enabledRules = rules.filter((r) => r.enabled)
+  const results: RuleTestResult[] = []
+
+  console.log(`[RULE TEST] Testing ${enabledRules.length} rules against ${files.length} files`)
+
+  for (const filePath of files) {
+    const fileName = path.basename(filePath)
+    try {
+      const match = await processFileWithRules(filePath, rules)
+      // Destinations are relative to the watch folder; the tested folder stands in for it
+      const baseFolder = target.folderPath || path.dirname(filePath)
+      const destFolder = match.destination
+        ? path.join(baseFolder, match.destination)
+        : path.dirname(filePath)
+
+      results.push({
+        filePath,
+        fileName,
+        matchedRule: match.matchedRule,
+        ruleText: match.matchedRule ? enabledRules[match.matchedRule - 1]?.text : undefined,
+        action: match.action,
+        destination:
+          match.action === 'skip' || match.action === 'delete'
+            ? undefined
+            : path.join(destFolder, match.rename || fileName),
+        rename: match.rename,
+        confidence: match.confidence,
+        usedAI: match.usedAI,
+        usedVision: match.usedVision,
+        reasoning: match.reasoning
+      })
+    } catch (error) {
+      console.error(`[RULE TEST] Failed on ${fileName}:`, error)
+      results.push({
+        filePath,
+        fileName,
+        matchedRule: null,
+        action: 'error',
+        confidence: 0,
+        usedAI: false,
+        usedVision: false,
+        reasoning: String(error)
+      })
+    }
+  }
+
+  return {
+    id: `test-${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    target,
+    rules,
+    results,
+    truncated: allFiles.length > files.length
+  }
+}
+
+// ============ Fixtures ============
+
+/**
+ * Save a run so the same rules and files can be checked again after the rules change
+ */
+export async function saveFixture(
+  run: RuleTestRun,
+  name: string
+): Promise<{ success: boolean; path?: string; error?: string }> {
+  try {
+    const slug =
+      name
+        .trim()
+        .replace(/[^a-z0-9-_]+/gi, '-')
+        .replace(/^-+|-+$/g, '') || run.id
+    const fixturePath = path.join(getFixturesDir(), `${slug}.json`)
+    await fs.mkdir(getFixturesDir(), { recursive: true })
+    await fs.writeFile(fixturePath, JSON.stringify({ name, ...run }, null, 2), 'utf-8')
+    console.log(`[RULE TEST] Fixture saved: ${fixturePath}`)
+    return { success: true, path: fixturePath }
+  } catch (error) {
+    return { success: false, error: String(error) }
+  }
+}
@@ -1,6 +1,9 @@
 /* eslint-disable prettier/prettier */
-import * as fs from 'fs/promises'
 import * as path from 'path'
+import { hashFile } from './fileSystem'
+import * as storageIndex from './storageIndex'
+import { getCategoryColor, getCategoryForExtension } from './categoryTaxonomy'
+import * as storageHistory from './storageHistory'
 
 // ============ Types ============
 
@@ -11,6 +14,7 @@ export interface FileItem {
   modified: string
   age: number // days since modified
   extension: string
+  category: string
 }
 
 export interface CategoryStats {
@@ -21,6 +25,16 @@ export interface CategoryStats {
   color: string
 }
 
+export interface SizeNode {
+  name: string
+  path: string
+  size: number
+  fileCount: number
+  // 'files': loose files directly in the parent; 'other': the parent's smaller subfolders lumped together
+  kind: 'folder' | 'files' | 'other'
+  children?: SizeNode[] // Largest first
+}
+
 export interface StorageAnalysis {
   totalSize: number
   totalFiles: number
@@ -31,49 +45,39 @@ export interface StorageAnalysis {
   oldFilesSize: number
   suggestions: string[]
   scannedAt: string
+  maxDepth: number
+  index: storageIndex.IndexStatus // How much of the scan came from the storage index
+  growth: storageHistory.StorageGrowthReport | null // Since the previous scan, if any
+  sizeTree: SizeNode // Folders down to maxDepth
 }
 
-// ============ Constants ============
-
-interface CategoryConfig {
-  extensions: string[]
-  color: string
+export interface DuplicateGroup {
+  hash: string
+  size: number // Of each copy
+  files: FileItem[] // Oldest first, so the likely original leads
+  recoverableBytes: number // Freed by keeping a single copy
 }
 
-const FILE_CATEGORIES: Record<string, CategoryConfig> = {
-  Videos: { extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'flv', 'm4v'], color: '#ef4444' },
-  Images: {
-    extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'heic', 'heif', 'bmp', 'ico'],
-    color: '#8b5cf6'
-  },
-  Archives: { extensions: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'], color: '#f59e0b' },
-  Documents: { extensions: ['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt'], color: '#3b82f6' },
-  Spreadsheets: { extensions: ['xlsx', 'xls', 'csv', 'ods'], color: '#10b981' },
-  Audio: { extensions: ['mp3', 'wav', 'flac', 'm4a', 'aac', 'ogg', 'wma'], color: '#ec4899' },
-  Code: {
-    extensions: ['js', 'ts', 'py', 'java', 'cpp', 'c', 'html', 'css', 'json', 'xml', 'jsx', 'tsx'],
-    color: '#06b6d4'
-  },
-  Executables: { extensions: ['exe', 'msi', 'dmg', 'pkg', 'deb', 'rpm', 'app'], color: '#84cc16' },
-  Other: { extensions: [], color: '#6b7280' }
+export interface DuplicateScan {
+  folderPath: string
+  groups: DuplicateGroup[] // Most recoverable space first
+  totalRecoverable: number
+  filesScanned: number
+  filesHashed: number // Only files sharing a size with another file are read
+  scannedAt: string
 }
 
+// ============ Constants ============
+
 const OLD_FILE_THRESHOLD_DAYS = 180 // 6 months
 const LARGE_FILE_THRESHOLD_MB = 100
 
-// ============ Helper Functions ============
-
-function getCategoryForExtension(ext: string): string {
-  ext = ext.toLowerCase().replace('.', '')
-
-  for (const [category, config] of Object.entries(FILE_CATEGORIES)) {
-    if (config.extensions.includes(ext)) {
-      return category
-    }
-  }
+// Keep the size tree small enough to hand back to the model: at most this many
+// subfolders per folder, each at least this share of the total
+const MAX_TREE_CHILDREN = 8
+const MIN_TREE_NODE_SHARE = 0.01
 
-  return 'Other'
-}
+// ============ Helper Functions ============
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B'
@@ -92,63 +96,140 @@ function getFileAge(modifiedDate: Date): number {
   return diffDays
 }
 
-// ============ Main Analysis Function ============
+// ============ File Listing ============
 
-async function scanDirectory(
-  dirPath: string,
-  files: FileItem[],
-  depth: number = 0,
-  maxDepth: number = 3
-): Promise<void> {
-  if (depth > maxDepth) return
+/**
+ * Files under a folder from the storage index, hidden files left out. Categories are
+ * looked up on every call so edits to the taxonomy apply to cached listings too.
+ */
+export async function listFiles(
+  folderPath: string,
+  maxDepth: number = 3,
+  options: { force?: boolean } = {}
+): Promise<{ files: FileItem[]; index: storageIndex.IndexStatus }> {
+  const listing = await storageIndex.listFiles(folderPath, maxDepth, options)
+  const files = listing.files
+    .filter((file) => !file.name.startsWith('.'))
+    .map((file) => {
+      const modified = new Date(file.mtimeMs)
+      return {
+        name: file.name,
+        path: file.path,
+        size: file.size,
+        modified: modified.toISOString(),
+        age: getFileAge(modified),
+        extension: file.extension,
+        category: getCategoryForExtension(file.extension)
+      }
+    })
+  return { files, index: listing.status }
+}
 
-  try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+// ============ Size Tree ============
 
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name)
+interface FolderTotals {
+  size: number
+  fileCount: number
+  looseSize: number
+  looseCount: number
+  subfolders: Map<string, FolderTotals>
+}
 
-      // Skip hidden files and system folders
-      if (entry.name.startsWith('.')) continue
-      if (entry.name === 'node_modules') continue
-      if (entry.name === '$RECYCLE.BIN') continue
-      if (entry.name === 'System Volume Information') continue
+const emptyTotals = (): FolderTotals => ({
+  size: 0,
+  fileCount: 0,
+  looseSize: 0,
+  looseCount: 0,
+  subfolders: new Map()
+})
 
-      try {
-        if (entry.isDirectory()) {
-          await scanDirectory(fullPath, files, depth + 1, maxDepth)
-        } else if (entry.isFile()) {
-          const stats = await fs.stat(fullPath)
-          const extension = path.extname(entry.name)
-          const age = getFileAge(stats.mtime)
-
-          files.push({
-            name: entry.name,
-            path: fullPath,
-            size: stats.size,
-            modified: stats.mtime.toISOString(),
-            age,
-            extension
-          })
-        }
-      } catch (err) {
-        // Skip files we can't access (permissions, etc.)
-        console.warn(`[STORAGE] Cannot access: ${fullPath}`)
-      }
+function toSizeNode(
+  name: string,
+  folderPath: string,
+  totals: FolderTotals,
+  minSize: number
+): SizeNode {
+  const node: SizeNode = {
+    name,
+    path: folderPath,
+    size: totals.size,
+    fileCount: totals.fileCount,
+    kind: 'folder'
+  }
+
+  const subfolders = [...totals.subfolders.entries()].sort((a, b) => b[1].size - a[1].size)
+  const shown = subfolders.filter(([, sub]) => sub.size >= minSize).slice(0, MAX_TREE_CHILDREN)
+  const lumped = subfolders.slice(shown.length)
+
+  const children = shown.map(([subName, sub]) =>
+    toSizeNode(subName, path.join(folderPath, subName), sub, minSize)
+  )
+  if (totals.looseCount > 0) {
+    children.push({
+      name: 'Files here',
+      path: folderPath,
+      size: totals.looseSize,
+      fileCount: totals.looseCount,
+      kind: 'files'
+    })
+  }
+  if (lumped.length > 0) {
+    children.push({
+      name: `${lumped.length} smaller folder${lumped.length === 1 ? '' : 's'}`,
+      path: folderPath,
+      size: lumped.reduce((sum, [, sub]) => sum + sub.size, 0),
+      fileCount: lumped.reduce((sum, [, sub]) => sum + sub.fileCount, 0),
+      kind: 'other'
+    })
+  }
+
+  // A folder holding nothing but loose files is a leaf
+  if (children.length > 1 || children[0]?.kind !== 'files') {
+    node.children = children.sort((a, b) => b.size - a.size)
+  }
+  return node
+}
+
+/**
+ * Folder sizes as a tree rooted at the analyzed folder, for the Storage panel treemap
+ */
+function buildSizeTree(folderPath: string, files: FileItem[]): SizeNode {
+  const root = emptyTotals()
+
+  for (const file of files) {
+    const folders = path.relative(folderPath, file.path).split(path.sep).slice(0, -1)
+    let totals = root
+    totals.size += file.size
+    totals.fileCount++
+    for (const folder of folders) {
+      const sub = totals.subfolders.get(folder) ?? emptyTotals()
+      totals.subfolders.set(folder, sub)
+      totals = sub
+      totals.size += file.size
+      totals.fileCount++
     }
-  } catch (err) {
-    console.error(`[STORAGE] Cannot read directory: ${dirPath}`, err)
+    totals.looseSize += file.size
+    totals.looseCount++
   }
+
+  return toSizeNode(
+    path.basename(folderPath) || folderPath,
+    folderPath,
+    root,
+    root.size * MIN_TREE_NODE_SHARE
+  )
 }
 
+// ============ Main Analysis Function ============
+
 export async function analyzeStorage(
   folderPath: string,
-  maxDepth: number = 3
+  maxDepth: number = 3,
+  options: { force?: boolean } = {}
 ): Promise<StorageAnalysis> {
   console.log(`[STORAGE] Analyzing: ${folderPath} (depth: ${maxDepth})`)
 
-  const files: FileItem[] = []
-  await scanDirectory(folderPath, files, 0, maxDepth)
+  const { files, index } = await listFiles(folderPath, maxDepth, options)
 
   console.log(`[STORAGE] Found ${files.length} files`)
 
@@ -158,11 +239,10 @@ export async function analyzeStorage(
   // Group by category
   const categoryMap = new Map<string, { size: number; count: number }>()
 
-  for (const file of files) {
-    const category = getCategoryForExtension(file.extension)
+  for (const { category, size } of files) {
     const existing = categoryMap.get(category) || { size: 0, count: 0 }
     categoryMap.set(category, {
-      size: existing.size + file.size,
+      size: existing.size + size,
       count: existing.count + 1
     })
   }
@@ -174,7 +254,7 @@ export async function analyzeStorage(
       size: stats.size,
       count: stats.count,
       percentage: (stats.size / totalSize) * 100,
-      color: FILE_CATEGORIES[type]?.color || '#6b7280'
+      color: getCategoryColor(type)
     }))
     .sort((a, b) => b.size - a.size)
 
@@ -211,6 +291,36 @@ export async function analyzeStorage(
     suggestions.push(`${files.length} files total - consider organizing into folders`)
   }
 
+  const sizeTree = buildSizeTree(folderPath, files)
+
+  // Size of each immediate subfolder, kept in the growth history
+  const folderSizes = new Map<string, number>()
+  for (const file of files) {
+    const [topFolder, ...rest] = path.relative(folderPath, file.path).split(path.sep)
+    if (rest.length === 0) continue // Directly inside the analyzed folder
+    folderSizes.set(topFolder, (folderSizes.get(topFolder) || 0) + file.size)
+  }
+
+  const scannedAt = new Date().toISOString()
+  const growth = await storageHistory.recordSnapshot({
+    folderPath,
+    scannedAt,
+    maxDepth,
+    totalSize,
+    totalFiles: files.length,
+    byCategory: Object.fromEntries(byType.map((c) => [c.type, c.size])),
+    topFolders: Object.fromEntries(
+      [...folderSizes.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, storageHistory.TOP_FOLDERS_KEPT)
+    )
+  })
+
+  const topGrowth = growth?.folders[0]
+  if (topGrowth && topGrowth.change > 100 * 1024 * 1024) {
+    suggestions.push(`${topGrowth.name} grew ${formatBytes(topGrowth.change)} since the last scan`)
+  }
+
   return {
     totalSize,
     totalFiles: files.length,
@@ -220,6 +330,76 @@ export async function analyzeStorage(
     oldFiles,
     oldFilesSize,
     suggestions,
+    scannedAt,
+    maxDepth,
+    index,
+    growth,
+    sizeTree
+  }
+}
+
+// ============ Duplicate Detection ============
+
+/**
+ * Find files with identical content: group by size first, then hash only the
+ * files whose size collides with another's
+ */
+export async function findDuplicates(
+  folderPath: string,
+  maxDepth: number = 5
+): Promise<DuplicateScan> {
+  console.log(`[STORAGE] Finding duplicates: ${folderPath} (depth: ${maxDepth})`)
+
+  const { files } = await listFiles(folderPath, maxDepth)
+
+  // Empty files are all "identical" but free nothing
+  const bySize = new Map<number, FileItem[]>()
+  for (const file of files) {
+    if (file.size === 0) continue
+    bySize.set(file.size, [...(bySize.get(file.size) || []), file])
+  }
+
+  const groups: DuplicateGroup[] = []
+  let filesHashed = 0
+
+  for (const [size, candidates] of bySize) {
+    if (candidates.length < 2) continue
+
+    const byHash = new Map<string, FileItem[]>()
+    for (const file of candidates) {
+      try {
+        const hash = await hashFile(file.path)
+        filesHashed++
+        byHash.set(hash, [...(byHash.get(hash) || []), file])
+      } catch {
+        console.warn(`[STORAGE] Cannot hash: ${file.path}`)
+      }
+    }
+
+    for (const [hash, copies] of byHash) {
+      if (copies.length < 2) continue
+      groups.push({
+        hash,
+        size,
+        files: copies.sort((a, b) => a.modified.localeCompare(b.modified)),
+        recoverableBytes: size * (copies.length - 1)
+      })
+    }
+  }
+
+  groups.sort((a, b) => b.recoverableBytes - a.recoverableBytes)
+  const totalRecoverable = groups.reduce((sum, group) => sum + group.recoverableBytes, 0)
+
+  console.log(
+    `[STORAGE] ${groups.length} duplicate groups, ${formatBytes(totalRecoverable)} recoverable`
+  )
+
+  return {
+    folderPath,
+    groups,
+    totalRecoverable,
+    filesScanned: files.length,
+    filesHashed,
     scannedAt: new Date().toISOString()
   }
 }
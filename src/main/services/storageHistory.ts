@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { app } from 'electron'
+
+// ============ Types ============
+
+export interface StorageSnapshot {
+  folderPath: string
+  scannedAt: string
+  maxDepth: number // Totals are only comparable between scans of the same depth
+  totalSize: number
+  totalFiles: number
+  byCategory: Record<string, number> // Bytes per category
+  topFolders: Record<string, number> // Bytes per immediate subfolder, largest only
+}
+
+export interface GrowthEntry {
+  name: string
+  before: number
+  after: number
+  change: number
+}
+
+export interface StorageGrowthReport {
+  folderPath: string
+  from: string // scannedAt of the baseline snapshot
+  to: string
+  totalChange: number
+  categories: GrowthEntry[] // Biggest growth first
+  folders: GrowthEntry[] // Only folders recorded in both snapshots
+  untrackedFolders: string[] // In one snapshot's largest folders but not the other's
+}
+
+// ============ Constants ============
+
+const MAX_SNAPSHOTS_PER_FOLDER = 200
+
+// Subfolders kept per snapshot; the rest only count towards the totals
+export const TOP_FOLDERS_KEPT = 20
+
+// storage_growth only takes a fresh snapshot when the latest is older than this
+export const MIN_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000
+
+const getHistoryPath = (): string => path.join(app.getPath('userData'), 'storage-history.json')
+
+// ============ Persistence ============
+
+let snapshots: StorageSnapshot[] | null = null
+
+async function loadSnapshots(): Promise<StorageSnapshot[]> {
+  if (!snapshots) {
+    try {
+      snapshots = JSON.parse(await fs.readFile(getHistoryPath(), 'utf-8')) as StorageSnapshot[]
+    } catch {
+      snapshots = []
+    }
+  }
+  return snapshots
+}
+
+async function saveSnapshots(all: StorageSnapshot[]): Promise<void> {
+  try {
+    await fs.writeFile(getHistoryPath(), JSON.stringify(all), 'utf-8')
+  } catch (error) {
+    console.error('[STORAGE HISTORY] Failed to save:', error)
+  }
+}
+
+// ============ Comparison ============
+
+function compareRecords(
+  before: Record<string, number>,
+  after: Record<string, number>,
+  names: Iterable<string>
+): GrowthEntry[] {
+  return [...names]
+    .map((name) => {
+      const b = before[name] ?? 0
+      const a = after[name] ?? 0
+      return { name, before: b, after: a, change: a - b }
+    })
+    .filter((entry) => entry.change !== 0)
+    .sort((x, y) => y.change - x.change)
+}
+
+function compareSnapshots(before: StorageSnapshot, after: StorageSnapshot): StorageGrowthReport {
+  const categories = new Set([...Object.keys(before.byCategory), ...Object.keys(after.byCategory)])
+
+  // Only the largest folders are kept, so one missing from a snapshot may simply have
+  // dropped out of that list; counting it as empty would report its whole size as change
+  const beforeFolders = new Set(Object.keys(before.topFolders))
+  const afterFolders = new Set(Object.keys(after.topFolders))
+  const inBoth = [...beforeFolders].filter((name) => afterFolders.has(name))
+  const untrackedFolders = [...beforeFolders, ...afterFolders].filter(
+    (name) => !(beforeFolders.has(name) && afterFolders.has(name))
+  )
+
+  return {
+    folderPath: after.folderPath,
+    from: before.scannedAt,
+    to: after.scannedAt,
+    totalChange: after.totalSize - before.totalSize,
+    categories: compareRecords(before.byCategory, after.byCategory, categories),
+    folders: compareRecords(before.topFolders, after.topFolders, inBoth),
+    untrackedFolders
+  }
+}
+
+// ============ Public API ============
+
+/**
+ * Snapshots of one folder, oldest first; by default those at the depth it was last scanned at
+ */
+export async function getHistory(
+  folderPath: string,
+  maxDepth?: number
+): Promise<StorageSnapshot[]> {
+  const forFolder = (await loadSnapshots())
+    .filter((s) => s.folderPath === folderPath)
+    .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt))
+  const depth = maxDepth ?? forFolder[forFolder.length - 1]?.maxDepth
+  return forFolder.filter((s) => s.maxDepth === depth)
+}
+
+/**
+ * Save a scan's totals and report what changed since the previous scan of the same folder
+ */
+export async function recordSnapshot(
+  snapshot: StorageSnapshot
+): Promise<StorageGrowthReport | null> {
+  const previous = (await getHistory(snapshot.folderPath, snapshot.maxDepth)).pop()
+
+  let all = await loadSnapshots()
+  all.push(snapshot)
+  // Snapshots are appended in time order, so the first ones for the folder are the oldest
+  const forFolder = all.filter((s) => s.folderPath === snapshot.folderPath)
+  if (forFolder.length > MAX_SNAPSHOTS_PER_FOLDER) {
+    const dropped = new Set(forFolder.slice(0, forFolder.length - MAX_SNAPSHOTS_PER_FOLDER))
+    all = all.filter((s) => !dropped.has(s))
+    snapshots = all
+  }
+  await saveSnapshots(all)
+
+  return previous ? compareSnapshots(previous, snapshot) : null
+}
+
+/**
+ * Growth from the last snapshot taken at least `days` before the latest one (or the oldest
+ * there is) up to the latest; without `days`, since the scan before the latest
+ */
+export async function getGrowth(
+  folderPath: string,
+  days?: number
+): Promise<StorageGrowthReport | null> {
+  const history = await getHistory(folderPath)
+  if (history.length < 2) return null
+
+  const latest = history[history.length - 1]
+  let baseline = history[history.length - 2]
+  if (days !== undefined) {
+    const cutoff = new Date(latest.scannedAt).getTime() - days * 24 * 60 * 60 * 1000
+    baseline =
+      [...history].reverse().find((s) => new Date(s.scannedAt).getTime() <= cutoff) ?? history[0]
+  }
+
+  return compareSnapshots(baseline, latest)
+}
@@ -0,0 +1,267 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { app } from 'electron'
+import { Stats } from 'fs'
+import * as pathSandbox from './pathSandbox'
+
+// ============ Types ============
+
+export interface IndexedFile {
+  name: string
+  path: string
+  extension: string // With the leading dot, as path.extname returns it
+  size: number
+  mtimeMs: number
+}
+
+interface IndexedDirectory {
+  mtimeMs: number // Changes when entries are added, removed or renamed
+  files: IndexedFile[]
+  subdirs: string[] // Names, not paths
+}
+
+interface StorageIndex {
+  rootPath: string
+  refreshedAt: string
+  dirs: Record<string, IndexedDirectory>
+}
+
+export interface IndexStatus {
+  rootPath: string // Granted folder the index belongs to
+  refreshedAt: string
+  fileCount: number
+  dirsRead: number // Listing changed since the last refresh (or a rescan was forced)
+  dirsReused: number // Unchanged, served from the index
+}
+
+export interface IndexedListing {
+  files: IndexedFile[]
+  status: IndexStatus
+}
+
+// ============ Constants ============
+
+// Deepest any caller walks (organization plans that include subfolders)
+export const MAX_INDEX_DEPTH = 10
+
+const SKIPPED_FOLDERS = ['node_modules', '$RECYCLE.BIN', 'System Volume Information']
+
+// Watcher events arrive in bursts; write the index once things settle
+const SAVE_DELAY_MS = 2000
+
+const getIndexDir = (): string => path.join(app.getPath('userData'), 'storage-index')
+
+// ============ Persistence ============
+
+const indexes = new Map<string, StorageIndex>() // Root path → index, loaded lazily
+const saveTimers = new Map<string, NodeJS.Timeout>()
+
+function getIndexPath(rootPath: string): string {
+  const key = createHash('sha1').update(rootPath).digest('hex').slice(0, 16)
+  return path.join(getIndexDir(), `${key}.json`)
+}
+
+async function loadIndex(rootPath: string): Promise<StorageIndex> {
+  const loaded = indexes.get(rootPath)
+  if (loaded) return loaded
+
+  let index: StorageIndex
+  try {
+    index = JSON.parse(await fs.readFile(getIndexPath(rootPath), 'utf-8'))
+  } catch {
+    index = { rootPath, refreshedAt: '', dirs: {} }
+  }
+  indexes.set(rootPath, index)
+  return index
+}
+
+async function saveIndex(index: StorageIndex): Promise<void> {
+  clearTimeout(saveTimers.get(index.rootPath))
+  saveTimers.delete(index.rootPath)
+  try {
+    await fs.mkdir(getIndexDir(), { recursive: true })
+    await fs.writeFile(getIndexPath(index.rootPath), JSON.stringify(index), 'utf-8')
+  } catch (error) {
+    console.error(`[STORAGE INDEX] Failed to save ${index.rootPath}:`, error)
+  }
+}
+
+function scheduleSave(index: StorageIndex): void {
+  if (saveTimers.has(index.rootPath)) return
+  saveTimers.set(
+    index.rootPath,
+    setTimeout(() => saveIndex(index), SAVE_DELAY_MS)
+  )
+}
+
+/**
+ * One index per granted folder, so a subfolder's scan reuses what its parent's found.
+ * Null outside every granted folder.
+ */
+async function getIndexRoot(targetPath: string): Promise<string | null> {
+  return (await pathSandbox.findGrantedRoot(targetPath)) ?? null
+}
+
+// ============ Refresh ============
+
+function toIndexedFile(filePath: string, stats: Stats): IndexedFile {
+  return {
+    name: path.basename(filePath),
+    path: filePath,
+    extension: path.extname(filePath),
+    size: stats.size,
+    mtimeMs: stats.mtimeMs
+  }
+}
+
+async function readDirectory(dirPath: string, mtimeMs: number): Promise<IndexedDirectory> {
+  const entry: IndexedDirectory = { mtimeMs, files: [], subdirs: [] }
+
+  for (const dirent of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const fullPath = path.join(dirPath, dirent.name)
+    try {
+      if (dirent.isDirectory()) {
+        if (dirent.name.startsWith('.') || SKIPPED_FOLDERS.includes(dirent.name)) continue
+        entry.subdirs.push(dirent.name)
+      } else if (dirent.isFile()) {
+        entry.files.push(toIndexedFile(fullPath, await fs.stat(fullPath)))
+      }
+    } catch {
+      // Skip files we can't access (permissions, etc.)
+      console.warn(`[STORAGE INDEX] Cannot access: ${fullPath}`)
+    }
+  }
+
+  return entry
+}
+
+function removeSubtree(index: StorageIndex, dirPath: string): void {
+  const prefix = dirPath + path.sep
+  for (const key of Object.keys(index.dirs)) {
+    if (key === dirPath || key.startsWith(prefix)) delete index.dirs[key]
+  }
+}
+
+/**
+ * A folder whose mtime hasn't moved still has the same entries, so its cached listing
+ * is reused; only changed folders are read and their files statted again
+ */
+async function refreshDirectory(
+  index: StorageIndex,
+  dirPath: string,
+  depth: number,
+  maxDepth: number,
+  force: boolean,
+  counts: { dirsRead: number; dirsReused: number }
+): Promise<void> {
+  let mtimeMs: number
+  try {
+    mtimeMs = (await fs.stat(dirPath)).mtimeMs
+  } catch {
+    removeSubtree(index, dirPath)
+    return
+  }
+
+  let entry = index.dirs[dirPath]
+  if (!entry || force || entry.mtimeMs !== mtimeMs) {
+    try {
+      const fresh = await readDirectory(dirPath, mtimeMs)
+      // Folders that have gone since the last read take their cached contents with them
+      entry?.subdirs
+        .filter((name) => !fresh.subdirs.includes(name))
+        .forEach((name) => removeSubtree(index, path.join(dirPath, name)))
+      entry = fresh
+      index.dirs[dirPath] = entry
+      counts.dirsRead++
+    } catch (err) {
+      console.error(`[STORAGE INDEX] Cannot read directory: ${dirPath}`, err)
+      removeSubtree(index, dirPath)
+      return
+    }
+  } else {
+    counts.dirsReused++
+  }
+
+  if (depth >= maxDepth) return
+  for (const name of entry.subdirs) {
+    await refreshDirectory(index, path.join(dirPath, name), depth + 1, maxDepth, force, counts)
+  }
+}
+
+function collectFiles(
+  index: StorageIndex,
+  dirPath: string,
+  depth: number,
+  maxDepth: number,
+  files: IndexedFile[]
+): void {
+  const entry = index.dirs[dirPath]
+  if (!entry) return
+  files.push(...entry.files)
+  if (depth >= maxDepth) return
+  for (const name of entry.subdirs) {
+    collectFiles(index, path.join(dirPath, name), depth + 1, maxDepth, files)
+  }
+}
+
+// ============ Public API ============
+
+/**
+ * Every file under a folder down to maxDepth (0 = the folder itself), brought up to
+ * date first. Pass force to re-read every folder, e.g. after changes made outside a watcher.
+ */
+export async function listFiles(
+  folderPath: string,
+  maxDepth: number,
+  options: { force?: boolean } = {}
+): Promise<IndexedListing> {
+  // A scan outside the granted folders keeps an index of its own folder
+  const index = await loadIndex((await getIndexRoot(folderPath)) ?? path.resolve(folderPath))
+  const counts = { dirsRead: 0, dirsReused: 0 }
+
+  await refreshDirectory(index, folderPath, 0, maxDepth, options.force ?? false, counts)
+  index.refreshedAt = new Date().toISOString()
+  await saveIndex(index)
+
+  const files: IndexedFile[] = []
+  collectFiles(index, folderPath, 0, maxDepth, files)
+
+  console.log(
+    `[STORAGE INDEX] ${folderPath}: ${files.length} files, ${counts.dirsRead} folders read, ${counts.dirsReused} reused`
+  )
+
+  return {
+    files,
+    status: {
+      rootPath: index.rootPath,
+      refreshedAt: index.refreshedAt,
+      fileCount: files.length,
+      ...counts
+    }
+  }
+}
+
+/**
+ * Keep an indexed file's size and mtime current from a watcher event. Content edits
+ * don't touch the folder's mtime, so the refresh alone would miss them.
+ */
+export async function recordChange(filePath: string): Promise<void> {
+  // Outside every granted folder there is no index to keep current
+  const root = await getIndexRoot(filePath)
+  if (!root) return
+
+  const index = await loadIndex(root)
+  const entry = index.dirs[path.dirname(filePath)]
+  if (!entry) return // Not indexed yet; the next refresh picks it up
+
+  const files = entry.files.filter((f) => f.path !== filePath)
+  try {
+    const stats = await fs.stat(filePath)
+    if (stats.isFile()) files.push(toIndexedFile(filePath, stats))
+  } catch {
+    // Removed; dropping it from the listing is all there is to do
+  }
+  entry.files = files
+  scheduleSave(index)
+}
@@ -0,0 +1,280 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { app } from 'electron'
+import Store from 'electron-store'
+import * as fileSystem from './fileSystem'
+
+// ============ Types ============
+
+export interface TrashRetentionSettings {
+  enabled: boolean
+  retentionDays: number // 0 = keep forever
+  maxSizeMB: number // 0 = no size cap
+}
+
+export type PurgeReason = 'expired' | 'over-quota' | 'manual' | 'emptied'
+
+export interface PurgeLogEntry {
+  timestamp: string
+  reason: PurgeReason
+  name: string
+  originalPath: string
+  trashPath: string
+  size: number
+  deletedAt: string
+}
+
+export interface TrashItem extends fileSystem.TrashEntry {
+  size: number
+}
+
+export interface TrashFolderGroup {
+  folder: string
+  items: TrashItem[]
+  totalSize: number
+}
+
+export interface SweepResult {
+  purged: number
+  freedBytes: number
+  remainingBytes: number
+}
+
+// ============ Persistence ============
+
+// Off until the user turns it on: a purge is permanent and can't be undone
+const DEFAULT_SETTINGS: TrashRetentionSettings = {
+  enabled: false,
+  retentionDays: 30,
+  maxSizeMB: 2048
+}
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000 // Hourly
+
+const store = new Store({
+  name: 'momentum-trash',
+  encryptionKey: 'momentum-secure-key-2026'
+})
+
+const getPurgeLogPath = (): string => path.join(app.getPath('userData'), 'trash-purge-log.jsonl')
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+let isSweeping = false
+
+// ============ Settings ============
+
+export function getRetentionSettings(): TrashRetentionSettings {
+  const saved = store.get('settings', {}) as Partial<TrashRetentionSettings>
+  return { ...DEFAULT_SETTINGS, ...saved }
+}
+
+export function updateRetentionSettings(
+  updates: Partial<TrashRetentionSettings>
+): TrashRetentionSettings {
+  const settings = { ...getRetentionSettings(), ...updates }
+  settings.retentionDays = Math.max(0, Math.floor(settings.retentionDays))
+  settings.maxSizeMB = Math.max(0, Math.floor(settings.maxSizeMB))
+  store.set('settings', settings)
+  console.log('[TRASH] Retention settings updated:', settings)
+  return settings
+}
+
+// ============ Purge Log ============
+
+async function logPurge(item: TrashItem, reason: PurgeReason): Promise<void> {
+  const entry: PurgeLogEntry = {
+    timestamp: new Date().toISOString(),
+    reason,
+    name: item.name,
+    originalPath: item.originalPath,
+    trashPath: item.trashPath,
+    size: item.size,
+    deletedAt: item.deletedAt
+  }
+  try {
+    await fs.appendFile(getPurgeLogPath(), JSON.stringify(entry) + '\n', 'utf-8')
+  } catch (err) {
+    console.error('[TRASH] Failed to write purge log:', err)
+  }
+}
+
+/**
+ * Most recent purge decisions first
+ */
+export async function getPurgeLog(limit = 200): Promise<PurgeLogEntry[]> {
+  try {
+    const data = await fs.readFile(getPurgeLogPath(), 'utf-8')
+    const entries: PurgeLogEntry[] = []
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line))
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return entries.reverse().slice(0, limit)
+  } catch {
+    return []
+  }
+}
+
+// ============ Trash Contents ============
+
+/**
+ * Trash entries with sizes filled in (older entries were recorded without one)
+ */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  const entries = await fileSystem.getTrashContents()
+  const items: TrashItem[] = []
+
+  for (const entry of entries) {
+    let size = entry.size
+    if (size === undefined) {
+      try {
+        const stats = await fs.stat(entry.trashPath)
+        size = stats.isDirectory() ? await fileSystem.getDirectorySize(entry.trashPath) : stats.size
+      } catch {
+        size = 0
+      }
+    }
+    items.push({ ...entry, size })
+  }
+
+  return items
+}
+
+/**
+ * Trash items grouped by the folder they were deleted from, largest group first
+ */
+export async function getTrashGroups(): Promise<TrashFolderGroup[]> {
+  const groups = new Map<string, TrashFolderGroup>()
+
+  for (const item of await getTrashItems()) {
+    const folder = path.dirname(item.originalPath)
+    const group = groups.get(folder) || { folder, items: [], totalSize: 0 }
+    group.items.push(item)
+    group.totalSize += item.size
+    groups.set(folder, group)
+  }
+
+  return [...groups.values()].sort((a, b) => b.totalSize - a.totalSize)
+}
+
+async function purgeItem(item: TrashItem, reason: PurgeReason): Promise<boolean> {
+  const result = await fileSystem.purgeFromTrash(item.trashPath)
+  if (!result.success) {
+    console.error(`[TRASH] Failed to purge ${item.name}:`, result.error)
+    return false
+  }
+  await logPurge(item, reason)
+  console.log(`[TRASH] Purged (${reason}): ${item.name}`)
+  return true
+}
+
+/**
+ * Permanently delete one item from the trash
+ */
+export async function purgeTrashItem(trashPath: string): Promise<fileSystem.OperationResult> {
+  const item = (await getTrashItems()).find((i) => i.trashPath === trashPath)
+  if (!item) {
+    return { success: false, error: 'Item not found in trash' }
+  }
+  const purged = await purgeItem(item, 'manual')
+  return purged ? { success: true } : { success: false, error: `Failed to purge ${item.name}` }
+}
+
+/**
+ * Empty the whole trash, logging every item that is removed
+ */
+export async function emptyTrash(): Promise<fileSystem.OperationResult> {
+  const items = await getTrashItems()
+  const result = await fileSystem.emptyTrash()
+  if (result.success) {
+    for (const item of items) {
+      await logPurge(item, 'emptied')
+    }
+  }
+  return result
+}
+
+// ============ Sweeper ============
+
+/**
+ * Purge items past the retention period, then the oldest items until the trash fits the quota
+ */
+export async function sweepTrash(): Promise<SweepResult> {
+  const settings = getRetentionSettings()
+  const result: SweepResult = { purged: 0, freedBytes: 0, remainingBytes: 0 }
+
+  if (isSweeping) return result
+  isSweeping = true
+
+  try {
+    // Oldest first so quota enforcement removes the oldest deletions
+    const items = (await getTrashItems()).sort(
+      (a, b) => new Date(a.deletedAt).getTime() - new Date(b.deletedAt).getTime()
+    )
+    const remaining: TrashItem[] = []
+
+    const cutoff =
+      settings.retentionDays > 0 ? Date.now() - settings.retentionDays * 24 * 60 * 60 * 1000 : 0
+
+    for (const item of items) {
+      if (cutoff && new Date(item.deletedAt).getTime() < cutoff) {
+        if (await purgeItem(item, 'expired')) {
+          result.purged++
+          result.freedBytes += item.size
+          continue
+        }
+      }
+      remaining.push(item)
+    }
+
+    let totalSize = remaining.reduce((sum, item) => sum + item.size, 0)
+    const maxBytes = settings.maxSizeMB * 1024 * 1024
+
+    if (maxBytes > 0) {
+      for (const item of remaining) {
+        if (totalSize <= maxBytes) break
+        if (await purgeItem(item, 'over-quota')) {
+          result.purged++
+          result.freedBytes += item.size
+          totalSize -= item.size
+        }
+      }
+    }
+
+    result.remainingBytes = totalSize
+    if (result.purged > 0) {
+      console.log(`[TRASH] Sweep purged ${result.purged} items (${result.freedBytes} bytes)`)
+    }
+  } catch (err) {
+    console.error('[TRASH] Sweep failed:', err)
+  } finally {
+    isSweeping = false
+  }
+
+  return result
+}
+
+export function startTrashSweeper(): void {
+  stopTrashSweeper()
+  if (!getRetentionSettings().enabled) {
+    console.log('[TRASH] Sweeper disabled')
+    return
+  }
+
+  sweepTrash()
+  sweepTimer = setInterval(() => {
+    sweepTrash()
+  }, SWEEP_INTERVAL_MS)
+  console.log('[TRASH] Sweeper started')
+}
+
+export function stopTrashSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer)
+    sweepTimer = null
+  }
+}
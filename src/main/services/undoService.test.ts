@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import * as fileSystem from './fileSystem'
+import { undoService } from './undoService'
+
+// The journal, backups and app trash live under userData; point it at a temp folder
+vi.mock('electron', async () => {
+  const os = await import('os')
+  const path = await import('path')
+  const userData = path.join(os.tmpdir(), `momentum-undo-test-${process.pid}`)
+  return { app: { getPath: () => userData } }
+})
+
+const userData = path.join(os.tmpdir(), `momentum-undo-test-${process.pid}`)
+
+let dir: string
+
+async function write(name: string, content: string): Promise<string> {
+  const filePath = path.join(dir, name)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, content)
+  return filePath
+}
+
+const exists = (filePath: string): Promise<boolean> =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  )
+
+async function move(source: string, target: string): Promise<void> {
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  const { newPath, conflict } = (await fileSystem.moveFile(source, target))
+    .data as fileSystem.TransferData
+  await undoService.addTransferOperation({ type: 'move', originalPath: source, newPath }, conflict)
+}
+
+async function copy(source: string, target: string): Promise<void> {
+  const { newPath, conflict } = (await fileSystem.copyFile(source, target))
+    .data as fileSystem.TransferData
+  await undoService.addTransferOperation({ type: 'copy', originalPath: source, newPath }, conflict)
+}
+
+/** Run the steps as one transaction and return its id */
+const record = (steps: () => Promise<void>): Promise<string> =>
+  undoService.runInTransaction('Test', async (transactionId) => {
+    await steps()
+    return transactionId
+  })
+
+async function conflictReasons(transactionId: string): Promise<string[]> {
+  const preview = await undoService.previewTransaction(transactionId)
+  return preview!.conflicts.map((conflict) => conflict.reason)
+}
+
+beforeEach(async () => {
+  await fs.mkdir(userData, { recursive: true })
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'momentum-undo-'))
+  return () => fs.rm(dir, { recursive: true, force: true })
+})
+
+afterAll(() => fs.rm(userData, { recursive: true, force: true }))
+
+// ============ PREVIEW CONFLICTS ============
+
+describe('previewTransaction', () => {
+  it('finds no conflicts when the disk is as the transaction left it', async () => {
+    const source = await write('in/a.txt', 'a')
+    const id = await record(() => move(source, path.join(dir, 'out', 'a.txt')))
+
+    const preview = await undoService.previewTransaction(id)
+
+    expect(preview!.operations).toHaveLength(1)
+    expect(preview!.conflicts).toEqual([])
+  })
+
+  it('blocks a move whose file is gone', async () => {
+    const source = await write('in/a.txt', 'a')
+    const target = path.join(dir, 'out', 'a.txt')
+    const id = await record(() => move(source, target))
+    await fs.rm(target)
+
+    expect(await conflictReasons(id)).toEqual([`File no longer exists at ${target}`])
+  })
+
+  it('blocks a move whose original location is taken again', async () => {
+    const source = await write('in/a.txt', 'a')
+    const id = await record(() => move(source, path.join(dir, 'out', 'a.txt')))
+    await write('in/a.txt', 'new file')
+
+    expect(await conflictReasons(id)).toEqual([
+      `Something already exists at the original location: ${source}`
+    ])
+  })
+
+  it('sees the effect of earlier reversals in the same plan', async () => {
+    // a.txt moved to b.txt, then b.txt moved back to a.txt: on disk a.txt exists
+    // and b.txt does not, yet both reversals can run in order
+    const first = await write('a.txt', 'a')
+    const second = path.join(dir, 'b.txt')
+    const id = await record(async () => {
+      await move(first, second)
+      await move(second, first)
+    })
+
+    expect(await conflictReasons(id)).toEqual([])
+  })
+
+  it('blocks removing a created folder that holds files from elsewhere', async () => {
+    const folder = path.join(dir, 'Sorted')
+    const source = await write('a.txt', 'a')
+    const id = await record(async () => {
+      await fs.mkdir(folder)
+      await undoService.addOperation({ type: 'create', originalPath: folder })
+      await move(source, path.join(folder, 'a.txt'))
+    })
+
+    // Only the moved file is inside, and undoing the move takes it out first
+    expect(await conflictReasons(id)).toEqual([])
+
+    await write('Sorted/mine.txt', 'added later')
+    expect(await conflictReasons(id)).toEqual([`Folder is no longer empty: ${folder}`])
+  })
+
+  it('blocks deleting a copy that was changed after it was made', async () => {
+    const source = await write('a.txt', 'original')
+    const target = path.join(dir, 'backup', 'a.txt')
+    const id = await record(() => copy(source, target))
+
+    expect(await conflictReasons(id)).toEqual([])
+
+    await fs.writeFile(target, 'edited since the copy')
+    expect(await conflictReasons(id)).toEqual([`Copy was changed after it was made: ${target}`])
+  })
+
+  it('blocks restoring a file that is no longer in the trash', async () => {
+    const filePath = await write('a.txt', 'a')
+    const id = await record(async () => {
+      const { trashPath } = (await fileSystem.deleteFile(filePath)).data as { trashPath: string }
+      await undoService.addOperation({ type: 'trash', originalPath: filePath, newPath: trashPath })
+      await fs.rm(trashPath)
+    })
+
+    expect(await conflictReasons(id)).toEqual([
+      'No longer in the trash (already restored or purged)'
+    ])
+  })
+})
+
+// ============ UNDO ============
+
+describe('undoTransaction', () => {
+  it('deletes an unchanged copy and keeps an edited one', async () => {
+    const source = await write('a.txt', 'original')
+    const kept = path.join(dir, 'backup', 'kept.txt')
+    const removed = path.join(dir, 'backup', 'removed.txt')
+    const id = await record(async () => {
+      await copy(source, kept)
+      await copy(source, removed)
+    })
+    await fs.writeFile(kept, 'edited since the copy')
+
+    const refused = await undoService.undoTransaction(id)
+    expect(refused.success).toBe(false)
+    expect(refused.undone).toBe(0)
+    expect(await exists(removed)).toBe(true)
+
+    const result = await undoService.undoTransaction(id, { skipConflicts: true })
+    expect(result.undone).toBe(1)
+    expect(await exists(removed)).toBe(false)
+    expect(await fs.readFile(kept, 'utf-8')).toBe('edited since the copy')
+    expect(await fs.readFile(source, 'utf-8')).toBe('original')
+  })
+
+  it('removes folders it created, parents included, once they are empty', async () => {
+    const source = await write('a.txt', 'a')
+    const folder = path.join(dir, 'Archive', '2026', '03')
+    const id = await record(async () => {
+      await undoService.createFolder(folder)
+      await move(source, path.join(folder, 'a.txt'))
+    })
+
+    expect((await undoService.getTransactionOperations(id)).map((op) => op.type)).toEqual([
+      'create',
+      'create',
+      'create',
+      'move'
+    ])
+
+    const result = await undoService.undoTransaction(id)
+    expect(result.undone).toBe(4)
+    expect(await exists(source)).toBe(true)
+    expect(await exists(path.join(dir, 'Archive'))).toBe(false)
+  })
+
+  it('only journals the folders that did not exist yet', async () => {
+    await fs.mkdir(path.join(dir, 'Archive'))
+    const id = await record(() => undoService.createFolder(path.join(dir, 'Archive', '2026')))
+
+    const operations = await undoService.getTransactionOperations(id)
+    expect(operations.map((op) => op.originalPath)).toEqual([path.join(dir, 'Archive', '2026')])
+  })
+
+  it('leaves a created folder in place while something else is inside', async () => {
+    const folder = path.join(dir, 'Sorted', 'Docs')
+    const id = await record(() => undoService.createFolder(folder))
+    await write('Sorted/Docs/mine.txt', 'added later')
+
+    const result = await undoService.undoTransaction(id, { skipConflicts: true })
+
+    expect(result.undone).toBe(0)
+    expect(result.conflicts).toHaveLength(2)
+    expect(await exists(path.join(folder, 'mine.txt'))).toBe(true)
+  })
+})
@@ -1,106 +1,633 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { AsyncLocalStorage } from 'async_hooks'
+import { app, BrowserWindow } from 'electron'
+import * as fileSystem from './fileSystem'
+
+// ============ Types ============
+
+export type UndoOperationType = 'move' | 'rename' | 'copy' | 'write' | 'create' | 'trash'
+
+/** Where an operation came from: one chat session (one app run) or a background watcher */
+export interface UndoSource {
+  kind: 'session' | 'watcher'
+  id: string
+  label?: string
+}
 
 export interface UndoOperation {
   id: string
-  type: 'move' | 'rename' | 'delete' | 'create'
+  type: UndoOperationType
   timestamp: number
+  source: UndoSource
+  transactionId?: string
   originalPath: string
   newPath?: string
   originalName?: string
   newName?: string
-  content?: string // For write_file operations
+  backupPath?: string // Previous content of an overwritten file (write operations)
+  conflict?: fileSystem.ConflictResolution // How a clash at the target was settled
+  copiedSize?: number // Size and modified time of a copy when it was made (copy operations)
+  copiedModifiedAt?: number
+}
+
+/** A named unit of work (organization run, chat turn) that can be undone as a whole */
+export interface UndoTransaction {
+  id: string
+  name: string
+  source: UndoSource
+  startedAt: number
+}
+
+export interface UndoGroup {
+  source: UndoSource
+  startedAt: number
+  lastActivityAt: number
+  operations: UndoOperation[]
+  transactions: UndoTransaction[]
+}
+
+export interface UndoConflict {
+  operation: UndoOperation
+  reason: string
+}
+
+export interface UndoTransactionPreview {
+  transaction: UndoTransaction
+  operations: UndoOperation[] // In the order they would be reverted
+  conflicts: UndoConflict[]
+}
+
+export interface UndoTransactionResult {
+  success: boolean
+  undone: number
+  conflicts: UndoConflict[]
+  error?: string
+}
+
+interface UndoJournal {
+  version: 1
+  operations: UndoOperation[]
+  transactions?: UndoTransaction[]
 }
 
+/**
+ * View of the disk used while planning a reversal. Overrides record what earlier
+ * reversals in the same plan would have changed, so later checks see that state.
+ */
+interface DiskView {
+  exists: (filePath: string) => Promise<boolean>
+  listDir: (dirPath: string) => Promise<string[]>
+  overrides: Map<string, boolean>
+}
+
+// ============ Journal Storage ============
+
+const MAX_OPERATIONS = 1000
+
+const getJournalPath = (): string => path.join(app.getPath('userData'), 'undo-journal.json')
+
+const getBackupDir = (): string => path.join(app.getPath('userData'), 'undo-backups')
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function createDiskView(): DiskView {
+  const overrides = new Map<string, boolean>()
+  return {
+    overrides,
+    exists: async (filePath) => overrides.get(filePath) ?? (await pathExists(filePath)),
+    listDir: async (dirPath) => {
+      const entries = new Set<string>()
+      try {
+        for (const name of await fs.readdir(dirPath)) {
+          entries.add(path.join(dirPath, name))
+        }
+      } catch {
+        // Missing folder lists as empty
+      }
+      for (const [filePath, exists] of overrides) {
+        if (path.dirname(filePath) !== dirPath) continue
+        if (exists) entries.add(filePath)
+        else entries.delete(filePath)
+      }
+      return [...entries]
+    }
+  }
+}
+
+const formatError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
 class UndoService {
   private operations: UndoOperation[] = []
-  private readonly MAX_OPERATIONS = 100
+  private transactions: UndoTransaction[] = []
+  private loadPromise: Promise<void> | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+  private mainWindow: BrowserWindow | null = null
+  private readonly transactionContext = new AsyncLocalStorage<UndoTransaction>()
+  private readonly session: UndoSource = {
+    kind: 'session',
+    id: createId('session'),
+    label: `Session ${new Date().toLocaleString()}`
+  }
 
-  addOperation(operation: Omit<UndoOperation, 'id' | 'timestamp'>): string {
-    const id = `undo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  /**
+   * Load the journal from disk and remember the window used for notifications
+   */
+  async init(mainWindow?: BrowserWindow | null): Promise<void> {
+    this.mainWindow = mainWindow || null
+    await this.ensureLoaded()
+    console.log(`[UNDO] Journal loaded with ${this.operations.length} operations`)
+  }
+
+  getSessionSource(): UndoSource {
+    return this.session
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load()
+    }
+    return this.loadPromise
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(getJournalPath(), 'utf-8')
+      const journal = JSON.parse(data) as UndoJournal
+      this.operations = Array.isArray(journal.operations) ? journal.operations : []
+      this.transactions = Array.isArray(journal.transactions) ? journal.transactions : []
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[UNDO] Failed to read journal, starting fresh:', err)
+      }
+      this.operations = []
+      this.transactions = []
+    }
+  }
+
+  /**
+   * Write the journal atomically: write a temp file, then rename over the old one.
+   * Writes are chained so concurrent operations never interleave.
+   */
+  private persist(): Promise<void> {
+    // Drop transactions whose operations have all been undone or pruned
+    const referenced = new Set(this.operations.map((op) => op.transactionId))
+    this.transactions = this.transactions.filter((t) => referenced.has(t.id))
+
+    const snapshot: UndoJournal = {
+      version: 1,
+      operations: this.operations,
+      transactions: this.transactions
+    }
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const journalPath = getJournalPath()
+        const tempPath = `${journalPath}.tmp`
+        await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8')
+        await fs.rename(tempPath, journalPath)
+      })
+      .catch((err) => {
+        console.error('[UNDO] Failed to write journal:', err)
+      })
+    return this.writeChain
+  }
+
+  /**
+   * Run `fn` as a named transaction. Every operation recorded while it runs (across awaits)
+   * is tagged with the transaction. Nested calls join the outer transaction.
+   */
+  async runInTransaction<T>(
+    name: string,
+    fn: (transactionId: string) => Promise<T>,
+    source: UndoSource = this.session
+  ): Promise<T> {
+    const active = this.transactionContext.getStore()
+    if (active) {
+      return fn(active.id)
+    }
+
+    const transaction: UndoTransaction = {
+      id: createId('txn'),
+      name,
+      source,
+      startedAt: Date.now()
+    }
+    return this.transactionContext.run(transaction, () => fn(transaction.id))
+  }
+
+  /**
+   * Copy a file's current content aside so an overwrite can be reverted.
+   * Returns undefined when the file does not exist yet.
+   */
+  async backupFile(filePath: string): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(filePath)
+      if (!stats.isFile()) return undefined
+    } catch {
+      return undefined
+    }
+
+    const backupDir = getBackupDir()
+    await fs.mkdir(backupDir, { recursive: true })
+    const backupPath = path.join(backupDir, `${createId('backup')}-${path.basename(filePath)}`)
+    await fs.copyFile(filePath, backupPath)
+    return backupPath
+  }
+
+  async addOperation(
+    operation: Omit<UndoOperation, 'id' | 'timestamp' | 'source' | 'transactionId'>,
+    source: UndoSource = this.session
+  ): Promise<UndoOperation> {
+    await this.ensureLoaded()
+
+    const transaction = this.transactionContext.getStore()
     const op: UndoOperation = {
       ...operation,
-      id,
-      timestamp: Date.now()
+      id: createId('undo'),
+      timestamp: Date.now(),
+      source,
+      transactionId: transaction?.id
     }
-    
-    this.operations.unshift(op) // Add to beginning
-    if (this.operations.length > this.MAX_OPERATIONS) {
-      this.operations = this.operations.slice(0, this.MAX_OPERATIONS)
+
+    if (transaction && !this.transactions.some((t) => t.id === transaction.id)) {
+      this.transactions.push(transaction)
+    }
+
+    this.operations.unshift(op)
+    if (this.operations.length > MAX_OPERATIONS) {
+      const dropped = this.operations.slice(MAX_OPERATIONS)
+      this.operations = this.operations.slice(0, MAX_OPERATIONS)
+      await this.discardBackups(dropped)
     }
-    
-    return id
+
+    await this.persist()
+    this.mainWindow?.webContents.send('undo:operation-added', op)
+    return op
   }
 
-  getRecentOperations(count = 10): UndoOperation[] {
+  /**
+   * Record a move, copy or rename along with how a clash at its target was settled.
+   * A file the resolution sent to the trash is recorded first, so undoing the
+   * transfer runs before that file is restored into its old place.
+   */
+  async addTransferOperation(
+    operation: Omit<UndoOperation, 'id' | 'timestamp' | 'source' | 'transactionId' | 'conflict'>,
+    conflict?: fileSystem.ConflictResolution,
+    source: UndoSource = this.session
+  ): Promise<void> {
+    if (conflict?.trashedPath && conflict.trashPath) {
+      await this.addOperation(
+        {
+          type: 'trash',
+          originalPath: conflict.trashedPath,
+          newPath: conflict.trashPath,
+          conflict
+        },
+        source
+      )
+    }
+    // Nothing was transferred when the existing file was kept or the policy skipped it
+    if (!operation.newPath) return
+
+    if (operation.type === 'copy') {
+      // Remembered so undo can tell whether the copy was edited before deleting it
+      const stats = await fs.stat(operation.newPath).catch(() => null)
+      if (stats) {
+        operation = { ...operation, copiedSize: stats.size, copiedModifiedAt: stats.mtimeMs }
+      }
+    }
+    await this.addOperation({ ...operation, conflict }, source)
+  }
+
+  /**
+   * Create a folder and any missing parents, journaling each one created so undo
+   * removes them innermost first, and only while they are empty
+   */
+  async createFolder(folderPath: string, source: UndoSource = this.session): Promise<void> {
+    const firstCreated = await fs.mkdir(folderPath, { recursive: true })
+    if (!firstCreated) return
+
+    const created: string[] = []
+    for (let current = path.resolve(folderPath); ; current = path.dirname(current)) {
+      created.unshift(current)
+      if (current === firstCreated || path.dirname(current) === current) break
+    }
+    for (const folder of created) {
+      await this.addOperation({ type: 'create', originalPath: folder }, source)
+    }
+  }
+
+  async getRecentOperations(count = 10): Promise<UndoOperation[]> {
+    await this.ensureLoaded()
     return this.operations.slice(0, count)
   }
 
+  async hasTransactionOperations(transactionId: string): Promise<boolean> {
+    await this.ensureLoaded()
+    return this.operations.some((op) => op.transactionId === transactionId)
+  }
+
+  /**
+   * Operations recorded under a transaction, in the order they happened
+   */
+  async getTransactionOperations(transactionId: string): Promise<UndoOperation[]> {
+    await this.ensureLoaded()
+    return this.operations.filter((op) => op.transactionId === transactionId).reverse()
+  }
+
+  /**
+   * Journal entries grouped by session or watcher, most recent group first
+   */
+  async getHistory(): Promise<UndoGroup[]> {
+    await this.ensureLoaded()
+    const groups = new Map<string, UndoGroup>()
+
+    for (const op of this.operations) {
+      const key = `${op.source.kind}:${op.source.id}`
+      let group = groups.get(key)
+      if (!group) {
+        group = {
+          source: op.source,
+          startedAt: op.timestamp,
+          lastActivityAt: op.timestamp,
+          operations: [],
+          transactions: []
+        }
+        groups.set(key, group)
+      }
+
+      group.operations.push(op)
+      group.startedAt = Math.min(group.startedAt, op.timestamp)
+      group.lastActivityAt = Math.max(group.lastActivityAt, op.timestamp)
+
+      const transaction = this.transactions.find((t) => t.id === op.transactionId)
+      if (transaction && !group.transactions.includes(transaction)) {
+        group.transactions.push(transaction)
+      }
+    }
+
+    return [...groups.values()].sort((a, b) => b.lastActivityAt - a.lastActivityAt)
+  }
+
   async undoOperation(operationId: string): Promise<{ success: boolean; error?: string }> {
-    const index = this.operations.findIndex(op => op.id === operationId)
-    if (index === -1) {
+    await this.ensureLoaded()
+    const operation = this.operations.find((op) => op.id === operationId)
+    if (!operation) {
       return { success: false, error: 'Operation not found' }
     }
 
-    const operation = this.operations[index]
+    const conflict = await this.findConflict(operation, createDiskView())
+    if (conflict) {
+      return { success: false, error: conflict }
+    }
 
     try {
-      switch (operation.type) {
-        case 'move':
-          if (operation.newPath && operation.originalPath) {
-            // Move back to original location
-            await fs.rename(operation.newPath, operation.originalPath)
-            // Remove from history after successful undo
-            this.operations.splice(index, 1)
-            return { success: true }
-          }
-          break
-
-        case 'rename':
-          if (operation.originalName && operation.newPath) {
-            // Restore original name - file is currently at newPath
-            const dir = path.dirname(operation.newPath)
-            const originalPath = path.join(dir, operation.originalName)
-            await fs.rename(operation.newPath, originalPath)
-            // Remove from history after successful undo
-            this.operations.splice(index, 1)
-            return { success: true }
-          }
-          break
-
-        case 'delete':
-          // Note: Deletions go to trash, so we'd need to restore from trash
-          // For now, we'll just note that undo isn't fully supported for deletions
-          return { success: false, error: 'Undo for deletions requires restoring from trash (not yet implemented)' }
-
-        case 'create':
-          if (operation.newPath) {
-            // Delete the created file/folder
-            try {
-              const stats = await fs.stat(operation.newPath)
-              if (stats.isDirectory()) {
-                await fs.rm(operation.newPath, { recursive: true, force: true })
-              } else {
-                await fs.unlink(operation.newPath)
-              }
-              // Remove from history after successful undo
-              this.operations.splice(index, 1)
-              return { success: true }
-            } catch (err) {
-              return { success: false, error: `Failed to delete created item: ${err}` }
-            }
-          }
-          break
+      await this.revert(operation)
+    } catch (error) {
+      return { success: false, error: `Undo failed: ${formatError(error)}` }
+    }
+
+    await this.forget([operation])
+    console.log(`[UNDO] Reverted ${operation.type}: ${operation.originalPath}`)
+    return { success: true }
+  }
+
+  /**
+   * Dry run: list what undoing a transaction would do and which reversals are blocked
+   */
+  async previewTransaction(transactionId: string): Promise<UndoTransactionPreview | null> {
+    await this.ensureLoaded()
+    const transaction = this.transactions.find((t) => t.id === transactionId)
+    if (!transaction) return null
+
+    // Journal is newest-first, which is the order reversals must run in
+    const operations = this.operations.filter((op) => op.transactionId === transactionId)
+    const view = createDiskView()
+    const conflicts: UndoConflict[] = []
+
+    for (const operation of operations) {
+      const reason = await this.findConflict(operation, view)
+      if (reason) {
+        conflicts.push({ operation, reason })
+      } else {
+        this.simulate(operation, view)
       }
+    }
 
-      return { success: false, error: 'Invalid operation type or missing data' }
-    } catch (error) {
-      return { success: false, error: `Undo failed: ${error instanceof Error ? error.message : String(error)}` }
+    return { transaction, operations, conflicts }
+  }
+
+  /**
+   * Undo every operation of a transaction, newest first. If the dry run finds conflicts
+   * nothing is touched unless `skipConflicts` is set, in which case only the blocked
+   * operations are left in place.
+   */
+  async undoTransaction(
+    transactionId: string,
+    options: { skipConflicts?: boolean } = {}
+  ): Promise<UndoTransactionResult> {
+    const preview = await this.previewTransaction(transactionId)
+    if (!preview) {
+      return { success: false, undone: 0, conflicts: [], error: 'Transaction not found' }
+    }
+
+    if (preview.conflicts.length > 0 && !options.skipConflicts) {
+      return {
+        success: false,
+        undone: 0,
+        conflicts: preview.conflicts,
+        error: `${preview.conflicts.length} operation(s) cannot be reverted`
+      }
+    }
+
+    const blocked = new Set(preview.conflicts.map((c) => c.operation.id))
+    const conflicts = [...preview.conflicts]
+    const reverted: UndoOperation[] = []
+
+    for (const operation of preview.operations) {
+      if (blocked.has(operation.id)) continue
+
+      // Re-check against the real disk: something may have changed since the preview
+      const reason = await this.findConflict(operation, createDiskView())
+      if (reason) {
+        conflicts.push({ operation, reason })
+        continue
+      }
+
+      try {
+        await this.revert(operation)
+        reverted.push(operation)
+      } catch (error) {
+        conflicts.push({ operation, reason: formatError(error) })
+      }
+    }
+
+    await this.forget(reverted)
+    console.log(
+      `[UNDO] Transaction "${preview.transaction.name}": ${reverted.length} reverted, ${conflicts.length} conflicts`
+    )
+
+    return { success: conflicts.length === 0, undone: reverted.length, conflicts }
+  }
+
+  /**
+   * Returns why an operation cannot be reverted given the disk view, or null if it can
+   */
+  private async findConflict(operation: UndoOperation, view: DiskView): Promise<string | null> {
+    switch (operation.type) {
+      case 'move':
+      case 'rename':
+        if (!operation.newPath) break
+        if (!(await view.exists(operation.newPath))) {
+          return `File no longer exists at ${operation.newPath}`
+        }
+        if (await view.exists(operation.originalPath)) {
+          return `Something already exists at the original location: ${operation.originalPath}`
+        }
+        return null
+
+      case 'copy': {
+        const copyPath = operation.newPath || operation.originalPath
+        if (!(await view.exists(copyPath)) || operation.copiedModifiedAt === undefined) {
+          return null
+        }
+        const stats = await fs.stat(copyPath).catch(() => null)
+        if (
+          stats &&
+          (stats.size !== operation.copiedSize || stats.mtimeMs !== operation.copiedModifiedAt)
+        ) {
+          return `Copy was changed after it was made: ${copyPath}`
+        }
+        return null
+      }
+
+      case 'create': {
+        const createdPath = operation.newPath || operation.originalPath
+        if (!(await view.exists(createdPath))) return null
+        const stats = await fs.stat(createdPath).catch(() => null)
+        if (stats?.isDirectory() && (await view.listDir(createdPath)).length > 0) {
+          return `Folder is no longer empty: ${createdPath}`
+        }
+        return null
+      }
+
+      case 'write':
+        if (operation.backupPath && !(await pathExists(operation.backupPath))) {
+          return 'The backup of the previous content is missing'
+        }
+        return null
+
+      case 'trash':
+        if (!operation.newPath) break
+        if (!(await view.exists(operation.newPath))) {
+          return 'No longer in the trash (already restored or purged)'
+        }
+        if (await view.exists(operation.originalPath)) {
+          return `Something already exists at the original location: ${operation.originalPath}`
+        }
+        return null
+    }
+
+    return 'Invalid operation type or missing data'
+  }
+
+  /** Record the effect of reverting an operation in a disk view without touching the disk */
+  private simulate(operation: UndoOperation, view: DiskView): void {
+    switch (operation.type) {
+      case 'move':
+      case 'rename':
+      case 'trash':
+        if (operation.newPath) view.overrides.set(operation.newPath, false)
+        view.overrides.set(operation.originalPath, true)
+        break
+      case 'copy':
+      case 'create':
+        view.overrides.set(operation.newPath || operation.originalPath, false)
+        break
+      case 'write':
+        view.overrides.set(operation.originalPath, Boolean(operation.backupPath))
+        break
+    }
+  }
+
+  /**
+   * Reverse a single operation on disk. Callers check findConflict first.
+   */
+  private async revert(operation: UndoOperation): Promise<void> {
+    switch (operation.type) {
+      case 'move':
+      case 'rename':
+        await fs.mkdir(path.dirname(operation.originalPath), { recursive: true })
+        await fs.rename(operation.newPath!, operation.originalPath)
+        break
+
+      case 'copy':
+        await fs.rm(operation.newPath || operation.originalPath, { recursive: true, force: true })
+        break
+
+      case 'create': {
+        const createdPath = operation.newPath || operation.originalPath
+        const stats = await fs.stat(createdPath).catch(() => null)
+        if (!stats) break
+        // rmdir refuses non-empty folders, so nothing added later is lost
+        if (stats.isDirectory()) await fs.rmdir(createdPath)
+        else await fs.unlink(createdPath)
+        break
+      }
+
+      case 'trash': {
+        // restoreFromTrash recreates a missing parent folder and updates the manifest
+        const result = await fileSystem.restoreFromTrash(operation.newPath!)
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+        break
+      }
+
+      case 'write':
+        if (operation.backupPath) {
+          await fs.copyFile(operation.backupPath, operation.originalPath)
+        } else if (await pathExists(operation.originalPath)) {
+          // The write created a new file
+          await fs.unlink(operation.originalPath)
+        }
+        break
+    }
+  }
+
+  /** Remove reverted operations from the journal */
+  private async forget(operations: UndoOperation[]): Promise<void> {
+    if (operations.length === 0) return
+    const ids = new Set(operations.map((op) => op.id))
+    this.operations = this.operations.filter((op) => !ids.has(op.id))
+    await this.discardBackups(operations)
+    await this.persist()
+  }
+
+  private async discardBackups(operations: UndoOperation[]): Promise<void> {
+    for (const op of operations) {
+      if (op.backupPath) {
+        await fs.rm(op.backupPath, { force: true }).catch(() => undefined)
+      }
     }
   }
 
-  clearHistory(): void {
+  async clearHistory(): Promise<void> {
+    await this.ensureLoaded()
+    await this.discardBackups(this.operations)
     this.operations = []
+    await this.persist()
   }
 }
 
@@ -21,6 +21,7 @@ export interface OperationResult {
   success: boolean
   error?: string
   data?: unknown
+  violation?: SandboxViolation // Set when the path sandbox rejected the request
 }
 
 export interface TrashEntry {
@@ -28,6 +29,7 @@ export interface TrashEntry {
   trashPath: string
   deletedAt: string
   name: string
+  size?: number
 }
 
 export interface ChatMessage {
@@ -61,6 +63,19 @@ export interface SessionMetrics {
   startTime: number
   sessionDuration: number
   estimatedSavings: number
+  tokensSaved: { history: number; toolResults: number }
+}
+
+export interface PlannedStep {
+  id: string
+  tool: string
+  args: Record<string, string>
+  description: string
+}
+
+export interface ActionPlan {
+  summary: string
+  steps: PlannedStep[]
 }
 
 export interface AgentResponse {
@@ -69,17 +84,27 @@ export interface AgentResponse {
   error?: string
   classification?: TaskClassification
   executorUsed?: 'flash-minimal' | 'flash-high' | 'pro-high'
+  transactionId?: string
+  cancelled?: boolean
+  completedChanges?: string[]
+  plan?: ActionPlan
 }
 
 export interface PendingAction {
   id: string
-  type: 'delete' | 'move' | 'rename' | 'overwrite'
+  type: 'delete' | 'move' | 'copy' | 'rename' | 'overwrite' | 'tool'
   sourcePath: string
   destinationPath?: string
   fileName: string
   fileSize: number
   reason?: string
   createdAt: string
+  watcherId?: string
+  confidence?: number
+  toolName?: string
+  toolSummary?: string
+  folder?: string
+  transfer?: 'move' | 'copy' | 'rename'
 }
 
 export interface ActionResult {
@@ -96,11 +121,77 @@ export interface GoogleUser {
 
 // ============ Agent/Watcher Types ============
 
+export interface RuleConditions {
+  extensions?: string[]
+  glob?: string
+  minSizeBytes?: number
+  maxSizeBytes?: number
+  minAgeDays?: number
+  maxAgeDays?: number
+  nameRegex?: string
+  sourceFolder?: string
+}
+
+export type StructuredActionType = 'move' | 'rename' | 'copy' | 'queue-delete'
+
+export type ImageType = 'receipt' | 'screenshot' | 'photo' | 'document' | 'other'
+
+export interface StructuredRule {
+  conditions: RuleConditions
+  action: StructuredActionType
+  destination?: string
+  renameTemplate?: string
+  requiresVision?: boolean
+  imageType?: ImageType
+  compiledFrom?: string
+}
+
+export interface CompiledRule {
+  ruleId: string
+  structured?: StructuredRule
+  error?: string
+}
+
+export interface RuleTestTarget {
+  folderPath?: string
+  filePaths?: string[]
+}
+
+export interface RuleTestResult {
+  filePath: string
+  fileName: string
+  matchedRule: number | null
+  ruleText?: string
+  action: 'move' | 'copy' | 'delete' | 'skip' | 'error'
+  destination?: string
+  rename?: string
+  confidence: number
+  usedAI: boolean
+  usedVision: boolean
+  reasoning: string
+}
+
+export interface RuleTestRun {
+  id: string
+  createdAt: string
+  target: RuleTestTarget
+  rules: AgentRule[]
+  results: RuleTestResult[]
+  truncated: boolean
+}
+
 export interface AgentRule {
   id: string
   text: string
   enabled: boolean
   order: number
+  structured?: StructuredRule
+}
+
+export interface WatchFolderOptions {
+  depth: number // 0 = only files directly in the folder
+  include?: string[]
+  exclude?: string[]
 }
 
 export interface AgentConfig {
@@ -109,21 +200,47 @@ export interface AgentConfig {
   rules: AgentRule[]
   enableActivityLog: boolean
   logPath: string
+  dryRun?: boolean
+  minConfidence?: number
+  folderOptions?: Record<string, WatchFolderOptions>
+  conflictPolicy?: ConflictPolicy
 }
 
+// What happens when a move, copy or rename target already exists
+export type ConflictPolicy = 'skip' | 'suffix' | 'keep-newer' | 'keep-larger' | 'dedupe' | 'review'
+
+export type ConflictOutcome =
+  | 'suffixed'
+  | 'replaced'
+  | 'skipped'
+  | 'kept-existing'
+  | 'duplicate-discarded'
+  | 'needs-review'
+
 export interface ActivityEntry {
   id: string
   watcherId: string
   timestamp: string
   originalName: string
   originalPath: string
-  action: 'moved' | 'renamed' | 'skipped' | 'error'
+  action:
+    | 'moved'
+    | 'renamed'
+    | 'copied'
+    | 'would-move'
+    | 'would-rename'
+    | 'would-copy'
+    | 'would-delete'
+    | 'queued'
+    | 'skipped'
+    | 'error'
   destination?: string
   newName?: string
   matchedRule?: number | null
   usedAI: boolean
   confidence?: number
   error?: string
+  conflict?: ConflictOutcome
 }
 
 export interface WatcherStatus {
@@ -194,6 +311,348 @@ export interface EmailActivityEntry {
   matchedRule?: string
 }
 
+// ============ Trash ============
+
+export interface TrashRetentionSettings {
+  enabled: boolean
+  retentionDays: number
+  maxSizeMB: number
+}
+
+export interface TrashItem extends TrashEntry {
+  size: number
+}
+
+export interface TrashFolderGroup {
+  folder: string
+  items: TrashItem[]
+  totalSize: number
+}
+
+export interface PurgeLogEntry {
+  timestamp: string
+  reason: 'expired' | 'over-quota' | 'manual' | 'emptied'
+  name: string
+  originalPath: string
+  trashPath: string
+  size: number
+  deletedAt: string
+}
+
+export interface SweepResult {
+  purged: number
+  freedBytes: number
+  remainingBytes: number
+}
+
+export interface TrashAPI {
+  getGroups: () => Promise<TrashFolderGroup[]>
+  purgeItem: (trashPath: string) => Promise<OperationResult>
+  getSettings: () => Promise<TrashRetentionSettings>
+  updateSettings: (updates: Partial<TrashRetentionSettings>) => Promise<TrashRetentionSettings>
+  sweepNow: () => Promise<SweepResult>
+  getPurgeLog: (limit?: number) => Promise<PurgeLogEntry[]>
+}
+
+// ============ Path Sandbox ============
+
+export interface SandboxViolation {
+  code: 'PATH_NOT_GRANTED'
+  operation: string
+  path: string
+  resolvedPath: string
+  message: string
+}
+
+export interface SandboxAPI {
+  getRoots: () => Promise<string[]>
+  revokeRoot: (folder: string) => Promise<void>
+  onViolation: (callback: (violation: SandboxViolation) => void) => () => void
+}
+
+// ============ Storage ============
+
+export interface StorageFile {
+  name: string
+  path: string
+  size: number
+  modified: string
+  age: number
+  extension: string
+  category: string
+}
+
+export interface StorageIndexStatus {
+  rootPath: string
+  refreshedAt: string
+  fileCount: number
+  dirsRead: number
+  dirsReused: number
+}
+
+export interface StorageSnapshot {
+  folderPath: string
+  scannedAt: string
+  maxDepth: number
+  totalSize: number
+  totalFiles: number
+  byCategory: Record<string, number>
+  topFolders: Record<string, number>
+}
+
+export interface GrowthEntry {
+  name: string
+  before: number
+  after: number
+  change: number
+}
+
+export interface StorageGrowthReport {
+  folderPath: string
+  from: string
+  to: string
+  totalChange: number
+  categories: GrowthEntry[] // Biggest growth first
+  folders: GrowthEntry[] // Only folders recorded in both snapshots
+  untrackedFolders: string[] // In one snapshot's largest folders but not the other's
+}
+
+export interface StorageSizeNode {
+  name: string
+  path: string
+  size: number
+  fileCount: number
+  kind: 'folder' | 'files' | 'other'
+  children?: StorageSizeNode[]
+}
+
+export interface StorageAnalysis {
+  totalSize: number
+  totalFiles: number
+  folderPath: string
+  byType: { type: string; size: number; count: number; percentage: number; color: string }[]
+  largestFiles: StorageFile[]
+  oldFiles: StorageFile[]
+  oldFilesSize: number
+  suggestions: string[]
+  scannedAt: string
+  maxDepth: number
+  index: StorageIndexStatus
+  growth: StorageGrowthReport | null
+  sizeTree: StorageSizeNode
+}
+
+export interface DuplicateGroup {
+  hash: string
+  size: number
+  files: StorageFile[] // Oldest first
+  recoverableBytes: number
+}
+
+export interface DuplicateScan {
+  folderPath: string
+  groups: DuplicateGroup[]
+  totalRecoverable: number
+  filesScanned: number
+  filesHashed: number
+  scannedAt: string
+}
+
+export interface SimilarImage {
+  name: string
+  path: string
+  size: number
+  modified: string
+  width: number
+  height: number
+}
+
+export interface SimilarImageCluster {
+  id: string
+  images: SimilarImage[] // Best copy first
+  recoverableBytes: number
+}
+
+export interface SimilarImageScan {
+  folderPath: string
+  clusters: SimilarImageCluster[]
+  totalRecoverable: number
+  imagesScanned: number
+  imagesSkipped: number
+  threshold: number
+  truncated: boolean
+  scannedAt: string
+}
+
+export interface StorageAPI {
+  analyze: (folderPath: string, maxDepth?: number, force?: boolean) => Promise<StorageAnalysis>
+  getHistory: (folderPath: string, maxDepth?: number) => Promise<StorageSnapshot[]>
+  findDuplicates: (folderPath: string, maxDepth?: number) => Promise<DuplicateScan>
+  findSimilarImages: (
+    folderPath: string,
+    threshold?: number,
+    maxDepth?: number
+  ) => Promise<SimilarImageScan>
+  getImageThumbnail: (imagePath: string) => Promise<string | null>
+}
+
+// ============ Permission Policies ============
+
+export type PermissionMode = 'allow' | 'ask' | 'deny'
+
+export interface PermissionPolicy {
+  tool: string
+  folder?: string
+  mode: PermissionMode
+  updatedAt: string
+}
+
+export interface GovernedTool {
+  name: string
+  label: string
+  defaultMode: PermissionMode
+}
+
+export interface PermissionsAPI {
+  get: () => Promise<{ tools: GovernedTool[]; policies: PermissionPolicy[] }>
+  set: (tool: string, mode: PermissionMode, folder?: string) => Promise<PermissionPolicy>
+  remove: (tool: string, folder?: string) => Promise<void>
+}
+
+// ============ Category Taxonomy ============
+
+export interface FileCategory {
+  name: string
+  extensions: string[] // Lowercase, without the dot
+  color: string
+  folderName: string // Folder the organizer moves these files into
+}
+
+export interface CategoriesAPI {
+  get: () => Promise<{ categories: FileCategory[]; fallback: string }>
+  update: (categories: FileCategory[]) => Promise<FileCategory[]>
+  reset: () => Promise<FileCategory[]>
+}
+
+// ============ Conversations ============
+
+export interface ConversationMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+  toolCalls?: Array<{ name: string; args: Record<string, string> }>
+  isError?: boolean
+}
+
+export interface Conversation {
+  id: string
+  folderPath: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messages: ConversationMessage[]
+}
+
+export interface ConversationSummary {
+  id: string
+  folderPath: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+  preview: string // Start of the last message
+}
+
+export interface ConversationSearchHit {
+  conversationId: string
+  title: string
+  messageId: string
+  role: 'user' | 'assistant'
+  snippet: string
+  timestamp: string
+}
+
+export interface ConversationsAPI {
+  list: (folderPath: string) => Promise<ConversationSummary[]>
+  get: (id: string) => Promise<Conversation | null>
+  save: (
+    id: string,
+    folderPath: string,
+    messages: ConversationMessage[]
+  ) => Promise<ConversationSummary>
+  rename: (id: string, title: string) => Promise<boolean>
+  delete: (id: string) => Promise<boolean>
+  search: (query: string, folderPath: string) => Promise<ConversationSearchHit[]>
+}
+
+// ============ Undo Journal ============
+
+export interface UndoSource {
+  kind: 'session' | 'watcher'
+  id: string
+  label?: string
+}
+
+export interface UndoOperation {
+  id: string
+  type: 'move' | 'rename' | 'copy' | 'write' | 'create' | 'trash'
+  timestamp: number
+  source: UndoSource
+  transactionId?: string
+  originalPath: string
+  newPath?: string
+  originalName?: string
+  newName?: string
+  backupPath?: string
+}
+
+export interface UndoTransaction {
+  id: string
+  name: string
+  source: UndoSource
+  startedAt: number
+}
+
+export interface UndoConflict {
+  operation: UndoOperation
+  reason: string
+}
+
+export interface UndoTransactionPreview {
+  transaction: UndoTransaction
+  operations: UndoOperation[]
+  conflicts: UndoConflict[]
+}
+
+export interface UndoTransactionResult {
+  success: boolean
+  undone: number
+  conflicts: UndoConflict[]
+  error?: string
+}
+
+export interface UndoGroup {
+  source: UndoSource
+  startedAt: number
+  lastActivityAt: number
+  operations: UndoOperation[]
+  transactions: UndoTransaction[]
+}
+
+export interface UndoAPI {
+  getRecent: (count?: number) => Promise<UndoOperation[]>
+  getHistory: () => Promise<UndoGroup[]>
+  undo: (operationId: string) => Promise<{ success: boolean; error?: string }>
+  previewTransaction: (transactionId: string) => Promise<UndoTransactionPreview | null>
+  undoTransaction: (
+    transactionId: string,
+    options?: { skipConflicts?: boolean }
+  ) => Promise<UndoTransactionResult>
+  clear: () => Promise<void>
+  onOperationAdded: (callback: (operation: UndoOperation) => void) => () => void
+}
+
 // ============ Pending Actions API ============
 
 export interface PendingAPI {
@@ -205,6 +664,7 @@ export interface PendingAPI {
   executeOne: (actionId: string) => Promise<ActionResult>
   executeAll: () => Promise<ActionResult[]>
   executeSelected: (actionIds: string[]) => Promise<ActionResult[]>
+  approveTool: (actionId: string, scope: 'once' | 'folder' | 'always') => Promise<ActionResult>
   removeOne: (actionId: string) => Promise<boolean>
   keepAll: () => Promise<number>
   clear: () => Promise<void>
@@ -230,9 +690,9 @@ export interface ElectronAPI {
     getDefaultPath: () => Promise<string>
     deleteFile: (path: string) => Promise<OperationResult>
     permanentDelete: (path: string) => Promise<OperationResult>
-    moveFile: (from: string, to: string) => Promise<OperationResult>
-    renameFile: (path: string, newName: string) => Promise<OperationResult>
-    copyFile: (from: string, to: string) => Promise<OperationResult>
+    moveFile: (from: string, to: string, policy?: ConflictPolicy) => Promise<OperationResult>
+    renameFile: (path: string, newName: string, policy?: ConflictPolicy) => Promise<OperationResult>
+    copyFile: (from: string, to: string, policy?: ConflictPolicy) => Promise<OperationResult>
     getTrash: () => Promise<TrashEntry[]>
     restoreFromTrash: (trashPath: string) => Promise<OperationResult>
     emptyTrash: () => Promise<OperationResult>
@@ -245,28 +705,20 @@ export interface ElectronAPI {
       messages: ChatMessage[],
       grantedFolders: string[],
       selectedFile?: string,
-      isDirectory?: boolean
+      isDirectory?: boolean,
+      planFirst?: boolean
     ) => Promise<AgentResponse>
+    runPlan: (summary: string, steps: PlannedStep[]) => Promise<AgentResponse>
+    cancel: () => Promise<boolean>
     test: () => Promise<{ success: boolean; error?: string }>
     getMetrics: () => Promise<SessionMetrics>
     resetMetrics: () => Promise<void>
-    getRecentUndoOperations: () => Promise<Array<{
-      id: string
-      type: 'move' | 'rename' | 'delete' | 'create'
-      timestamp: number
-      originalPath: string
-      newPath?: string
-      originalName?: string
-      newName?: string
-    }>>
+    getRecentUndoOperations: () => Promise<UndoOperation[]>
     undoOperation: (operationId: string) => Promise<{ success: boolean; error?: string }>
-    onUndoOperationAdded: (callback: (data: {
-      type: string
-      originalPath: string
-      newPath?: string
-    }) => void) => () => void
+    onUndoOperationAdded: (callback: (operation: UndoOperation) => void) => () => void
     onStreamChunk: (callback: (chunk: string) => void) => () => void
     onStreamEnd: (callback: () => void) => () => void
+    onStreamReset: (callback: () => void) => () => void
     onToolCall: (
       callback: (data: { name: string; args: Record<string, string> }) => void
     ) => () => void
@@ -274,6 +726,13 @@ export interface ElectronAPI {
     onRoutingStart: (callback: () => void) => () => void
     onRoutingComplete: (callback: (classification: TaskClassification) => void) => () => void
   }
+  undo: UndoAPI
+  trash: TrashAPI
+  sandbox: SandboxAPI
+  permissions: PermissionsAPI
+  categories: CategoriesAPI
+  conversations: ConversationsAPI
+  storage: StorageAPI
   pending: PendingAPI
   google: {
     isInitialized: () => Promise<boolean>
@@ -306,6 +765,15 @@ export interface ElectronAPI {
     getAll: () => Promise<AgentConfig[]>
     getStats: (watcherId: string) => Promise<WatcherStats | null>
     updateRules: (watcherId: string, rules: AgentRule[]) => Promise<{ success: boolean }>
+    setDryRun: (watcherId: string, dryRun: boolean) => Promise<{ success: boolean }>
+    compileRules: (
+      rules: AgentRule[]
+    ) => Promise<{ success: boolean; compiled?: CompiledRule[]; error?: string }>
+    testRules: (target: RuleTestTarget, rules: AgentRule[]) => Promise<RuleTestRun>
+    saveTestFixture: (
+      run: RuleTestRun,
+      name: string
+    ) => Promise<{ success: boolean; path?: string; error?: string }>
     onReady: (callback: (watcherId: string) => void) => () => void
     onFileDetected: (
       callback: (watcherId: string, data: { path: string; name: string }) => void
@@ -399,12 +867,15 @@ const api: ElectronAPI = {
       ipcRenderer.invoke('fs:delete-file', path),
     permanentDelete: (path: string): Promise<OperationResult> =>
       ipcRenderer.invoke('fs:permanent-delete', path),
-    moveFile: (from: string, to: string): Promise<OperationResult> =>
-      ipcRenderer.invoke('fs:move-file', from, to),
-    renameFile: (path: string, newName: string): Promise<OperationResult> =>
-      ipcRenderer.invoke('fs:rename-file', path, newName),
-    copyFile: (from: string, to: string): Promise<OperationResult> =>
-      ipcRenderer.invoke('fs:copy-file', from, to),
+    moveFile: (from: string, to: string, policy?: ConflictPolicy): Promise<OperationResult> =>
+      ipcRenderer.invoke('fs:move-file', from, to, policy),
+    renameFile: (
+      path: string,
+      newName: string,
+      policy?: ConflictPolicy
+    ): Promise<OperationResult> => ipcRenderer.invoke('fs:rename-file', path, newName, policy),
+    copyFile: (from: string, to: string, policy?: ConflictPolicy): Promise<OperationResult> =>
+      ipcRenderer.invoke('fs:copy-file', from, to, policy),
 
     // Trash operations
     getTrash: (): Promise<TrashEntry[]> => ipcRenderer.invoke('fs:get-trash'),
@@ -429,32 +900,31 @@ const api: ElectronAPI = {
       messages: ChatMessage[],
       grantedFolders: string[],
       selectedFile?: string,
-      isDirectory?: boolean
+      isDirectory?: boolean,
+      planFirst?: boolean
     ): Promise<AgentResponse> =>
-      ipcRenderer.invoke('agent:chat', messages, grantedFolders, selectedFile, isDirectory),
+      ipcRenderer.invoke(
+        'agent:chat',
+        messages,
+        grantedFolders,
+        selectedFile,
+        isDirectory,
+        planFirst
+      ),
+    runPlan: (summary: string, steps: PlannedStep[]): Promise<AgentResponse> =>
+      ipcRenderer.invoke('agent:run-plan', summary, steps),
+    cancel: (): Promise<boolean> => ipcRenderer.invoke('agent:cancel'),
     test: (): Promise<{ success: boolean; error?: string }> => ipcRenderer.invoke('agent:test'),
 
     // Metrics
     getMetrics: (): Promise<SessionMetrics> => ipcRenderer.invoke('agent:get-metrics'),
-    
+
     // Undo operations
-    getRecentUndoOperations: (): Promise<Array<{
-      id: string
-      type: 'move' | 'rename' | 'delete' | 'create'
-      timestamp: number
-      originalPath: string
-      newPath?: string
-      originalName?: string
-      newName?: string
-    }>> => ipcRenderer.invoke('undo:get-recent'),
+    getRecentUndoOperations: (): Promise<UndoOperation[]> => ipcRenderer.invoke('undo:get-recent'),
     undoOperation: (operationId: string): Promise<{ success: boolean; error?: string }> =>
       ipcRenderer.invoke('undo:execute', operationId),
-    onUndoOperationAdded: (callback: (data: {
-      type: string
-      originalPath: string
-      newPath?: string
-    }) => void) => {
-      const handler = (_: any, data: any) => callback(data)
+    onUndoOperationAdded: (callback: (operation: UndoOperation) => void) => {
+      const handler = (_: unknown, operation: UndoOperation): void => callback(operation)
       ipcRenderer.on('undo:operation-added', handler)
       return () => ipcRenderer.removeListener('undo:operation-added', handler)
     },
@@ -471,6 +941,12 @@ const api: ElectronAPI = {
       ipcRenderer.on('agent:stream-end', handler)
       return () => ipcRenderer.removeListener('agent:stream-end', handler)
     },
+    // Escalation replaces the text streamed so far
+    onStreamReset: (callback: () => void) => {
+      const handler = (): void => callback()
+      ipcRenderer.on('agent:stream-reset', handler)
+      return () => ipcRenderer.removeListener('agent:stream-reset', handler)
+    },
     onToolCall: (callback: (data: { name: string; args: Record<string, string> }) => void) => {
       const handler = (_: unknown, data: { name: string; args: Record<string, string> }) =>
         callback(data)
@@ -510,6 +986,8 @@ const api: ElectronAPI = {
     executeAll: (): Promise<ActionResult[]> => ipcRenderer.invoke('pending:execute-all'),
     executeSelected: (actionIds: string[]): Promise<ActionResult[]> =>
       ipcRenderer.invoke('pending:execute-selected', actionIds),
+    approveTool: (actionId: string, scope: 'once' | 'folder' | 'always'): Promise<ActionResult> =>
+      ipcRenderer.invoke('pending:approve-tool', actionId, scope),
     removeOne: (actionId: string): Promise<boolean> =>
       ipcRenderer.invoke('pending:remove-one', actionId),
     keepAll: (): Promise<number> => ipcRenderer.invoke('pending:keep-all'),
@@ -523,6 +1001,108 @@ const api: ElectronAPI = {
     }
   },
 
+  // Trash retention
+  trash: {
+    getGroups: (): Promise<TrashFolderGroup[]> => ipcRenderer.invoke('trash:get-groups'),
+    purgeItem: (trashPath: string): Promise<OperationResult> =>
+      ipcRenderer.invoke('trash:purge-item', trashPath),
+    getSettings: (): Promise<TrashRetentionSettings> => ipcRenderer.invoke('trash:get-settings'),
+    updateSettings: (updates: Partial<TrashRetentionSettings>): Promise<TrashRetentionSettings> =>
+      ipcRenderer.invoke('trash:update-settings', updates),
+    sweepNow: (): Promise<SweepResult> => ipcRenderer.invoke('trash:sweep-now'),
+    getPurgeLog: (limit?: number): Promise<PurgeLogEntry[]> =>
+      ipcRenderer.invoke('trash:get-purge-log', limit)
+  },
+
+  // Path sandbox
+  sandbox: {
+    getRoots: (): Promise<string[]> => ipcRenderer.invoke('sandbox:get-roots'),
+    revokeRoot: (folder: string): Promise<void> =>
+      ipcRenderer.invoke('sandbox:revoke-root', folder),
+    onViolation: (callback: (violation: SandboxViolation) => void) => {
+      const handler = (_: unknown, violation: SandboxViolation): void => callback(violation)
+      ipcRenderer.on('sandbox:violation', handler)
+      return () => ipcRenderer.removeListener('sandbox:violation', handler)
+    }
+  },
+
+  // Storage scans
+  storage: {
+    analyze: (folderPath: string, maxDepth?: number, force?: boolean): Promise<StorageAnalysis> =>
+      ipcRenderer.invoke('storage:analyze', folderPath, maxDepth, force),
+    getHistory: (folderPath: string, maxDepth?: number): Promise<StorageSnapshot[]> =>
+      ipcRenderer.invoke('storage:get-history', folderPath, maxDepth),
+    findDuplicates: (folderPath: string, maxDepth?: number): Promise<DuplicateScan> =>
+      ipcRenderer.invoke('storage:find-duplicates', folderPath, maxDepth),
+    findSimilarImages: (
+      folderPath: string,
+      threshold?: number,
+      maxDepth?: number
+    ): Promise<SimilarImageScan> =>
+      ipcRenderer.invoke('storage:find-similar-images', folderPath, threshold, maxDepth),
+    getImageThumbnail: (imagePath: string): Promise<string | null> =>
+      ipcRenderer.invoke('storage:image-thumbnail', imagePath)
+  },
+
+  // Permission policies
+  permissions: {
+    get: (): Promise<{ tools: GovernedTool[]; policies: PermissionPolicy[] }> =>
+      ipcRenderer.invoke('permissions:get'),
+    set: (tool: string, mode: PermissionMode, folder?: string): Promise<PermissionPolicy> =>
+      ipcRenderer.invoke('permissions:set', tool, mode, folder),
+    remove: (tool: string, folder?: string): Promise<void> =>
+      ipcRenderer.invoke('permissions:remove', tool, folder)
+  },
+
+  // Category taxonomy
+  categories: {
+    get: (): Promise<{ categories: FileCategory[]; fallback: string }> =>
+      ipcRenderer.invoke('categories:get'),
+    update: (categories: FileCategory[]): Promise<FileCategory[]> =>
+      ipcRenderer.invoke('categories:update', categories),
+    reset: (): Promise<FileCategory[]> => ipcRenderer.invoke('categories:reset')
+  },
+
+  // Saved chat threads
+  conversations: {
+    list: (folderPath: string): Promise<ConversationSummary[]> =>
+      ipcRenderer.invoke('conversations:list', folderPath),
+    get: (id: string): Promise<Conversation | null> => ipcRenderer.invoke('conversations:get', id),
+    save: (
+      id: string,
+      folderPath: string,
+      messages: ConversationMessage[]
+    ): Promise<ConversationSummary> =>
+      ipcRenderer.invoke('conversations:save', id, folderPath, messages),
+    rename: (id: string, title: string): Promise<boolean> =>
+      ipcRenderer.invoke('conversations:rename', id, title),
+    delete: (id: string): Promise<boolean> => ipcRenderer.invoke('conversations:delete', id),
+    search: (query: string, folderPath: string): Promise<ConversationSearchHit[]> =>
+      ipcRenderer.invoke('conversations:search', query, folderPath)
+  },
+
+  // Undo journal
+  undo: {
+    getRecent: (count?: number): Promise<UndoOperation[]> =>
+      ipcRenderer.invoke('undo:get-recent', count),
+    getHistory: (): Promise<UndoGroup[]> => ipcRenderer.invoke('undo:get-history'),
+    undo: (operationId: string): Promise<{ success: boolean; error?: string }> =>
+      ipcRenderer.invoke('undo:execute', operationId),
+    previewTransaction: (transactionId: string): Promise<UndoTransactionPreview | null> =>
+      ipcRenderer.invoke('undo:preview-transaction', transactionId),
+    undoTransaction: (
+      transactionId: string,
+      options?: { skipConflicts?: boolean }
+    ): Promise<UndoTransactionResult> =>
+      ipcRenderer.invoke('undo:undo-transaction', transactionId, options),
+    clear: (): Promise<void> => ipcRenderer.invoke('undo:clear'),
+    onOperationAdded: (callback: (operation: UndoOperation) => void) => {
+      const handler = (_: unknown, operation: UndoOperation): void => callback(operation)
+      ipcRenderer.on('undo:operation-added', handler)
+      return () => ipcRenderer.removeListener('undo:operation-added', handler)
+    }
+  },
+
   // Google Integration
   google: {
     isInitialized: (): Promise<boolean> => ipcRenderer.invoke('google:is-initialized'),
@@ -580,6 +1160,19 @@ const api: ElectronAPI = {
       ipcRenderer.invoke('watcher:get-stats', watcherId),
     updateRules: (watcherId: string, rules: AgentRule[]): Promise<{ success: boolean }> =>
       ipcRenderer.invoke('watcher:update-rules', watcherId, rules),
+    setDryRun: (watcherId: string, dryRun: boolean): Promise<{ success: boolean }> =>
+      ipcRenderer.invoke('watcher:set-dry-run', watcherId, dryRun),
+    compileRules: (
+      rules: AgentRule[]
+    ): Promise<{ success: boolean; compiled?: CompiledRule[]; error?: string }> =>
+      ipcRenderer.invoke('watcher:compile-rules', rules),
+    testRules: (target: RuleTestTarget, rules: AgentRule[]): Promise<RuleTestRun> =>
+      ipcRenderer.invoke('watcher:test-rules', target, rules),
+    saveTestFixture: (
+      run: RuleTestRun,
+      name: string
+    ): Promise<{ success: boolean; path?: string; error?: string }> =>
+      ipcRenderer.invoke('watcher:save-test-fixture', run, name),
 
     // Watcher events - now include watcherId
     onReady: (callback: (watcherId: string) => void) => {
@@ -15,21 +15,35 @@ import {
   MessageSquare,
   HardDrive,
   Orbit,
-  Check
+  Check,
+  History,
+  Trash2,
+  Square,
+  ListChecks
 } from 'lucide-react'
 import FileTree from './components/FileTree'
 import momentumLogo from './assets/momentum.png'
 import SelectionActionBar from './components/SelectionActionBar'
 import ProgressPanel from './components/ProgressPanel'
+import ConversationSidebar from './components/ConversationSidebar'
 import MetricsPanel from './components/MetricsPanel'
 import ReviewPanel from './components/ReviewPanel'
 import StoragePanel from './components/StoragePanel'
+import HistoryPanel from './components/HistoryPanel'
+import TrashPanel from './components/TrashPanel'
+import PermissionsPanel from './components/PermissionsPanel'
 import GoogleSignIn from './components/GoogleSignIn'
 import TaskTemplates from './components/TaskTemplates'
 import AgentWorkspace from './components/AgentWorkspace'
 import BeforeAfterView from './components/BeforeAfterView'
 import SetupScreen from './components/SetupScreen'
-import { useAppStore, FileEntry, Message, StorageAnalysisData } from './stores/appStore'
+import {
+  useAppStore,
+  FileEntry,
+  Message,
+  StorageAnalysisData,
+  OrganizationPlanData
+} from './stores/appStore'
 import { useAgentStore } from './stores/agentStore'
 import { useEmailStore } from './stores/emailStore'
 
@@ -195,7 +209,9 @@ function App(): ReactElement {
   const [isLoading, setIsLoading] = useState(false)
   const [streamingContent, setStreamingContent] = useState('')
   const [isStreaming, setIsStreaming] = useState(false)
-  const [activeTab, setActiveTab] = useState<'progress' | 'metrics' | 'review' | 'storage'>(
+  const [activeTab, setActiveTab] = useState<
+    'progress' | 'metrics' | 'review' | 'storage' | 'history' | 'trash' | 'permissions'
+  >(
     'progress'
   )
   const [pendingCount, setPendingCount] = useState(0)
@@ -207,15 +223,7 @@ function App(): ReactElement {
   const [isCheckingSetup, setIsCheckingSetup] = useState(true)
   const [needsSetup, setNeedsSetup] = useState(false)
   const [pendingRequest, setPendingRequest] = useState<{ message: string; chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> } | null>(null)
-  const [undoOperations, setUndoOperations] = useState<Array<{
-    id: string
-    type: 'move' | 'rename' | 'delete' | 'create'
-    timestamp: number
-    originalPath: string
-    newPath?: string
-    originalName?: string
-    newName?: string
-  }>>([])
+  const [undoOperations, setUndoOperations] = useState<UndoOperation[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   const {
@@ -238,6 +246,9 @@ function App(): ReactElement {
     isAgentReady,
     storageAnalysis,
     beforeAfterResult,
+    planFirst,
+    setPlanFirst,
+    setProposedPlan,
     isFileSelected,
     toggleFileSelection,
     selectFile,
@@ -460,6 +471,7 @@ function App(): ReactElement {
       setStreamingContent((prev) => prev + chunk)
     )
     const unsubEnd = window.api.agent.onStreamEnd(() => setIsStreaming(false))
+    const unsubReset = window.api.agent.onStreamReset(() => setStreamingContent(''))
     const unsubToolCall = window.api.agent.onToolCall((data) => {
       const stepId = addTaskStep(data.name, data.args.path || data.args.source_path)
       ;(window as unknown as { __currentStepId: string }).__currentStepId = stepId
@@ -475,6 +487,32 @@ function App(): ReactElement {
           if (result.data) {
             console.log('[APP] Storage analysis data received, switching to Storage tab')
             setStorageAnalysis(result.data)
+            useAppStore.getState().setStorageView('overview')
+            setActiveTab('storage')
+          }
+        }
+
+        if (data.name === 'find_duplicates' && success) {
+          const result = data.result as { success: boolean; data?: DuplicateScan }
+          if (result.data) {
+            useAppStore.getState().setDuplicateScan(result.data)
+            useAppStore.getState().setStorageView('duplicates')
+            setActiveTab('storage')
+          }
+        }
+
+        if (data.name === 'organize_files' && success) {
+          const result = data.result as { success: boolean; plan?: OrganizationPlanData }
+          if (result.plan) {
+            useAppStore.getState().showOrganizationPreview(result.plan)
+          }
+        }
+
+        if (data.name === 'find_similar_images' && success) {
+          const result = data.result as { success: boolean; data?: SimilarImageScan }
+          if (result.data) {
+            useAppStore.getState().setSimilarImageScan(result.data)
+            useAppStore.getState().setStorageView('similar')
             setActiveTab('storage')
           }
         }
@@ -513,6 +551,15 @@ function App(): ReactElement {
       useEmailStore.getState().updateStats(watcherId, stats)
     })
 
+    // Paths the main process refused to touch
+    const unsubSandbox = window.api.sandbox.onViolation((violation) => {
+      useAppStore.getState().addMessage({
+        role: 'assistant',
+        content: `${violation.message}. Add that folder from the sidebar if Momentum should work there.`,
+        isError: true
+      })
+    })
+
     // Undo operations
     const unsubUndoAdded = window.api.agent.onUndoOperationAdded?.((_data) => {
       // Refresh undo operations list
@@ -522,6 +569,7 @@ function App(): ReactElement {
     return () => {
       unsubChunk()
       unsubEnd()
+      unsubReset()
       unsubToolCall()
       unsubToolResult()
       unsubRoutingStart()
@@ -529,6 +577,7 @@ function App(): ReactElement {
       unsubMatchFound()
       unsubActivity()
       unsubStats()
+      unsubSandbox()
       unsubUndoAdded?.()
     }
   }, [addTaskStep, updateTaskStep, setStorageAnalysis])
@@ -639,12 +688,17 @@ function App(): ReactElement {
         chatHistory,
         activeFolderPaths,
         selectedPaths?.[0],
-        isSelectedDirectory
+        isSelectedDirectory,
+        planFirst
       )
       setIsStreaming(false)
       setStreamingContent('')
       
-      if (response.error) {
+      if (response.cancelled) {
+        // The message lists what already changed before the stop
+        addMessage({ role: 'assistant', content: response.message, toolCalls: response.toolCalls })
+        completeTask('error')
+      } else if (response.error) {
         // Check if error is related to missing files/folders
         const errorLower = response.error.toLowerCase()
         if (
@@ -666,6 +720,10 @@ function App(): ReactElement {
       } else {
         addMessage({ role: 'assistant', content: response.message, toolCalls: response.toolCalls })
         completeTask('completed')
+        if (response.plan) {
+          setProposedPlan(response.plan)
+          setActiveTab('progress')
+        }
         // Clear pending request if successful
         if (retryAfterSelection) {
           setPendingRequest(null)
@@ -697,9 +755,33 @@ function App(): ReactElement {
     setProcessing(false)
   }
 
+  // Runs the steps approved in the Progress panel's plan checklist
+  const handleRunPlan = async (plan: ActionPlan): Promise<void> => {
+    setProposedPlan(null)
+    addMessage({ role: 'user', content: `Run the approved plan (${plan.steps.length} steps)` })
+    setProcessing(true)
+    startTask(plan.summary)
+
+    try {
+      const response = await window.api.agent.runPlan(plan.summary, plan.steps)
+      addMessage({ role: 'assistant', content: response.message, toolCalls: response.toolCalls })
+      completeTask(response.cancelled ? 'error' : 'completed')
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err)
+      addMessage({
+        role: 'assistant',
+        content: `Failed to run the plan: ${errorMessage}`,
+        isError: true
+      })
+      completeTask('error')
+    }
+    setProcessing(false)
+  }
+
   const handleSendMessage = async (messageOverride?: string) => {
     const userMessage = messageOverride || inputValue.trim()
     if (!userMessage || isProcessing) return
+    setProposedPlan(null)
     setInputValue('')
     setStreamingContent('')
     setIsStreaming(true)
@@ -978,6 +1060,7 @@ function App(): ReactElement {
           <AgentWorkspace />
         ) : (
           <>
+            <ConversationSidebar />
             <main className="flex-1 flex flex-col bg-slate-900">
               <div className="flex-1 overflow-y-auto p-4">
                 <div className="max-w-3xl mx-auto space-y-4">
@@ -1097,6 +1180,17 @@ function App(): ReactElement {
                       disabled={isProcessing}
                       className="flex-1 bg-transparent px-4 py-3 text-slate-100 placeholder-slate-500 focus:outline-none disabled:opacity-50"
                     />
+                    <button
+                      onClick={() => setPlanFirst(!planFirst)}
+                      className={`p-2 m-1.5 rounded-md transition-colors ${planFirst ? 'bg-sky-900/60 text-sky-300' : 'text-slate-500 hover:text-slate-300'}`}
+                      title={
+                        planFirst
+                          ? 'Plan first: on. Multi-file tasks come back as a plan to approve'
+                          : 'Plan first: off'
+                      }
+                    >
+                      <ListChecks className="w-4 h-4" />
+                    </button>
                     {undoOperations.length > 0 && (
                       <button
                         onClick={async () => {
@@ -1128,13 +1222,23 @@ function App(): ReactElement {
                         </svg>
                       </button>
                     )}
-                    <button
-                      onClick={() => handleSendMessage()}
-                      disabled={!inputValue.trim() || isProcessing}
-                      className="p-2 m-1.5 bg-accent hover:bg-accent-dark disabled:bg-slate-700 disabled:cursor-not-allowed text-white rounded-md transition-colors"
-                    >
-                      <Send className="w-4 h-4" />
-                    </button>
+                    {isProcessing ? (
+                      <button
+                        onClick={() => window.api.agent.cancel().catch(console.error)}
+                        className="p-2 m-1.5 bg-red-600 hover:bg-red-500 text-white rounded-md transition-colors"
+                        title="Stop"
+                      >
+                        <Square className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleSendMessage()}
+                        disabled={!inputValue.trim()}
+                        className="p-2 m-1.5 bg-accent hover:bg-accent-dark disabled:bg-slate-700 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1176,9 +1280,30 @@ function App(): ReactElement {
                     <span className="absolute -top-1 -right-1 w-2 h-2 bg-sky-400 rounded-full animate-pulse" />
                   )}
                 </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`flex-1 px-2 py-2 text-xs font-medium uppercase tracking-wide transition-colors ${activeTab === 'history' ? 'text-slate-200 border-b-2 border-accent' : 'text-slate-500 hover:text-slate-300'}`}
+                  title="Undo history"
+                >
+                  <History className="w-3 h-3 inline" />
+                </button>
+                <button
+                  onClick={() => setActiveTab('trash')}
+                  className={`flex-1 px-2 py-2 text-xs font-medium uppercase tracking-wide transition-colors ${activeTab === 'trash' ? 'text-slate-200 border-b-2 border-accent' : 'text-slate-500 hover:text-slate-300'}`}
+                  title="Trash"
+                >
+                  <Trash2 className="w-3 h-3 inline" />
+                </button>
+                <button
+                  onClick={() => setActiveTab('permissions')}
+                  className={`flex-1 px-2 py-2 text-xs font-medium uppercase tracking-wide transition-colors ${activeTab === 'permissions' ? 'text-slate-200 border-b-2 border-accent' : 'text-slate-500 hover:text-slate-300'}`}
+                  title="Permissions"
+                >
+                  <Shield className="w-3 h-3 inline" />
+                </button>
               </div>
               <div className="flex-1 overflow-y-auto">
-                {activeTab === 'progress' && <ProgressPanel />}
+                {activeTab === 'progress' && <ProgressPanel onRunPlan={handleRunPlan} />}
                 {activeTab === 'review' && (
                   <ReviewPanel
                     onComplete={async () => {
@@ -1192,6 +1317,21 @@ function App(): ReactElement {
                 )}
                 {activeTab === 'metrics' && <MetricsPanel />}
                 {activeTab === 'storage' && <StoragePanel />}
+                {activeTab === 'trash' && (
+                  <TrashPanel onRestore={() => folders.forEach((f) => refreshFolder(f.path))} />
+                )}
+                {activeTab === 'permissions' && <PermissionsPanel />}
+                {activeTab === 'history' && (
+                  <HistoryPanel
+                    onUndo={() => {
+                      folders.forEach((f) => refreshFolder(f.path))
+                      window.api.agent
+                        .getRecentUndoOperations()
+                        .then(setUndoOperations)
+                        .catch(console.error)
+                    }}
+                  />
+                )}
               </div>
             </aside>
           </>
@@ -1200,7 +1340,18 @@ function App(): ReactElement {
 
       {/* Before/After Visualization Modal */}
       {beforeAfterResult && (
-        <BeforeAfterView result={beforeAfterResult} onClose={hideBeforeAfter} />
+        <BeforeAfterView
+          result={beforeAfterResult}
+          onClose={hideBeforeAfter}
+          onApply={() => {
+            const preview = beforeAfterResult.preview
+            if (!preview) return
+            hideBeforeAfter()
+            handleSendMessage(
+              `Apply the organization plan for ${preview.rootPath} (strategy: ${preview.strategy}, date_source: ${preview.dateSource}, include_subfolders: ${preview.includeSubfolders})`
+            )
+          }}
+        />
       )}
     </div>
   )
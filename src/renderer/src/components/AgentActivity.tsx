@@ -13,7 +13,8 @@ import {
   MinusCircle,
   ArrowRight,
   Bot,
-  FileText
+  FileText,
+  Eye
 } from 'lucide-react'
 import { useAgentStore, ActivityEntry } from '../stores/agentStore'
 
@@ -49,6 +50,12 @@ function ActivityItem({ entry }: { entry: ActivityEntry }) {
   const statusConfig = {
     moved: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'success' },
     renamed: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'success' },
+    copied: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'success' },
+    'would-move': { icon: Eye, color: 'text-sky-400', bgClass: 'simulated' },
+    'would-rename': { icon: Eye, color: 'text-sky-400', bgClass: 'simulated' },
+    'would-copy': { icon: Eye, color: 'text-sky-400', bgClass: 'simulated' },
+    'would-delete': { icon: Eye, color: 'text-sky-400', bgClass: 'simulated' },
+    queued: { icon: Clock, color: 'text-amber-400', bgClass: 'queued' },
     skipped: { icon: MinusCircle, color: 'text-slate-400', bgClass: 'skipped' },
     error: { icon: XCircle, color: 'text-red-400', bgClass: 'error' }
   }
@@ -68,7 +75,7 @@ function ActivityItem({ entry }: { entry: ActivityEntry }) {
           </div>
 
           {/* Action details */}
-          {entry.action === 'moved' && entry.destination && (
+          {entry.action !== 'renamed' && entry.action !== 'would-rename' && entry.destination && (
             <div className="flex items-center gap-1 text-xs text-slate-400 mt-0.5">
               <ArrowRight className="w-3 h-3" />
               <span className="truncate" title={entry.destination}>
@@ -100,7 +107,10 @@ function ActivityItem({ entry }: { entry: ActivityEntry }) {
                 AI
               </span>
             )}
+            {!entry.usedAI && entry.matchedRule && <span className="text-slate-400">Local</span>}
             {entry.action === 'skipped' && !entry.matchedRule && <span>No matching rule</span>}
+            {entry.action.startsWith('would-') && <span className="text-sky-400">Dry run</span>}
+            {entry.action === 'queued' && <span className="text-amber-400">Awaiting review</span>}
           </div>
         </div>
 
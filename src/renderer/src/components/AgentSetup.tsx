@@ -1,6 +1,31 @@
 import { useState } from 'react'
-import { FolderOpen, Plus, X, Play, Lightbulb, GripVertical, FileText, Save } from 'lucide-react'
-import { AgentConfig, AgentRule, useAgentStore } from '../stores/agentStore'
+import {
+  FolderOpen,
+  Plus,
+  X,
+  Play,
+  Lightbulb,
+  GripVertical,
+  FileText,
+  Save,
+  Eye,
+  Rocket,
+  FlaskConical
+} from 'lucide-react'
+import {
+  AgentConfig,
+  AgentRule,
+  CompiledRule,
+  ConflictPolicy,
+  StructuredRule,
+  WatchFolderOptions,
+  useAgentStore,
+  isRuleDefined,
+  needsCompile
+} from '../stores/agentStore'
+import StructuredRuleEditor from './StructuredRuleEditor'
+import RuleCompileReview from './RuleCompileReview'
+import RuleTestBench from './RuleTestBench'
 
 interface Props {
   onStart: (config: AgentConfig) => void
@@ -11,6 +36,48 @@ interface Props {
 const MAX_RULES = 5
 const MAX_CHARS = 400
 
+// Include/exclude globs are edited as comma-separated text
+interface FolderOptionsDraft {
+  depth: number
+  include: string
+  exclude: string
+}
+
+const DEPTH_OPTIONS = [
+  { value: 0, label: 'Top level only' },
+  { value: 1, label: '1 level deep' },
+  { value: 2, label: '2 levels deep' },
+  { value: 3, label: '3 levels deep' },
+  { value: 10, label: 'All subfolders' }
+]
+
+const CONFLICT_OPTIONS: { value: ConflictPolicy; label: string }[] = [
+  { value: 'suffix', label: 'Keep both, add (1) to the name' },
+  { value: 'skip', label: 'Leave the new file where it is' },
+  { value: 'keep-newer', label: 'Keep the newer file' },
+  { value: 'keep-larger', label: 'Keep the larger file' },
+  { value: 'dedupe', label: 'Trash exact duplicates, otherwise keep both' },
+  { value: 'review', label: 'Ask me in Review before replacing' }
+]
+
+const DEFAULT_FOLDER_OPTIONS: FolderOptionsDraft = { depth: 0, include: '', exclude: '' }
+
+function toDraft(options: WatchFolderOptions): FolderOptionsDraft {
+  return {
+    depth: options.depth,
+    include: options.include?.join(', ') ?? '',
+    exclude: options.exclude?.join(', ') ?? ''
+  }
+}
+
+function parseGlobs(text: string): string[] | undefined {
+  const globs = text
+    .split(',')
+    .map((g) => g.trim())
+    .filter(Boolean)
+  return globs.length > 0 ? globs : undefined
+}
+
 const EXAMPLE_RULES = [
   'PDFs go to Documents folder, organized by month',
   'Images to Pictures. Receipts get renamed with date and vendor',
@@ -24,7 +91,7 @@ export default function AgentSetup({
   isEditing = false,
   onCancel
 }: Props): React.ReactElement {
-  const { getActiveWatcher } = useAgentStore()
+  const { getActiveWatcher, updateWatcherConfig } = useAgentStore()
   const activeWatcher = getActiveWatcher()
   const currentConfig = activeWatcher?.config
 
@@ -40,7 +107,28 @@ export default function AgentSetup({
   const [enableLog, setEnableLog] = useState(
     isEditing && currentConfig ? (currentConfig.enableActivityLog ?? true) : true
   )
+  const [dryRun, setDryRun] = useState(isEditing && currentConfig ? !!currentConfig.dryRun : false)
+  const [minConfidence, setMinConfidence] = useState(
+    isEditing && currentConfig ? (currentConfig.minConfidence ?? 0) : 0
+  )
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(
+    (isEditing && currentConfig?.conflictPolicy) || 'suffix'
+  )
+  const [folderOptions, setFolderOptions] = useState<Record<string, FolderOptionsDraft>>(() =>
+    Object.fromEntries(
+      Object.entries((isEditing && currentConfig?.folderOptions) || {}).map(([folder, options]) => [
+        folder,
+        toDraft(options)
+      ])
+    )
+  )
   const [isStarting, setIsStarting] = useState(false)
+  const [isPromoting, setIsPromoting] = useState(false)
+  const [showTestBench, setShowTestBench] = useState(false)
+  const [compileReview, setCompileReview] = useState<{
+    rules: AgentRule[]
+    compiled: CompiledRule[]
+  } | null>(null)
 
   // The useEffect for loading existing config is no longer needed as state is initialized directly from currentConfig
 
@@ -57,6 +145,13 @@ export default function AgentSetup({
     setSelectedFolders(selectedFolders.filter((f) => f !== folderToRemove))
   }
 
+  const updateFolderOptions = (folder: string, updates: Partial<FolderOptionsDraft>): void => {
+    setFolderOptions({
+      ...folderOptions,
+      [folder]: { ...(folderOptions[folder] ?? DEFAULT_FOLDER_OPTIONS), ...updates }
+    })
+  }
+
   const addRule = (): void => {
     // Added return type
     if (rules.length >= MAX_RULES) return
@@ -74,6 +169,10 @@ export default function AgentSetup({
     setRules(rules.map((r) => (r.id === id ? { ...r, text: text.slice(0, MAX_CHARS) } : r)))
   }
 
+  const updateRuleStructured = (id: string, structured: StructuredRule | undefined): void => {
+    setRules(rules.map((r) => (r.id === id ? { ...r, structured } : r)))
+  }
+
   const removeRule = (id: string): void => {
     // Added return type
     if (rules.length <= 1) return // Keep at least one rule
@@ -95,10 +194,33 @@ export default function AgentSetup({
     }
   }
 
+  // Compile free-text rules once here so the watcher doesn't prompt the model for every file
   const handleStart = async (): Promise<void> => {
-    const activeRules = rules.filter((r) => r.text.trim())
+    const activeRules = rules.filter(isRuleDefined)
     if (selectedFolders.length === 0 || activeRules.length === 0) return
 
+    const toCompile = activeRules.filter(needsCompile)
+    if (toCompile.length > 0) {
+      setIsStarting(true)
+      const result = await window.api.watcher.compileRules(toCompile)
+      setIsStarting(false)
+      if (result.success && result.compiled?.some((c) => c.structured)) {
+        setCompileReview({ rules: activeRules, compiled: result.compiled })
+        return
+      }
+      console.warn('[AGENT SETUP] Rules not compiled, keeping free text:', result.error)
+    }
+
+    startWithRules(activeRules)
+  }
+
+  const handleConfirmCompiled = (confirmedRules: AgentRule[]): void => {
+    setRules(confirmedRules)
+    setCompileReview(null)
+    startWithRules(confirmedRules)
+  }
+
+  const startWithRules = (activeRules: AgentRule[]): void => {
     setIsStarting(true)
 
     // Build log path - in first watch folder
@@ -112,16 +234,60 @@ export default function AgentSetup({
       watchFolders: selectedFolders,
       rules: activeRules.map((r, i) => ({ ...r, order: i + 1 })),
       enableActivityLog: enableLog,
-      logPath
+      logPath,
+      dryRun,
+      minConfidence,
+      conflictPolicy,
+      folderOptions: Object.fromEntries(
+        selectedFolders.map((folder) => {
+          const draft = folderOptions[folder] ?? DEFAULT_FOLDER_OPTIONS
+          return [
+            folder,
+            {
+              depth: draft.depth,
+              include: parseGlobs(draft.include),
+              exclude: parseGlobs(draft.exclude)
+            }
+          ]
+        })
+      )
     }
 
     onStart(config)
     setIsStarting(false)
   }
 
-  const canStart = selectedFolders.length > 0 && rules.some((r) => r.text.trim())
+  // Switch a dry-run watcher to live mode without touching its rules
+  const handlePromote = async (): Promise<void> => {
+    if (!currentConfig) return
+    setIsPromoting(true)
+    const result = await window.api.watcher.setDryRun(currentConfig.id, false)
+    if (result.success) {
+      updateWatcherConfig(currentConfig.id, { dryRun: false })
+      setDryRun(false)
+    } else {
+      alert('Failed to switch the watcher to live mode')
+    }
+    setIsPromoting(false)
+  }
+
+  const canStart = selectedFolders.length > 0 && rules.some(isRuleDefined)
   const rulesRemaining = MAX_RULES - rules.length
 
+  if (compileReview) {
+    return (
+      <div className="p-4">
+        <RuleCompileReview
+          rules={compileReview.rules}
+          compiled={compileReview.compiled}
+          confirmLabel={isEditing ? 'Save & Resume' : 'Start Watching'}
+          onConfirm={handleConfirmCompiled}
+          onCancel={() => setCompileReview(null)}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className="p-4 space-y-5">
       {/* Header */}
@@ -159,23 +325,56 @@ export default function AgentSetup({
         </label>
 
         <div className="space-y-2">
-          {selectedFolders.map((folder, index) => (
-            <div key={index} className="flex gap-2">
-              <div
-                className="flex-1 px-3 py-2 rounded-lg text-sm truncate bg-slate-900 text-slate-200 border border-slate-700"
-                title={folder}
-              >
-                {folder}
+          {selectedFolders.map((folder, index) => {
+            const options = folderOptions[folder] ?? DEFAULT_FOLDER_OPTIONS
+            return (
+              <div key={index} className="space-y-1.5">
+                <div className="flex gap-2">
+                  <div
+                    className="flex-1 px-3 py-2 rounded-lg text-sm truncate bg-slate-900 text-slate-200 border border-slate-700"
+                    title={folder}
+                  >
+                    {folder}
+                  </div>
+                  <button
+                    onClick={() => removeFolder(folder)}
+                    className="p-2 bg-slate-800 hover:bg-slate-700 hover:text-red-400 text-slate-500 rounded-lg transition-colors"
+                    title="Remove folder"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex gap-1.5 pl-2">
+                  <select
+                    value={options.depth}
+                    onChange={(e) => updateFolderOptions(folder, { depth: Number(e.target.value) })}
+                    className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+                    title="How deep into subfolders to watch"
+                  >
+                    {DEPTH_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={options.include}
+                    onChange={(e) => updateFolderOptions(folder, { include: e.target.value })}
+                    placeholder="Only: *.pdf, inbox/**"
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-slate-300 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+                    title="Only handle files matching these globs"
+                  />
+                  <input
+                    value={options.exclude}
+                    onChange={(e) => updateFolderOptions(folder, { exclude: e.target.value })}
+                    placeholder="Skip: node_modules, *.log"
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-slate-300 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+                    title="Ignore files and folders matching these globs"
+                  />
+                </div>
               </div>
-              <button
-                onClick={() => removeFolder(folder)}
-                className="p-2 bg-slate-800 hover:bg-slate-700 hover:text-red-400 text-slate-500 rounded-lg transition-colors"
-                title="Remove folder"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
-          ))}
+            )
+          })}
 
           {selectedFolders.length === 0 && (
             <div className="px-3 py-2 rounded-lg text-sm bg-slate-900/50 text-slate-500 border border-dashed border-slate-700 text-center italic">
@@ -234,6 +433,11 @@ export default function AgentSetup({
                       {rule.text.length}/{MAX_CHARS}
                     </span>
                   </div>
+                  <StructuredRuleEditor
+                    value={rule.structured}
+                    onChange={(structured) => updateRuleStructured(rule.id, structured)}
+                    idPrefix={`setup-rule-${rule.id}`}
+                  />
                 </div>
 
                 {/* Remove button */}
@@ -306,6 +510,104 @@ export default function AgentSetup({
         <span className="text-xs text-slate-500">Excel file in watch folder</span>
       </div>
 
+      {/* Dry Run Toggle */}
+      <div className="flex items-center justify-between py-2 border-t border-slate-700">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="dryRun"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-sky-500 focus:ring-sky-500 focus:ring-offset-slate-900"
+          />
+          <label htmlFor="dryRun" className="flex items-center gap-1.5 text-sm text-slate-300">
+            <Eye className="w-3.5 h-3.5 text-sky-400" />
+            Dry run
+          </label>
+        </div>
+        <span className="text-xs text-slate-500">Preview decisions, no files moved</span>
+      </div>
+
+      {/* Confidence Threshold */}
+      <div className="space-y-1 py-2 border-t border-slate-700">
+        <div className="flex items-center justify-between">
+          <label htmlFor="minConfidence" className="text-sm text-slate-300">
+            Ask me when less than
+          </label>
+          <span className="text-sm font-medium text-amber-400">
+            {Math.round(minConfidence * 100)}% sure
+          </span>
+        </div>
+        <input
+          type="range"
+          id="minConfidence"
+          min={0}
+          max={1}
+          step={0.05}
+          value={minConfidence}
+          onChange={(e) => setMinConfidence(Number(e.target.value))}
+          className="w-full accent-amber-500"
+        />
+        <p className="text-xs text-slate-500">
+          Decisions below this go to the Review panel for approval instead of being applied
+        </p>
+      </div>
+
+      {/* Name clashes at the destination */}
+      <div className="flex items-center justify-between gap-3 py-2 border-t border-slate-700">
+        <label htmlFor="conflictPolicy" className="text-sm text-slate-300 shrink-0">
+          If the name is taken
+        </label>
+        <select
+          id="conflictPolicy"
+          value={conflictPolicy}
+          onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+          className="min-w-0 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        >
+          {CONFLICT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Promote a dry-run watcher to live */}
+      {isEditing && currentConfig?.dryRun && (
+        <div className="p-3 rounded-lg bg-sky-900/20 border border-sky-800/40 space-y-2">
+          <p className="text-xs text-sky-200">
+            This Orbit is running as a dry run. Its decisions are shown in the activity feed but no
+            files have been moved.
+          </p>
+          <button
+            onClick={handlePromote}
+            disabled={isPromoting}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 text-white transition-colors"
+          >
+            <Rocket className="w-4 h-4" />
+            {isPromoting ? 'Going live...' : 'Go Live'}
+          </button>
+        </div>
+      )}
+
+      {/* Rule test bench */}
+      {showTestBench ? (
+        <RuleTestBench
+          rules={rules}
+          folders={selectedFolders}
+          onClose={() => setShowTestBench(false)}
+        />
+      ) : (
+        <button
+          onClick={() => setShowTestBench(true)}
+          disabled={!rules.some(isRuleDefined)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          <FlaskConical className="w-4 h-4" />
+          Test rules on existing files
+        </button>
+      )}
+
       {/* Start/Save Button */}
       <div className="space-y-2">
         <button
@@ -349,9 +651,7 @@ export default function AgentSetup({
       {!canStart && (
         <div className="text-xs text-center text-slate-500">
           {selectedFolders.length === 0 && 'Select a folder to watch'}
-          {selectedFolders.length > 0 &&
-            !rules.some((r) => r.text.trim()) &&
-            'Add at least one rule'}
+          {selectedFolders.length > 0 && !rules.some(isRuleDefined) && 'Add at least one rule'}
         </div>
       )}
     </div>
@@ -24,9 +24,25 @@ import {
   Sparkles,
   Orbit,
   Pencil,
-  Mail
+  Mail,
+  Eye,
+  Rocket,
+  Clock,
+  FlaskConical
 } from 'lucide-react'
-import { useAgentStore, AgentConfig, AgentRule, ActivityEntry } from '../stores/agentStore'
+import {
+  useAgentStore,
+  AgentConfig,
+  AgentRule,
+  ActivityEntry,
+  CompiledRule,
+  StructuredRule,
+  isRuleDefined,
+  needsCompile
+} from '../stores/agentStore'
+import StructuredRuleEditor from './StructuredRuleEditor'
+import RuleCompileReview from './RuleCompileReview'
+import RuleTestBench from './RuleTestBench'
 import { useEmailStore } from '../stores/emailStore'
 import EmailWatcherCard from './EmailWatcher/EmailWatcherCard'
 
@@ -134,6 +150,12 @@ function ActivityItem({ entry }: { entry: ActivityEntry }): React.ReactElement {
   const statusConfig = {
     moved: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'bg-emerald-900/10' },
     renamed: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'bg-emerald-900/10' },
+    copied: { icon: CheckCircle, color: 'text-emerald-400', bgClass: 'bg-emerald-900/10' },
+    'would-move': { icon: Eye, color: 'text-sky-400', bgClass: 'bg-sky-900/10' },
+    'would-rename': { icon: Eye, color: 'text-sky-400', bgClass: 'bg-sky-900/10' },
+    'would-copy': { icon: Eye, color: 'text-sky-400', bgClass: 'bg-sky-900/10' },
+    'would-delete': { icon: Eye, color: 'text-sky-400', bgClass: 'bg-sky-900/10' },
+    queued: { icon: Clock, color: 'text-amber-400', bgClass: 'bg-amber-900/10' },
     skipped: { icon: MinusCircle, color: 'text-slate-400', bgClass: 'bg-slate-800/50' },
     error: { icon: XCircle, color: 'text-red-400', bgClass: 'bg-red-900/10' }
   }
@@ -150,11 +172,16 @@ function ActivityItem({ entry }: { entry: ActivityEntry }): React.ReactElement {
             {entry.originalName}
           </div>
           <span className="text-[10px] text-slate-500 flex-shrink-0">
+            {entry.matchedRule && (
+              <span className={entry.usedAI ? 'text-emerald-500' : 'text-slate-400'}>
+                {entry.usedAI ? 'AI' : 'Local'} ·{' '}
+              </span>
+            )}
             {formatTimeAgo(entry.timestamp)}
           </span>
         </div>
 
-        {entry.action === 'moved' && entry.destination && (
+        {entry.action !== 'renamed' && entry.action !== 'would-rename' && entry.destination && (
           <div className="flex items-center gap-1 text-[10px] text-slate-400 mt-0.5">
             <ArrowRight className="w-3 h-3" />
             <span className="truncate" title={entry.destination}>
@@ -236,6 +263,14 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
   const [enableLog, setEnableLog] = useState(
     config.enableActivityLog !== undefined ? config.enableActivityLog : true
   )
+  const [dryRun, setDryRun] = useState(config.dryRun ?? false)
+  const [minConfidence, setMinConfidence] = useState(config.minConfidence ?? 0)
+  const [isCompiling, setIsCompiling] = useState(false)
+  const [showTestBench, setShowTestBench] = useState(false)
+  const [compileReview, setCompileReview] = useState<{
+    rules: AgentRule[]
+    compiled: CompiledRule[]
+  } | null>(null)
   const [duration, setDuration] = useState(0)
 
   const isRunning = status === 'running' || status === 'paused'
@@ -299,7 +334,7 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
   if (!watcher) return null
 
   const handleStart = async () => {
-    const activeRules = localRules.filter((r) => r.text.trim())
+    const activeRules = localRules.filter(isRuleDefined)
     // Log path defaults to first watch folder
     const checkFolder = localWatchFolders[0] || ''
     const logPath =
@@ -310,7 +345,9 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
       watchFolders: localWatchFolders,
       rules: activeRules,
       enableActivityLog: enableLog,
-      logPath: enableLog ? logPath : ''
+      logPath: enableLog ? logPath : '',
+      dryRun,
+      minConfidence
     }
 
     const result = await window.api.watcher.start(startConfig)
@@ -334,6 +371,14 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
     }
   }
 
+  const handlePromote = async (): Promise<void> => {
+    const result = await window.api.watcher.setDryRun(watcherId, false)
+    if (result.success) {
+      updateWatcherConfig(watcherId, { dryRun: false })
+      setDryRun(false)
+    }
+  }
+
   const handleStop = async () => {
     await window.api.watcher.stop(watcherId)
     setWatcherStatus(watcherId, 'idle')
@@ -349,8 +394,23 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
     }
   }
 
-  const handleSaveConfig = () => {
-    const activeRules = localRules.filter((r) => r.text.trim())
+  const handleSaveConfig = async (): Promise<void> => {
+    const activeRules = localRules.filter(isRuleDefined)
+    const toCompile = activeRules.filter(needsCompile)
+    if (toCompile.length > 0) {
+      setIsCompiling(true)
+      const result = await window.api.watcher.compileRules(toCompile)
+      setIsCompiling(false)
+      if (result.success && result.compiled?.some((c) => c.structured)) {
+        setCompileReview({ rules: activeRules, compiled: result.compiled })
+        return
+      }
+      console.warn('[WATCHER CARD] Rules not compiled, keeping free text:', result.error)
+    }
+    saveConfig(activeRules)
+  }
+
+  const saveConfig = (activeRules: AgentRule[]): void => {
     const checkFolder = localWatchFolders[0] || ''
     const logPath =
       checkFolder + (checkFolder.includes('/') ? '/' : '\\') + 'momentum_activity_log.xlsx'
@@ -360,7 +420,9 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
       watchFolders: localWatchFolders,
       rules: activeRules,
       enableActivityLog: enableLog,
-      logPath: enableLog ? logPath : ''
+      logPath: enableLog ? logPath : '',
+      dryRun,
+      minConfidence
     })
     setIsEditing(false)
   }
@@ -384,6 +446,10 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
     )
   }
 
+  const updateRuleStructured = (id: string, structured: StructuredRule | undefined): void => {
+    setLocalRules(localRules.map((r) => (r.id === id ? { ...r, structured } : r)))
+  }
+
   const removeRule = (id: string) => {
     if (localRules.length <= 1) return
     setLocalRules(localRules.filter((r) => r.id !== id))
@@ -422,7 +488,7 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
     }
   }
 
-  const canStart = localWatchFolders.length > 0 && localRules.some((r) => r.text.trim())
+  const canStart = localWatchFolders.length > 0 && localRules.some(isRuleDefined)
 
   return (
     <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
@@ -488,8 +554,8 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
               </div>
             )}
             <div className="text-xs text-slate-500">
-              {config.rules.filter((r) => r.text.trim()).length} rule
-              {config.rules.filter((r) => r.text.trim()).length !== 1 ? 's' : ''}
+              {config.rules.filter(isRuleDefined).length} rule
+              {config.rules.filter(isRuleDefined).length !== 1 ? 's' : ''}
             </div>
           </div>
         </div>
@@ -500,6 +566,11 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                 className={`w-2 h-2 rounded-full ${isPaused ? 'bg-amber-400' : 'bg-emerald-400 animate-pulse'}`}
               />
               <span className="text-xs text-slate-400">{isPaused ? 'Paused' : 'Running'}</span>
+              {config.dryRun && (
+                <span className="px-1.5 py-0.5 rounded bg-sky-900/40 text-[10px] text-sky-300">
+                  Dry run
+                </span>
+              )}
             </>
           )}
           {!isRunning && <span className="text-xs text-slate-500">Idle</span>}
@@ -532,6 +603,15 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
             </>
           ) : (
             <>
+              {config.dryRun && (
+                <button
+                  onClick={handlePromote}
+                  className="p-1.5 rounded-md bg-sky-600 hover:bg-sky-500 text-white transition-colors"
+                  title="Go live: start moving files for real"
+                >
+                  <Rocket className="w-4 h-4" />
+                </button>
+              )}
               <button
                 onClick={handlePause}
                 className={`p-1.5 rounded-md transition-colors ${isPaused ? 'bg-emerald-600 hover:bg-emerald-500 text-white' : 'bg-amber-600 hover:bg-amber-500 text-white'}`}
@@ -574,7 +654,23 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
             </div>
           )}
 
-          {isEditing && !isRunning && (
+          {isEditing && !isRunning && compileReview && (
+            <div className="p-3 bg-slate-900/30">
+              <RuleCompileReview
+                rules={compileReview.rules}
+                compiled={compileReview.compiled}
+                confirmLabel="Save Configuration"
+                onConfirm={(confirmedRules) => {
+                  setLocalRules(confirmedRules)
+                  setCompileReview(null)
+                  saveConfig(confirmedRules)
+                }}
+                onCancel={() => setCompileReview(null)}
+              />
+            </div>
+          )}
+
+          {isEditing && !isRunning && !compileReview && (
             <div className="p-3 bg-slate-900/30">
               {localWatchFolders.length === 0 && (
                 <div className="p-2 mb-3 bg-emerald-900/20 border border-emerald-800/30 rounded text-xs text-emerald-300">
@@ -665,6 +761,52 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                       </label>
                     </div>
                   </div>
+
+                  {/* Dry Run Toggle */}
+                  <div className="bg-slate-800 border border-slate-700 rounded-lg p-3">
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        id={`dryRun-${watcherId}`}
+                        checked={dryRun}
+                        onChange={(e) => setDryRun(e.target.checked)}
+                        className="mt-0.5 w-3.5 h-3.5 rounded border-slate-600 bg-slate-900 text-sky-500 focus:ring-sky-500"
+                      />
+                      <label
+                        htmlFor={`dryRun-${watcherId}`}
+                        className="text-xs text-slate-300 leading-tight"
+                      >
+                        Dry run
+                        <div className="text-[10px] text-slate-500 mt-1 leading-relaxed">
+                          Shows what each rule would do without moving or renaming anything.
+                        </div>
+                      </label>
+                    </div>
+                  </div>
+
+                  {/* Confidence Threshold */}
+                  <div className="bg-slate-800 border border-slate-700 rounded-lg p-3">
+                    <label
+                      htmlFor={`minConfidence-${watcherId}`}
+                      className="flex items-center justify-between text-xs text-slate-300"
+                    >
+                      Review below
+                      <span className="text-amber-400">{Math.round(minConfidence * 100)}%</span>
+                    </label>
+                    <input
+                      type="range"
+                      id={`minConfidence-${watcherId}`}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={minConfidence}
+                      onChange={(e) => setMinConfidence(Number(e.target.value))}
+                      className="w-full mt-2 accent-amber-500"
+                    />
+                    <div className="text-[10px] text-slate-500 mt-1 leading-relaxed">
+                      Less certain decisions wait in the Review panel instead of being applied.
+                    </div>
+                  </div>
                 </div>
 
                 {/* Right Column - Rules (70%) */}
@@ -672,7 +814,7 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                   <div className="bg-slate-800 border border-slate-700 rounded-lg p-3">
                     <div className="flex items-center justify-between mb-2">
                       <label className="text-xs font-medium text-slate-400">
-                        Rules ({localRules.filter((r) => r.text.trim()).length}/{MAX_RULES})
+                        Rules ({localRules.filter(isRuleDefined).length}/{MAX_RULES})
                       </label>
                       {localRules.length < MAX_RULES && (
                         <button
@@ -691,13 +833,20 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                           <div className="pt-2 text-xs font-medium text-slate-500 w-5">
                             {index + 1}.
                           </div>
-                          <textarea
-                            value={rule.text}
-                            onChange={(e) => updateRuleText(rule.id, e.target.value)}
-                            placeholder="Describe what should happen to files..."
-                            rows={2}
-                            className="flex-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 placeholder-slate-500 resize-none focus:outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500"
-                          />
+                          <div className="flex-1">
+                            <textarea
+                              value={rule.text}
+                              onChange={(e) => updateRuleText(rule.id, e.target.value)}
+                              placeholder="Describe what should happen to files..."
+                              rows={2}
+                              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 placeholder-slate-500 resize-none focus:outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500"
+                            />
+                            <StructuredRuleEditor
+                              value={rule.structured}
+                              onChange={(structured) => updateRuleStructured(rule.id, structured)}
+                              idPrefix={`${watcherId}-rule-${rule.id}`}
+                            />
+                          </div>
                           {localRules.length > 1 && (
                             <button
                               onClick={() => removeRule(rule.id)}
@@ -732,14 +881,30 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                 </div>
               </div>
 
+              {showTestBench && (
+                <RuleTestBench
+                  rules={localRules}
+                  folders={localWatchFolders}
+                  onClose={() => setShowTestBench(false)}
+                />
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-2 mt-3 pt-3 border-t border-slate-700">
+                <button
+                  onClick={() => setShowTestBench(!showTestBench)}
+                  disabled={!localRules.some(isRuleDefined)}
+                  className="px-3 py-2.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-300 text-sm rounded transition-colors"
+                  title="Try these rules on files that are already there"
+                >
+                  <FlaskConical className="w-4 h-4" />
+                </button>
                 <button
                   onClick={handleSaveConfig}
-                  disabled={!canStart}
+                  disabled={!canStart || isCompiling}
                   className="flex-1 px-4 py-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-medium rounded transition-colors"
                 >
-                  Save Configuration
+                  {isCompiling ? 'Compiling rules...' : 'Save Configuration'}
                 </button>
                 {config.watchFolders && config.watchFolders.length > 0 && (
                   <button
@@ -753,6 +918,8 @@ function WatcherCard({ watcherId }: { watcherId: string }): React.ReactElement |
                       setEnableLog(
                         config.enableActivityLog !== undefined ? config.enableActivityLog : true
                       )
+                      setDryRun(config.dryRun ?? false)
+                      setMinConfidence(config.minConfidence ?? 0)
                       setIsEditing(false)
                     }}
                     className="px-4 py-2.5 bg-slate-700 hover:bg-slate-600 text-slate-300 text-sm font-medium rounded transition-colors"
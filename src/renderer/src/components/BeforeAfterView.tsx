@@ -1,11 +1,20 @@
 /* eslint-disable prettier/prettier */
 import { useState } from 'react'
-import { X, Folder, File, CheckCircle, ChevronDown, ChevronRight, Sparkles } from 'lucide-react'
+import { X, Folder, File, CheckCircle, ChevronDown, ChevronRight, Sparkles, Eye, Play } from 'lucide-react'
 import { FileNode, OrganizationResult } from '../stores/appStore'
 
 interface BeforeAfterViewProps {
   result: OrganizationResult | null
   onClose: () => void
+  onApply?: () => void // Only offered for a preview
+}
+
+const STRATEGY_LABELS: Record<string, string> = {
+  category: 'By file type',
+  date: 'By year and month',
+  'category-date': 'By file type, then year',
+  project: 'By project name',
+  source: 'By download source'
 }
 
 // ============ Utility Functions ============
@@ -149,10 +158,10 @@ function FlatFileList({ files, maxShow = 15 }: { files: FileNode[]; maxShow?: nu
 
 // ============ Main Component ============
 
-export default function BeforeAfterView({ result, onClose }: BeforeAfterViewProps) {
+export default function BeforeAfterView({ result, onClose, onApply }: BeforeAfterViewProps) {
   if (!result) return null
 
-  const { before, after, stats } = result
+  const { before, after, stats, preview } = result
   const beforeCounts = countItems(before)
   const afterCounts = countItems(after)
 
@@ -162,12 +171,18 @@ export default function BeforeAfterView({ result, onClose }: BeforeAfterViewProp
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-900/50">
           <div className="flex items-center gap-3">
-            <div className="p-2 bg-emerald-600 rounded-lg">
-              <Sparkles className="w-5 h-5 text-white" />
+            <div className={`p-2 rounded-lg ${preview ? 'bg-sky-600' : 'bg-emerald-600'}`}>
+              {preview ? <Eye className="w-5 h-5 text-white" /> : <Sparkles className="w-5 h-5 text-white" />}
             </div>
             <div>
-              <h2 className="text-lg font-semibold text-slate-100">Organization Complete</h2>
-              <p className="text-sm text-slate-400">Your files have been reorganized</p>
+              <h2 className="text-lg font-semibold text-slate-100">
+                {preview ? 'Organization Preview' : 'Organization Complete'}
+              </h2>
+              <p className="text-sm text-slate-400">
+                {preview
+                  ? `${STRATEGY_LABELS[preview.strategy] ?? preview.strategy}${preview.dateSource === 'content' ? ' (photo and document dates)' : ''} · nothing has moved yet`
+                  : 'Your files have been reorganized'}
+              </p>
             </div>
           </div>
           <button
@@ -182,19 +197,19 @@ export default function BeforeAfterView({ result, onClose }: BeforeAfterViewProp
         <div className="grid grid-cols-4 gap-2 p-3 bg-slate-900/30 border-b border-slate-700">
           <div className="text-center p-2 bg-emerald-900/20 rounded-lg border border-emerald-800/30">
             <div className="text-xl font-bold text-emerald-400">{stats.filesMoved}</div>
-            <div className="text-xs text-slate-400">Files Moved</div>
+            <div className="text-xs text-slate-400">{preview ? 'Files to Move' : 'Files Moved'}</div>
           </div>
           <div className="text-center p-2 bg-sky-900/20 rounded-lg border border-sky-800/30">
             <div className="text-xl font-bold text-sky-400">{stats.foldersCreated}</div>
-            <div className="text-xs text-slate-400">Folders Created</div>
+            <div className="text-xs text-slate-400">{preview ? 'New Folders' : 'Folders Created'}</div>
           </div>
           <div className="text-center p-2 bg-red-900/20 rounded-lg border border-red-800/30">
             <div className="text-xl font-bold text-red-400">{stats.filesDeleted}</div>
-            <div className="text-xs text-slate-400">Files Deleted</div>
+            <div className="text-xs text-slate-400">{preview ? 'Junk Found' : 'Files Deleted'}</div>
           </div>
           <div className="text-center p-2 bg-slate-700/50 rounded-lg border border-slate-600/30">
             <div className="text-xl font-bold text-slate-300">{stats.totalFiles}</div>
-            <div className="text-xs text-slate-400">Total Processed</div>
+            <div className="text-xs text-slate-400">{preview ? 'Total Files' : 'Total Processed'}</div>
           </div>
         </div>
 
@@ -244,20 +259,47 @@ export default function BeforeAfterView({ result, onClose }: BeforeAfterViewProp
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-slate-700 bg-slate-900/30 flex items-center justify-between">
-          <div className="flex items-center gap-2 text-sm text-emerald-400">
-            <CheckCircle className="w-5 h-5" />
-            <span>
-              {beforeCounts.files} files organized into {afterCounts.folders} folders
+        {preview ? (
+          <div className="p-4 border-t border-slate-700 bg-slate-900/30 flex items-center justify-between">
+            <span className="text-sm text-slate-400">
+              {stats.filesMoved} of {stats.totalFiles} files would move into{' '}
+              {afterCounts.folders} folders
             </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg font-medium transition-colors"
+              >
+                Not now
+              </button>
+              {onApply && (
+                <button
+                  onClick={onApply}
+                  disabled={stats.filesMoved === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg font-medium transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  Apply plan
+                </button>
+              )}
+            </div>
           </div>
-          <button
-            onClick={onClose}
-            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-medium transition-colors"
-          >
-            Done
-          </button>
-        </div>
+        ) : (
+          <div className="p-4 border-t border-slate-700 bg-slate-900/30 flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm text-emerald-400">
+              <CheckCircle className="w-5 h-5" />
+              <span>
+                {beforeCounts.files} files organized into {afterCounts.folders} folders
+              </span>
+            </div>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-medium transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
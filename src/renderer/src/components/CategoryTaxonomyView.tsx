@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react'
+import { Plus, X, Save, RotateCcw, Loader2, CheckCircle, AlertCircle } from 'lucide-react'
+
+// Extensions are edited as free text and only split when saving
+interface DraftCategory {
+  name: string
+  extensionsText: string
+  color: string
+  folderName: string
+}
+
+const NEW_CATEGORY_COLOR = '#94a3b8'
+
+const inputClass =
+  'w-full px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-sky-500'
+
+function toDraft(category: FileCategory): DraftCategory {
+  return {
+    name: category.name,
+    extensionsText: category.extensions.join(', '),
+    color: category.color,
+    folderName: category.folderName
+  }
+}
+
+function fromDraft(draft: DraftCategory): FileCategory {
+  return {
+    name: draft.name,
+    extensions: draft.extensionsText
+      .split(/[,\s]+/)
+      .map((e) => e.replace(/^\./, '').trim().toLowerCase())
+      .filter(Boolean),
+    color: draft.color,
+    folderName: draft.folderName || draft.name
+  }
+}
+
+/**
+ * The one list of file categories the organizer, storage charts and watcher rules share
+ */
+export default function CategoryTaxonomyView(): React.ReactElement {
+  const [drafts, setDrafts] = useState<DraftCategory[]>([])
+  const [fallback, setFallback] = useState('Other')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  useEffect(() => {
+    window.api.categories
+      .get()
+      .then((taxonomy) => {
+        setDrafts(taxonomy.categories.map(toDraft))
+        setFallback(taxonomy.fallback)
+      })
+      .catch((err) => console.error('Failed to load categories:', err))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const updateDraft = (index: number, updates: Partial<DraftCategory>): void => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...updates } : draft)))
+    setIsDirty(true)
+  }
+
+  const handleAdd = (): void => {
+    setDrafts([
+      ...drafts,
+      { name: '', extensionsText: '', color: NEW_CATEGORY_COLOR, folderName: '' }
+    ])
+    setIsDirty(true)
+  }
+
+  const handleRemove = (index: number): void => {
+    setDrafts(drafts.filter((_, i) => i !== index))
+    setIsDirty(true)
+  }
+
+  const handleSave = async (): Promise<void> => {
+    setIsSaving(true)
+    setResult(null)
+    try {
+      const saved = await window.api.categories.update(drafts.map(fromDraft))
+      const dropped = drafts.length - saved.length
+      setDrafts(saved.map(toDraft))
+      setIsDirty(false)
+      setResult({
+        type: 'success',
+        message:
+          dropped > 0
+            ? `Saved. ${dropped} unnamed or duplicate categories were left out.`
+            : 'Saved. New scans and organize plans use these categories.'
+      })
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = async (): Promise<void> => {
+    if (!confirm('Replace your categories with the built-in ones?')) return
+    try {
+      setDrafts((await window.api.categories.reset()).map(toDraft))
+      setIsDirty(false)
+      setResult({ type: 'success', message: 'Restored the built-in categories.' })
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center text-slate-500 text-sm">
+        <Loader2 className="w-5 h-5 animate-spin mx-auto mb-2" />
+        Loading...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[11px] text-slate-500">
+        Extensions decide a file&apos;s category; organizing moves it into the category&apos;s
+        folder. Files no category claims count as {fallback} and stay where they are.
+      </p>
+
+      {result && (
+        <div
+          className={`flex items-center gap-2 p-2 rounded-lg text-xs ${result.type === 'success' ? 'bg-emerald-900/30 border border-emerald-700/50 text-emerald-300' : 'bg-red-900/30 border border-red-700/50 text-red-300'}`}
+        >
+          {result.type === 'success' ? (
+            <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          ) : (
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          )}
+          <span>{result.message}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {drafts.map((draft, index) => (
+          <div key={index} className="bg-slate-700/30 rounded-lg p-2 space-y-1.5">
+            <div className="flex items-center gap-1.5">
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(e) => updateDraft(index, { color: e.target.value })}
+                className="w-6 h-6 flex-shrink-0 rounded bg-transparent cursor-pointer"
+                title="Chart colour"
+              />
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { name: e.target.value })}
+                placeholder="Category name"
+                className={inputClass}
+              />
+              <input
+                value={draft.folderName}
+                onChange={(e) => updateDraft(index, { folderName: e.target.value })}
+                placeholder={draft.name || 'Folder name'}
+                className={inputClass}
+                title="Folder the organizer moves these files into"
+              />
+              <button
+                onClick={() => handleRemove(index)}
+                className="p-1 rounded hover:bg-slate-700 text-slate-500 hover:text-slate-300 flex-shrink-0"
+                title="Remove category"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <input
+              value={draft.extensionsText}
+              onChange={(e) => updateDraft(index, { extensionsText: e.target.value })}
+              placeholder="Extensions: pdf, docx"
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add category
+        </button>
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-slate-400 hover:text-slate-200"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="ml-auto flex items-center gap-1 px-3 py-1 rounded bg-sky-700 hover:bg-sky-600 disabled:bg-slate-700 disabled:text-slate-500 text-xs text-white"
+        >
+          {isSaving ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Save className="w-3.5 h-3.5" />
+          )}
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
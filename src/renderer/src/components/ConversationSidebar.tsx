@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react'
+import {
+  MessagesSquare,
+  Plus,
+  Search,
+  Pencil,
+  Trash2,
+  PanelLeftClose,
+  PanelLeftOpen,
+  X
+} from 'lucide-react'
+import { useAppStore } from '../stores/appStore'
+
+const SEARCH_DELAY_MS = 200
+
+function formatWhen(iso: string): string {
+  const date = new Date(iso)
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Saved chat threads for the working folder: switch, rename, delete and search them
+ */
+export default function ConversationSidebar(): React.ReactElement {
+  const {
+    folders,
+    isProcessing,
+    activeConversationId,
+    conversationsVersion,
+    openConversation,
+    clearMessages
+  } = useAppStore()
+  const folderPath = folders[0]?.path ?? ''
+
+  const [isCollapsed, setIsCollapsed] = useState(false)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [query, setQuery] = useState('')
+  const [hits, setHits] = useState<ConversationSearchHit[]>([])
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameText, setRenameText] = useState('')
+  const [version, setVersion] = useState(0) // Bumped after a rename or delete
+
+  useEffect(() => {
+    window.api.conversations
+      .list(folderPath)
+      .then(setConversations)
+      .catch((err) => console.error('Failed to load conversations:', err))
+  }, [folderPath, conversationsVersion, version])
+
+  useEffect(() => {
+    if (!query.trim()) return
+    const timer = setTimeout(() => {
+      window.api.conversations
+        .search(query, folderPath)
+        .then(setHits)
+        .catch((err) => console.error('Failed to search conversations:', err))
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [query, folderPath, conversationsVersion, version])
+
+  const handleOpen = async (id: string): Promise<void> => {
+    if (isProcessing || id === activeConversationId) return
+    const conversation = await window.api.conversations.get(id)
+    if (conversation) openConversation(conversation)
+  }
+
+  const handleRename = async (id: string): Promise<void> => {
+    setRenamingId(null)
+    if (renameText.trim()) {
+      await window.api.conversations.rename(id, renameText)
+      setVersion(version + 1)
+    }
+  }
+
+  const handleDelete = async (summary: ConversationSummary): Promise<void> => {
+    if (!confirm(`Delete "${summary.title}"? This cannot be undone.`)) return
+    await window.api.conversations.delete(summary.id)
+    if (summary.id === activeConversationId) clearMessages()
+    setVersion(version + 1)
+  }
+
+  if (isCollapsed) {
+    return (
+      <div className="w-10 bg-slate-800/60 border-r border-slate-700 flex flex-col items-center py-2 gap-2">
+        <button
+          onClick={() => setIsCollapsed(false)}
+          className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-slate-200"
+          title="Show conversations"
+        >
+          <PanelLeftOpen className="w-4 h-4" />
+        </button>
+        <button
+          onClick={clearMessages}
+          disabled={isProcessing}
+          className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-slate-200 disabled:opacity-50"
+          title="New conversation"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    )
+  }
+
+  const isSearching = query.trim() !== ''
+
+  return (
+    <div className="w-56 bg-slate-800/60 border-r border-slate-700 flex flex-col overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-2 border-b border-slate-700">
+        <MessagesSquare className="w-4 h-4 text-slate-400" />
+        <span className="text-xs font-medium text-slate-300 uppercase tracking-wide flex-1">
+          Conversations
+        </span>
+        <button
+          onClick={clearMessages}
+          disabled={isProcessing}
+          className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-slate-200 disabled:opacity-50"
+          title="New conversation"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => setIsCollapsed(true)}
+          className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-slate-200"
+          title="Hide conversations"
+        >
+          <PanelLeftClose className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="p-2">
+        <div className="flex items-center gap-1.5 px-2 py-1 bg-slate-900 border border-slate-600 rounded focus-within:border-sky-500">
+          <Search className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="flex-1 min-w-0 bg-transparent text-xs text-slate-200 placeholder-slate-600 focus:outline-none"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="text-slate-500 hover:text-slate-300">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-0.5">
+        {isSearching ? (
+          hits.length > 0 ? (
+            hits.map((hit) => (
+              <button
+                key={`${hit.conversationId}-${hit.messageId}`}
+                onClick={() => handleOpen(hit.conversationId)}
+                disabled={isProcessing}
+                className="w-full text-left p-2 rounded hover:bg-slate-700/60 disabled:opacity-50"
+              >
+                <p className="text-xs text-slate-200 truncate">{hit.title}</p>
+                <p className="text-[11px] text-slate-400 line-clamp-2">
+                  <span className="text-slate-500">{hit.role === 'user' ? 'You: ' : ''}</span>
+                  {hit.snippet}
+                </p>
+              </button>
+            ))
+          ) : (
+            <p className="text-xs text-slate-500 text-center py-4">No matches</p>
+          )
+        ) : conversations.length > 0 ? (
+          conversations.map((summary) => (
+            <div
+              key={summary.id}
+              className={`group rounded ${summary.id === activeConversationId ? 'bg-slate-700' : 'hover:bg-slate-700/60'}`}
+            >
+              {renamingId === summary.id ? (
+                <input
+                  autoFocus
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onBlur={() => handleRename(summary.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(summary.id)
+                    if (e.key === 'Escape') setRenamingId(null)
+                  }}
+                  className="w-full px-2 py-1.5 bg-slate-900 border border-sky-500 rounded text-xs text-slate-200 focus:outline-none"
+                />
+              ) : (
+                <div className="flex items-start">
+                  <button
+                    onClick={() => handleOpen(summary.id)}
+                    disabled={isProcessing}
+                    className="flex-1 min-w-0 text-left p-2 disabled:opacity-50"
+                  >
+                    <p className="text-xs text-slate-200 truncate">{summary.title}</p>
+                    <p className="text-[10px] text-slate-500">
+                      {formatWhen(summary.updatedAt)} · {summary.messageCount} messages
+                    </p>
+                  </button>
+                  <div className="hidden group-hover:flex items-center gap-0.5 p-1">
+                    <button
+                      onClick={() => {
+                        setRenamingId(summary.id)
+                        setRenameText(summary.title)
+                      }}
+                      className="p-1 rounded text-slate-500 hover:text-slate-200"
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(summary)}
+                      disabled={isProcessing && summary.id === activeConversationId}
+                      className="p-1 rounded text-slate-500 hover:text-red-400 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <p className="text-xs text-slate-500 text-center py-4">
+            Conversations in this folder are saved here
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import { Copy, Loader2, Search, Trash2, CheckCircle, AlertCircle } from 'lucide-react'
+import { useAppStore } from '../stores/appStore'
+
+interface Props {
+  defaultFolder?: string
+}
+
+// Rendering thousands of groups would stall the panel; the biggest ones come first anyway
+const MAX_GROUPS_SHOWN = 50
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+function parentFolder(filePath: string): string {
+  return filePath.split(/[/\\]/).slice(-3, -1).join('/')
+}
+
+/**
+ * Groups of files with identical content; the user picks the copy to keep and the
+ * rest are queued for deletion in the Review panel
+ */
+export default function DuplicatesView({ defaultFolder }: Props): React.ReactElement {
+  const folders = useAppStore((state) => state.folders)
+  const duplicateScan = useAppStore((state) => state.duplicateScan)
+  const setDuplicateScan = useAppStore((state) => state.setDuplicateScan)
+  const highlightFiles = useAppStore((state) => state.highlightFiles)
+
+  const [folderPath, setFolderPath] = useState(
+    duplicateScan?.folderPath || defaultFolder || folders[0]?.path || ''
+  )
+  const [keep, setKeep] = useState<Record<string, string>>({}) // Group hash → path to keep
+  const [isScanning, setIsScanning] = useState(false)
+  const [isQueueing, setIsQueueing] = useState(false)
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const keptPath = (group: DuplicateGroup): string => keep[group.hash] ?? group.files[0].path
+
+  const handleScan = async (): Promise<void> => {
+    if (!folderPath) return
+    setIsScanning(true)
+    setResult(null)
+    try {
+      setDuplicateScan(await window.api.storage.findDuplicates(folderPath))
+      setKeep({})
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const queueCopies = async (groups: DuplicateGroup[]): Promise<void> => {
+    if (!duplicateScan) return
+    setIsQueueing(true)
+    try {
+      const queuedPaths = new Set<string>()
+      for (const group of groups) {
+        const kept = keptPath(group)
+        const copies = group.files.filter((f) => f.path !== kept).map((f) => f.path)
+        const name = group.files.find((f) => f.path === kept)?.name ?? ''
+        const actions = await window.api.pending.queueMultiple(copies, `Duplicate of ${name}`)
+        actions.forEach((action) => queuedPaths.add(action.sourcePath))
+      }
+
+      highlightFiles([...queuedPaths], 'delete', 3000)
+
+      // Keep only what is still undecided in the list
+      const remaining = duplicateScan.groups
+        .map((group) => {
+          const files = group.files.filter((f) => !queuedPaths.has(f.path))
+          return { ...group, files, recoverableBytes: group.size * (files.length - 1) }
+        })
+        .filter((group) => group.files.length > 1)
+      setDuplicateScan({
+        ...duplicateScan,
+        groups: remaining,
+        totalRecoverable: remaining.reduce((sum, group) => sum + group.recoverableBytes, 0)
+      })
+      setResult({ type: 'success', message: `${queuedPaths.size} copies queued for review` })
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    } finally {
+      setIsQueueing(false)
+    }
+  }
+
+  const scanMatchesFolder = duplicateScan?.folderPath === folderPath
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={folderPath}
+          onChange={(e) => setFolderPath(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200"
+        >
+          {folderPath && !folders.some((f) => f.path === folderPath) && (
+            <option value={folderPath}>{folderPath}</option>
+          )}
+          {folders.map((folder) => (
+            <option key={folder.path} value={folder.path}>
+              {folder.path}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleScan}
+          disabled={!folderPath || isScanning}
+          className="flex items-center gap-1.5 px-3 py-1 rounded bg-purple-700 hover:bg-purple-600 disabled:bg-slate-700 disabled:text-slate-500 text-xs text-white"
+        >
+          {isScanning ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Search className="w-3.5 h-3.5" />
+          )}
+          {isScanning ? 'Scanning...' : 'Scan'}
+        </button>
+      </div>
+
+      {result && (
+        <div
+          className={`flex items-center gap-2 p-2 rounded-lg text-xs ${result.type === 'success' ? 'bg-emerald-900/30 border border-emerald-700/50 text-emerald-300' : 'bg-red-900/30 border border-red-700/50 text-red-300'}`}
+        >
+          {result.type === 'success' ? (
+            <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          ) : (
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          )}
+          <span>{result.message}</span>
+        </div>
+      )}
+
+      {!duplicateScan && !isScanning && (
+        <p className="text-xs text-slate-500 text-center py-4">
+          Scan a folder to find files with identical content, whatever their names.
+        </p>
+      )}
+
+      {duplicateScan && scanMatchesFolder && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-slate-700/50 rounded-lg p-2">
+              <div className="text-lg font-bold text-purple-300">
+                {formatBytes(duplicateScan.totalRecoverable)}
+              </div>
+              <div className="text-xs text-slate-400">Recoverable</div>
+            </div>
+            <div className="bg-slate-700/50 rounded-lg p-2">
+              <div className="text-lg font-bold text-slate-100">{duplicateScan.groups.length}</div>
+              <div className="text-xs text-slate-400">
+                Groups in {duplicateScan.filesScanned.toLocaleString()} files
+              </div>
+            </div>
+          </div>
+
+          {duplicateScan.groups.length > 0 && (
+            <button
+              onClick={() => queueCopies(duplicateScan.groups)}
+              disabled={isQueueing}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-red-900/30 hover:bg-red-900/50 border border-red-700/50 rounded-lg text-xs text-red-300 disabled:opacity-50"
+            >
+              {isQueueing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+              Queue every extra copy for deletion
+            </button>
+          )}
+
+          <div className="space-y-2">
+            {duplicateScan.groups.slice(0, MAX_GROUPS_SHOWN).map((group) => (
+              <div key={group.hash} className="bg-slate-700/30 rounded-lg p-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1 text-xs text-slate-300">
+                    <Copy className="w-3 h-3 text-purple-400" />
+                    {group.files.length} × {formatBytes(group.size)}
+                  </span>
+                  <button
+                    onClick={() => queueCopies([group])}
+                    disabled={isQueueing}
+                    className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-300 disabled:opacity-50"
+                  >
+                    Queue copies ({formatBytes(group.recoverableBytes)})
+                  </button>
+                </div>
+                {group.files.map((file) => {
+                  const isKept = keptPath(group) === file.path
+                  return (
+                    <label
+                      key={file.path}
+                      className={`flex items-center gap-2 px-1 py-0.5 rounded text-xs cursor-pointer ${isKept ? 'bg-emerald-900/20' : 'hover:bg-slate-700/40'}`}
+                      title={file.path}
+                    >
+                      <input
+                        type="radio"
+                        name={group.hash}
+                        checked={isKept}
+                        onChange={() => setKeep((prev) => ({ ...prev, [group.hash]: file.path }))}
+                        className="accent-emerald-500"
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate text-slate-200">{file.name}</span>
+                        <span className="block truncate text-[10px] text-slate-500">
+                          {parentFolder(file.path)} · {new Date(file.modified).toLocaleDateString()}
+                        </span>
+                      </span>
+                      {isKept && <span className="text-[10px] text-emerald-400">Keep</span>}
+                    </label>
+                  )
+                })}
+              </div>
+            ))}
+            {duplicateScan.groups.length > MAX_GROUPS_SHOWN && (
+              <p className="text-xs text-slate-500 text-center">
+                +{duplicateScan.groups.length - MAX_GROUPS_SHOWN} smaller groups
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
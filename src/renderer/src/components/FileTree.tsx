@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import {
   ChevronRight,
   ChevronDown,
@@ -105,6 +105,29 @@ function FileTreeItem({
 
   const isMultiSelected = isFileSelected(entry.path)
 
+  // Open the folders leading to a path revealed from elsewhere, e.g. the storage treemap
+  const revealPath = useAppStore((state) => state.revealPath)
+  const itemRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!revealPath) return
+    if (revealPath === entry.path) {
+      itemRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+      return
+    }
+    const isAncestor =
+      revealPath.startsWith(entry.path + '/') || revealPath.startsWith(entry.path + '\\')
+    if (!entry.isDirectory || !isAncestor || isExpanded) return
+
+    window.api.fs
+      .expandDir(entry.path)
+      .then((loadedChildren) => {
+        setChildren(loadedChildren)
+        setIsExpanded(true)
+      })
+      .catch((err) => console.error('Failed to reveal in directory:', err))
+  }, [revealPath, entry.path, entry.isDirectory, isExpanded])
+
   useEffect(() => {
     if (entry.children) {
       setChildren(entry.children)
@@ -240,6 +263,7 @@ function FileTreeItem({
   return (
     <div>
       <div
+        ref={itemRef}
         className={`flex items-center gap-1 px-2 py-1.5 cursor-pointer rounded-md transition-all ${getItemStyles()}`}
         style={{ paddingLeft: `${depth * 12 + 6}px` }}
         onClick={handleClick}
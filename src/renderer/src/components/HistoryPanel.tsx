@@ -0,0 +1,403 @@
+import { useState, useEffect } from 'react'
+import {
+  History,
+  RefreshCw,
+  Undo2,
+  ChevronDown,
+  ChevronRight,
+  MessageSquare,
+  Orbit,
+  AlertCircle,
+  Layers
+} from 'lucide-react'
+
+const OPERATION_LABELS: Record<UndoOperation['type'], string> = {
+  move: 'Moved',
+  rename: 'Renamed',
+  copy: 'Copied',
+  write: 'Wrote',
+  create: 'Created',
+  trash: 'Trashed'
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday ? date.toLocaleTimeString() : date.toLocaleString()
+}
+
+function describe(op: UndoOperation): string {
+  if (op.type === 'rename')
+    return `${fileName(op.originalPath)} → ${op.newName || fileName(op.newPath || '')}`
+  if ((op.type === 'move' || op.type === 'copy') && op.newPath) {
+    return `${fileName(op.originalPath)} → ${op.newPath.split(/[/\\]/).slice(-2).join('/')}`
+  }
+  return fileName(op.newPath || op.originalPath)
+}
+
+type HistoryBlock =
+  | { kind: 'operation'; operation: UndoOperation }
+  | { kind: 'transaction'; transaction: UndoTransaction; operations: UndoOperation[] }
+
+/** Collapse a group's operations into transactions, keeping newest-first order */
+function toBlocks(group: UndoGroup): HistoryBlock[] {
+  const blocks: HistoryBlock[] = []
+  const byTransaction = new Map<string, UndoOperation[]>()
+
+  for (const op of group.operations) {
+    const transaction = group.transactions.find((t) => t.id === op.transactionId)
+    if (!transaction) {
+      blocks.push({ kind: 'operation', operation: op })
+      continue
+    }
+    const existing = byTransaction.get(transaction.id)
+    if (existing) {
+      existing.push(op)
+    } else {
+      const operations = [op]
+      byTransaction.set(transaction.id, operations)
+      blocks.push({ kind: 'transaction', transaction, operations })
+    }
+  }
+
+  return blocks
+}
+
+function ConflictList({ conflicts }: { conflicts: UndoConflict[] }): React.ReactElement {
+  return (
+    <ul className="space-y-1 mt-1">
+      {conflicts.map((c) => (
+        <li key={c.operation.id} className="text-[10px]">
+          <span className="text-red-300" title={c.operation.newPath || c.operation.originalPath}>
+            {fileName(c.operation.newPath || c.operation.originalPath)}
+          </span>
+          <span className="text-slate-500"> — {c.reason}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface HistoryPanelProps {
+  onUndo?: () => void
+}
+
+export default function HistoryPanel({ onUndo }: HistoryPanelProps): React.ReactElement {
+  const [groups, setGroups] = useState<UndoGroup[]>([])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<UndoTransactionPreview | null>(null)
+  const [report, setReport] = useState<{ name: string; result: UndoTransactionResult } | null>(null)
+
+  const fetchHistory = (): Promise<void> =>
+    window.api.undo
+      .getHistory()
+      .then((history) => {
+        setGroups(history)
+        // Expand the most recent group by default
+        if (history.length > 0) {
+          setExpanded((prev) => (prev.size === 0 ? new Set([history[0].source.id]) : prev))
+        }
+      })
+      .catch((err) => console.error('Failed to fetch undo history:', err))
+      .finally(() => setIsLoading(false))
+
+  const handleRefresh = (): void => {
+    setIsLoading(true)
+    fetchHistory()
+  }
+
+  useEffect(() => {
+    fetchHistory()
+    const unsub = window.api.undo.onOperationAdded(() => fetchHistory())
+    return () => unsub()
+  }, [])
+
+  const toggleGroup = (id: string): void => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleUndo = async (op: UndoOperation): Promise<void> => {
+    setBusyId(op.id)
+    setError(null)
+    try {
+      const result = await window.api.undo.undo(op.id)
+      if (!result.success) {
+        setError(result.error || 'Undo failed')
+      } else {
+        onUndo?.()
+      }
+      await fetchHistory()
+    } catch (err) {
+      setError(String(err))
+    }
+    setBusyId(null)
+  }
+
+  const handlePreviewTransaction = async (transactionId: string): Promise<void> => {
+    setBusyId(transactionId)
+    setError(null)
+    setReport(null)
+    try {
+      const result = await window.api.undo.previewTransaction(transactionId)
+      if (result) {
+        setPreview(result)
+      } else {
+        setError('Transaction not found')
+      }
+    } catch (err) {
+      setError(String(err))
+    }
+    setBusyId(null)
+  }
+
+  const handleUndoTransaction = async (skipConflicts: boolean): Promise<void> => {
+    if (!preview) return
+    const { transaction } = preview
+    setBusyId(transaction.id)
+    try {
+      const result = await window.api.undo.undoTransaction(transaction.id, { skipConflicts })
+      setPreview(null)
+      setReport({ name: transaction.name, result })
+      if (result.undone > 0) {
+        onUndo?.()
+      }
+      await fetchHistory()
+    } catch (err) {
+      setError(String(err))
+    }
+    setBusyId(null)
+  }
+
+  const renderOperation = (op: UndoOperation, indent: string): React.ReactElement => (
+    <div
+      key={op.id}
+      className={`${indent} pr-3 py-1.5 flex items-center gap-2 bg-slate-800/30 hover:bg-slate-700/30`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-slate-300 truncate" title={op.newPath || op.originalPath}>
+          <span className="text-slate-500">{OPERATION_LABELS[op.type]}</span> {describe(op)}
+        </p>
+        <p className="text-[10px] text-slate-600">{formatTime(op.timestamp)}</p>
+      </div>
+      <button
+        onClick={() => handleUndo(op)}
+        disabled={busyId !== null}
+        className="p-1 rounded hover:bg-slate-600 text-slate-400 hover:text-amber-400 disabled:opacity-50 transition-colors flex-shrink-0"
+        title="Undo this operation"
+      >
+        {busyId === op.id ? (
+          <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+        ) : (
+          <Undo2 className="w-3.5 h-3.5" />
+        )}
+      </button>
+    </div>
+  )
+
+  const renderTransaction = (
+    transaction: UndoTransaction,
+    operations: UndoOperation[]
+  ): React.ReactElement => {
+    const isPreviewing = preview?.transaction.id === transaction.id
+    const isOpen = expanded.has(transaction.id)
+    return (
+      <div key={transaction.id} className="border-t border-slate-700/30">
+        <div className="pl-6 pr-3 py-1.5 flex items-center gap-2">
+          <button
+            onClick={() => toggleGroup(transaction.id)}
+            className="flex-1 min-w-0 flex items-center gap-1.5 text-left"
+          >
+            <Layers className="w-3 h-3 text-amber-400 flex-shrink-0" />
+            <span className="text-xs text-slate-200 truncate" title={transaction.name}>
+              {transaction.name}
+            </span>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">({operations.length})</span>
+          </button>
+          <button
+            onClick={() => handlePreviewTransaction(transaction.id)}
+            disabled={busyId !== null}
+            className="px-1.5 py-0.5 rounded text-[10px] text-amber-300 hover:bg-amber-900/40 disabled:opacity-50 flex-shrink-0"
+            title="Preview undoing the whole run"
+          >
+            Undo all
+          </button>
+        </div>
+
+        {isPreviewing && preview && (
+          <div className="mx-3 mb-2 p-2 rounded bg-slate-900/60 border border-slate-700 text-xs">
+            <p className="text-slate-300">
+              {preview.operations.length - preview.conflicts.length} of {preview.operations.length}{' '}
+              operation{preview.operations.length !== 1 ? 's' : ''} can be reverted
+            </p>
+            {preview.conflicts.length > 0 && (
+              <div className="mt-1">
+                <p className="text-red-400 flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3" />
+                  {preview.conflicts.length} cannot be put back:
+                </p>
+                <ConflictList conflicts={preview.conflicts} />
+              </div>
+            )}
+            <div className="flex gap-2 mt-2">
+              {preview.conflicts.length === 0 ? (
+                <button
+                  onClick={() => handleUndoTransaction(false)}
+                  disabled={busyId !== null}
+                  className="flex-1 px-2 py-1 rounded bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50"
+                >
+                  Undo {preview.operations.length}
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleUndoTransaction(true)}
+                  disabled={
+                    busyId !== null || preview.conflicts.length === preview.operations.length
+                  }
+                  className="flex-1 px-2 py-1 rounded bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50"
+                >
+                  Undo the rest
+                </button>
+              )}
+              <button
+                onClick={() => setPreview(null)}
+                className="flex-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isOpen && operations.map((op) => renderOperation(op, 'pl-10'))}
+      </div>
+    )
+  }
+
+  if (isLoading && groups.length === 0) {
+    return (
+      <div className="p-4 text-center text-slate-500 text-sm">
+        <RefreshCw className="w-5 h-5 animate-spin mx-auto mb-2" />
+        Loading...
+      </div>
+    )
+  }
+
+  if (groups.length === 0 && !report) {
+    return (
+      <div className="p-4 text-center text-slate-500 text-sm">
+        <History className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+        <p>No file operations recorded</p>
+        <p className="text-xs mt-1">Moves, renames and writes will appear here</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-slate-400">
+          <History className="w-4 h-4" />
+          <span className="font-medium text-sm">Operation History</span>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading}
+          className="p-1 rounded hover:bg-slate-700 text-slate-500 hover:text-slate-300"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 bg-red-900/30 border-b border-red-800 flex items-start gap-2 text-xs text-red-300">
+          <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {report && (
+        <div
+          className={`px-3 py-2 border-b text-xs ${report.result.conflicts.length > 0 ? 'bg-amber-900/20 border-amber-800' : 'bg-emerald-900/20 border-emerald-800'}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-slate-200 truncate" title={report.name}>
+              Reverted {report.result.undone} from &quot;{report.name}&quot;
+            </span>
+            <button
+              onClick={() => setReport(null)}
+              className="text-slate-500 hover:text-slate-300 ml-2"
+            >
+              ×
+            </button>
+          </div>
+          {report.result.conflicts.length > 0 && (
+            <>
+              <p className="text-amber-400 mt-1">
+                {report.result.conflicts.length} could not be put back:
+              </p>
+              <ConflictList conflicts={report.result.conflicts} />
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {groups.map((group) => {
+          const isOpen = expanded.has(group.source.id)
+          const SourceIcon = group.source.kind === 'watcher' ? Orbit : MessageSquare
+          return (
+            <div
+              key={`${group.source.kind}-${group.source.id}`}
+              className="border-b border-slate-700/50"
+            >
+              <button
+                onClick={() => toggleGroup(group.source.id)}
+                className="w-full px-3 py-2 flex items-center gap-2 text-left hover:bg-slate-700/30"
+              >
+                {isOpen ? (
+                  <ChevronDown className="w-3 h-3 text-slate-500" />
+                ) : (
+                  <ChevronRight className="w-3 h-3 text-slate-500" />
+                )}
+                <SourceIcon
+                  className={`w-3.5 h-3.5 flex-shrink-0 ${group.source.kind === 'watcher' ? 'text-emerald-400' : 'text-sky-400'}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-slate-200 truncate">
+                    {group.source.label || group.source.id}
+                  </p>
+                  <p className="text-[10px] text-slate-500">
+                    {group.operations.length} operation{group.operations.length !== 1 ? 's' : ''} •{' '}
+                    {formatTime(group.lastActivityAt)}
+                  </p>
+                </div>
+              </button>
+
+              {isOpen &&
+                toBlocks(group).map((block) =>
+                  block.kind === 'transaction'
+                    ? renderTransaction(block.transaction, block.operations)
+                    : renderOperation(block.operation, 'pl-8')
+                )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
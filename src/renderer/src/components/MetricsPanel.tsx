@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { BarChart3, TrendingDown, RefreshCw, Clock } from 'lucide-react'
+import { BarChart3, TrendingDown, RefreshCw, Clock, Scissors } from 'lucide-react'
 
 interface SessionMetrics {
   tasksCompleted: number
@@ -10,6 +10,7 @@ interface SessionMetrics {
   totalCost: number
   sessionDuration: number
   estimatedSavings: number
+  tokensSaved: { history: number; toolResults: number }
 }
 
 function formatCost(cost: number): string {
@@ -50,6 +51,7 @@ export default function MetricsPanel() {
   }
 
   const totalTasks = Object.values(metrics.modelUsage).reduce((a, b) => a + b, 0)
+  const tokensSaved = metrics.tokensSaved.history + metrics.tokensSaved.toolResults
   const savingsPercent =
     metrics.totalCost > 0
       ? ((metrics.estimatedSavings / (metrics.totalCost + metrics.estimatedSavings)) * 100).toFixed(
@@ -184,6 +186,27 @@ export default function MetricsPanel() {
         </div>
       )}
 
+      {/* Context Budget */}
+      <div className="bg-slate-700/30 rounded-lg p-3 space-y-2">
+        <div className="text-slate-400 text-xs font-medium uppercase tracking-wide">Context</div>
+
+        <div className="flex justify-between items-center text-emerald-400">
+          <span className="flex items-center gap-1">
+            <Scissors className="w-3 h-3" />
+            Tokens kept out
+          </span>
+          <span className="font-mono">{tokensSaved.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between text-xs text-slate-500">
+          <span>Older turns summarised</span>
+          <span className="font-mono">{metrics.tokensSaved.history.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between text-xs text-slate-500">
+          <span>Large tool results trimmed</span>
+          <span className="font-mono">{metrics.tokensSaved.toolResults.toLocaleString()}</span>
+        </div>
+      </div>
+
       {/* Tokens */}
       <div className="text-xs text-slate-500 space-y-1 pt-2 border-t border-slate-700">
         <div className="flex justify-between">
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react'
+import { Shield, RefreshCw, Plus, X } from 'lucide-react'
+
+const MODE_LABELS: Record<PermissionMode, string> = {
+  allow: 'Always allow',
+  ask: 'Ask every time',
+  deny: 'Never allow'
+}
+
+const MODES = Object.keys(MODE_LABELS) as PermissionMode[]
+
+const selectClass =
+  'px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-sky-500'
+
+function shortPath(fullPath: string): string {
+  return fullPath.split(/[/\\]/).slice(-2).join('/')
+}
+
+/**
+ * What the assistant may do with each file tool, everywhere or inside one folder
+ */
+export default function PermissionsPanel(): React.ReactElement {
+  const [tools, setTools] = useState<GovernedTool[]>([])
+  const [policies, setPolicies] = useState<PermissionPolicy[]>([])
+  const [roots, setRoots] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [newTool, setNewTool] = useState('')
+  const [newFolder, setNewFolder] = useState('')
+  const [newMode, setNewMode] = useState<PermissionMode>('ask')
+
+  const fetchPolicies = (): Promise<void> =>
+    Promise.all([window.api.permissions.get(), window.api.sandbox.getRoots()])
+      .then(([result, grantedRoots]) => {
+        setTools(result.tools)
+        setPolicies(result.policies)
+        setRoots(grantedRoots)
+      })
+      .catch((err) => console.error('Failed to fetch permissions:', err))
+      .finally(() => setIsLoading(false))
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [])
+
+  const toolMode = (tool: GovernedTool): PermissionMode =>
+    policies.find((p) => p.tool === tool.name && !p.folder)?.mode ?? tool.defaultMode
+
+  const handleSet = async (tool: string, mode: PermissionMode, folder?: string): Promise<void> => {
+    await window.api.permissions.set(tool, mode, folder)
+    await fetchPolicies()
+  }
+
+  const handleRemove = async (tool: string, folder?: string): Promise<void> => {
+    await window.api.permissions.remove(tool, folder)
+    await fetchPolicies()
+  }
+
+  const handleAddOverride = async (): Promise<void> => {
+    const tool = newTool || tools[0]?.name
+    const folder = newFolder || roots[0]
+    if (!tool || !folder) return
+    await handleSet(tool, newMode, folder)
+  }
+
+  const folderPolicies = policies
+    .filter((p) => p.folder)
+    .sort((a, b) => a.folder!.localeCompare(b.folder!) || a.tool.localeCompare(b.tool))
+  const labelFor = (toolName: string): string =>
+    tools.find((t) => t.name === toolName)?.label ?? toolName
+
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center text-slate-500 text-sm">
+        <RefreshCw className="w-5 h-5 animate-spin mx-auto mb-2" />
+        Loading...
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-slate-700">
+        <div className="flex items-center gap-2 text-slate-400">
+          <Shield className="w-4 h-4" />
+          <span className="font-medium text-sm">Permissions</span>
+        </div>
+        <p className="text-[11px] text-slate-500 mt-1">
+          Calls that need approval wait in Review until you decide.
+        </p>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-slate-700">
+        <p className="text-[11px] uppercase tracking-wide text-slate-500">Everywhere</p>
+        {tools.map((tool) => (
+          <div key={tool.name} className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-300">{tool.label}</span>
+            <select
+              value={toolMode(tool)}
+              onChange={(e) => handleSet(tool.name, e.target.value as PermissionMode)}
+              className={selectClass}
+            >
+              {MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 space-y-2 flex-1 overflow-y-auto">
+        <p className="text-[11px] uppercase tracking-wide text-slate-500">In specific folders</p>
+        {folderPolicies.length === 0 && (
+          <p className="text-xs text-slate-600">No folder overrides yet.</p>
+        )}
+        {folderPolicies.map((policy) => (
+          <div key={`${policy.tool}:${policy.folder}`} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-slate-300 truncate">{labelFor(policy.tool)}</p>
+              <p className="text-[10px] text-slate-500 truncate" title={policy.folder}>
+                {shortPath(policy.folder!)}
+              </p>
+            </div>
+            <select
+              value={policy.mode}
+              onChange={(e) =>
+                handleSet(policy.tool, e.target.value as PermissionMode, policy.folder)
+              }
+              className={selectClass}
+            >
+              {MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleRemove(policy.tool, policy.folder)}
+              className="p-1 rounded hover:bg-slate-700 text-slate-500 hover:text-slate-300"
+              title="Remove override"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+
+        {roots.length > 0 ? (
+          <div className="pt-2 mt-2 border-t border-slate-800 space-y-1.5">
+            <div className="flex gap-1.5">
+              <select
+                value={newTool || tools[0]?.name}
+                onChange={(e) => setNewTool(e.target.value)}
+                className={`${selectClass} flex-1 min-w-0`}
+              >
+                {tools.map((tool) => (
+                  <option key={tool.name} value={tool.name}>
+                    {tool.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={newMode}
+                onChange={(e) => setNewMode(e.target.value as PermissionMode)}
+                className={selectClass}
+              >
+                {MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-1.5">
+              <select
+                value={newFolder || roots[0]}
+                onChange={(e) => setNewFolder(e.target.value)}
+                className={`${selectClass} flex-1 min-w-0`}
+              >
+                {roots.map((root) => (
+                  <option key={root} value={root}>
+                    {shortPath(root)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddOverride}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-sky-700 hover:bg-sky-600 text-xs text-white"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-[11px] text-slate-600">Add a folder to set folder overrides.</p>
+        )}
+      </div>
+    </div>
+  )
+}
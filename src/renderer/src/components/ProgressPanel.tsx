@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import {
   CheckCircle2,
   Circle,
@@ -11,7 +12,11 @@ import {
   Move,
   Copy,
   PenLine,
-  Clock
+  Clock,
+  ListChecks,
+  ChevronRight,
+  ChevronDown,
+  Play
 } from 'lucide-react'
 import { useAppStore, TaskStep } from '../stores/appStore'
 import momentumLogo from '../assets/momentum.png'
@@ -105,14 +110,143 @@ function StepItem({ step }: { step: TaskStep }) {
   )
 }
 
-export default function ProgressPanel() {
-  const { currentTask, taskHistory, isProcessing } = useAppStore()
+interface PlanChecklistProps {
+  plan: ActionPlan
+  onRun: (plan: ActionPlan) => void
+  onDiscard: () => void
+}
+
+/**
+ * Proposed tool calls to tick off and tweak before any of them run
+ */
+function PlanChecklist({ plan, onRun, onDiscard }: PlanChecklistProps): React.ReactElement {
+  const [steps, setSteps] = useState(plan.steps)
+  const [approved, setApproved] = useState(() => new Set(plan.steps.map((step) => step.id)))
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const toggleApproved = (id: string): void => {
+    const next = new Set(approved)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setApproved(next)
+  }
+
+  const updateArg = (id: string, key: string, value: string): void => {
+    setSteps(
+      steps.map((step) =>
+        step.id === id ? { ...step, args: { ...step.args, [key]: value } } : step
+      )
+    )
+  }
+
+  const approvedSteps = steps.filter((step) => approved.has(step.id))
+
+  return (
+    <div className="p-3 border-b border-slate-700 space-y-2">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-4 h-4 text-sky-400" />
+        <span className="text-sm font-medium text-slate-200">Review plan</span>
+      </div>
+      <p className="text-xs text-slate-400">{plan.summary}</p>
+
+      <div className="space-y-1">
+        {steps.map((step, index) => {
+          const isExpanded = expandedId === step.id
+          return (
+            <div key={step.id} className="rounded-md bg-slate-700/30">
+              <div className="flex items-start gap-2 p-2">
+                <input
+                  type="checkbox"
+                  checked={approved.has(step.id)}
+                  onChange={() => toggleApproved(step.id)}
+                  className="mt-0.5 accent-sky-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={`text-xs ${approved.has(step.id) ? 'text-slate-200' : 'text-slate-500 line-through'}`}
+                  >
+                    {index + 1}. {step.description}
+                  </p>
+                  <p className="text-[10px] text-slate-500">{getToolLabel(step.tool)}</p>
+                </div>
+                {Object.keys(step.args).length > 0 && (
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : step.id)}
+                    className="p-0.5 text-slate-500 hover:text-slate-300"
+                    title="Edit arguments"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-3.5 h-3.5" />
+                    ) : (
+                      <ChevronRight className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                )}
+              </div>
+              {isExpanded && (
+                <div className="px-2 pb-2 space-y-1">
+                  {Object.entries(step.args).map(([key, value]) => (
+                    <label key={key} className="block">
+                      <span className="text-[10px] text-slate-500">{key}</span>
+                      <input
+                        value={value}
+                        onChange={(e) => updateArg(step.id, key, e.target.value)}
+                        className="w-full px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-sky-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onDiscard}
+          className="px-2 py-1 rounded text-xs text-slate-400 hover:text-slate-200"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => onRun({ ...plan, steps: approvedSteps })}
+          disabled={approvedSteps.length === 0}
+          className="ml-auto flex items-center gap-1 px-3 py-1 rounded bg-sky-700 hover:bg-sky-600 disabled:bg-slate-700 disabled:text-slate-500 text-xs text-white"
+        >
+          <Play className="w-3.5 h-3.5" />
+          Run {approvedSteps.length} of {steps.length} steps
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface ProgressPanelProps {
+  onRunPlan: (plan: ActionPlan) => void
+}
+
+export default function ProgressPanel({ onRunPlan }: ProgressPanelProps) {
+  const { currentTask, taskHistory, isProcessing, proposedPlan, setProposedPlan } = useAppStore()
 
   // Show current task or recent history
   const recentTasks = taskHistory.slice(0, 5)
 
   return (
     <div className="flex flex-col h-full">
+      {/* Plan awaiting approval */}
+      {proposedPlan && !isProcessing && (
+        <PlanChecklist
+          key={proposedPlan.summary}
+          plan={proposedPlan}
+          onRun={onRunPlan}
+          onDiscard={() => setProposedPlan(null)}
+        />
+      )}
+
       {/* Current Task */}
       {currentTask && (
         <div className="p-3 border-b border-slate-700">
@@ -172,7 +306,7 @@ export default function ProgressPanel() {
       )}
 
       {/* Empty state */}
-      {!isProcessing && !currentTask && recentTasks.length === 0 && (
+      {!isProcessing && !currentTask && !proposedPlan && recentTasks.length === 0 && (
         <div className="flex-1 flex items-center justify-center p-4">
           <div className="text-center">
             <img src={momentumLogo} alt="" className="w-8 h-8 mx-auto mb-2 opacity-20 grayscale" />
@@ -1,17 +1,35 @@
 import { useState, useEffect, useRef } from 'react'
-import { AlertTriangle, Trash2, Check, X, RefreshCw, FileWarning, CheckCircle } from 'lucide-react'
+import {
+  AlertTriangle,
+  Trash2,
+  Check,
+  X,
+  RefreshCw,
+  FileWarning,
+  CheckCircle,
+  ArrowRight,
+  Copy,
+  Pencil,
+  ShieldQuestion
+} from 'lucide-react'
 import { useAppStore } from '../stores/appStore'
 
 // Use the type from preload
 type PendingAction = {
   id: string
-  type: 'delete' | 'move' | 'rename' | 'overwrite'
+  type: 'delete' | 'move' | 'copy' | 'rename' | 'overwrite' | 'tool'
   sourcePath: string
   destinationPath?: string
   fileName: string
   fileSize: number
   reason?: string
   createdAt: string
+  watcherId?: string
+  confidence?: number
+  toolName?: string
+  toolSummary?: string
+  folder?: string
+  transfer?: 'move' | 'copy' | 'rename'
 }
 
 function formatSize(bytes: number): string {
@@ -121,7 +139,7 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
     setIsExecuting(true)
     try {
       const selectedActions = actions.filter((a) => selectedIds.has(a.id))
-      const paths = selectedActions.map((a) => a.sourcePath)
+      const paths = selectedActions.filter((a) => a.type === 'delete').map((a) => a.sourcePath)
 
       highlightFiles(paths, 'delete', 3000)
       await new Promise((resolve) => setTimeout(resolve, 500))
@@ -150,7 +168,7 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
   const handleDeleteAll = async () => {
     setIsExecuting(true)
     try {
-      const paths = actions.map((a) => a.sourcePath)
+      const paths = actions.filter((a) => a.type === 'delete').map((a) => a.sourcePath)
       highlightFiles(paths, 'delete', 3000)
 
       await new Promise((resolve) => setTimeout(resolve, 500))
@@ -198,6 +216,25 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
     }
   }
 
+  // Assistant tool calls wait here while the chat is paused; remembering the answer skips future prompts
+  const handleApproveTool = async (
+    e: React.MouseEvent,
+    id: string,
+    scope: 'once' | 'folder' | 'always'
+  ): Promise<void> => {
+    e.stopPropagation()
+    try {
+      await window.api.pending.approveTool(id, scope)
+      await fetchActions()
+      onComplete?.()
+    } catch (err) {
+      console.error('Failed to approve tool call:', err)
+    }
+  }
+
+  // Watchers queue low-confidence moves and renames here alongside deletions
+  const deletesOnly = actions.every((a) => a.type === 'delete')
+
   const totalSize = actions.reduce((sum, a) => sum + a.fileSize, 0)
   const selectedSize = actions
     .filter((a) => selectedIds.has(a.id))
@@ -230,8 +267,9 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
           <span className="font-medium text-sm">Review Required</span>
         </div>
         <p className="text-xs text-slate-400 mt-1">
-          {actions.length} file{actions.length !== 1 ? 's' : ''} marked for deletion (
-          {formatSize(totalSize)})
+          {deletesOnly
+            ? `${actions.length} file${actions.length !== 1 ? 's' : ''} marked for deletion (${formatSize(totalSize)})`
+            : `${actions.length} action${actions.length !== 1 ? 's' : ''} waiting for approval (${formatSize(totalSize)})`}
         </p>
       </div>
 
@@ -256,36 +294,100 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
       <div className="flex-1 overflow-y-auto">
         {actions.map((action) => {
           const isSelected = selectedIds.has(action.id)
+          const isDelete = action.type === 'delete'
+          const isTool = action.type === 'tool'
+          const ActionIcon = isDelete
+            ? FileWarning
+            : isTool
+              ? ShieldQuestion
+              : action.type === 'rename'
+                ? Pencil
+                : action.type === 'copy'
+                  ? Copy
+                  : ArrowRight
           return (
             <div
               key={action.id}
               onClick={() => toggleSelection(action.id)}
               className={`px-3 py-2.5 border-b border-slate-700/50 flex items-center gap-3 cursor-pointer transition-all ${
-                isSelected
-                  ? 'bg-red-900/30 hover:bg-red-900/40 border-l-2 border-red-500'
-                  : 'bg-slate-800/30 hover:bg-slate-700/50 border-l-2 border-transparent'
+                !isSelected
+                  ? 'bg-slate-800/30 hover:bg-slate-700/50 border-l-2 border-transparent'
+                  : isDelete
+                    ? 'bg-red-900/30 hover:bg-red-900/40 border-l-2 border-red-500'
+                    : 'bg-sky-900/30 hover:bg-sky-900/40 border-l-2 border-sky-500'
               }`}
             >
               <div
-                className={`w-5 h-5 rounded flex items-center justify-center flex-shrink-0 transition-colors ${isSelected ? 'bg-red-500 text-white' : 'bg-slate-700 border border-slate-600'}`}
+                className={`w-5 h-5 rounded flex items-center justify-center flex-shrink-0 transition-colors ${
+                  !isSelected
+                    ? 'bg-slate-700 border border-slate-600'
+                    : isDelete
+                      ? 'bg-red-500 text-white'
+                      : 'bg-sky-500 text-white'
+                }`}
               >
                 {isSelected && <Check className="w-3 h-3" />}
               </div>
-              <FileWarning
-                className={`w-4 h-4 flex-shrink-0 ${isSelected ? 'text-red-400' : 'text-amber-500'}`}
+              <ActionIcon
+                className={`w-4 h-4 flex-shrink-0 ${
+                  !isSelected ? 'text-amber-500' : isDelete ? 'text-red-400' : 'text-sky-400'
+                }`}
               />
               <div className="flex-1 min-w-0">
                 <p
-                  className={`text-sm truncate ${isSelected ? 'text-red-200' : 'text-slate-200'}`}
+                  className={`text-sm truncate ${!isSelected ? 'text-slate-200' : isDelete ? 'text-red-200' : 'text-sky-200'}`}
                   title={action.sourcePath}
                 >
-                  {action.fileName}
+                  {isTool ? action.toolSummary : action.fileName}
                 </p>
                 <p className="text-xs text-slate-500 truncate" title={action.sourcePath}>
                   {truncatePath(action.sourcePath, action.fileName)}
                 </p>
+                {action.destinationPath && (
+                  <p className="text-xs text-sky-400/80 truncate" title={action.destinationPath}>
+                    {action.type === 'overwrite'
+                      ? 'Replaces '
+                      : action.type === 'copy'
+                        ? 'Copy → '
+                        : '→ '}
+                    {truncatePath(
+                      action.destinationPath,
+                      action.destinationPath.split(/[/\\]/).pop() || ''
+                    )}
+                  </p>
+                )}
+                {isTool && (
+                  <div className="flex gap-1 mt-1">
+                    <button
+                      onClick={(e) => handleApproveTool(e, action.id, 'once')}
+                      className="px-1.5 py-0.5 rounded bg-sky-700 hover:bg-sky-600 text-[10px] text-white"
+                    >
+                      Allow once
+                    </button>
+                    {action.folder && (
+                      <button
+                        onClick={(e) => handleApproveTool(e, action.id, 'folder')}
+                        className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-200"
+                        title={action.folder}
+                      >
+                        Allow in this folder
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => handleApproveTool(e, action.id, 'always')}
+                      className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-200"
+                    >
+                      Always allow
+                    </button>
+                  </div>
+                )}
                 <p className="text-xs text-slate-500 mt-0.5">
                   {formatSize(action.fileSize)}
+                  {action.confidence !== undefined && (
+                    <span className="ml-1 text-amber-500/80">
+                      • {Math.round(action.confidence * 100)}% sure
+                    </span>
+                  )}
                   {action.reason && (
                     <span className="ml-1 text-slate-600">
                       • {action.reason.split('\n')[0].substring(0, 30)}...
@@ -296,7 +398,7 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
               <button
                 onClick={(e) => handleKeepOne(e, action.id)}
                 className="p-1.5 rounded hover:bg-slate-600 text-slate-400 hover:text-emerald-400 transition-colors flex-shrink-0"
-                title="Keep this file"
+                title={isDelete ? 'Keep this file' : 'Reject this change'}
               >
                 <X className="w-4 h-4" />
               </button>
@@ -309,14 +411,16 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
         <button
           onClick={handleDeleteSelected}
           disabled={selectedIds.size === 0 || isExecuting}
-          className="w-full px-3 py-2.5 bg-red-600 hover:bg-red-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm rounded-lg flex items-center justify-center gap-2 font-medium transition-colors"
+          className={`w-full px-3 py-2.5 ${deletesOnly ? 'bg-red-600 hover:bg-red-500' : 'bg-sky-600 hover:bg-sky-500'} disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm rounded-lg flex items-center justify-center gap-2 font-medium transition-colors`}
         >
           {isExecuting ? (
             <RefreshCw className="w-4 h-4 animate-spin" />
-          ) : (
+          ) : deletesOnly ? (
             <Trash2 className="w-4 h-4" />
+          ) : (
+            <Check className="w-4 h-4" />
           )}
-          Delete Selected ({selectedIds.size})
+          {deletesOnly ? 'Delete' : 'Approve'} Selected ({selectedIds.size})
         </button>
         <div className="flex gap-2">
           <button
@@ -325,7 +429,7 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
             className="flex-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm rounded-lg flex items-center justify-center gap-2 transition-colors"
           >
             <CheckCircle className="w-4 h-4" />
-            Keep All
+            {deletesOnly ? 'Keep All' : 'Reject All'}
           </button>
           <button
             onClick={handleDeleteAll}
@@ -333,7 +437,7 @@ export default function ReviewPanel({ onComplete }: ReviewPanelProps) {
             className="flex-1 px-3 py-2 bg-red-900/50 hover:bg-red-900 text-red-300 text-sm rounded-lg flex items-center justify-center gap-2 border border-red-800 transition-colors"
           >
             <Trash2 className="w-4 h-4" />
-            Delete All
+            {deletesOnly ? 'Delete All' : 'Approve All'}
           </button>
         </div>
       </div>
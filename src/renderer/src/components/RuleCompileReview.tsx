@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { Wand2, Check, ArrowLeft, AlertCircle } from 'lucide-react'
+import { AgentRule, CompiledRule, StructuredRule } from '../stores/agentStore'
+import StructuredRuleEditor from './StructuredRuleEditor'
+
+interface Props {
+  rules: AgentRule[]
+  compiled: CompiledRule[]
+  confirmLabel: string
+  onConfirm: (rules: AgentRule[]) => void
+  onCancel: () => void
+}
+
+/**
+ * Shows what the compiler made of each free-text rule so the user can adjust it,
+ * or untick it to keep the rule as free text, before it is saved
+ */
+export default function RuleCompileReview({
+  rules,
+  compiled,
+  confirmLabel,
+  onConfirm,
+  onCancel
+}: Props): React.ReactElement {
+  const [drafts, setDrafts] = useState<Record<string, StructuredRule | undefined>>(() =>
+    Object.fromEntries(compiled.map((c) => [c.ruleId, c.structured]))
+  )
+
+  const handleConfirm = (): void => {
+    onConfirm(
+      rules.map((rule) => {
+        if (!(rule.id in drafts)) return rule
+        const structured = drafts[rule.id]
+        return {
+          ...rule,
+          structured: structured ? { ...structured, compiledFrom: rule.text } : undefined
+        }
+      })
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-emerald-400">
+        <Wand2 className="w-4 h-4" />
+        Check your compiled rules
+      </div>
+      <p className="text-xs text-slate-500">
+        These rules will be applied without asking the AI about every file. Adjust anything that
+        looks wrong, or untick a rule to keep it as free text.
+      </p>
+
+      {compiled.map((entry) => {
+        const rule = rules.find((r) => r.id === entry.ruleId)
+        if (!rule) return null
+        return (
+          <div key={entry.ruleId} className="p-3 rounded-lg bg-slate-800 border border-slate-700">
+            <p className="text-xs text-slate-300 italic">&ldquo;{rule.text}&rdquo;</p>
+            {entry.error && (
+              <p className="flex items-center gap-1 mt-1 text-[11px] text-amber-400">
+                <AlertCircle className="w-3 h-3" />
+                {entry.error}
+              </p>
+            )}
+            <StructuredRuleEditor
+              value={drafts[entry.ruleId]}
+              onChange={(structured) => setDrafts({ ...drafts, [entry.ruleId]: structured })}
+              idPrefix={`compile-${entry.ruleId}`}
+            />
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleConfirm}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-medium transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          {confirmLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-300 text-sm transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+      </div>
+    </div>
+  )
+}
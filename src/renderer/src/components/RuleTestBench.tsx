@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import { FlaskConical, FolderOpen, Play, Save, X, Loader2, ScanEye, Sparkles } from 'lucide-react'
+import { AgentRule, isRuleDefined } from '../stores/agentStore'
+import { useAppStore } from '../stores/appStore'
+
+interface Props {
+  rules: AgentRule[]
+  folders: string[]
+  onClose: () => void
+}
+
+const ACTION_STYLES: Record<RuleTestResult['action'], string> = {
+  move: 'text-emerald-400',
+  copy: 'text-sky-400',
+  delete: 'text-red-400',
+  skip: 'text-slate-500',
+  error: 'text-amber-400'
+}
+
+function shortPath(fullPath: string): string {
+  return fullPath.split(/[/\\]/).slice(-2).join('/')
+}
+
+/**
+ * Dry-runs a watcher's rules against files that already exist, without moving anything
+ */
+export default function RuleTestBench({ rules, folders, onClose }: Props): React.ReactElement {
+  const selectedCount = useAppStore((state) => state.selectedFiles.size)
+  const getSelectedFiles = useAppStore((state) => state.getSelectedFiles)
+
+  const [source, setSource] = useState<'folder' | 'selection'>('folder')
+  const [folderPath, setFolderPath] = useState(folders[0] || '')
+  const [run, setRun] = useState<RuleTestRun | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fixtureName, setFixtureName] = useState('')
+  const [savedPath, setSavedPath] = useState<string | null>(null)
+
+  const activeRules = rules.filter(isRuleDefined)
+  const canRun = activeRules.length > 0 && (source === 'folder' ? !!folderPath : selectedCount > 0)
+
+  const handleBrowse = async (): Promise<void> => {
+    const folder = await window.api.selectFolder()
+    if (folder) setFolderPath(folder)
+  }
+
+  const handleRun = async (): Promise<void> => {
+    setIsRunning(true)
+    setError(null)
+    setSavedPath(null)
+    try {
+      const target: RuleTestTarget =
+        source === 'folder' ? { folderPath } : { filePaths: getSelectedFiles() }
+      setRun(await window.api.watcher.testRules(target, activeRules))
+    } catch (err) {
+      setError(String(err))
+    }
+    setIsRunning(false)
+  }
+
+  const handleSaveFixture = async (): Promise<void> => {
+    if (!run) return
+    const result = await window.api.watcher.saveTestFixture(run, fixtureName || run.id)
+    if (result.success && result.path) {
+      setSavedPath(result.path)
+    } else {
+      setError(result.error || 'Failed to save fixture')
+    }
+  }
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-slate-900/60 border border-slate-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-200">
+          <FlaskConical className="w-4 h-4 text-violet-400" />
+          Test rules on existing files
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-slate-700 text-slate-500">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as 'folder' | 'selection')}
+          className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+        >
+          <option value="folder">Files in folder</option>
+          <option value="selection">Selected files ({selectedCount})</option>
+        </select>
+        {source === 'folder' && (
+          <>
+            <select
+              value={folderPath}
+              onChange={(e) => setFolderPath(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+            >
+              {!folders.includes(folderPath) && folderPath && (
+                <option value={folderPath}>{shortPath(folderPath)}</option>
+              )}
+              {folders.map((folder) => (
+                <option key={folder} value={folder}>
+                  {shortPath(folder)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleBrowse}
+              className="p-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400"
+              title="Choose another folder"
+            >
+              <FolderOpen className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={handleRun}
+          disabled={!canRun || isRunning}
+          className="flex items-center gap-1.5 px-3 py-1 rounded bg-violet-600 hover:bg-violet-500 disabled:bg-slate-700 disabled:text-slate-500 text-white"
+        >
+          {isRunning ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Play className="w-3.5 h-3.5" />
+          )}
+          {isRunning ? 'Testing...' : 'Run test'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {run && (
+        <>
+          <p className="text-[11px] text-slate-500">
+            {run.results.length} file{run.results.length !== 1 ? 's' : ''} tested, nothing was moved
+            {run.truncated && ' (stopped at the first 50 files)'}
+          </p>
+          <div className="max-h-72 overflow-auto rounded border border-slate-700">
+            <table className="w-full text-[11px]">
+              <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium">File</th>
+                  <th className="px-2 py-1 text-left font-medium">Rule</th>
+                  <th className="px-2 py-1 text-left font-medium">Action</th>
+                  <th className="px-2 py-1 text-left font-medium">Destination</th>
+                  <th className="px-2 py-1 text-right font-medium">Conf.</th>
+                  <th className="px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {run.results.map((result) => (
+                  <tr
+                    key={result.filePath}
+                    className="border-t border-slate-800 text-slate-300"
+                    title={result.reasoning}
+                  >
+                    <td className="px-2 py-1 max-w-[10rem] truncate">{result.fileName}</td>
+                    <td className="px-2 py-1 max-w-[10rem] truncate" title={result.ruleText}>
+                      {result.matchedRule ? `#${result.matchedRule}` : '—'}
+                    </td>
+                    <td className={`px-2 py-1 ${ACTION_STYLES[result.action]}`}>{result.action}</td>
+                    <td className="px-2 py-1 max-w-[14rem] truncate" title={result.destination}>
+                      {result.destination ? shortPath(result.destination) : '—'}
+                    </td>
+                    <td className="px-2 py-1 text-right">{Math.round(result.confidence * 100)}%</td>
+                    <td className="px-2 py-1">
+                      <span className="flex items-center gap-1 text-slate-500">
+                        {result.usedAI && (
+                          <span title="Decided by AI">
+                            <Sparkles className="w-3 h-3 text-violet-400" />
+                          </span>
+                        )}
+                        {result.usedVision && (
+                          <span title="Image was analyzed">
+                            <ScanEye className="w-3 h-3 text-sky-400" />
+                          </span>
+                        )}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              value={fixtureName}
+              onChange={(e) => setFixtureName(e.target.value)}
+              placeholder="Fixture name"
+              className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200 placeholder-slate-600"
+            />
+            <button
+              onClick={handleSaveFixture}
+              className="flex items-center gap-1.5 px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-300"
+            >
+              <Save className="w-3.5 h-3.5" />
+              Save as fixture
+            </button>
+          </div>
+          {savedPath && (
+            <p className="text-[11px] text-emerald-400 truncate">Saved to {savedPath}</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react'
+import { Image, Loader2, Search, Trash2, CheckCircle, AlertCircle } from 'lucide-react'
+import { useAppStore } from '../stores/appStore'
+
+interface Props {
+  defaultFolder?: string
+}
+
+// Bits out of 64 that may differ; matches the scan's default in the middle
+const STRICTNESS_OPTIONS = [
+  { threshold: 3, label: 'Nearly identical' },
+  { threshold: 6, label: 'Similar' },
+  { threshold: 10, label: 'Loosely similar' }
+]
+
+const MAX_CLUSTERS_SHOWN = 30
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+function Thumbnail({ path }: { path: string }): React.ReactElement {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.storage
+      .getImageThumbnail(path)
+      .then((dataUrl) => !cancelled && setSrc(dataUrl))
+      .catch(() => !cancelled && setSrc(null))
+    return () => {
+      cancelled = true
+    }
+  }, [path])
+
+  return (
+    <div className="w-12 h-12 flex-shrink-0 rounded bg-slate-800 overflow-hidden flex items-center justify-center">
+      {src ? (
+        <img src={src} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <Image className="w-4 h-4 text-slate-600" />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Clusters of photos and screenshots that look alike; the best copy is suggested and
+ * the rest can be queued for deletion in the Review panel
+ */
+export default function SimilarImagesView({ defaultFolder }: Props): React.ReactElement {
+  const folders = useAppStore((state) => state.folders)
+  const similarImageScan = useAppStore((state) => state.similarImageScan)
+  const setSimilarImageScan = useAppStore((state) => state.setSimilarImageScan)
+  const highlightFiles = useAppStore((state) => state.highlightFiles)
+
+  const [folderPath, setFolderPath] = useState(
+    similarImageScan?.folderPath || defaultFolder || folders[0]?.path || ''
+  )
+  const [threshold, setThreshold] = useState(similarImageScan?.threshold ?? 6)
+  const [keep, setKeep] = useState<Record<string, string>>({}) // Cluster id → path to keep
+  const [isScanning, setIsScanning] = useState(false)
+  const [isQueueing, setIsQueueing] = useState(false)
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const keptPath = (cluster: SimilarImageCluster): string =>
+    keep[cluster.id] ?? cluster.images[0].path
+
+  const handleScan = async (): Promise<void> => {
+    if (!folderPath) return
+    setIsScanning(true)
+    setResult(null)
+    try {
+      setSimilarImageScan(await window.api.storage.findSimilarImages(folderPath, threshold))
+      setKeep({})
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const queueOthers = async (clusters: SimilarImageCluster[]): Promise<void> => {
+    if (!similarImageScan) return
+    setIsQueueing(true)
+    try {
+      const queuedPaths = new Set<string>()
+      for (const cluster of clusters) {
+        const kept = keptPath(cluster)
+        const others = cluster.images.filter((i) => i.path !== kept).map((i) => i.path)
+        const name = cluster.images.find((i) => i.path === kept)?.name ?? ''
+        const actions = await window.api.pending.queueMultiple(others, `Similar to ${name}`)
+        actions.forEach((action) => queuedPaths.add(action.sourcePath))
+      }
+
+      highlightFiles([...queuedPaths], 'delete', 3000)
+
+      const remaining = similarImageScan.clusters
+        .map((cluster) => {
+          const images = cluster.images.filter((i) => !queuedPaths.has(i.path))
+          const kept = images.find((i) => i.path === keptPath(cluster)) ?? images[0]
+          const recoverableBytes = images
+            .filter((i) => i !== kept)
+            .reduce((sum, i) => sum + i.size, 0)
+          return { ...cluster, images, recoverableBytes }
+        })
+        .filter((cluster) => cluster.images.length > 1)
+      setSimilarImageScan({
+        ...similarImageScan,
+        clusters: remaining,
+        totalRecoverable: remaining.reduce((sum, cluster) => sum + cluster.recoverableBytes, 0)
+      })
+      setResult({ type: 'success', message: `${queuedPaths.size} images queued for review` })
+    } catch (err) {
+      setResult({ type: 'error', message: String(err) })
+    } finally {
+      setIsQueueing(false)
+    }
+  }
+
+  const scanMatchesFolder = similarImageScan?.folderPath === folderPath
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={folderPath}
+          onChange={(e) => setFolderPath(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200"
+        >
+          {folderPath && !folders.some((f) => f.path === folderPath) && (
+            <option value={folderPath}>{folderPath}</option>
+          )}
+          {folders.map((folder) => (
+            <option key={folder.path} value={folder.path}>
+              {folder.path}
+            </option>
+          ))}
+        </select>
+        <select
+          value={threshold}
+          onChange={(e) => setThreshold(Number(e.target.value))}
+          className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-slate-200"
+        >
+          {!STRICTNESS_OPTIONS.some((o) => o.threshold === threshold) && (
+            <option value={threshold}>Within {threshold} bits</option>
+          )}
+          {STRICTNESS_OPTIONS.map((option) => (
+            <option key={option.threshold} value={option.threshold}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleScan}
+          disabled={!folderPath || isScanning}
+          className="flex items-center gap-1.5 px-3 py-1 rounded bg-purple-700 hover:bg-purple-600 disabled:bg-slate-700 disabled:text-slate-500 text-xs text-white"
+        >
+          {isScanning ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Search className="w-3.5 h-3.5" />
+          )}
+          {isScanning ? 'Scanning...' : 'Scan'}
+        </button>
+      </div>
+
+      {result && (
+        <div
+          className={`flex items-center gap-2 p-2 rounded-lg text-xs ${result.type === 'success' ? 'bg-emerald-900/30 border border-emerald-700/50 text-emerald-300' : 'bg-red-900/30 border border-red-700/50 text-red-300'}`}
+        >
+          {result.type === 'success' ? (
+            <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          ) : (
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          )}
+          <span>{result.message}</span>
+        </div>
+      )}
+
+      {!similarImageScan && !isScanning && (
+        <p className="text-xs text-slate-500 text-center py-4">
+          Scan a folder for burst shots, resized exports and re-saved screenshots. Images are
+          compared on this computer; nothing is uploaded.
+        </p>
+      )}
+
+      {similarImageScan && scanMatchesFolder && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-slate-700/50 rounded-lg p-2">
+              <div className="text-lg font-bold text-purple-300">
+                {formatBytes(similarImageScan.totalRecoverable)}
+              </div>
+              <div className="text-xs text-slate-400">Recoverable</div>
+            </div>
+            <div className="bg-slate-700/50 rounded-lg p-2">
+              <div className="text-lg font-bold text-slate-100">
+                {similarImageScan.clusters.length}
+              </div>
+              <div className="text-xs text-slate-400">
+                Clusters in {similarImageScan.imagesScanned.toLocaleString()} images
+              </div>
+            </div>
+          </div>
+
+          {(similarImageScan.imagesSkipped > 0 || similarImageScan.truncated) && (
+            <p className="text-[11px] text-amber-400/80">
+              {similarImageScan.imagesSkipped > 0 &&
+                `${similarImageScan.imagesSkipped} images couldn't be read. `}
+              {similarImageScan.truncated && 'Only the first 2,000 images were compared.'}
+            </p>
+          )}
+
+          {similarImageScan.clusters.length > 0 && (
+            <button
+              onClick={() => queueOthers(similarImageScan.clusters)}
+              disabled={isQueueing}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-red-900/30 hover:bg-red-900/50 border border-red-700/50 rounded-lg text-xs text-red-300 disabled:opacity-50"
+            >
+              {isQueueing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+              Queue everything but the kept copies for deletion
+            </button>
+          )}
+
+          <div className="space-y-2">
+            {similarImageScan.clusters.slice(0, MAX_CLUSTERS_SHOWN).map((cluster) => (
+              <div key={cluster.id} className="bg-slate-700/30 rounded-lg p-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1 text-xs text-slate-300">
+                    <Image className="w-3 h-3 text-purple-400" />
+                    {cluster.images.length} similar images
+                  </span>
+                  <button
+                    onClick={() => queueOthers([cluster])}
+                    disabled={isQueueing}
+                    className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-300 disabled:opacity-50"
+                  >
+                    Queue others ({formatBytes(cluster.recoverableBytes)})
+                  </button>
+                </div>
+                {cluster.images.map((image, index) => {
+                  const isKept = keptPath(cluster) === image.path
+                  return (
+                    <label
+                      key={image.path}
+                      className={`flex items-center gap-2 px-1 py-1 rounded text-xs cursor-pointer ${isKept ? 'bg-emerald-900/20' : 'hover:bg-slate-700/40'}`}
+                      title={image.path}
+                    >
+                      <input
+                        type="radio"
+                        name={cluster.id}
+                        checked={isKept}
+                        onChange={() => setKeep((prev) => ({ ...prev, [cluster.id]: image.path }))}
+                        className="accent-emerald-500"
+                      />
+                      <Thumbnail path={image.path} />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate text-slate-200">{image.name}</span>
+                        <span className="block truncate text-[10px] text-slate-500">
+                          {image.width}×{image.height} · {formatBytes(image.size)}
+                          {index === 0 && ' · best quality'}
+                        </span>
+                      </span>
+                      {isKept && <span className="text-[10px] text-emerald-400">Keep</span>}
+                    </label>
+                  )
+                })}
+              </div>
+            ))}
+            {similarImageScan.clusters.length > MAX_CLUSTERS_SHOWN && (
+              <p className="text-xs text-slate-500 text-center">
+                +{similarImageScan.clusters.length - MAX_CLUSTERS_SHOWN} smaller clusters
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
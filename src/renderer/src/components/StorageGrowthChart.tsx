@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react'
+import { TrendingUp } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+
+interface Props {
+  folderPath: string
+  maxDepth?: number
+  scannedAt: string // Reloads the history after each new analysis
+  growth?: StorageGrowthReport | null
+  categoryColors: Record<string, string>
+}
+
+type Series = 'folders' | 'categories'
+
+const SERIES_SHOWN = 5
+
+// For folders, which have no colour of their own
+const PALETTE = ['#38bdf8', '#a78bfa', '#f472b6', '#fbbf24', '#34d399']
+
+function formatBytes(bytes: number, decimals = 1): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(decimals)) + ' ' + sizes[i]
+}
+
+function formatChange(bytes: number): string {
+  return `${bytes >= 0 ? '+' : '-'}${formatBytes(Math.abs(bytes))}`
+}
+
+/**
+ * How the largest folders and categories grew across past analyses of a folder
+ */
+export default function StorageGrowthChart({
+  folderPath,
+  maxDepth,
+  scannedAt,
+  growth,
+  categoryColors
+}: Props): React.ReactElement | null {
+  const [history, setHistory] = useState<StorageSnapshot[]>([])
+  const [series, setSeries] = useState<Series>('folders')
+
+  useEffect(() => {
+    window.api.storage
+      .getHistory(folderPath, maxDepth)
+      .then(setHistory)
+      .catch((err) => console.error('Failed to load storage history:', err))
+  }, [folderPath, maxDepth, scannedAt])
+
+  const grewMost = (growth?.folders ?? []).filter((f) => f.change > 0).slice(0, 3)
+
+  if (history.length < 2 && grewMost.length === 0) return null
+
+  const valuesOf = (snapshot: StorageSnapshot): Record<string, number> =>
+    series === 'folders' ? snapshot.topFolders : snapshot.byCategory
+
+  // The largest entries in the latest snapshot are the ones worth a line
+  const latest = history[history.length - 1]
+  const keys = latest
+    ? Object.entries(valuesOf(latest))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, SERIES_SHOWN)
+        .map(([name]) => name)
+    : []
+
+  const chartData = history.map((snapshot) => ({
+    date: new Date(snapshot.scannedAt).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric'
+    }),
+    // A folder missing from a snapshot was outside its largest ones, not empty: leave a gap
+    ...Object.fromEntries(
+      keys.map((key) => [key, valuesOf(snapshot)[key] ?? (series === 'folders' ? null : 0)])
+    )
+  }))
+
+  return (
+    <div className="bg-slate-700/30 rounded-lg p-2 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-slate-400 flex items-center gap-1">
+          <TrendingUp className="w-3 h-3" />
+          Growth
+        </h4>
+        {history.length >= 2 && (
+          <div className="flex gap-1">
+            {(['folders', 'categories'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setSeries(option)}
+                className={`px-1.5 py-0.5 rounded text-[10px] ${series === option ? 'bg-slate-600 text-slate-100' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {option === 'folders' ? 'Folders' : 'Types'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {grewMost.length > 0 && growth && (
+        <div className="space-y-0.5">
+          <p className="text-[10px] text-slate-500">
+            Grew most since {new Date(growth.from).toLocaleDateString()}
+          </p>
+          {grewMost.map((entry) => (
+            <div key={entry.name} className="flex items-center justify-between text-xs">
+              <span className="text-slate-300 truncate">{entry.name}</span>
+              <span className="text-amber-400 flex-shrink-0">{formatChange(entry.change)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {history.length >= 2 && (
+        <ResponsiveContainer width="100%" height={150}>
+          <LineChart data={chartData} margin={{ left: 0, right: 10, top: 5, bottom: 5 }}>
+            <XAxis dataKey="date" tick={{ fontSize: 9, fill: '#cbd5e1' }} stroke="#475569" />
+            <YAxis
+              tickFormatter={(v) => formatBytes(v, 0)}
+              tick={{ fontSize: 9, fill: '#cbd5e1' }}
+              width={45}
+              stroke="#475569"
+            />
+            <Tooltip
+              formatter={(value) => formatBytes(value as number)}
+              contentStyle={{
+                background: '#1e293b',
+                border: '1px solid #334155',
+                borderRadius: '6px',
+                fontSize: '11px'
+              }}
+              labelStyle={{ color: '#f1f5f9' }}
+              itemStyle={{ color: '#e2e8f0' }}
+            />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            {keys.map((key, index) => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={
+                  series === 'categories'
+                    ? (categoryColors[key] ?? PALETTE[index])
+                    : PALETTE[index % PALETTE.length]
+                }
+                strokeWidth={1.5}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  )
+}
@@ -16,7 +16,8 @@ import {
   Copy,
   Sparkles,
   Archive,
-  Filter
+  Filter,
+  RefreshCw
 } from 'lucide-react'
 import {
   BarChart,
@@ -30,8 +31,13 @@ import {
   Cell,
   Legend
 } from 'recharts'
-import { useAppStore, StorageAnalysisData } from '../stores/appStore'
+import { useAppStore, StorageAnalysisData, StorageView } from '../stores/appStore'
 import { useAgentStore } from '../stores/agentStore'
+import DuplicatesView from './DuplicatesView'
+import CategoryTaxonomyView from './CategoryTaxonomyView'
+import SimilarImagesView from './SimilarImagesView'
+import StorageGrowthChart from './StorageGrowthChart'
+import StorageTreemap from './StorageTreemap'
 
 interface StorageByType {
   type?: string
@@ -58,6 +64,13 @@ interface OldFile {
   age?: number
 }
 
+const VIEW_LABELS: Record<StorageView, string> = {
+  overview: 'Overview',
+  duplicates: 'Duplicates',
+  similar: 'Similar',
+  categories: 'Categories'
+}
+
 function formatBytes(bytes: number, decimals = 1): string {
   if (bytes === 0) return '0 Bytes'
   const k = 1024
@@ -118,7 +131,10 @@ export default function StoragePanel() {
     setProcessing,
     startTask,
     refreshFolder,
-    highlightFiles
+    highlightFiles,
+    storageView,
+    setStorageView,
+    setStorageAnalysis
   } = useAppStore()
   const { createWatcher, setMode } = useAgentStore()
 
@@ -131,7 +147,8 @@ export default function StoragePanel() {
   const [isExporting, setIsExporting] = useState(false)
   const [isCreatingWatcher, setIsCreatingWatcher] = useState(false)
   const [isOrganizing, setIsOrganizing] = useState(false)
-  const [isFindingDuplicates, setIsFindingDuplicates] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isCleaning, setIsCleaning] = useState(false)
   const [actionResult, setActionResult] = useState<{
     type: 'success' | 'error'
     message: string
@@ -142,9 +159,51 @@ export default function StoragePanel() {
     setTimeout(() => setActionResult(null), 5000)
   }
 
+  const viewTabs = (
+    <div className="flex gap-1 p-0.5 bg-slate-800 rounded-lg">
+      {(Object.keys(VIEW_LABELS) as StorageView[]).map((view) => (
+        <button
+          key={view}
+          onClick={() => setStorageView(view)}
+          className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${storageView === view ? 'bg-slate-700 text-slate-100' : 'text-slate-500 hover:text-slate-300'}`}
+        >
+          {VIEW_LABELS[view]}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (storageView === 'duplicates') {
+    return (
+      <div className="p-3 space-y-3 overflow-y-auto">
+        {viewTabs}
+        <DuplicatesView defaultFolder={storageAnalysis?.folderPath} />
+      </div>
+    )
+  }
+
+  if (storageView === 'similar') {
+    return (
+      <div className="p-3 space-y-3 overflow-y-auto">
+        {viewTabs}
+        <SimilarImagesView defaultFolder={storageAnalysis?.folderPath} />
+      </div>
+    )
+  }
+
+  if (storageView === 'categories') {
+    return (
+      <div className="p-3 space-y-3 overflow-y-auto">
+        {viewTabs}
+        <CategoryTaxonomyView />
+      </div>
+    )
+  }
+
   if (!storageAnalysis) {
     return (
       <div className="p-4 flex flex-col items-center justify-center h-full text-center">
+        <div className="w-full mb-6">{viewTabs}</div>
         <div className="w-16 h-16 rounded-full bg-slate-700 flex items-center justify-center mb-4">
           <HardDrive className="w-8 h-8 text-slate-500" />
         </div>
@@ -184,6 +243,18 @@ export default function StoragePanel() {
       : String(bVal).localeCompare(String(aVal))
   })
 
+  // Unchanged folders come straight from the storage index; force re-reads everything
+  const handleRefresh = async (force = false): Promise<void> => {
+    setIsRefreshing(true)
+    try {
+      setStorageAnalysis(await window.api.storage.analyze(data.folderPath, data.maxDepth, force))
+    } catch (err) {
+      showResult('error', `Refresh failed: ${err}`)
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
   const handleSort = (key: string) => {
     setSortConfig({
       key,
@@ -403,40 +474,40 @@ export default function StoragePanel() {
     }
   }
 
-  const handleFindDuplicates = async () => {
-    if (!data.folderPath) {
-      showResult('error', 'No folder path available')
-      return
-    }
-
-    setIsFindingDuplicates(true)
+  // The folder goes along as the chat's context folder, like the one picked in the sidebar
+  const handleCleanupFolder = async (node: StorageSizeNode): Promise<void> => {
+    setIsCleaning(true)
     try {
-      const message = `Find duplicate files in "${data.folderPath}". Look for files with the same or similar names.`
+      const message = `Help me clean up "${node.path}" (${formatBytes(node.size)} in ${node.fileCount} files). Look at what is taking the space and suggest what to delete, archive or organize. Queue anything to delete for my review.`
       addMessage({ role: 'user', content: message })
       setProcessing(true)
-      startTask('Find duplicates')
+      startTask(`Clean up ${node.name}`)
 
       const chatHistory = [{ role: 'user' as const, content: message }]
       const grantedFolders = folders.map((f) => f.path)
-      const response = await window.api.agent.chat(chatHistory, grantedFolders, data.folderPath)
+      const response = await window.api.agent.chat(chatHistory, grantedFolders, node.path)
 
       if (response.error) {
         addMessage({ role: 'assistant', content: response.error, isError: true })
-        showResult('error', 'Duplicate search failed')
+        showResult('error', 'Clean-up failed')
       } else {
         addMessage({ role: 'assistant', content: response.message, toolCalls: response.toolCalls })
-        showResult('success', 'Duplicate search complete')
+        await refreshFolder(data.folderPath)
+        showResult('success', 'Clean-up suggestions are in the chat')
       }
       setProcessing(false)
     } catch (err) {
-      console.error('Failed to find duplicates:', err)
+      console.error('Failed to clean up folder:', err)
       showResult('error', `Error: ${err}`)
       setProcessing(false)
     } finally {
-      setIsFindingDuplicates(false)
+      setIsCleaning(false)
     }
   }
 
+  // Content-hash scan in the Duplicates view rather than a name guess in the chat
+  const handleFindDuplicates = (): void => setStorageView('duplicates')
+
   const handleArchiveOldFiles = async () => {
     if (!data.folderPath) {
       showResult('error', 'No folder path available')
@@ -485,14 +556,39 @@ export default function StoragePanel() {
 
   return (
     <div className="p-3 space-y-4 overflow-y-auto">
+      {viewTabs}
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
           <HardDrive className="w-4 h-4 text-sky-400" />
           Storage Analysis
         </h3>
-        <span className="text-xs text-slate-500">{new Date(analyzedAt).toLocaleString()}</span>
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-slate-500">{new Date(analyzedAt).toLocaleString()}</span>
+          <button
+            onClick={() => handleRefresh()}
+            disabled={isRefreshing}
+            className="p-1 rounded hover:bg-slate-700 text-slate-500 hover:text-slate-300 disabled:opacity-50"
+            title="Refresh from the storage index"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
       </div>
 
+      {data.index && (
+        <p className="text-[11px] text-slate-500">
+          Index refreshed {new Date(data.index.refreshedAt).toLocaleTimeString()} ·{' '}
+          {data.index.dirsRead} folders re-read, {data.index.dirsReused} unchanged ·{' '}
+          <button
+            onClick={() => handleRefresh(true)}
+            disabled={isRefreshing}
+            className="text-sky-500 hover:text-sky-400 disabled:opacity-50"
+          >
+            Full rescan
+          </button>
+        </p>
+      )}
+
       <div className="grid grid-cols-2 gap-2">
         <div className="bg-slate-700/50 rounded-lg p-2">
           <div className="text-lg font-bold text-slate-100">{formatBytes(data.totalSize)}</div>
@@ -551,15 +647,10 @@ export default function StoragePanel() {
           </button>
           <button
             onClick={handleFindDuplicates}
-            disabled={isFindingDuplicates}
             className="flex items-center justify-between gap-2 px-3 py-2 bg-purple-900/30 hover:bg-purple-900/50 border border-purple-700/50 rounded-lg text-xs text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             <div className="flex items-center gap-2">
-              {isFindingDuplicates ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <Copy className="w-4 h-4" />
-              )}
+              <Copy className="w-4 h-4" />
               <span>Find Duplicates</span>
             </div>
             <span className="text-purple-400/70">Detect copies</span>
@@ -714,6 +805,23 @@ export default function StoragePanel() {
         </ResponsiveContainer>
       </div>
 
+      {data.sizeTree && (
+        <StorageTreemap
+          key={data.scannedAt} // A new analysis starts again from the top
+          tree={data.sizeTree}
+          onCleanup={handleCleanupFolder}
+          isCleaning={isCleaning}
+        />
+      )}
+
+      <StorageGrowthChart
+        folderPath={data.folderPath}
+        maxDepth={data.maxDepth}
+        scannedAt={analyzedAt}
+        growth={data.growth}
+        categoryColors={Object.fromEntries(normalizedByType.map((t) => [t.name, t.color]))}
+      />
+
       {largestFiles.length > 0 && (
         <div className="bg-slate-700/30 rounded-lg p-2">
           <h4 className="text-xs font-medium text-slate-400 mb-2 flex items-center gap-1">
@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { ChevronRight, FolderTree, Loader2, Wand2 } from 'lucide-react'
+import { Treemap, ResponsiveContainer, TreemapNode } from 'recharts'
+import { useAppStore } from '../stores/appStore'
+
+interface Props {
+  tree: StorageSizeNode
+  onCleanup: (node: StorageSizeNode) => void
+  isCleaning: boolean
+}
+
+const COLORS = [
+  '#0ea5e9',
+  '#8b5cf6',
+  '#f59e0b',
+  '#10b981',
+  '#ec4899',
+  '#06b6d4',
+  '#84cc16',
+  '#ef4444'
+]
+
+// Loose files and lumped small folders can't be drilled into
+const LUMPED_COLOR = '#475569'
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+function fitText(text: string, width: number): string {
+  const maxChars = Math.floor((width - 10) / 6)
+  return text.length > maxChars ? text.slice(0, Math.max(maxChars - 1, 1)) + '…' : text
+}
+
+/**
+ * Which subfolders take the space: click a folder to drill in and reveal it in the file tree
+ */
+export default function StorageTreemap({ tree, onCleanup, isCleaning }: Props): React.ReactElement {
+  const revealInTree = useAppStore((state) => state.revealInTree)
+  const [trail, setTrail] = useState<StorageSizeNode[]>([tree])
+  const [selected, setSelected] = useState<StorageSizeNode | null>(null)
+
+  const focus = trail[trail.length - 1]
+  const items = focus.children ?? []
+  const target = selected ?? focus
+
+  const handleSelect = (node: StorageSizeNode): void => {
+    revealInTree(node.path)
+    if (node.kind === 'folder' && node.children) {
+      setTrail([...trail, node])
+      setSelected(null)
+    } else {
+      setSelected(node)
+    }
+  }
+
+  const handleCrumb = (index: number): void => {
+    setTrail(trail.slice(0, index + 1))
+    setSelected(null)
+    revealInTree(trail[index].path)
+  }
+
+  const renderCell = (cell: TreemapNode): React.ReactElement => {
+    if (cell.depth !== 1) return <g />
+    const node = items[cell.nodeIndex as number]
+    const isSelected = selected === node
+    return (
+      <g style={{ cursor: 'pointer' }}>
+        <rect
+          x={cell.x}
+          y={cell.y}
+          width={cell.width}
+          height={cell.height}
+          rx={3}
+          fill={node.kind === 'folder' ? COLORS[cell.nodeIndex % COLORS.length] : LUMPED_COLOR}
+          fillOpacity={isSelected ? 1 : 0.75}
+          stroke={isSelected ? '#f8fafc' : '#0f172a'}
+          strokeWidth={2}
+        />
+        {cell.width > 40 && cell.height > 28 && (
+          <>
+            <text x={cell.x + 5} y={cell.y + 13} fill="#f8fafc" fontSize={10} stroke="none">
+              {fitText(node.name, cell.width)}
+            </text>
+            <text x={cell.x + 5} y={cell.y + 25} fill="#e2e8f0" fontSize={9} stroke="none">
+              {formatBytes(node.size)}
+            </text>
+          </>
+        )}
+      </g>
+    )
+  }
+
+  return (
+    <div className="bg-slate-700/30 rounded-lg p-2 space-y-2">
+      <h4 className="text-xs font-medium text-slate-400 flex items-center gap-1">
+        <FolderTree className="w-3 h-3" />
+        Space by Folder
+      </h4>
+
+      <div className="flex items-center flex-wrap gap-0.5 text-[11px]">
+        {trail.map((node, index) => (
+          <span key={`${node.path}-${index}`} className="flex items-center gap-0.5">
+            {index > 0 && <ChevronRight className="w-3 h-3 text-slate-600" />}
+            <button
+              onClick={() => handleCrumb(index)}
+              className={
+                index === trail.length - 1
+                  ? 'text-slate-200'
+                  : 'text-sky-400 hover:text-sky-300 hover:underline'
+              }
+            >
+              {node.name}
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {items.length > 0 ? (
+        <ResponsiveContainer width="100%" height={180}>
+          <Treemap
+            data={items.map((node, index) => ({
+              name: node.name,
+              size: node.size,
+              nodeIndex: index
+            }))}
+            dataKey="size"
+            nameKey="name"
+            content={renderCell}
+            onClick={(cell) => cell.depth === 1 && handleSelect(items[cell.nodeIndex as number])}
+            isAnimationActive={false}
+          />
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-xs text-slate-500 py-4 text-center">No subfolders at this depth.</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-xs text-slate-200 truncate" title={target.path}>
+            {target.name}
+          </p>
+          <p className="text-[10px] text-slate-500">
+            {formatBytes(target.size)} · {target.fileCount.toLocaleString()} files
+          </p>
+        </div>
+        <button
+          onClick={() => onCleanup(target)}
+          disabled={isCleaning}
+          className="flex items-center gap-1.5 px-2 py-1 rounded bg-sky-900/40 hover:bg-sky-900/60 border border-sky-700/50 text-[11px] text-sky-300 disabled:opacity-50 flex-shrink-0"
+        >
+          {isCleaning ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Wand2 className="w-3.5 h-3.5" />
+          )}
+          Clean up this folder
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { SlidersHorizontal, ScanEye } from 'lucide-react'
+import {
+  StructuredRule,
+  RuleConditions,
+  StructuredActionType,
+  ImageType
+} from '../stores/agentStore'
+
+interface Props {
+  value?: StructuredRule
+  onChange: (rule: StructuredRule | undefined) => void
+  idPrefix: string
+}
+
+const ACTION_LABELS: Record<StructuredActionType, string> = {
+  move: 'Move to',
+  rename: 'Rename',
+  copy: 'Copy to',
+  'queue-delete': 'Queue for deletion'
+}
+
+const IMAGE_TYPES: ImageType[] = ['receipt', 'screenshot', 'photo', 'document', 'other']
+
+const MB = 1024 * 1024
+
+const DEFAULT_RULE: StructuredRule = {
+  conditions: {},
+  action: 'move',
+  destination: ''
+}
+
+const inputClass =
+  'w-full px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500'
+
+function toNumber(value: string, scale = 1): number | undefined {
+  if (!value.trim()) return undefined
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n * scale : undefined
+}
+
+function fromNumber(value: number | undefined, scale = 1): string {
+  return value === undefined ? '' : String(+(value / scale).toFixed(2))
+}
+
+export default function StructuredRuleEditor({
+  value,
+  onChange,
+  idPrefix
+}: Props): React.ReactElement {
+  const [extensionsText, setExtensionsText] = useState(
+    value?.conditions.extensions?.join(', ') ?? ''
+  )
+
+  const updateConditions = (updates: Partial<RuleConditions>): void => {
+    if (!value) return
+    onChange({ ...value, conditions: { ...value.conditions, ...updates } })
+  }
+
+  const handleExtensionsChange = (text: string): void => {
+    setExtensionsText(text)
+    const extensions = text
+      .split(/[,\s]+/)
+      .map((e) => e.replace(/^\./, '').trim().toLowerCase())
+      .filter(Boolean)
+    updateConditions({ extensions: extensions.length > 0 ? extensions : undefined })
+  }
+
+  return (
+    <div className="mt-1.5">
+      <label
+        htmlFor={`${idPrefix}-structured`}
+        className="flex items-center gap-1.5 text-[11px] text-slate-400 cursor-pointer"
+      >
+        <input
+          type="checkbox"
+          id={`${idPrefix}-structured`}
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_RULE : undefined)}
+          className="w-3 h-3 rounded border-slate-600 bg-slate-900 text-emerald-500"
+        />
+        <SlidersHorizontal className="w-3 h-3" />
+        Exact conditions (checked locally, no AI)
+      </label>
+
+      {value && (
+        <div className="mt-2 p-2 rounded bg-slate-900/50 border border-slate-700 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={extensionsText}
+              onChange={(e) => handleExtensionsChange(e.target.value)}
+              placeholder="Extensions: pdf, docx"
+              className={inputClass}
+            />
+            <input
+              value={value.conditions.glob ?? ''}
+              onChange={(e) => updateConditions({ glob: e.target.value || undefined })}
+              placeholder="Name glob: invoice_*.pdf"
+              className={inputClass}
+            />
+            <input
+              value={value.conditions.nameRegex ?? ''}
+              onChange={(e) => updateConditions({ nameRegex: e.target.value || undefined })}
+              placeholder="Name regex: ^IMG_\d+"
+              className={inputClass}
+            />
+            <input
+              value={value.conditions.sourceFolder ?? ''}
+              onChange={(e) => updateConditions({ sourceFolder: e.target.value || undefined })}
+              placeholder="From folder"
+              className={inputClass}
+            />
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={fromNumber(value.conditions.minSizeBytes, MB)}
+                onChange={(e) => updateConditions({ minSizeBytes: toNumber(e.target.value, MB) })}
+                placeholder="Min MB"
+                className={inputClass}
+              />
+              <span className="text-slate-600 text-xs">–</span>
+              <input
+                type="number"
+                min={0}
+                value={fromNumber(value.conditions.maxSizeBytes, MB)}
+                onChange={(e) => updateConditions({ maxSizeBytes: toNumber(e.target.value, MB) })}
+                placeholder="Max MB"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={fromNumber(value.conditions.minAgeDays)}
+                onChange={(e) => updateConditions({ minAgeDays: toNumber(e.target.value) })}
+                placeholder="Min days old"
+                className={inputClass}
+              />
+              <span className="text-slate-600 text-xs">–</span>
+              <input
+                type="number"
+                min={0}
+                value={fromNumber(value.conditions.maxAgeDays)}
+                onChange={(e) => updateConditions({ maxAgeDays: toNumber(e.target.value) })}
+                placeholder="Max days old"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={value.action}
+              onChange={(e) =>
+                onChange({ ...value, action: e.target.value as StructuredActionType })
+              }
+              className="px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+            >
+              {(Object.keys(ACTION_LABELS) as StructuredActionType[]).map((action) => (
+                <option key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </option>
+              ))}
+            </select>
+            {(value.action === 'move' || value.action === 'copy') && (
+              <input
+                value={value.destination ?? ''}
+                onChange={(e) => onChange({ ...value, destination: e.target.value })}
+                placeholder="Documents/{year}"
+                className={inputClass}
+              />
+            )}
+            {value.action !== 'queue-delete' && (
+              <input
+                value={value.renameTemplate ?? ''}
+                onChange={(e) =>
+                  onChange({ ...value, renameTemplate: e.target.value || undefined })
+                }
+                placeholder={value.action === 'rename' ? '{modified}_{name}' : 'Rename (optional)'}
+                className={inputClass}
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-[11px] text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!value.requiresVision}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    requiresVision: e.target.checked || undefined,
+                    imageType: e.target.checked ? (value.imageType ?? 'receipt') : undefined
+                  })
+                }
+                className="w-3 h-3 rounded border-slate-600 bg-slate-900 text-emerald-500"
+              />
+              <ScanEye className="w-3 h-3" />
+              Only if the image is a
+            </label>
+            <select
+              value={value.imageType ?? 'receipt'}
+              disabled={!value.requiresVision}
+              onChange={(e) => onChange({ ...value, imageType: e.target.value as ImageType })}
+              className="px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 disabled:opacity-40 focus:outline-none focus:border-emerald-500"
+            >
+              {IMAGE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-[10px] text-slate-600">
+            Templates: {'{name}'} {'{ext}'} {'{date}'} {'{modified}'} {'{year}'} {'{month}'}
+            {value.requiresVision && (
+              <>
+                {' '}
+                {'{vendor}'} {'{amount}'} {'{docdate}'}
+              </>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
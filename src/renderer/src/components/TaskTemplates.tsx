@@ -1,5 +1,19 @@
-import React from 'react'
-import { FileText, Sparkles, FolderSync, Receipt, HardDrive, Mail, Images } from 'lucide-react'
+import React, { useState } from 'react'
+import {
+  FileText,
+  Sparkles,
+  FolderSync,
+  Receipt,
+  HardDrive,
+  Mail,
+  Images,
+  ChevronDown
+} from 'lucide-react'
+
+interface TaskVariant {
+  label: string
+  command: string
+}
 
 interface TaskTemplate {
   id: string
@@ -8,6 +22,7 @@ interface TaskTemplate {
   command: string
   requiresGoogle?: boolean
   description: string
+  variants?: TaskVariant[] // Offered in a menu instead of running the command directly
 }
 
 const templates: TaskTemplate[] = [
@@ -16,7 +31,27 @@ const templates: TaskTemplate[] = [
     icon: <FolderSync className="w-3.5 h-3.5" />,
     label: 'Organize',
     command: 'Organize all files in this folder by type into subfolders',
-    description: 'Sort files into category folders'
+    description: 'Sort files into category folders',
+    variants: [
+      { label: 'By type', command: 'Organize all files in this folder by type into subfolders' },
+      {
+        label: 'By date',
+        command:
+          'Organize this folder into year/month folders, using the date each photo was taken or document was created'
+      },
+      {
+        label: 'By type, then year',
+        command: 'Organize this folder into type folders with a subfolder per year'
+      },
+      {
+        label: 'By project',
+        command: 'Organize this folder into project folders based on shared file name prefixes'
+      },
+      {
+        label: 'By download source',
+        command: 'Organize this folder by the website each file was downloaded from'
+      }
+    ]
   },
   {
     id: 'receipts',
@@ -77,22 +112,32 @@ export default function TaskTemplates({
   disabled = false,
   isGoogleConnected = false
 }: TaskTemplatesProps): React.ReactElement {
+  const [openMenu, setOpenMenu] = useState<string | null>(null)
+
+  const handleClick = (template: TaskTemplate): void => {
+    if (template.variants) {
+      setOpenMenu(openMenu === template.id ? null : template.id)
+    } else {
+      onSelectTemplate(template.command)
+    }
+  }
+
   return (
     <div className="flex flex-wrap gap-1.5 mb-2">
       {templates.map((template) => {
         const isDisabled = disabled || (template.requiresGoogle && !isGoogleConnected)
 
         return (
-          <button
-            key={template.id}
-            onClick={() => !isDisabled && onSelectTemplate(template.command)}
-            disabled={isDisabled}
-            title={
-              template.requiresGoogle && !isGoogleConnected
-                ? 'Connect Google account first'
-                : template.description
-            }
-            className={`
+          <div key={template.id} className="relative">
+            <button
+              onClick={() => !isDisabled && handleClick(template)}
+              disabled={isDisabled}
+              title={
+                template.requiresGoogle && !isGoogleConnected
+                  ? 'Connect Google account first'
+                  : template.description
+              }
+              className={`
               inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium
               transition-all duration-150
               ${
@@ -102,11 +147,29 @@ export default function TaskTemplates({
               }
               ${template.requiresGoogle ? 'ring-1 ring-inset ring-blue-500/20' : ''}
             `}
-          >
-            {template.icon}
-            <span>{template.label}</span>
-            {template.requiresGoogle && <span className="text-[10px] text-blue-400">G</span>}
-          </button>
+            >
+              {template.icon}
+              <span>{template.label}</span>
+              {template.requiresGoogle && <span className="text-[10px] text-blue-400">G</span>}
+              {template.variants && <ChevronDown className="w-3 h-3 text-slate-500" />}
+            </button>
+            {openMenu === template.id && !isDisabled && (
+              <div className="absolute bottom-full left-0 mb-1 z-20 min-w-[10rem] py-1 bg-slate-800 border border-slate-700 rounded-md shadow-lg">
+                {template.variants!.map((variant) => (
+                  <button
+                    key={variant.label}
+                    onClick={() => {
+                      setOpenMenu(null)
+                      onSelectTemplate(variant.command)
+                    }}
+                    className="block w-full px-3 py-1.5 text-left text-xs text-slate-300 hover:bg-slate-700 hover:text-slate-100"
+                  >
+                    {variant.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         )
       })}
     </div>
@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react'
+import {
+  Trash2,
+  RefreshCw,
+  RotateCcw,
+  X,
+  FolderOpen,
+  Settings,
+  ChevronDown,
+  ChevronRight,
+  ScrollText
+} from 'lucide-react'
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+function formatAge(isoDate: string): string {
+  const days = Math.floor((Date.now() - new Date(isoDate).getTime()) / (24 * 60 * 60 * 1000))
+  if (days === 0) return 'today'
+  if (days === 1) return '1 day ago'
+  return `${days} days ago`
+}
+
+const PURGE_REASON_LABELS: Record<PurgeLogEntry['reason'], string> = {
+  expired: 'Expired',
+  'over-quota': 'Over size limit',
+  manual: 'Deleted',
+  emptied: 'Trash emptied'
+}
+
+interface TrashPanelProps {
+  onRestore?: () => void
+}
+
+export default function TrashPanel({ onRestore }: TrashPanelProps): React.ReactElement {
+  const [groups, setGroups] = useState<TrashFolderGroup[]>([])
+  const [settings, setSettings] = useState<TrashRetentionSettings | null>(null)
+  const [purgeLog, setPurgeLog] = useState<PurgeLogEntry[]>([])
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [showSettings, setShowSettings] = useState(false)
+  const [showLog, setShowLog] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyPath, setBusyPath] = useState<string | null>(null)
+
+  const fetchTrash = (): Promise<void> =>
+    Promise.all([
+      window.api.trash.getGroups(),
+      window.api.trash.getSettings(),
+      window.api.trash.getPurgeLog(50)
+    ])
+      .then(([trashGroups, retention, log]) => {
+        setGroups(trashGroups)
+        setSettings(retention)
+        setPurgeLog(log)
+      })
+      .catch((err) => console.error('Failed to fetch trash:', err))
+      .finally(() => setIsLoading(false))
+
+  useEffect(() => {
+    fetchTrash()
+  }, [])
+
+  const toggleFolder = (folder: string): void => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(folder)) {
+        next.delete(folder)
+      } else {
+        next.add(folder)
+      }
+      return next
+    })
+  }
+
+  const handleRestore = async (item: TrashItem): Promise<void> => {
+    setBusyPath(item.trashPath)
+    const result = await window.api.fs.restoreFromTrash(item.trashPath)
+    if (!result.success) {
+      alert(`Could not restore ${item.name}: ${result.error}`)
+    } else {
+      onRestore?.()
+    }
+    await fetchTrash()
+    setBusyPath(null)
+  }
+
+  const handlePurge = async (item: TrashItem): Promise<void> => {
+    if (!confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) return
+    setBusyPath(item.trashPath)
+    await window.api.trash.purgeItem(item.trashPath)
+    await fetchTrash()
+    setBusyPath(null)
+  }
+
+  const handleEmpty = async (): Promise<void> => {
+    if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) return
+    setIsLoading(true)
+    await window.api.fs.emptyTrash()
+    await fetchTrash()
+  }
+
+  const handleSweep = async (): Promise<void> => {
+    setIsLoading(true)
+    await window.api.trash.sweepNow()
+    await fetchTrash()
+  }
+
+  const handleSettingChange = async (updates: Partial<TrashRetentionSettings>): Promise<void> => {
+    const updated = await window.api.trash.updateSettings(updates)
+    setSettings(updated)
+  }
+
+  const totalSize = groups.reduce((sum, g) => sum + g.totalSize, 0)
+  const totalItems = groups.reduce((sum, g) => sum + g.items.length, 0)
+
+  if (isLoading && groups.length === 0 && !settings) {
+    return (
+      <div className="p-4 text-center text-slate-500 text-sm">
+        <RefreshCw className="w-5 h-5 animate-spin mx-auto mb-2" />
+        Loading...
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-slate-700">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-slate-400">
+            <Trash2 className="w-4 h-4" />
+            <span className="font-medium text-sm">Trash</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className={`p-1 rounded hover:bg-slate-700 ${showSettings ? 'text-sky-400' : 'text-slate-500 hover:text-slate-300'}`}
+              title="Retention settings"
+            >
+              <Settings className="w-3 h-3" />
+            </button>
+            <button
+              onClick={handleSweep}
+              disabled={isLoading}
+              className="p-1 rounded hover:bg-slate-700 text-slate-500 hover:text-slate-300"
+              title="Apply retention now"
+            >
+              <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">
+          {totalItems} item{totalItems !== 1 ? 's' : ''} • {formatSize(totalSize)}
+          {settings?.enabled && settings.maxSizeMB > 0 && (
+            <span> of {formatSize(settings.maxSizeMB * 1024 * 1024)}</span>
+          )}
+        </p>
+      </div>
+
+      {showSettings && settings && (
+        <div className="p-3 border-b border-slate-700 bg-slate-900/40 space-y-2 text-xs">
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => handleSettingChange({ enabled: e.target.checked })}
+            />
+            Automatically purge old items
+          </label>
+          <label className="flex items-center justify-between text-slate-400">
+            Keep items for (days)
+            <input
+              type="number"
+              min={0}
+              value={settings.retentionDays}
+              onChange={(e) => handleSettingChange({ retentionDays: Number(e.target.value) })}
+              className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-slate-200"
+            />
+          </label>
+          <label className="flex items-center justify-between text-slate-400">
+            Size limit (MB)
+            <input
+              type="number"
+              min={0}
+              value={settings.maxSizeMB}
+              onChange={(e) => handleSettingChange({ maxSizeMB: Number(e.target.value) })}
+              className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-slate-200"
+            />
+          </label>
+          <p className="text-[10px] text-slate-500">0 means no limit</p>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {groups.length === 0 ? (
+          <div className="p-4 text-center text-slate-500 text-sm">
+            <p>Trash is empty</p>
+          </div>
+        ) : (
+          groups.map((group) => {
+            const isOpen = !collapsed.has(group.folder)
+            return (
+              <div key={group.folder} className="border-b border-slate-700/50">
+                <button
+                  onClick={() => toggleFolder(group.folder)}
+                  className="w-full px-3 py-2 flex items-center gap-2 text-left hover:bg-slate-700/30"
+                  title={group.folder}
+                >
+                  {isOpen ? (
+                    <ChevronDown className="w-3 h-3 text-slate-500" />
+                  ) : (
+                    <ChevronRight className="w-3 h-3 text-slate-500" />
+                  )}
+                  <FolderOpen className="w-3.5 h-3.5 text-sky-400 flex-shrink-0" />
+                  <span className="flex-1 text-xs text-slate-200 truncate">
+                    {group.folder.split(/[/\\]/).slice(-2).join('/')}
+                  </span>
+                  <span className="text-[10px] text-slate-500 flex-shrink-0">
+                    {group.items.length} • {formatSize(group.totalSize)}
+                  </span>
+                </button>
+
+                {isOpen &&
+                  group.items.map((item) => (
+                    <div
+                      key={item.trashPath}
+                      className="pl-8 pr-3 py-1.5 flex items-center gap-2 bg-slate-800/30 hover:bg-slate-700/30"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-slate-300 truncate" title={item.originalPath}>
+                          {item.name}
+                        </p>
+                        <p className="text-[10px] text-slate-600">
+                          {formatSize(item.size)} • {formatAge(item.deletedAt)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRestore(item)}
+                        disabled={busyPath !== null}
+                        className="p-1 rounded hover:bg-slate-600 text-slate-400 hover:text-emerald-400 disabled:opacity-50"
+                        title="Restore to original location"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(item)}
+                        disabled={busyPath !== null}
+                        className="p-1 rounded hover:bg-slate-600 text-slate-400 hover:text-red-400 disabled:opacity-50"
+                        title="Delete permanently"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            )
+          })
+        )}
+
+        {purgeLog.length > 0 && (
+          <div className="border-b border-slate-700/50">
+            <button
+              onClick={() => setShowLog(!showLog)}
+              className="w-full px-3 py-2 flex items-center gap-2 text-left text-xs text-slate-400 hover:bg-slate-700/30"
+            >
+              {showLog ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              <ScrollText className="w-3.5 h-3.5" />
+              Recent purges
+            </button>
+            {showLog &&
+              purgeLog.map((entry, i) => (
+                <div key={`${entry.trashPath}-${i}`} className="pl-8 pr-3 py-1 text-[10px]">
+                  <span className="text-slate-300">{entry.name}</span>
+                  <span className="text-slate-500">
+                    {' '}
+                    — {PURGE_REASON_LABELS[entry.reason]}, {formatSize(entry.size)},{' '}
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {groups.length > 0 && (
+        <div className="p-3 border-t border-slate-700">
+          <button
+            onClick={handleEmpty}
+            disabled={isLoading}
+            className="w-full px-3 py-2 bg-red-900/50 hover:bg-red-900 text-red-300 text-sm rounded-lg flex items-center justify-center gap-2 border border-red-800 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty Trash
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -22,6 +22,7 @@ declare global {
     success: boolean
     error?: string
     data?: unknown
+    violation?: SandboxViolation
   }
 
   interface TrashEntry {
@@ -29,6 +30,7 @@ declare global {
     trashPath: string
     deletedAt: string
     name: string
+    size?: number
   }
 
   interface ToolCall {
@@ -57,6 +59,19 @@ declare global {
     startTime: number
     sessionDuration: number
     estimatedSavings: number
+    tokensSaved: { history: number; toolResults: number }
+  }
+
+  interface PlannedStep {
+    id: string
+    tool: string
+    args: Record<string, string>
+    description: string
+  }
+
+  interface ActionPlan {
+    summary: string
+    steps: PlannedStep[]
   }
 
   interface AgentResponse {
@@ -65,17 +80,27 @@ declare global {
     error?: string
     classification?: TaskClassification
     executorUsed?: 'flash-minimal' | 'flash-high' | 'pro-high'
+    transactionId?: string
+    cancelled?: boolean
+    completedChanges?: string[]
+    plan?: ActionPlan
   }
 
   interface PendingAction {
     id: string
-    type: 'delete' | 'move' | 'rename' | 'overwrite'
+    type: 'delete' | 'move' | 'copy' | 'rename' | 'overwrite' | 'tool'
     sourcePath: string
     destinationPath?: string
     fileName: string
     fileSize: number
     reason?: string
     createdAt: string
+    watcherId?: string
+    confidence?: number
+    toolName?: string
+    toolSummary?: string
+    folder?: string
+    transfer?: 'move' | 'copy' | 'rename'
   }
 
   interface ActionResult {
@@ -92,11 +117,77 @@ declare global {
 
   // ============ Agent/Watcher Types ============
 
+  interface RuleConditions {
+    extensions?: string[]
+    glob?: string
+    minSizeBytes?: number
+    maxSizeBytes?: number
+    minAgeDays?: number
+    maxAgeDays?: number
+    nameRegex?: string
+    sourceFolder?: string
+  }
+
+  type StructuredActionType = 'move' | 'rename' | 'copy' | 'queue-delete'
+
+  type ImageType = 'receipt' | 'screenshot' | 'photo' | 'document' | 'other'
+
+  interface StructuredRule {
+    conditions: RuleConditions
+    action: StructuredActionType
+    destination?: string
+    renameTemplate?: string
+    requiresVision?: boolean
+    imageType?: ImageType
+    compiledFrom?: string
+  }
+
+  interface CompiledRule {
+    ruleId: string
+    structured?: StructuredRule
+    error?: string
+  }
+
+  interface RuleTestTarget {
+    folderPath?: string
+    filePaths?: string[]
+  }
+
+  interface RuleTestResult {
+    filePath: string
+    fileName: string
+    matchedRule: number | null
+    ruleText?: string
+    action: 'move' | 'copy' | 'delete' | 'skip' | 'error'
+    destination?: string
+    rename?: string
+    confidence: number
+    usedAI: boolean
+    usedVision: boolean
+    reasoning: string
+  }
+
+  interface RuleTestRun {
+    id: string
+    createdAt: string
+    target: RuleTestTarget
+    rules: AgentRule[]
+    results: RuleTestResult[]
+    truncated: boolean
+  }
+
   interface AgentRule {
     id: string
     text: string
     enabled: boolean
     order: number
+    structured?: StructuredRule
+  }
+
+  interface WatchFolderOptions {
+    depth: number // 0 = only files directly in the folder
+    include?: string[]
+    exclude?: string[]
   }
 
   interface AgentConfig {
@@ -105,21 +196,47 @@ declare global {
     rules: AgentRule[]
     enableActivityLog: boolean
     logPath: string
+    dryRun?: boolean
+    minConfidence?: number
+    folderOptions?: Record<string, WatchFolderOptions>
+    conflictPolicy?: ConflictPolicy
   }
 
+  // What happens when a move, copy or rename target already exists
+  type ConflictPolicy = 'skip' | 'suffix' | 'keep-newer' | 'keep-larger' | 'dedupe' | 'review'
+
+  type ConflictOutcome =
+    | 'suffixed'
+    | 'replaced'
+    | 'skipped'
+    | 'kept-existing'
+    | 'duplicate-discarded'
+    | 'needs-review'
+
   interface ActivityEntry {
     id: string
     watcherId: string
     timestamp: string
     originalName: string
     originalPath: string
-    action: 'moved' | 'renamed' | 'skipped' | 'error'
+    action:
+      | 'moved'
+      | 'renamed'
+      | 'copied'
+      | 'would-move'
+      | 'would-rename'
+      | 'would-copy'
+      | 'would-delete'
+      | 'queued'
+      | 'skipped'
+      | 'error'
     destination?: string
     newName?: string
     matchedRule?: number | null
     usedAI: boolean
     confidence?: number
     error?: string
+    conflict?: ConflictOutcome
   }
 
   interface WatcherStatus {
@@ -226,9 +343,9 @@ declare global {
     getDefaultPath: () => Promise<string>
     deleteFile: (path: string) => Promise<OperationResult>
     permanentDelete: (path: string) => Promise<OperationResult>
-    moveFile: (from: string, to: string) => Promise<OperationResult>
-    renameFile: (path: string, newName: string) => Promise<OperationResult>
-    copyFile: (from: string, to: string) => Promise<OperationResult>
+    moveFile: (from: string, to: string, policy?: ConflictPolicy) => Promise<OperationResult>
+    renameFile: (path: string, newName: string, policy?: ConflictPolicy) => Promise<OperationResult>
+    copyFile: (from: string, to: string, policy?: ConflictPolicy) => Promise<OperationResult>
     getTrash: () => Promise<TrashEntry[]>
     restoreFromTrash: (trashPath: string) => Promise<OperationResult>
     emptyTrash: () => Promise<OperationResult>
@@ -242,28 +359,20 @@ declare global {
       messages: Array<{ role: 'user' | 'assistant'; content: string }>,
       grantedFolders: string[],
       selectedFile?: string,
-      isDirectory?: boolean
+      isDirectory?: boolean,
+      planFirst?: boolean
     ) => Promise<AgentResponse>
+    runPlan: (summary: string, steps: PlannedStep[]) => Promise<AgentResponse>
+    cancel: () => Promise<boolean>
     test: () => Promise<{ success: boolean; error?: string }>
     getMetrics: () => Promise<SessionMetrics>
     resetMetrics: () => Promise<void>
-    getRecentUndoOperations: () => Promise<Array<{
-      id: string
-      type: 'move' | 'rename' | 'delete' | 'create'
-      timestamp: number
-      originalPath: string
-      newPath?: string
-      originalName?: string
-      newName?: string
-    }>>
+    getRecentUndoOperations: () => Promise<UndoOperation[]>
     undoOperation: (operationId: string) => Promise<{ success: boolean; error?: string }>
-    onUndoOperationAdded: (callback: (data: {
-      type: string
-      originalPath: string
-      newPath?: string
-    }) => void) => () => void
+    onUndoOperationAdded: (callback: (operation: UndoOperation) => void) => () => void
     onStreamChunk: (callback: (chunk: string) => void) => () => void
     onStreamEnd: (callback: (chunk: string) => void) => () => void
+    onStreamReset: (callback: () => void) => () => void
     onToolCall: (
       callback: (data: { name: string; args: Record<string, string> }) => void
     ) => () => void
@@ -272,6 +381,332 @@ declare global {
     onRoutingComplete: (callback: (classification: TaskClassification) => void) => () => void
   }
 
+  interface TrashRetentionSettings {
+    enabled: boolean
+    retentionDays: number
+    maxSizeMB: number
+  }
+
+  interface TrashItem extends TrashEntry {
+    size: number
+  }
+
+  interface TrashFolderGroup {
+    folder: string
+    items: TrashItem[]
+    totalSize: number
+  }
+
+  interface PurgeLogEntry {
+    timestamp: string
+    reason: 'expired' | 'over-quota' | 'manual' | 'emptied'
+    name: string
+    originalPath: string
+    trashPath: string
+    size: number
+    deletedAt: string
+  }
+
+  interface SweepResult {
+    purged: number
+    freedBytes: number
+    remainingBytes: number
+  }
+
+  interface TrashAPI {
+    getGroups: () => Promise<TrashFolderGroup[]>
+    purgeItem: (trashPath: string) => Promise<OperationResult>
+    getSettings: () => Promise<TrashRetentionSettings>
+    updateSettings: (updates: Partial<TrashRetentionSettings>) => Promise<TrashRetentionSettings>
+    sweepNow: () => Promise<SweepResult>
+    getPurgeLog: (limit?: number) => Promise<PurgeLogEntry[]>
+  }
+
+  interface SandboxViolation {
+    code: 'PATH_NOT_GRANTED'
+    operation: string
+    path: string
+    resolvedPath: string
+    message: string
+  }
+
+  interface SandboxAPI {
+    getRoots: () => Promise<string[]>
+    revokeRoot: (folder: string) => Promise<void>
+    onViolation: (callback: (violation: SandboxViolation) => void) => () => void
+  }
+
+  interface StorageFile {
+    name: string
+    path: string
+    size: number
+    modified: string
+    age: number
+    extension: string
+    category: string
+  }
+
+  interface StorageIndexStatus {
+    rootPath: string
+    refreshedAt: string
+    fileCount: number
+    dirsRead: number
+    dirsReused: number
+  }
+
+  interface StorageSnapshot {
+    folderPath: string
+    scannedAt: string
+    maxDepth: number
+    totalSize: number
+    totalFiles: number
+    byCategory: Record<string, number>
+    topFolders: Record<string, number>
+  }
+
+  interface GrowthEntry {
+    name: string
+    before: number
+    after: number
+    change: number
+  }
+
+  interface StorageGrowthReport {
+    folderPath: string
+    from: string
+    to: string
+    totalChange: number
+    categories: GrowthEntry[] // Biggest growth first
+    folders: GrowthEntry[] // Only folders recorded in both snapshots
+    untrackedFolders: string[] // In one snapshot's largest folders but not the other's
+  }
+  interface StorageSizeNode {
+    name: string
+    path: string
+    size: number
+    fileCount: number
+    kind: 'folder' | 'files' | 'other'
+    children?: StorageSizeNode[]
+  }
+  interface StorageAnalysis {
+    totalSize: number
+    totalFiles: number
+    folderPath: string
+    byType: { type: string; size: number; count: number; percentage: number; color: string }[]
+    largestFiles: StorageFile[]
+    oldFiles: StorageFile[]
+    oldFilesSize: number
+    suggestions: string[]
+    scannedAt: string
+    maxDepth: number
+    index: StorageIndexStatus
+    growth: StorageGrowthReport | null
+    sizeTree: StorageSizeNode
+  }
+
+  interface DuplicateGroup {
+    hash: string
+    size: number
+    files: StorageFile[] // Oldest first
+    recoverableBytes: number
+  }
+
+  interface DuplicateScan {
+    folderPath: string
+    groups: DuplicateGroup[]
+    totalRecoverable: number
+    filesScanned: number
+    filesHashed: number
+    scannedAt: string
+  }
+
+  interface SimilarImage {
+    name: string
+    path: string
+    size: number
+    modified: string
+    width: number
+    height: number
+  }
+
+  interface SimilarImageCluster {
+    id: string
+    images: SimilarImage[] // Best copy first
+    recoverableBytes: number
+  }
+
+  interface SimilarImageScan {
+    folderPath: string
+    clusters: SimilarImageCluster[]
+    totalRecoverable: number
+    imagesScanned: number
+    imagesSkipped: number
+    threshold: number
+    truncated: boolean
+    scannedAt: string
+  }
+
+  interface StorageAPI {
+    analyze: (folderPath: string, maxDepth?: number, force?: boolean) => Promise<StorageAnalysis>
+    getHistory: (folderPath: string, maxDepth?: number) => Promise<StorageSnapshot[]>
+    findDuplicates: (folderPath: string, maxDepth?: number) => Promise<DuplicateScan>
+    findSimilarImages: (
+      folderPath: string,
+      threshold?: number,
+      maxDepth?: number
+    ) => Promise<SimilarImageScan>
+    getImageThumbnail: (imagePath: string) => Promise<string | null>
+  }
+
+  type PermissionMode = 'allow' | 'ask' | 'deny'
+
+  interface PermissionPolicy {
+    tool: string
+    folder?: string
+    mode: PermissionMode
+    updatedAt: string
+  }
+
+  interface GovernedTool {
+    name: string
+    label: string
+    defaultMode: PermissionMode
+  }
+
+  interface PermissionsAPI {
+    get: () => Promise<{ tools: GovernedTool[]; policies: PermissionPolicy[] }>
+    set: (tool: string, mode: PermissionMode, folder?: string) => Promise<PermissionPolicy>
+    remove: (tool: string, folder?: string) => Promise<void>
+  }
+
+  interface FileCategory {
+    name: string
+    extensions: string[] // Lowercase, without the dot
+    color: string
+    folderName: string // Folder the organizer moves these files into
+  }
+
+  interface CategoriesAPI {
+    get: () => Promise<{ categories: FileCategory[]; fallback: string }>
+    update: (categories: FileCategory[]) => Promise<FileCategory[]>
+    reset: () => Promise<FileCategory[]>
+  }
+
+  interface ConversationMessage {
+    id: string
+    role: 'user' | 'assistant'
+    content: string
+    timestamp: string
+    toolCalls?: Array<{ name: string; args: Record<string, string> }>
+    isError?: boolean
+  }
+
+  interface Conversation {
+    id: string
+    folderPath: string
+    title: string
+    createdAt: string
+    updatedAt: string
+    messages: ConversationMessage[]
+  }
+
+  interface ConversationSummary {
+    id: string
+    folderPath: string
+    title: string
+    createdAt: string
+    updatedAt: string
+    messageCount: number
+    preview: string // Start of the last message
+  }
+
+  interface ConversationSearchHit {
+    conversationId: string
+    title: string
+    messageId: string
+    role: 'user' | 'assistant'
+    snippet: string
+    timestamp: string
+  }
+
+  interface ConversationsAPI {
+    list: (folderPath: string) => Promise<ConversationSummary[]>
+    get: (id: string) => Promise<Conversation | null>
+    save: (
+      id: string,
+      folderPath: string,
+      messages: ConversationMessage[]
+    ) => Promise<ConversationSummary>
+    rename: (id: string, title: string) => Promise<boolean>
+    delete: (id: string) => Promise<boolean>
+    search: (query: string, folderPath: string) => Promise<ConversationSearchHit[]>
+  }
+
+  interface UndoSource {
+    kind: 'session' | 'watcher'
+    id: string
+    label?: string
+  }
+
+  interface UndoOperation {
+    id: string
+    type: 'move' | 'rename' | 'copy' | 'write' | 'create' | 'trash'
+    timestamp: number
+    source: UndoSource
+    transactionId?: string
+    originalPath: string
+    newPath?: string
+    originalName?: string
+    newName?: string
+    backupPath?: string
+  }
+
+  interface UndoTransaction {
+    id: string
+    name: string
+    source: UndoSource
+    startedAt: number
+  }
+
+  interface UndoConflict {
+    operation: UndoOperation
+    reason: string
+  }
+
+  interface UndoTransactionPreview {
+    transaction: UndoTransaction
+    operations: UndoOperation[]
+    conflicts: UndoConflict[]
+  }
+
+  interface UndoTransactionResult {
+    success: boolean
+    undone: number
+    conflicts: UndoConflict[]
+    error?: string
+  }
+
+  interface UndoGroup {
+    source: UndoSource
+    startedAt: number
+    lastActivityAt: number
+    operations: UndoOperation[]
+    transactions: UndoTransaction[]
+  }
+
+  interface UndoAPI {
+    getRecent: (count?: number) => Promise<UndoOperation[]>
+    getHistory: () => Promise<UndoGroup[]>
+    undo: (operationId: string) => Promise<{ success: boolean; error?: string }>
+    previewTransaction: (transactionId: string) => Promise<UndoTransactionPreview | null>
+    undoTransaction: (
+      transactionId: string,
+      options?: { skipConflicts?: boolean }
+    ) => Promise<UndoTransactionResult>
+    clear: () => Promise<void>
+    onOperationAdded: (callback: (operation: UndoOperation) => void) => () => void
+  }
+
   interface PendingAPI {
     getAll: () => Promise<PendingAction[]>
     getCount: () => Promise<number>
@@ -281,6 +716,7 @@ declare global {
     executeOne: (actionId: string) => Promise<ActionResult>
     executeAll: () => Promise<ActionResult[]>
     executeSelected: (actionIds: string[]) => Promise<ActionResult[]>
+    approveTool: (actionId: string, scope: 'once' | 'folder' | 'always') => Promise<ActionResult>
     removeOne: (actionId: string) => Promise<boolean>
     keepAll: () => Promise<number>
     clear: () => Promise<void>
@@ -299,6 +735,15 @@ declare global {
     getAll: () => Promise<AgentConfig[]>
     getStats: (watcherId: string) => Promise<WatcherStats | null>
     updateRules: (watcherId: string, rules: AgentRule[]) => Promise<{ success: boolean }>
+    setDryRun: (watcherId: string, dryRun: boolean) => Promise<{ success: boolean }>
+    compileRules: (
+      rules: AgentRule[]
+    ) => Promise<{ success: boolean; compiled?: CompiledRule[]; error?: string }>
+    testRules: (target: RuleTestTarget, rules: AgentRule[]) => Promise<RuleTestRun>
+    saveTestFixture: (
+      run: RuleTestRun,
+      name: string
+    ) => Promise<{ success: boolean; path?: string; error?: string }>
     onReady: (callback: (watcherId: string) => void) => () => void
     onFileDetected: (
       callback: (watcherId: string, data: { path: string; name: string }) => void
@@ -367,6 +812,13 @@ declare global {
     platform: string
     fs: FileSystemAPI
     agent: AgentAPI
+    undo: UndoAPI
+    trash: TrashAPI
+    sandbox: SandboxAPI
+    permissions: PermissionsAPI
+    categories: CategoriesAPI
+    conversations: ConversationsAPI
+    storage: StorageAPI
     pending: PendingAPI
     google: GoogleAPI
     watcher: WatcherAPI
@@ -2,11 +2,49 @@ import { create } from 'zustand'
 
 // ============ Agent/Watcher Types ============
 
+export interface RuleConditions {
+  extensions?: string[]
+  glob?: string
+  minSizeBytes?: number
+  maxSizeBytes?: number
+  minAgeDays?: number
+  maxAgeDays?: number
+  nameRegex?: string
+  sourceFolder?: string
+}
+
+export type StructuredActionType = 'move' | 'rename' | 'copy' | 'queue-delete'
+
+export type ImageType = 'receipt' | 'screenshot' | 'photo' | 'document' | 'other'
+
+export interface StructuredRule {
+  conditions: RuleConditions
+  action: StructuredActionType
+  destination?: string
+  renameTemplate?: string
+  requiresVision?: boolean
+  imageType?: ImageType
+  compiledFrom?: string
+}
+
+export interface CompiledRule {
+  ruleId: string
+  structured?: StructuredRule
+  error?: string
+}
+
 export interface AgentRule {
   id: string
   text: string
   enabled: boolean
   order: number
+  structured?: StructuredRule
+}
+
+export interface WatchFolderOptions {
+  depth: number // 0 = only files directly in the folder
+  include?: string[]
+  exclude?: string[]
 }
 
 export interface AgentConfig {
@@ -16,21 +54,47 @@ export interface AgentConfig {
   rules: AgentRule[]
   enableActivityLog: boolean
   logPath: string
+  dryRun?: boolean
+  minConfidence?: number
+  folderOptions?: Record<string, WatchFolderOptions>
+  conflictPolicy?: ConflictPolicy
 }
 
+// What happens when a move, copy or rename target already exists
+export type ConflictPolicy = 'skip' | 'suffix' | 'keep-newer' | 'keep-larger' | 'dedupe' | 'review'
+
+export type ConflictOutcome =
+  | 'suffixed'
+  | 'replaced'
+  | 'skipped'
+  | 'kept-existing'
+  | 'duplicate-discarded'
+  | 'needs-review'
+
 export interface ActivityEntry {
   id: string
   watcherId: string
   timestamp: string
   originalName: string
   originalPath: string
-  action: 'moved' | 'renamed' | 'skipped' | 'error'
+  action:
+    | 'moved'
+    | 'renamed'
+    | 'copied'
+    | 'would-move'
+    | 'would-rename'
+    | 'would-copy'
+    | 'would-delete'
+    | 'queued'
+    | 'skipped'
+    | 'error'
   destination?: string
   newName?: string
   matchedRule?: number | null
   usedAI: boolean
   confidence?: number
   error?: string
+  conflict?: ConflictOutcome
 }
 
 export interface WatcherStats {
@@ -102,6 +166,23 @@ export interface AgentState {
 const MAX_WATCHERS = 5
 const MAX_ACTIVITY_PER_WATCHER = 50
 
+/**
+ * A rule counts once it has either free text or structured conditions
+ */
+export function isRuleDefined(rule: AgentRule): boolean {
+  return rule.text.trim() !== '' || !!rule.structured
+}
+
+/**
+ * Free-text rules are compiled at save time, and again if their text changed since.
+ * Structured rules the user built by hand have no source text and are left alone.
+ */
+export function needsCompile(rule: AgentRule): boolean {
+  if (!rule.text.trim()) return false
+  if (!rule.structured) return true
+  return rule.structured.compiledFrom !== undefined && rule.structured.compiledFrom !== rule.text
+}
+
 export const useAgentStore = create<AgentState>((set, get) => ({
   // Initial state
   mode: 'chat',
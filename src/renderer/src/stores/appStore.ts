@@ -77,8 +77,14 @@ export interface StorageAnalysisData {
   oldFilesSize: number
   suggestions: string[]
   scannedAt: string
+  maxDepth?: number
+  index?: StorageIndexStatus // Absent on analyses from before the storage index
+  growth?: StorageGrowthReport | null
+  sizeTree?: StorageSizeNode
 }
 
+export type StorageView = 'overview' | 'duplicates' | 'similar' | 'categories'
+
 // ============ File Highlighting Types ============
 
 export type HighlightType = 'delete' | 'new' | 'update'
@@ -108,6 +114,67 @@ export interface OrganizationResult {
     filesDeleted: number
     totalFiles: number
   }
+  preview?: OrganizationPreviewOptions // Set while nothing has moved yet
+}
+
+export interface OrganizationPreviewOptions {
+  rootPath: string
+  strategy: string
+  dateSource: string
+  includeSubfolders: boolean
+}
+
+interface PlannedFile {
+  name: string
+  path: string
+  size: number
+}
+
+// What organize_files returns; the main process' OrganizationPlan
+export interface OrganizationPlanData extends OrganizationPreviewOptions {
+  totalFiles: number
+  groups: Record<string, PlannedFile[]>
+  junkFiles: PlannedFile[]
+  uncategorized: PlannedFile[]
+  actions: { type: 'move' | 'delete'; sourcePath: string; destinationPath?: string }[]
+}
+
+/**
+ * Nest files under the folders between them and the root, folders first
+ */
+function buildFileTree(rootPath: string, files: { path: string; size: number }[]): FileNode[] {
+  const separator = rootPath.includes('\\') ? '\\' : '/'
+  const root: FileNode[] = []
+
+  for (const file of files) {
+    const parts = file.path.slice(rootPath.length).split(/[\\/]/).filter(Boolean)
+    let level = root
+    let currentPath = rootPath
+    parts.forEach((part, index) => {
+      currentPath = `${currentPath}${separator}${part}`
+      const isFile = index === parts.length - 1
+      let node = level.find((n) => n.name === part && n.isDirectory === !isFile)
+      if (!node) {
+        node = isFile
+          ? { name: part, path: currentPath, isDirectory: false, size: file.size }
+          : { name: part, path: currentPath, isDirectory: true, children: [] }
+        level.push(node)
+      }
+      level = node.children ?? []
+    })
+  }
+
+  const sortNodes = (nodes: FileNode[]): FileNode[] =>
+    nodes
+      .sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name))
+      .map((n) => (n.children ? { ...n, children: sortNodes(n.children) } : n))
+  return sortNodes(root)
+}
+
+function folderPaths(nodes: FileNode[]): string[] {
+  return nodes
+    .filter((n) => n.isDirectory)
+    .flatMap((n) => [n.path, ...folderPaths(n.children ?? [])])
 }
 
 interface AppState {
@@ -123,6 +190,8 @@ interface AppState {
   // Chat
   messages: Message[]
   isProcessing: boolean
+  activeConversationId: string | null // Saved thread the messages belong to
+  conversationsVersion: number // Bumped after each save so conversation lists reload
 
   // Tasks
   currentTask: Task | null
@@ -130,12 +199,18 @@ interface AppState {
 
   // Agent status
   isAgentReady: boolean
+  planFirst: boolean // Multi-file tasks come back as a plan to approve instead of running
+  proposedPlan: ActionPlan | null
 
   // Storage Analysis
   storageAnalysis: StorageAnalysisData | null
+  duplicateScan: DuplicateScan | null
+  similarImageScan: SimilarImageScan | null
+  storageView: StorageView
 
   // File Highlighting
   highlightedFiles: HighlightedFile[]
+  revealPath: string | null // Folder or file the file tree should open up to and scroll to
 
   // Before/After Visualization
   beforeAfterResult: OrganizationResult | null
@@ -164,6 +239,7 @@ interface AppState {
   updateLastMessage: (updates: Partial<Message>) => void
   setProcessing: (isProcessing: boolean) => void
   clearMessages: () => void
+  openConversation: (conversation: Conversation) => void
 
   // Actions - Tasks
   startTask: (description: string) => string
@@ -173,17 +249,24 @@ interface AppState {
 
   // Actions - Agent
   setAgentReady: (ready: boolean) => void
+  setPlanFirst: (planFirst: boolean) => void
+  setProposedPlan: (plan: ActionPlan | null) => void
 
   // Actions - Storage
   setStorageAnalysis: (data: StorageAnalysisData | null) => void
+  setDuplicateScan: (scan: DuplicateScan | null) => void
+  setSimilarImageScan: (scan: SimilarImageScan | null) => void
+  setStorageView: (view: StorageView) => void
 
   // Actions - Highlighting
   highlightFiles: (paths: string[], type: HighlightType, duration?: number) => void
   clearHighlights: () => void
+  revealInTree: (path: string) => void
   getHighlightType: (path: string) => HighlightType | null
 
   // Actions - Before/After
   showBeforeAfter: (result: OrganizationResult) => void
+  showOrganizationPreview: (plan: OrganizationPlanData) => void
   hideBeforeAfter: () => void
 }
 
@@ -198,11 +281,19 @@ export const useAppStore = create<AppState>((set, get) => ({
   lastSelectedPath: null,
   messages: [],
   isProcessing: false,
+  activeConversationId: null,
+  conversationsVersion: 0,
   currentTask: null,
   taskHistory: [],
   isAgentReady: false,
+  planFirst: false,
+  proposedPlan: null,
   storageAnalysis: null,
+  duplicateScan: null,
+  similarImageScan: null,
+  storageView: 'overview',
   highlightedFiles: [],
+  revealPath: null,
   beforeAfterResult: null,
 
   // Folder actions
@@ -214,6 +305,7 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   removeFolder: (path) => {
     const { folders, selectedFile } = get()
+    window.api.sandbox.revokeRoot(path).catch(console.error)
     set({
       folders: folders.filter((f) => f.path !== path),
       selectedFile: selectedFile?.path.startsWith(path) ? null : selectedFile
@@ -334,13 +426,21 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // Chat actions
   addMessage: (message) => {
-    const { messages } = get()
+    const { messages, folders } = get()
     const newMessage: Message = {
       ...message,
       id: generateId(),
       timestamp: new Date().toISOString()
     }
-    set({ messages: [...messages, newMessage] })
+    // The first message starts a saved conversation for the working folder
+    const conversationId = get().activeConversationId ?? `conv-${Date.now()}-${generateId()}`
+    const updatedMessages = [...messages, newMessage]
+    set({ messages: updatedMessages, activeConversationId: conversationId })
+
+    window.api.conversations
+      .save(conversationId, folders[0]?.path ?? '', updatedMessages)
+      .then(() => set({ conversationsVersion: get().conversationsVersion + 1 }))
+      .catch((err) => console.error('Failed to save conversation:', err))
   },
 
   updateLastMessage: (updates) => {
@@ -356,7 +456,18 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   setProcessing: (isProcessing) => set({ isProcessing }),
 
-  clearMessages: () => set({ messages: [] }),
+  // Starts a new thread; the previous one stays saved
+  clearMessages: () => set({ messages: [], activeConversationId: null, proposedPlan: null }),
+
+  openConversation: (conversation) =>
+    set({
+      messages: conversation.messages.map((m) => ({
+        ...m,
+        toolCalls: m.toolCalls?.map((call) => ({ ...call, result: null }))
+      })),
+      activeConversationId: conversation.id,
+      proposedPlan: null
+    }),
 
   // Task actions
   startTask: (description) => {
@@ -418,9 +529,14 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // Agent actions
   setAgentReady: (ready) => set({ isAgentReady: ready }),
+  setPlanFirst: (planFirst) => set({ planFirst }),
+  setProposedPlan: (plan) => set({ proposedPlan: plan }),
 
   // Storage actions
   setStorageAnalysis: (data) => set({ storageAnalysis: data }),
+  setDuplicateScan: (scan) => set({ duplicateScan: scan }),
+  setSimilarImageScan: (scan) => set({ similarImageScan: scan }),
+  setStorageView: (view) => set({ storageView: view }),
 
   // Highlighting actions
   highlightFiles: (paths, type, duration = 3000) => {
@@ -450,6 +566,11 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   clearHighlights: () => set({ highlightedFiles: [] }),
 
+  revealInTree: (path) => {
+    set({ revealPath: path })
+    get().highlightFiles([path], 'update', 2000)
+  },
+
   getHighlightType: (path) => {
     const { highlightedFiles } = get()
     const now = Date.now()
@@ -459,5 +580,36 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // Before/After actions
   showBeforeAfter: (result) => set({ beforeAfterResult: result }),
+  showOrganizationPreview: (plan) => {
+    const planned = [...Object.values(plan.groups).flat(), ...plan.uncategorized, ...plan.junkFiles]
+    const moves = plan.actions.filter((a) => a.type === 'move' && a.destinationPath)
+    const destinations = new Map(moves.map((a) => [a.sourcePath, a.destinationPath!]))
+
+    const before = buildFileTree(plan.rootPath, planned)
+    const after = buildFileTree(
+      plan.rootPath,
+      planned.map((f) => ({ path: destinations.get(f.path) ?? f.path, size: f.size }))
+    )
+    const existingFolders = new Set(folderPaths(before))
+
+    set({
+      beforeAfterResult: {
+        before,
+        after,
+        stats: {
+          filesMoved: moves.length,
+          foldersCreated: folderPaths(after).filter((p) => !existingFolders.has(p)).length,
+          filesDeleted: plan.junkFiles.length,
+          totalFiles: plan.totalFiles
+        },
+        preview: {
+          rootPath: plan.rootPath,
+          strategy: plan.strategy,
+          dateSource: plan.dateSource,
+          includeSubfolders: plan.includeSubfolders
+        }
+      }
+    })
+  },
   hideBeforeAfter: () => set({ beforeAfterResult: null })
 }))